@@ -0,0 +1,117 @@
+/**
+ * Build the offline card-art index
+ *
+ * Downloads every card image once, computes the perceptual hash of its art
+ * and writes the index file that Backup → "Import index" reads. With the
+ * index imported, the scanner's image assist compares art without fetching
+ * any images (and without the CORS proxy).
+ *
+ * Run:
+ *   npx tsx scripts/build-hash-index.ts [options]
+ *
+ * Options:
+ *   --cards <file>   Card database as RawCard[] JSON (default: fetch from Lorcast)
+ *   --set <code>     Only index one set (default: all)
+ *   --out <file>     Where to write the index (default: lorcana_card_art_index.json)
+ */
+
+import { readFile, writeFile } from 'node:fs/promises'
+import type { Card, CardHash, RawCard } from '../src/types'
+import { parseCards } from '../src/utils/card-parser'
+import { fetchCardDatabase } from '../src/api/lorcast'
+import { perceptualHash } from '../src/utils/image-hash'
+import { cardHashKey, createHashIndexFile } from '../src/utils/hash-index'
+
+/** Images fetched at once — polite to the image host. */
+const CONCURRENCY = 4
+
+interface Options {
+  cardsFile: string | null
+  setFilter: string
+  out: string
+}
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { cardsFile: null, setFilter: 'all', out: 'lorcana_card_art_index.json' }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!
+    if (arg === '--cards') opts.cardsFile = argv[++i] ?? null
+    else if (arg === '--set') opts.setFilter = argv[++i] ?? 'all'
+    else if (arg === '--out') opts.out = argv[++i] ?? opts.out
+    else throw new Error(`Unknown option ${arg}\nUsage: npx tsx scripts/build-hash-index.ts [--cards file] [--set code] [--out file]`)
+  }
+  return opts
+}
+
+async function loadCards(cardsFile: string | null): Promise<Card[]> {
+  if (cardsFile) {
+    const raw: RawCard[] = JSON.parse(await readFile(cardsFile, 'utf8'))
+    return parseCards(raw)
+  }
+  const { data } = await fetchCardDatabase()
+  if (!data) throw new Error('Could not fetch the card database — pass --cards <file> to run offline')
+  return parseCards(data)
+}
+
+type Sharp = typeof import('sharp')
+
+async function loadSharp(): Promise<Sharp> {
+  try {
+    return (await import('sharp')).default
+  } catch {
+    throw new Error('sharp is needed to decode card images — npm install --no-save sharp')
+  }
+}
+
+/** Fetch one card image and hash its art. Node has no CORS, so no proxy is needed. */
+async function hashCard(sharp: Sharp, card: Card): Promise<string> {
+  const res = await fetch(card.imageUrl)
+  if (!res.ok) throw new Error(`HTTP ${res.status}`)
+  const bytes = Buffer.from(await res.arrayBuffer())
+  const { data, info } = await sharp(bytes).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  return perceptualHash(new Uint8ClampedArray(data), info.width, info.height)
+}
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2))
+  const sharp = await loadSharp()
+  const all = await loadCards(opts.cardsFile)
+  const cards = all.filter((c) => c.imageUrl && (opts.setFilter === 'all' || c.setCode === opts.setFilter))
+  console.log(`Hashing ${cards.length} cards (set filter: ${opts.setFilter})`)
+
+  const entries: CardHash[] = []
+  const failed: string[] = []
+  let next = 0
+  let done = 0
+
+  const runWorker = async () => {
+    while (next < cards.length) {
+      const card = cards[next++]!
+      try {
+        const hash = await hashCard(sharp, card)
+        entries.push({ key: cardHashKey(card), setCode: card.setCode, cn: card.cn, hash })
+      } catch (err) {
+        failed.push(`${card.setCode}/${card.cn} ${card.display}: ${err}`)
+      }
+      done++
+      if (done % 50 === 0 || done === cards.length) console.log(`  ${done}/${cards.length}`)
+    }
+  }
+  await Promise.all(Array.from({ length: CONCURRENCY }, runWorker))
+
+  // Stable order so rebuilding an unchanged set gives an identical file
+  entries.sort((a, b) => a.setCode.localeCompare(b.setCode) || a.cn.localeCompare(b.cn, undefined, { numeric: true }))
+  await writeFile(opts.out, JSON.stringify(createHashIndexFile(entries)))
+  console.log(`\nWrote ${entries.length} hashes to ${opts.out}`)
+
+  if (failed.length > 0) {
+    console.log(`\n${failed.length} cards could not be hashed:`)
+    failed.forEach((f) => console.log(`  ✗ ${f}`))
+    process.exitCode = 1
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
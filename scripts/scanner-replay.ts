@@ -0,0 +1,341 @@
+/**
+ * Scanner Replay Harness
+ *
+ * Runs the scanner's recognition pipeline over a folder of saved frames and
+ * scores it against ground truth, so a change to preprocessing, OCR or the
+ * matcher can be measured before it ships instead of by holding cards up to
+ * a phone.
+ *
+ * The folder needs a manifest.json listing every frame and the card in it:
+ *
+ *   [
+ *     { "file": "pacha-cn.jpg", "setCode": "7", "cn": "102" },
+ *     { "file": "tilted.jpg", "setCode": "1", "cn": "69", "kind": "frame" }
+ *   ]
+ *
+ * `kind` says what the image holds:
+ *   - "cn" (default) — the collector number crop, as saved by the debug
+ *     capture's "Collector Number Region" or the diagnostics export
+ *   - "frame" — a full camera frame; the card is found and warped upright
+ *     first, as the scanner does
+ *
+ * Per frame this runs: (detect + warp) → CN crop → 2x upscale →
+ * preprocessPixels → Tesseract → parseCollectorNumber →
+ * matchCardByCollectorNumber. Ink detection and multi-frame voting are not
+ * replayed — each frame is scored on its own read.
+ *
+ * Run:
+ *   npx tsx scripts/scanner-replay.ts <frames-dir> [options]
+ *
+ * Options:
+ *   --cards <file>          Card database as RawCard[] JSON (default: fetch from Lorcast)
+ *   --set <code>            Set filter, as chosen in the app (default: all)
+ *   --min-accuracy <0-1>    Exit with status 1 when accuracy falls below this
+ *   --strategy <name>       CN preprocessing strategy: otsu (default), sauvola,
+ *                           stretch, sharpen or deskew — see preprocess-ocr.ts
+ *   --verbose               Print every frame's result
+ */
+
+import { readFile } from 'node:fs/promises'
+import path from 'node:path'
+import Tesseract from 'tesseract.js'
+import type { Card, RawCard } from '../src/types'
+import { parseCards } from '../src/utils/card-parser'
+import { fetchCardDatabase } from '../src/api/lorcast'
+import { preprocessPixels } from '../src/utils/preprocess-ocr'
+import type { OcrStrategy } from '../src/utils/preprocess-ocr'
+import { OCR_STRATEGIES } from '../src/utils/ocr-strategy'
+import { parseCollectorNumber } from '../src/utils/collector-number-parser'
+import { matchCardByCollectorNumber } from '../src/utils/card-cn-matcher'
+import {
+  detectCardQuad,
+  warpPerspective,
+  CARD_WIDTH,
+  CARD_HEIGHT,
+  CARD_CN_TOP,
+  CARD_CN_HEIGHT,
+  type PixelBuffer,
+} from '../src/utils/card-detector'
+
+/** Same as OCR_UPSCALE in frame-pipeline.ts. */
+const OCR_UPSCALE = 2
+
+/** Frames are downscaled to this longest side before card detection, as in frame-pipeline.ts. */
+const DETECT_MAX_SIDE = 360
+
+interface ManifestEntry {
+  file: string
+  setCode: string
+  cn: string
+  kind?: 'cn' | 'frame'
+}
+
+type Outcome = 'correct' | 'wrong' | 'ambiguous' | 'no-match' | 'no-read' | 'no-card' | 'error'
+
+interface FrameResult {
+  entry: ManifestEntry
+  outcome: Outcome
+  /** "setCode/cn" the pipeline settled on, when it picked one card */
+  got: string | null
+  ocrText: string
+  confidence: number
+  timings: Record<Stage, number>
+}
+
+type Stage = 'decode' | 'detect' | 'preprocess' | 'ocr' | 'match' | 'total'
+const STAGES: Stage[] = ['decode', 'detect', 'preprocess', 'ocr', 'match', 'total']
+
+interface Options {
+  dir: string
+  cardsFile: string | null
+  setFilter: string
+  minAccuracy: number | null
+  strategy: OcrStrategy
+  verbose: boolean
+}
+
+function parseArgs(argv: string[]): Options {
+  const opts: Options = { dir: '', cardsFile: null, setFilter: 'all', minAccuracy: null, strategy: 'otsu', verbose: false }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!
+    if (arg === '--cards') opts.cardsFile = argv[++i] ?? null
+    else if (arg === '--set') opts.setFilter = argv[++i] ?? 'all'
+    else if (arg === '--min-accuracy') opts.minAccuracy = Number(argv[++i])
+    else if (arg === '--strategy') {
+      const strategy = argv[++i] as OcrStrategy
+      if (!OCR_STRATEGIES.includes(strategy)) throw new Error(`Unknown strategy ${strategy} (${OCR_STRATEGIES.join(', ')})`)
+      opts.strategy = strategy
+    } else if (arg === '--verbose') opts.verbose = true
+    else if (!arg.startsWith('--')) opts.dir = arg
+    else throw new Error(`Unknown option ${arg}`)
+  }
+  if (!opts.dir) throw new Error('Usage: npx tsx scripts/scanner-replay.ts <frames-dir> [--cards file] [--set code] [--min-accuracy 0.9] [--strategy otsu] [--verbose]')
+  return opts
+}
+
+// ── Card database ─────────────────────────────────────────────────
+
+async function loadCards(cardsFile: string | null): Promise<Card[]> {
+  if (cardsFile) {
+    const raw: RawCard[] = JSON.parse(await readFile(cardsFile, 'utf8'))
+    return parseCards(raw)
+  }
+  const { data } = await fetchCardDatabase()
+  if (!data) throw new Error('Could not fetch the card database — pass --cards <file> to run offline')
+  return parseCards(data)
+}
+
+// ── Image helpers (sharp, no canvas needed) ───────────────────────
+
+type Sharp = typeof import('sharp')
+
+async function loadSharp(): Promise<Sharp> {
+  try {
+    return (await import('sharp')).default
+  } catch {
+    throw new Error('sharp is needed to decode frames — npm install --no-save sharp')
+  }
+}
+
+async function decode(sharp: Sharp, file: string): Promise<PixelBuffer> {
+  const { data, info } = await sharp(file).ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  return { data: new Uint8ClampedArray(data), width: info.width, height: info.height }
+}
+
+async function resize(sharp: Sharp, img: PixelBuffer, width: number, height: number): Promise<PixelBuffer> {
+  const data = await sharp(Buffer.from(img.data), { raw: { width: img.width, height: img.height, channels: 4 } })
+    .resize(width, height, { fit: 'fill', kernel: 'linear' })
+    .raw()
+    .toBuffer()
+  return { data: new Uint8ClampedArray(data), width, height }
+}
+
+function crop(img: PixelBuffer, x: number, y: number, w: number, h: number): PixelBuffer {
+  const out = new Uint8ClampedArray(w * h * 4)
+  for (let row = 0; row < h; row++) {
+    const start = ((y + row) * img.width + x) * 4
+    out.set(img.data.subarray(start, start + w * 4), row * w * 4)
+  }
+  return { data: out, width: w, height: h }
+}
+
+/** Find the card in a full frame and return its upright CN line, or null. */
+async function cnFromFrame(sharp: Sharp, frame: PixelBuffer): Promise<PixelBuffer | null> {
+  const scale = Math.min(1, DETECT_MAX_SIDE / Math.max(frame.width, frame.height))
+  const small = scale < 1
+    ? await resize(sharp, frame, Math.round(frame.width * scale), Math.round(frame.height * scale))
+    : frame
+  const detection = detectCardQuad(small)
+  if (!detection) return null
+  const quad = detection.quad.map((p) => ({ x: p.x / scale, y: p.y / scale })) as typeof detection.quad
+  const card = warpPerspective(frame, quad, CARD_WIDTH, CARD_HEIGHT)
+  const top = Math.floor(CARD_CN_TOP * CARD_HEIGHT)
+  return crop(card, 0, top, CARD_WIDTH, Math.floor(CARD_CN_HEIGHT * CARD_HEIGHT))
+}
+
+// ── Replay ────────────────────────────────────────────────────────
+
+async function replayFrame(
+  sharp: Sharp,
+  worker: Tesseract.Worker,
+  dir: string,
+  entry: ManifestEntry,
+  cards: Card[],
+  setFilter: string,
+  strategy: OcrStrategy,
+): Promise<FrameResult> {
+  const timings = Object.fromEntries(STAGES.map((s) => [s, 0])) as Record<Stage, number>
+  const result: FrameResult = { entry, outcome: 'error', got: null, ocrText: '', confidence: 0, timings }
+  const start = performance.now()
+  let mark = start
+  const lap = (stage: Stage) => {
+    const now = performance.now()
+    timings[stage] = now - mark
+    mark = now
+  }
+
+  const image = await decode(sharp, path.join(dir, entry.file))
+  lap('decode')
+
+  let cnRegion: PixelBuffer | null = image
+  if (entry.kind === 'frame') {
+    cnRegion = await cnFromFrame(sharp, image)
+    lap('detect')
+    if (!cnRegion) {
+      result.outcome = 'no-card'
+      timings.total = performance.now() - start
+      return result
+    }
+  }
+
+  const upscaled = await resize(sharp, cnRegion, cnRegion.width * OCR_UPSCALE, cnRegion.height * OCR_UPSCALE)
+  preprocessPixels(upscaled.data, upscaled.width, upscaled.height, strategy)
+  const png = await sharp(Buffer.from(upscaled.data), {
+    raw: { width: upscaled.width, height: upscaled.height, channels: 4 },
+  }).png().toBuffer()
+  lap('preprocess')
+
+  const { data } = await worker.recognize(png)
+  result.ocrText = data.text.trim()
+  result.confidence = data.confidence
+  lap('ocr')
+
+  const parsed = parseCollectorNumber(result.ocrText)
+  if (!parsed) {
+    result.outcome = 'no-read'
+  } else {
+    const match = matchCardByCollectorNumber(parsed.cn, cards, setFilter, parsed.total, null, [], parsed.setNumber)
+    const expected = `${entry.setCode}/${entry.cn}`
+    if (match.card) {
+      result.got = `${match.card.setCode}/${match.card.cn}`
+      result.outcome = result.got === expected ? 'correct' : 'wrong'
+    } else if (match.candidates.length > 0) {
+      const includesTruth = match.candidates.some((c) => `${c.setCode}/${c.cn}` === expected)
+      result.outcome = includesTruth ? 'ambiguous' : 'wrong'
+      if (!includesTruth) result.got = `${match.candidates[0]!.setCode}/${match.candidates[0]!.cn}`
+    } else {
+      result.outcome = 'no-match'
+    }
+  }
+  lap('match')
+
+  timings.total = performance.now() - start
+  return result
+}
+
+// ── Report ────────────────────────────────────────────────────────
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]!
+}
+
+const pct = (n: number, total: number) => (total === 0 ? '-' : `${((n / total) * 100).toFixed(1)}%`)
+
+function report(results: FrameResult[]): number {
+  const total = results.length
+  const counts: Record<string, number> = {}
+  results.forEach((r) => {
+    counts[r.outcome] = (counts[r.outcome] ?? 0) + 1
+  })
+  const correct = counts.correct ?? 0
+
+  console.log(`\n${'═'.repeat(70)}`)
+  console.log(`ACCURACY  ${correct}/${total}  (${pct(correct, total)})`)
+  console.log('═'.repeat(70))
+  ;(['correct', 'ambiguous', 'wrong', 'no-match', 'no-read', 'no-card', 'error'] as Outcome[]).forEach((o) => {
+    if (counts[o]) console.log(`  ${o.padEnd(10)} ${String(counts[o]).padStart(5)}  ${pct(counts[o]!, total)}`)
+  })
+
+  const confusions: Record<string, number> = {}
+  results.forEach((r) => {
+    if (r.outcome !== 'wrong' || !r.got) return
+    const pair = `${r.entry.setCode}/${r.entry.cn} → ${r.got}`
+    confusions[pair] = (confusions[pair] ?? 0) + 1
+  })
+  const pairs = Object.entries(confusions).sort((a, b) => b[1] - a[1])
+  console.log(`\nCONFUSION PAIRS (expected → got)`)
+  if (pairs.length === 0) console.log('  none')
+  pairs.slice(0, 20).forEach(([pair, n]) => console.log(`  ${String(n).padStart(4)}×  ${pair}`))
+
+  console.log(`\nLATENCY (ms)      mean     p50     p95     max`)
+  STAGES.forEach((stage) => {
+    const times = results.map((r) => r.timings[stage]).filter((t) => t > 0).sort((a, b) => a - b)
+    if (times.length === 0) return
+    const mean = times.reduce((s, t) => s + t, 0) / times.length
+    const cols = [mean, percentile(times, 0.5), percentile(times, 0.95), times[times.length - 1]!]
+    console.log(`  ${stage.padEnd(12)}${cols.map((t) => t.toFixed(0).padStart(8)).join('')}`)
+  })
+
+  return total === 0 ? 0 : correct / total
+}
+
+// ── Main ──────────────────────────────────────────────────────────
+
+async function main() {
+  const opts = parseArgs(process.argv.slice(2))
+  const manifest: ManifestEntry[] = JSON.parse(await readFile(path.join(opts.dir, 'manifest.json'), 'utf8'))
+  const sharp = await loadSharp()
+  const cards = await loadCards(opts.cardsFile)
+  console.log(`Replaying ${manifest.length} frames against ${cards.length} cards (set filter: ${opts.setFilter}, strategy: ${opts.strategy})\n`)
+
+  // Same worker configuration as src/utils/ocr-worker.ts
+  const worker = await Tesseract.createWorker('eng', Tesseract.OEM.LSTM_ONLY, { legacyCore: false, legacyLang: false })
+  await worker.setParameters({ tessedit_pageseg_mode: Tesseract.PSM.SINGLE_BLOCK })
+
+  const results: FrameResult[] = []
+  try {
+    for (const entry of manifest) {
+      let result: FrameResult
+      try {
+        result = await replayFrame(sharp, worker, opts.dir, entry, cards, opts.setFilter, opts.strategy)
+      } catch (err) {
+        console.log(`  ✗ ${entry.file}: ${err}`)
+        const timings = Object.fromEntries(STAGES.map((s) => [s, 0])) as Record<Stage, number>
+        result = { entry, outcome: 'error', got: null, ocrText: '', confidence: 0, timings }
+      }
+      results.push(result)
+      if (opts.verbose) {
+        const mark = result.outcome === 'correct' ? '✓' : '✗'
+        const text = result.ocrText.replace(/\s+/g, ' ').slice(0, 40)
+        console.log(
+          `  ${mark} ${entry.file.padEnd(28)} ${result.outcome.padEnd(10)} ` +
+            `${result.got ?? '-'}  "${text}" (${result.confidence.toFixed(0)}%)`,
+        )
+      }
+    }
+  } finally {
+    await worker.terminate()
+  }
+
+  const accuracy = report(results)
+  if (opts.minAccuracy !== null && accuracy < opts.minAccuracy) {
+    console.log(`\nAccuracy ${(accuracy * 100).toFixed(1)}% is below the required ${(opts.minAccuracy * 100).toFixed(1)}%`)
+    process.exitCode = 1
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err)
+  process.exitCode = 1
+})
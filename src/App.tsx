@@ -1,9 +1,10 @@
 import { useState, useEffect, useCallback, useMemo } from 'react'
-import type { Card, RawCard, CardSource } from './types'
+import type { Card, CardCondition, CardVariant, RawCard, CardSource, VariantDetails } from './types'
 import { parseCards } from './utils/card-parser'
 import { fetchCardDatabase } from './api/lorcast'
 import { useSession } from './hooks/useSession'
 import { usePulls } from './hooks/usePulls'
+import { useLocalisedNames } from './hooks/useLocalisedNames'
 import { useSearch } from './hooks/useSearch'
 import { useUI } from './hooks/useUI'
 import { useSensory } from './hooks/useSensory'
@@ -12,11 +13,25 @@ import { useExportHistory } from './hooks/useExportHistory'
 import { useRelativeTime } from './hooks/useRelativeTime'
 import { useSets } from './hooks/useSets'
 import { useScanner } from './hooks/useScanner'
+import { useImageAssist } from './hooks/useImageAssist'
 import { useTelemetry } from './hooks/useTelemetry'
+import { useCollection } from './hooks/useCollection'
+import { usePacks } from './hooks/usePacks'
+import { firstPackByKey } from './utils/packs'
+import { pullKey } from './utils/card-language'
+import { RARITY_ORDER } from './constants'
 import { Header } from './components/Header'
 import { SearchView } from './components/SearchView'
 import { ExportView } from './components/ExportView'
 import { HistoryView } from './components/HistoryView'
+import { CollectionView } from './components/CollectionView'
+import { SetCompletionView } from './components/SetCompletionView'
+import { ImportView } from './components/ImportView'
+import { BackupView } from './components/BackupView'
+import { PacksView } from './components/PacksView'
+import { StatsView } from './components/StatsView'
+import type { ImportTarget } from './components/ImportView'
+import type { ImportedPull } from './importers'
 import { MobileBottomBar } from './components/MobileBottomBar'
 import { UndoToast } from './components/UndoToast'
 import { DebugOverlay } from './components/DebugOverlay'
@@ -26,7 +41,10 @@ export function App() {
   // === Card database ===
   const [cardData, setCardData] = useState<RawCard[] | null>(null)
   const [cardSource, setCardSource] = useState<CardSource>('')
-  const cards = useMemo(() => parseCards(cardData), [cardData])
+  const parsedCards = useMemo(() => parseCards(cardData), [cardData])
+  // Non-English names, fetched the first time a language is used
+  const localisedNames = useLocalisedNames(parsedCards)
+  const cards = localisedNames.cards
 
   // Fetch cards on mount
   useEffect(() => {
@@ -41,14 +59,38 @@ export function App() {
   // === Hooks ===
   const sets = useSets()
   const session = useSession()
-  const pulls = usePulls()
+  const pulls = usePulls(session.sessionId)
+  const packs = usePacks(session.sessionId)
   const search = useSearch(cards)
+  const { loadLanguage } = localisedNames
+  useEffect(() => {
+    loadLanguage(search.language)
+  }, [search.language, loadLanguage])
   const ui = useUI()
   const sensory = useSensory()
   const undo = useUndo()
   const exportHistory = useExportHistory()
+  const collection = useCollection()
   const relativeTime = useRelativeTime(session.sessionStartedAt)
 
+  // The undo toast refers to the session it was logged in
+  const { clearUndo } = undo
+  useEffect(() => {
+    clearUndo()
+  }, [session.sessionId, clearUndo])
+
+  // Pack numbers follow the stored packs, so undo and moves are reflected
+  const sessionPulls = useMemo(() => {
+    const firstPack = firstPackByKey(packs.packs)
+    return pulls.pulls.map((p) => ({ ...p, packNumber: firstPack[p.key] ?? p.packNumber }))
+  }, [pulls.pulls, packs.packs])
+
+  // Credited as the first-pulled session for new collection entries
+  const collectionSource = useMemo(
+    () => ({ sessionId: session.sessionId, sessionName: session.sessionName }),
+    [session.sessionId, session.sessionName],
+  )
+
   // === Camera scanner ===
   const cameraSupported = typeof navigator !== 'undefined'
     && typeof navigator.mediaDevices !== 'undefined'
@@ -56,18 +98,40 @@ export function App() {
 
   // handleScanMatch is defined after handleAddCard, so we use a ref-based approach
   // by passing the callback directly — useScanner stores it in a ref internally
+  // Names don't matter to the art index, so it isn't rebuilt when they load
+  const imageAssist = useImageAssist(parsedCards, search.setFilter)
   const scanner = useScanner({
     cards,
     setFilter: search.setFilter,
-    onCardMatched: useCallback((card: Card, variant: 'normal' | 'foil') => {
+    imageDB: imageAssist.imageDB,
+    hashIndex: imageAssist.hashIndex,
+    onCardMatched: useCallback((card: Card, variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => {
       // Ensure session has started
       session.ensureSessionStarted()
-      const addCount = session.incrementAddCount()
-      const packNumber = Math.ceil(addCount / 12)
-      pulls.addPull(card, variant, packNumber)
-      undo.recordAction(card, variant)
+      const { packNumber, closed } = packs.addCard(pullKey(card, variant, details))
+      pulls.addPull(card, variant, packNumber, details, condition)
+      collection.adjustCollection(card, variant, 1, collectionSource, details)
+      undo.recordAction(card, variant, packNumber, closed, details, condition)
       sensory.triggerFeedback(card.rarity)
-    }, [session, pulls, undo, sensory]),
+    }, [session, packs, pulls, collection, collectionSource, undo, sensory]),
+    onPageMatched: useCallback((entries: { card: Card; variant: CardVariant }[]) => {
+      session.ensureSessionStarted()
+      const copies = entries.map(({ card, variant }) => {
+        const { packNumber, closed } = packs.addCard(pullKey(card, variant))
+        pulls.addPull(card, variant, packNumber)
+        collection.adjustCollection(card, variant, 1, collectionSource)
+        return { card, variant, packNumber, closedPack: closed }
+      })
+      // The page went in as one step, so one Undo takes all of it back
+      undo.recordPage(copies)
+      // One cue for the whole page, for its rarest card
+      const rarest = entries.reduce<Card | null>(
+        (best, { card }) =>
+          !best || RARITY_ORDER.indexOf(card.rarity) > RARITY_ORDER.indexOf(best.rarity) ? card : best,
+        null,
+      )
+      if (rarest) sensory.triggerFeedback(rarest.rarity)
+    }, [session, packs, pulls, collection, collectionSource, undo, sensory]),
   })
 
   // === Telemetry ===
@@ -80,19 +144,19 @@ export function App() {
 
   // === Core actions ===
   const handleAddCard = useCallback(
-    (card: Card, variant: 'normal' | 'foil', closeSearch = true) => {
+    (card: Card, variant: CardVariant, closeSearch = true) => {
       // Ensure session has started
       session.ensureSessionStarted()
 
-      // Increment counter and get pack number
-      const addCount = session.incrementAddCount()
-      const packNumber = Math.ceil(addCount / 12)
+      // Log the copy into the open pack
+      const { packNumber, closed } = packs.addCard(pullKey(card, variant))
 
-      // Add to pull list
+      // Add to pull list and the running collection
       pulls.addPull(card, variant, packNumber)
+      collection.adjustCollection(card, variant, 1, collectionSource)
 
       // Record for undo
-      undo.recordAction(card, variant)
+      undo.recordAction(card, variant, packNumber, closed)
 
       // Trigger sensory feedback
       sensory.triggerFeedback(card.rarity)
@@ -103,15 +167,38 @@ export function App() {
         search.refocusInput()
       }
     },
-    [session, pulls, undo, sensory, search],
+    [session, packs, pulls, collection, collectionSource, undo, sensory, search],
   )
 
   const handleUndo = useCallback(() => {
     if (!undo.lastActionRef.current) return
-    const action = undo.lastActionRef.current
-    pulls.updateCount(action.key, -1)
+    // Latest copy first, so packs reopen in the reverse of the order they closed
+    ;[...undo.lastActionRef.current.copies].reverse().forEach((copy) => {
+      pulls.updateCount(copy.key, -1, copy.condition)
+      // Take the copy out of the pack it went into, and reopen that pack if the add closed it
+      packs.removeCopy(copy.key, copy.packNumber)
+      if (copy.closedPack) packs.reopen(copy.packNumber)
+      collection.adjustCollection(copy.card, copy.variant, -1, collectionSource, copy.details)
+    })
     undo.clearUndo()
-  }, [undo, pulls])
+  }, [undo, pulls, packs, collection, collectionSource])
+
+  // Manual count corrections in the pull list are mirrored into the collection
+  const handleUpdateCount = useCallback(
+    (key: string, delta: number) => {
+      const pull = pulls.pulls.find((p) => p.key === key)
+      pulls.updateCount(key, delta)
+      if (delta > 0) {
+        for (let i = 0; i < delta; i++) packs.addCard(key)
+      } else {
+        for (let i = 0; i < -delta; i++) packs.removeCopy(key)
+      }
+      if (pull) {
+        collection.adjustCollection(pull.card, pull.variant, Math.max(delta, -pull.count), collectionSource, pull.details)
+      }
+    },
+    [pulls, packs, collection, collectionSource],
+  )
 
   const handleKeyDown = useCallback(
     (ev: React.KeyboardEvent<HTMLInputElement>) => {
@@ -135,34 +222,57 @@ export function App() {
   const handleClearAll = useCallback(() => {
     session.clearSession()
     pulls.clearPulls()
+    packs.clearPacks()
     ui.setConfirmClear(false)
     search.clearSearch()
-  }, [session, pulls, ui, search])
+  }, [session, pulls, packs, ui, search])
 
   const handleRemovePull = useCallback(
     (key: string) => {
+      const pull = pulls.pulls.find((p) => p.key === key)
       ui.animateRemove(key, () => {
         pulls.removePull(key)
+        packs.removeAll(key)
+        if (pull) collection.adjustCollection(pull.card, pull.variant, -pull.count, collectionSource, pull.details)
       })
     },
-    [ui, pulls],
+    [ui, pulls, packs, collection, collectionSource],
   )
 
   const handleExportDownload = useCallback(() => {
-    exportHistory.handleDownload(pulls.pulls, session.sessionName)
-    // Clear session pulls after successful download so the next session starts clean
-    session.clearSession()
-    pulls.clearPulls()
+    exportHistory.handleDownload(sessionPulls, packs.packs, session.sessionName, session.sessionId)
     ui.setView('search')
-  }, [exportHistory, pulls.pulls, session, pulls, ui])
+  }, [exportHistory, sessionPulls, packs, session, ui])
 
   const handleExportCopy = useCallback(() => {
-    exportHistory.handleCopy(pulls.pulls, session.sessionName)
-    // Clear session pulls after successful copy so the next session starts clean
-    session.clearSession()
-    pulls.clearPulls()
+    exportHistory.handleCopy(sessionPulls, packs.packs, session.sessionName, session.sessionId)
     ui.setView('search')
-  }, [exportHistory, pulls.pulls, session, pulls, ui])
+  }, [exportHistory, sessionPulls, packs, session, ui])
+
+  // Imported rows go into the session (and so the collection, like any
+  // logged card) or straight into the collection only
+  const handleImport = useCallback(
+    (target: ImportTarget, imported: ImportedPull[], filename: string) => {
+      if (target === 'session') {
+        session.ensureSessionStarted()
+        packs.importCopies(
+          imported.map((p) => ({
+            key: pullKey(p.card, p.variant, p.details),
+            count: p.count,
+            packNumber: p.packNumber,
+          })),
+        )
+        pulls.mergePulls(imported.map((p) => ({ ...p, packNumber: p.packNumber ?? 0 })))
+        imported.forEach((p) => collection.adjustCollection(p.card, p.variant, p.count, collectionSource, p.details))
+        ui.setView('search')
+      } else {
+        const source = { sessionId: null, sessionName: 'Imported from ' + filename }
+        imported.forEach((p) => collection.adjustCollection(p.card, p.variant, p.count, source, p.details))
+        ui.setView('collection')
+      }
+    },
+    [session, packs, pulls, collection, collectionSource, ui],
+  )
 
   // === View rendering ===
   const viewAnimation =
@@ -173,15 +283,22 @@ export function App() {
   return (
     <div style={{ height: '100%', display: 'flex', flexDirection: 'column', background: 'var(--bg-base)' }}>
       <Header
+        sessions={session.sessions}
+        sessionId={session.sessionId}
         sessionName={session.sessionName}
         onSessionNameChange={session.setSessionName}
+        onSwitchSession={session.switchSession}
+        onCreateSession={() => session.createSession()}
+        onArchiveSession={session.archiveSession}
+        onRestoreSession={session.restoreSession}
+        onDeleteSession={session.deleteSession}
         savedIndicator={pulls.savedIndicator}
         cardSource={cardSource}
         sensoryEnabled={sensory.sensoryEnabled}
         onSensoryToggle={sensory.toggleSensory}
         rarityFlash={sensory.rarityFlash}
         totalCards={pulls.totalCards}
-        totalPacks={pulls.totalPacks}
+        totalPacks={packs.totalPacks}
         totalFoils={pulls.totalFoils}
         totalSuperRare={pulls.totalSuperRare}
         totalLegendary={pulls.totalLegendary}
@@ -191,6 +308,7 @@ export function App() {
         countBumping={sensory.countBumping}
         historyCount={exportHistory.history.length}
         onHistoryClick={() => ui.setView('history')}
+        onCollectionClick={() => ui.setView('collection')}
         onExportClick={() => ui.setView('export')}
         onClearClick={() => ui.setConfirmClear(true)}
       />
@@ -211,19 +329,31 @@ export function App() {
               search={search.search}
               setFilter={search.setFilter}
               onSetFilterChange={search.setSetFilter}
+              language={search.language}
+              onLanguageChange={search.setLanguage}
               setMap={sets.setMap}
               setColours={sets.setColours}
               results={search.results}
+              moreResults={search.moreResults}
+              queryError={search.queryError}
               selectedIdx={search.selectedIdx}
               onSelectedIdxChange={search.setSelectedIdx}
-              pulls={pulls.pulls}
+              pulls={sessionPulls}
               onAddCard={handleAddCard}
-              onUpdateCount={pulls.updateCount}
+              onUpdateCount={handleUpdateCount}
+              onSetCopyCondition={pulls.setCopyCondition}
+              onClearConditions={pulls.clearConditions}
               onRemovePull={handleRemovePull}
               removingKey={ui.removingKey}
               firstInteraction={ui.firstInteraction}
               hintsDismissed={exportHistory.hintsDismissed}
               totalCards={pulls.totalCards}
+              packs={packs.packs}
+              currentPack={packs.currentPack}
+              totalPacks={packs.totalPacks}
+              onClosePack={packs.closePack}
+              onNewPack={packs.startNewPack}
+              onPacksClick={() => ui.setView('packs')}
               confirmClear={ui.confirmClear}
               onClearClick={() => ui.setConfirmClear(true)}
               onClearConfirm={handleClearAll}
@@ -237,6 +367,10 @@ export function App() {
               scannerState={scanner.scannerState}
               lastMatch={scanner.lastMatch}
               matchMethod={scanner.matchMethod}
+              foilEstimate={scanner.foilEstimate}
+              rapidMode={scanner.rapidMode}
+              autoConfirmAt={scanner.autoConfirmAt}
+              onToggleRapidMode={scanner.toggleRapidMode}
               candidates={scanner.candidates}
               scannerError={scanner.error}
               scanCount={scanner.scanCount}
@@ -244,12 +378,25 @@ export function App() {
               debugCaptures={scanner.debugCaptures}
               lastOcrText={scanner.lastOcrText}
               lastDetectedInk={scanner.lastDetectedInk}
+              cardOutline={scanner.cardOutline}
+              imageAssistEnabled={imageAssist.imageAssistEnabled}
+              imageAssistProgress={imageAssist.imageAssistProgress}
+              imageAssistNeedsSet={imageAssist.imageAssistNeedsSet}
+              onToggleImageAssist={imageAssist.toggleImageAssist}
+              scanMode={scanner.scanMode}
+              binderPage={scanner.binderPage}
+              onToggleScanMode={scanner.toggleScanMode}
+              onReviewPage={scanner.reviewPage}
+              onUpdateBinderCell={scanner.updateBinderCell}
+              onConfirmPage={scanner.confirmPage}
+              onRescanPage={scanner.rescanPage}
               videoRef={scanner.videoRef}
               cameraSupported={cameraSupported}
               onOpenScanner={scanner.openScanner}
               onCloseScanner={scanner.closeScanner}
               onSelectCandidate={scanner.selectCandidate}
               onConfirmMatch={scanner.confirmMatch}
+              onHoldMatch={scanner.holdMatch}
               onSkipMatch={scanner.skipMatch}
               onDismissDisambiguation={scanner.dismissDisambiguation}
               onCaptureDebug={scanner.captureDebugFrame}
@@ -262,7 +409,8 @@ export function App() {
           {ui.view === 'export' && (
             <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
             <ExportView
-              pulls={pulls.pulls}
+              pulls={sessionPulls}
+              packs={packs.packs}
               sessionName={session.sessionName}
               totalCards={pulls.totalCards}
               totalFoils={pulls.totalFoils}
@@ -271,6 +419,8 @@ export function App() {
               totalEnchanted={pulls.totalEnchanted}
               downloaded={exportHistory.downloaded}
               copied={exportHistory.copied}
+              format={exportHistory.format}
+              onFormatChange={exportHistory.setFormat}
               onDownload={handleExportDownload}
               onCopy={handleExportCopy}
               onBack={() => ui.setView('search')}
@@ -281,17 +431,85 @@ export function App() {
             <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
             <HistoryView
               history={exportHistory.history}
+              onImportClick={() => ui.setView('import')}
+              onBackupClick={() => ui.setView('backup')}
+              onStatsClick={() => ui.setView('stats')}
               onBack={() => ui.setView('search')}
             />
             </ErrorBoundary>
           )}
+          {ui.view === 'import' && (
+            <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
+            <ImportView
+              cards={cards}
+              onImport={handleImport}
+              onBack={() => ui.setView('history')}
+            />
+            </ErrorBoundary>
+          )}
+          {ui.view === 'backup' && (
+            <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
+            <BackupView
+              // Every hook hydrates from storage on mount, so reload to pick up the restore
+              onRestored={() => window.location.reload()}
+              onBack={() => ui.setView('history')}
+              hashIndexSize={imageAssist.hashIndexSize}
+              onImportHashIndex={imageAssist.importHashIndex}
+              onDownloadHashIndex={imageAssist.downloadHashIndex}
+            />
+            </ErrorBoundary>
+          )}
+          {ui.view === 'stats' && (
+            <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
+            <StatsView
+              setMap={sets.setMap}
+              setColours={sets.setColours}
+              onBack={() => ui.setView('history')}
+            />
+            </ErrorBoundary>
+          )}
+          {ui.view === 'packs' && (
+            <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
+            <PacksView
+              packs={packs.packs}
+              pulls={sessionPulls}
+              onMoveCopy={packs.moveCopy}
+              onBack={() => ui.setView('search')}
+            />
+            </ErrorBoundary>
+          )}
+          {ui.view === 'collection' && (
+            <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
+            <CollectionView
+              entries={collection.entryList}
+              totalCopies={collection.totalCopies}
+              totalFoils={collection.totalFoils}
+              uniqueCards={collection.uniqueCards}
+              setMap={sets.setMap}
+              setColours={sets.setColours}
+              onCompletionClick={() => ui.setView('completion')}
+              onBack={() => ui.setView('search')}
+            />
+            </ErrorBoundary>
+          )}
+          {ui.view === 'completion' && (
+            <ErrorBoundary level="view" onReset={() => ui.setView('search')}>
+            <SetCompletionView
+              cards={cards}
+              owned={collection.entries}
+              setMap={sets.setMap}
+              setColours={sets.setColours}
+              onBack={() => ui.setView('collection')}
+            />
+            </ErrorBoundary>
+          )}
         </div>
       </main>
 
       {/* Undo toast */}
       {undo.showUndo && undo.lastActionRef.current && (
         <UndoToast
-          cardName={undo.lastActionRef.current.card.display}
+          cardName={undo.lastActionRef.current.label}
           onUndo={handleUndo}
           isFading={undo.undoFading}
         />
@@ -300,6 +518,9 @@ export function App() {
       {/* Debug telemetry overlay */}
       <DebugOverlay
         telemetry={telemetry}
+        voteTally={scanner.voteTally}
+        framePipeline={scanner.framePipeline}
+        onToggleFramePipeline={scanner.toggleFramePipeline}
         visible={overlayVisible}
         onClose={toggleOverlay}
         onExport={exportTelemetry}
@@ -311,6 +532,7 @@ export function App() {
         pullsCount={pulls.totalCards}
         confirmClear={ui.confirmClear}
         onHistoryClick={() => ui.setView('history')}
+        onCollectionClick={() => ui.setView('collection')}
         onExportClick={() => ui.setView('export')}
         onClearClick={() => ui.setConfirmClear(true)}
         onClearConfirm={handleClearAll}
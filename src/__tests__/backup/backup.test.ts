@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  createBackup,
+  createBackupArchive,
+  diffBackup,
+  mergeBackupData,
+  restoreBackup,
+  validateBackup,
+} from '../../backup'
+import {
+  addExportEntry,
+  loadActiveSession,
+  loadCollection,
+  loadExportHistory,
+  loadPulls,
+  putCollectionEntry,
+  readAllData,
+  replacePulls,
+  saveActiveSession,
+} from '../../db'
+import type { BackupData, PullRecord } from '../../db'
+import type { CollectionEntry, ExportHistoryEntry, Pull } from '../../types'
+
+function makePull(cn: string, count = 1): Pull {
+  return {
+    key: '1-' + cn + '-normal',
+    card: {
+      name: 'Ariel',
+      version: 'On Human Legs',
+      display: 'Ariel – On Human Legs',
+      setCode: '1',
+      setName: 'The First Chapter',
+      cn,
+      cost: 4,
+      ink: 'Amber',
+      rarity: 'Uncommon',
+      type: ['Character'],
+      imageUrl: '',
+    },
+    variant: 'normal',
+    count,
+    packNumber: 1,
+  }
+}
+
+function pullRecord(sessionId: number, cn: string, order = 0): PullRecord {
+  return { ...makePull(cn), sessionId, order }
+}
+
+function makeEntry(key: string, count: number, firstPulledAt: number): CollectionEntry {
+  return {
+    key,
+    variant: 'normal',
+    count,
+    card: {
+      display: 'Ariel – On Human Legs',
+      setCode: '1',
+      setName: 'The First Chapter',
+      cn: key.split('-')[1]!,
+      ink: 'Amber',
+      rarity: 'Uncommon',
+    },
+    firstPulledAt,
+    firstSessionId: null,
+    firstSessionName: 'Box ' + firstPulledAt,
+  }
+}
+
+function makeExport(id: number): ExportHistoryEntry {
+  return { id, filename: 'f.csv', sessionName: 'S', timestamp: id, totalCards: 0, totalFoils: 0, pulls: [] }
+}
+
+function emptyData(): BackupData {
+  return { sessions: [], pulls: [], packs: [], exports: [], collection: [], activeSessionId: null }
+}
+
+const session = (id: number) => ({ id, name: 'Box ' + id, startedAt: id })
+
+const pack = (sessionId: number, number: number) => ({
+  sessionId,
+  number,
+  openedAt: 1,
+  closedAt: null,
+  cards: ['1-1-normal'],
+})
+
+describe('validateBackup', () => {
+  it('accepts an archive it created', () => {
+    const archive = createBackupArchive(
+      { ...emptyData(), sessions: [session(1)], pulls: [pullRecord(1, '5')], activeSessionId: 1 },
+      { lorcana_sensory_enabled: 'true' },
+      1000,
+    )
+    const { archive: valid, errors } = validateBackup(JSON.parse(JSON.stringify(archive)))
+    expect(errors).toEqual([])
+    expect(valid).toEqual(archive)
+  })
+
+  it('rejects files that are not backups', () => {
+    expect(validateBackup({ pulls: [] }).errors[0]).toMatch(/not a Lorcana Pack Logger backup/)
+    expect(validateBackup(null).archive).toBeNull()
+  })
+
+  it('rejects backups from a newer version', () => {
+    const archive = { ...createBackupArchive(emptyData(), {}, 1), version: BACKUP_VERSION + 1 }
+    expect(validateBackup(archive).errors[0]).toMatch(/newer version/)
+  })
+
+  it('reports bad records with their path', () => {
+    const archive = createBackupArchive(emptyData(), {}, 1) as unknown as Record<string, unknown>
+    const bad = {
+      ...archive,
+      data: { ...emptyData(), pulls: [{ ...pullRecord(1, '5'), count: 0, variant: 'shiny' }] },
+      settings: { a: 1 },
+    }
+    const { archive: valid, errors } = validateBackup(bad)
+    expect(valid).toBeNull()
+    expect(errors).toEqual([
+      'data.pulls[0].variant must be a known variant',
+      'data.pulls[0].count must be a positive integer',
+      'settings must map keys to strings',
+    ])
+  })
+
+  it('rebuilds packs for version 1 backups', () => {
+    const v1 = {
+      format: BACKUP_FORMAT,
+      version: 1,
+      createdAt: 1,
+      data: {
+        sessions: [{ ...session(7), addCount: 3 }],
+        pulls: [pullRecord(7, '1'), { ...pullRecord(7, '2', 1), packNumber: 2 }],
+        exports: [],
+        collection: [],
+        activeSessionId: 7,
+      },
+      settings: {},
+    }
+    const { archive } = validateBackup(v1)
+    expect(archive!.version).toBe(BACKUP_VERSION)
+    expect(archive!.data.sessions).toEqual([session(7)])
+    expect(archive!.data.packs).toEqual([
+      { sessionId: 7, number: 1, openedAt: 7, closedAt: 7, cards: ['1-1-normal'] },
+      { sessionId: 7, number: 2, openedAt: 7, closedAt: null, cards: ['1-2-normal'] },
+    ])
+  })
+
+  it('caps the number of reported problems', () => {
+    const bad = {
+      format: BACKUP_FORMAT,
+      version: 1,
+      createdAt: 1,
+      data: { ...emptyData(), sessions: Array.from({ length: 30 }, () => ({})) },
+      settings: {},
+    }
+    const { errors } = validateBackup(bad)
+    expect(errors).toHaveLength(21)
+    expect(errors[20]).toMatch(/more$/)
+  })
+})
+
+describe('mergeBackupData', () => {
+  it('keeps local records and adds new ones from the backup', () => {
+    const current: BackupData = {
+      ...emptyData(),
+      sessions: [{ ...session(1), name: 'Local' }],
+      pulls: [pullRecord(1, '1')],
+      exports: [makeExport(10)],
+      activeSessionId: 1,
+    }
+    const incoming: BackupData = {
+      ...emptyData(),
+      sessions: [{ ...session(1), name: 'Backup' }, session(2)],
+      pulls: [pullRecord(1, '9'), pullRecord(2, '2')],
+      packs: [pack(1, 1), pack(2, 1)],
+      exports: [makeExport(10), makeExport(11)],
+      activeSessionId: 2,
+    }
+    const merged = mergeBackupData(current, incoming)
+
+    expect(merged.sessions.map((s) => s.name)).toEqual(['Local', 'Box 2'])
+    expect(merged.pulls.map((p) => p.sessionId + '/' + p.card.cn)).toEqual(['1/1', '2/2'])
+    expect(merged.packs).toEqual([pack(2, 1)])
+    expect(merged.exports.map((e) => e.id)).toEqual([10, 11])
+    expect(merged.activeSessionId).toBe(1)
+  })
+
+  it('keeps the higher count and earlier first pull for shared collection cards', () => {
+    const merged = mergeBackupData(
+      { ...emptyData(), collection: [makeEntry('1-1-normal', 2, 500)] },
+      { ...emptyData(), collection: [makeEntry('1-1-normal', 1, 100), makeEntry('1-2-normal', 3, 200)] },
+    )
+    expect(merged.collection).toEqual([
+      { ...makeEntry('1-1-normal', 1, 100), count: 2 },
+      makeEntry('1-2-normal', 3, 200),
+    ])
+  })
+
+  it('is safe to repeat', () => {
+    const incoming = { ...emptyData(), collection: [makeEntry('1-1-normal', 2, 1)] }
+    const once = mergeBackupData(emptyData(), incoming)
+    expect(mergeBackupData(once, incoming)).toEqual(once)
+  })
+})
+
+describe('diffBackup', () => {
+  it('counts new, changed, unchanged and local-only records', () => {
+    const current = {
+      ...emptyData(),
+      sessions: [session(1), session(2)],
+      collection: [makeEntry('1-1-normal', 1, 1)],
+    }
+    const archive = createBackupArchive(
+      {
+        ...emptyData(),
+        sessions: [session(1), { ...session(2), name: 'Renamed' }, session(3)],
+        collection: [makeEntry('1-1-normal', 1, 1)],
+      },
+      { lorcana_hints_dismissed: 'true' },
+      1,
+    )
+    const diff = diffBackup(current, { lorcana_export_format: 'json' }, archive)
+
+    expect(diff.sessions).toEqual({ incoming: 3, added: 1, changed: 1, unchanged: 1, localOnly: 0 })
+    expect(diff.collection).toEqual({ incoming: 1, added: 0, changed: 0, unchanged: 1, localOnly: 0 })
+    expect(diff.settings).toEqual({ incoming: 1, added: 1, changed: 0, unchanged: 0, localOnly: 1 })
+  })
+})
+
+describe('backup round trip', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  async function seed() {
+    await saveActiveSession(session(1))
+    await replacePulls(1, [makePull('1', 2), makePull('2')])
+    await addExportEntry(makeExport(50))
+    await putCollectionEntry(makeEntry('1-1-normal', 2, 1))
+    localStorage.setItem('lorcana_sensory_enabled', 'false')
+  }
+
+  it('captures the database and backed-up settings', async () => {
+    await seed()
+    localStorage.setItem('lorcana_card_cache', '{}')
+
+    const archive = await createBackup()
+    expect(archive!.data.sessions).toEqual([session(1)])
+    expect(archive!.data.pulls).toHaveLength(2)
+    expect(archive!.data.activeSessionId).toBe(1)
+    expect(archive!.settings).toEqual({ lorcana_sensory_enabled: 'false' })
+  })
+
+  it('replace restores a backup exactly', async () => {
+    await seed()
+    const archive = (await createBackup())!
+
+    await saveActiveSession(session(2))
+    await replacePulls(2, [makePull('7')])
+    localStorage.setItem('lorcana_export_format', 'text')
+
+    expect(await restoreBackup(archive, 'replace')).toBe(true)
+    expect(await loadActiveSession()).toEqual(session(1))
+    expect((await loadPulls(1)).map((p) => p.card.cn)).toEqual(['1', '2'])
+    expect(await loadPulls(2)).toEqual([])
+    expect(await loadExportHistory()).toHaveLength(1)
+    expect(await loadCollection()).toHaveLength(1)
+    expect(localStorage.getItem('lorcana_export_format')).toBeNull()
+    expect(localStorage.getItem('lorcana_sensory_enabled')).toBe('false')
+  })
+
+  it('merge keeps local data and adds the backup', async () => {
+    await seed()
+    const archive = (await createBackup())!
+
+    // Simulate a fresh device with its own session and settings
+    const fresh = createBackupArchive(
+      { ...emptyData(), sessions: [session(2)], activeSessionId: 2 },
+      { lorcana_sensory_enabled: 'true' },
+      1,
+    )
+    await restoreBackup(fresh, 'replace')
+
+    expect(await restoreBackup(archive, 'merge')).toBe(true)
+    const data = (await readAllData())!
+    expect(data.sessions.map((s) => s.id).sort()).toEqual([1, 2])
+    expect(data.pulls).toHaveLength(2)
+    expect(data.activeSessionId).toBe(2)
+    expect(localStorage.getItem('lorcana_sensory_enabled')).toBe('true')
+  })
+})
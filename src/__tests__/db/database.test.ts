@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  openDatabase,
+  loadActiveSession,
+  loadPulls,
+  replacePulls,
+  loadExportHistory,
+  addExportEntry,
+  loadCollection,
+  loadPacks,
+  replacePacks,
+  saveActiveSession,
+  saveSession,
+  loadSessions,
+  deleteSession,
+  loadHistograms,
+  saveHistograms,
+  loadHashIndex,
+  replaceHashIndex,
+} from '../../db'
+import { DB_VERSION, MIGRATIONS } from '../../db/migrations'
+import { DB_NAME, STORES } from '../../db/schema'
+import type { ExportHistoryEntry, Pull } from '../../types'
+
+function makePull(cn: string, overrides: Partial<Pull> = {}): Pull {
+  return {
+    key: '1-' + cn + '-normal',
+    card: {
+      name: 'Ariel',
+      version: 'On Human Legs',
+      display: 'Ariel – On Human Legs',
+      setCode: '1',
+      setName: 'The First Chapter',
+      cn,
+      cost: 4,
+      ink: 'Amber',
+      rarity: 'Uncommon',
+      type: ['Character'],
+      imageUrl: '',
+    },
+    variant: 'normal',
+    count: 1,
+    packNumber: 1,
+    ...overrides,
+  }
+}
+
+function makeEntry(id: number): ExportHistoryEntry {
+  return {
+    id,
+    filename: 'export_' + id + '.csv',
+    sessionName: 'Session ' + id,
+    timestamp: id,
+    totalCards: 1,
+    totalFoils: 0,
+    pulls: [],
+  }
+}
+
+describe('database', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('opens at the latest migration version', async () => {
+    const db = await openDatabase()
+    expect(db.version).toBe(DB_VERSION)
+    expect(DB_VERSION).toBe(MIGRATIONS[MIGRATIONS.length - 1]!.version)
+    expect([...db.objectStoreNames].sort()).toEqual([
+      'collection',
+      'exports',
+      'hashes',
+      'histograms',
+      'localisedNames',
+      'meta',
+      'packs',
+      'pulls',
+      'sessions',
+    ])
+  })
+
+  it('starts empty when there is no legacy data', async () => {
+    expect(await loadActiveSession()).toBeNull()
+    expect(await loadExportHistory()).toEqual([])
+  })
+
+  it('replaces a session\'s pulls and preserves their order', async () => {
+    await replacePulls(1, [makePull('9'), makePull('3')])
+    await replacePulls(2, [makePull('5')])
+    await replacePulls(1, [makePull('3'), makePull('9'), makePull('1')])
+
+    expect((await loadPulls(1)).map((p) => p.card.cn)).toEqual(['3', '9', '1'])
+    expect((await loadPulls(2)).map((p) => p.card.cn)).toEqual(['5'])
+  })
+
+  it('does not leak the session id into loaded pulls', async () => {
+    await replacePulls(1, [makePull('1')])
+    const [pull] = await loadPulls(1)
+    expect(pull).toEqual(makePull('1'))
+  })
+
+  it('replaces a session\'s packs without touching other sessions', async () => {
+    const pack = (sessionId: number, number: number) => ({
+      sessionId,
+      number,
+      openedAt: 1,
+      closedAt: null,
+      cards: ['1-' + number + '-normal'],
+    })
+    await replacePacks(1, [pack(1, 1), pack(1, 2)])
+    await replacePacks(2, [pack(2, 1)])
+    await replacePacks(1, [pack(1, 1)])
+
+    expect((await loadPacks(1)).map((p) => p.number)).toEqual([1])
+    expect(await loadPacks(2)).toEqual([pack(2, 1)])
+  })
+
+  it('lists sessions oldest first without changing the active one', async () => {
+    await saveActiveSession({ id: 20, name: 'Box B', startedAt: null })
+    await saveSession({ id: 10, name: 'Box A', startedAt: 5, archivedAt: 50 })
+
+    expect((await loadSessions()).map((s) => s.name)).toEqual(['Box A', 'Box B'])
+    expect((await loadActiveSession())?.id).toBe(20)
+  })
+
+  it('deletes a session with its pulls and packs only', async () => {
+    const pack = (sessionId: number) => ({ sessionId, number: 1, openedAt: 1, closedAt: null, cards: ['1-1-normal'] })
+    await saveSession({ id: 1, name: 'Keep', startedAt: null })
+    await saveSession({ id: 2, name: 'Drop', startedAt: null })
+    await replacePulls(1, [makePull('1')])
+    await replacePulls(2, [makePull('1'), makePull('2')])
+    await replacePacks(1, [pack(1)])
+    await replacePacks(2, [pack(2)])
+
+    expect(await deleteSession(2)).toBe(true)
+
+    expect((await loadSessions()).map((s) => s.id)).toEqual([1])
+    expect(await loadPulls(2)).toEqual([])
+    expect(await loadPacks(2)).toEqual([])
+    expect(await loadPulls(1)).toHaveLength(1)
+    expect(await loadPacks(1)).toHaveLength(1)
+  })
+
+  it('stores card-image histograms by image URL', async () => {
+    await saveHistograms({ 'https://img/a.avif': [0.25, 0.75], 'https://img/b.avif': [1, 0] })
+    await saveHistograms({ 'https://img/a.avif': [0.5, 0.5] })
+
+    expect(await loadHistograms(['https://img/a.avif', 'https://img/b.avif', 'https://img/c.avif'])).toEqual({
+      'https://img/a.avif': [0.5, 0.5],
+      'https://img/b.avif': [1, 0],
+    })
+  })
+
+  it('replaces the card-art index as a whole', async () => {
+    await replaceHashIndex([
+      { key: '1-1', setCode: '1', cn: '1', hash: '0123456789abcdef' },
+      { key: '1-2', setCode: '1', cn: '2', hash: 'fedcba9876543210' },
+    ])
+    await replaceHashIndex([{ key: '2-7', setCode: '2', cn: '7', hash: '00000000ffffffff' }])
+
+    expect(await loadHashIndex()).toEqual([{ key: '2-7', setCode: '2', cn: '7', hash: '00000000ffffffff' }])
+  })
+
+  it('returns export history newest first without a size cap', async () => {
+    for (let i = 1; i <= 60; i++) await addExportEntry(makeEntry(i))
+    const history = await loadExportHistory()
+    expect(history).toHaveLength(60)
+    expect(history[0]!.id).toBe(60)
+  })
+
+  describe('legacy localStorage import', () => {
+    it('moves session, pulls and every export entry into IndexedDB', async () => {
+      const history = Array.from({ length: 55 }, (_, i) => makeEntry(i + 1))
+      localStorage.setItem('lorcana_session_name', 'Box 3')
+      localStorage.setItem('lorcana_session_started', '1700000000000')
+      localStorage.setItem('lorcana_session_add_count', '14')
+      localStorage.setItem('lorcana_session_pulls', JSON.stringify([makePull('1'), makePull('2')]))
+      localStorage.setItem('lorcana_export_history', JSON.stringify(history))
+
+      const session = await loadActiveSession()
+      expect(session).toEqual({
+        id: 1700000000000,
+        name: 'Box 3',
+        startedAt: 1700000000000,
+        addCount: 14,
+      })
+      expect((await loadPulls(session!.id)).map((p) => p.key)).toEqual(['1-1-normal', '1-2-normal'])
+      expect(await loadExportHistory()).toHaveLength(55)
+    })
+
+    it('removes the legacy keys after importing', async () => {
+      localStorage.setItem('lorcana_session_pulls', JSON.stringify([makePull('1')]))
+      localStorage.setItem('lorcana_export_history', JSON.stringify([makeEntry(1)]))
+      localStorage.setItem('lorcana_card_cache', '{}')
+
+      await openDatabase()
+
+      expect(localStorage.getItem('lorcana_session_pulls')).toBeNull()
+      expect(localStorage.getItem('lorcana_export_history')).toBeNull()
+      // Unrelated keys are left alone
+      expect(localStorage.getItem('lorcana_card_cache')).toBe('{}')
+    })
+
+    it('does not create a session when only export history exists', async () => {
+      localStorage.setItem('lorcana_export_history', JSON.stringify([makeEntry(1)]))
+
+      expect(await loadActiveSession()).toBeNull()
+      expect(await loadExportHistory()).toHaveLength(1)
+    })
+  })
+
+  describe('collection backfill', () => {
+    it('seeds the collection from export history and the open session', async () => {
+      const exported = makeEntry(500)
+      exported.pulls = [
+        { key: '1-1-normal', variant: 'normal', count: 2, card: makePull('1').card },
+      ]
+      localStorage.setItem('lorcana_export_history', JSON.stringify([exported]))
+      localStorage.setItem('lorcana_session_name', 'Open box')
+      localStorage.setItem('lorcana_session_started', '900')
+      localStorage.setItem('lorcana_session_pulls', JSON.stringify([
+        makePull('1', { count: 1 }),
+        makePull('2', { key: '1-2-foil', variant: 'foil' }),
+      ]))
+
+      const entries = await loadCollection()
+      const byKey = Object.fromEntries(entries.map((e) => [e.key, e]))
+
+      expect(byKey['1-1-normal']).toMatchObject({ count: 3, firstPulledAt: 500, firstSessionName: 'Session 500' })
+      expect(byKey['1-2-foil']).toMatchObject({ count: 1, firstSessionId: 900, firstSessionName: 'Open box' })
+    })
+  })
+
+  describe('packs backfill', () => {
+    it('rebuilds packs from the pack number stored on each pull', async () => {
+      localStorage.setItem('lorcana_session_name', 'Open box')
+      localStorage.setItem('lorcana_session_started', '900')
+      localStorage.setItem('lorcana_session_pulls', JSON.stringify([
+        makePull('1', { count: 12 }),
+        makePull('2', { packNumber: 2 }),
+        makePull('3', { packNumber: 2, count: 2 }),
+      ]))
+
+      const packs = await loadPacks(900)
+      expect(packs).toEqual([
+        { sessionId: 900, number: 1, openedAt: 900, closedAt: 900, cards: Array(12).fill('1-1-normal') },
+        { sessionId: 900, number: 2, openedAt: 900, closedAt: null, cards: ['1-2-normal', '1-3-normal', '1-3-normal'] },
+      ])
+    })
+  })
+
+  describe('condition fold', () => {
+    const detail = (details: object) => details as Pull['details']
+
+    /** Create the database at `version` with records written by the app at the time. */
+    function seedAtVersion(version: number, seed: (tx: IDBTransaction) => void): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, version)
+        request.onupgradeneeded = () => {
+          const tx = request.transaction!
+          MIGRATIONS.filter((m) => m.version <= version).forEach((m) => m.migrate(request.result, tx))
+          seed(tx)
+        }
+        request.onsuccess = () => {
+          request.result.close()
+          resolve()
+        }
+        request.onerror = () => reject(request.error)
+      })
+    }
+
+    it('moves condition out of details and keys into condition counts', async () => {
+      const card = makePull('1').card
+      await seedAtVersion(6, (tx) => {
+        const pulls = [
+          makePull('1', { key: '1-1-normal-nm', details: detail({ condition: 'NM' }), count: 2 }),
+          makePull('2'),
+          makePull('1', { key: '1-1-normal-lp', details: detail({ condition: 'LP' }), packNumber: 2 }),
+          makePull('1'),
+          makePull('3', {
+            key: '1-3-foil-psa10-hp',
+            variant: 'foil',
+            details: detail({ grade: { company: 'PSA', grade: '10' }, condition: 'HP' }),
+            packNumber: 2,
+          }),
+        ]
+        pulls.forEach((p, order) => tx.objectStore(STORES.pulls).put({ ...p, sessionId: 900, order }))
+        tx.objectStore(STORES.packs).put({
+          sessionId: 900,
+          number: 1,
+          openedAt: 900,
+          closedAt: 900,
+          cards: ['1-1-normal-nm', '1-1-normal-nm', '1-2-normal', '1-1-normal'],
+        })
+        tx.objectStore(STORES.packs).put({
+          sessionId: 900,
+          number: 2,
+          openedAt: 900,
+          closedAt: null,
+          cards: ['1-1-normal-lp', '1-3-foil-psa10-hp'],
+        })
+
+        const snapshot = {
+          display: card.display,
+          setCode: '1',
+          setName: card.setName,
+          cn: '1',
+          ink: 'Amber',
+          rarity: 'Uncommon',
+        }
+        const entry = { variant: 'normal', card: snapshot, firstSessionId: null, firstSessionName: 'Session 500' }
+        tx.objectStore(STORES.collection).put({ ...entry, key: '1-1-normal', count: 2, firstPulledAt: 900 })
+        tx.objectStore(STORES.collection).put({
+          ...entry,
+          key: '1-1-normal-nm',
+          details: { condition: 'NM' },
+          count: 3,
+          firstPulledAt: 500,
+        })
+        // Details already cleaned by a later count change, but still keyed by condition
+        tx.objectStore(STORES.collection).put({ ...entry, key: '1-1-normal-lp', count: 1, firstPulledAt: 700 })
+
+        const exported = makeEntry(500)
+        exported.pulls = [
+          { key: '1-1-normal-nm', variant: 'normal', details: detail({ condition: 'NM' }), count: 1, card: snapshot },
+          { key: '1-1-normal', variant: 'normal', count: 1, card: snapshot },
+        ]
+        tx.objectStore(STORES.exports).put(exported)
+      })
+
+      const pulls = await loadPulls(900)
+      expect(pulls.map((p) => [p.key, p.count, p.conditions, p.packNumber])).toEqual([
+        ['1-1-normal', 4, { NM: 2, LP: 1 }, 1],
+        ['1-2-normal', 1, undefined, 1],
+        ['1-3-foil-psa10', 1, { HP: 1 }, 2],
+      ])
+      expect(pulls[0]!.details).toBeUndefined()
+      expect(pulls[2]!.details).toEqual({ grade: { company: 'PSA', grade: '10' } })
+
+      const packs = await loadPacks(900)
+      expect(packs.map((p) => p.cards)).toEqual([
+        ['1-1-normal', '1-1-normal', '1-2-normal', '1-1-normal'],
+        ['1-1-normal', '1-3-foil-psa10'],
+      ])
+
+      const collection = await loadCollection()
+      expect(collection.map((e) => [e.key, e.count, e.firstPulledAt, e.details])).toEqual([
+        ['1-1-normal', 6, 500, undefined],
+      ])
+
+      const [entry] = await loadExportHistory()
+      expect(entry!.pulls).toEqual([
+        { key: '1-1-normal', variant: 'normal', count: 2, conditions: { NM: 1 }, card: entry!.pulls[0]!.card },
+      ])
+    })
+  })
+})
@@ -0,0 +1,219 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_EXPORT_FORMAT,
+  getExporter,
+  listExporters,
+  registerExporter,
+  withExtension,
+} from '../../exporters'
+import type { ExportPull } from '../../exporters'
+
+function makePull(cn: string, overrides: Partial<ExportPull> = {}): ExportPull {
+  return {
+    key: '1-' + cn + '-normal',
+    card: {
+      display: 'Ariel – On Human Legs',
+      setCode: '1',
+      setName: 'The First Chapter',
+      cn,
+      ink: 'Amber',
+      rarity: 'Uncommon',
+    },
+    variant: 'normal',
+    count: 1,
+    ...overrides,
+  }
+}
+
+const meta = { sessionName: 'Box 1', exportedAt: Date.UTC(2026, 0, 2, 3, 4) }
+
+describe('exporter registry', () => {
+  it('registers the built-in formats in order', () => {
+    expect(listExporters().map((x) => x.id).slice(0, 4)).toEqual([
+      'dreamborn',
+      'lorcana-hq',
+      'json',
+      'text',
+    ])
+  })
+
+  it('gives every format its own extension and MIME type', () => {
+    listExporters().forEach((x) => {
+      expect(x.extension).toMatch(/^[a-z]+$/)
+      expect(x.mimeType).toContain('/')
+    })
+    expect(getExporter('json').mimeType).toContain('application/json')
+    expect(getExporter('text').extension).toBe('txt')
+  })
+
+  it('falls back to the default for unknown or missing ids', () => {
+    expect(getExporter('nope').id).toBe(DEFAULT_EXPORT_FORMAT)
+    expect(getExporter(undefined).id).toBe(DEFAULT_EXPORT_FORMAT)
+  })
+
+  it('accepts additional formats', () => {
+    registerExporter({
+      id: 'test-format',
+      label: 'Test',
+      description: '',
+      extension: 'tst',
+      mimeType: 'text/plain',
+      generate: (pulls) => String(pulls.length),
+    })
+    expect(getExporter('test-format').generate([makePull('1')], meta)).toBe('1')
+  })
+
+  it('swaps known extensions on filenames', () => {
+    expect(withExtension('box_2026.csv', getExporter('json'))).toBe('box_2026.json')
+    expect(withExtension('box_clipboard_2026', getExporter('text'))).toBe('box_clipboard_2026.txt')
+  })
+})
+
+describe('dreamborn exporter', () => {
+  it('emits the Dreamborn CSV shape', () => {
+    const out = getExporter('dreamborn').generate([makePull('5', { count: 2 })], meta)
+    expect(out.split('\n')).toEqual(['Set Number,Card Number,Variant,Count', '1,5,normal,2'])
+  })
+
+  it('merges the languages of a card into one row', () => {
+    const french = makePull('5', { key: '1-5-fr-normal' })
+    french.card = { ...french.card, language: 'fr' }
+    const german = makePull('5', { key: '1-5-de-normal', count: 2 })
+    german.card = { ...german.card, language: 'de' }
+    const out = getExporter('dreamborn').generate([makePull('5'), french, german], meta)
+    expect(out.split('\n')).toEqual(['Set Number,Card Number,Variant,Count', '1,5,normal,4'])
+  })
+})
+
+describe('lorcana-hq exporter', () => {
+  it('merges normal and foil copies of a card into one row', () => {
+    const out = getExporter('lorcana-hq').generate(
+      [
+        makePull('5', { count: 2 }),
+        makePull('7'),
+        makePull('5', { key: '1-5-foil', variant: 'foil' }),
+      ],
+      meta,
+    )
+    expect(out.split('\n')).toEqual([
+      'Name,Set,Card Number,Language,Quantity,Foil Quantity,Variant,Condition,Grade,Signed',
+      'Ariel – On Human Legs,1,5,EN,2,1,,,,',
+      'Ariel – On Human Legs,1,7,EN,1,0,,,,',
+    ])
+  })
+
+  it('gives promo variants and copies with details their own row', () => {
+    const out = getExporter('lorcana-hq').generate(
+      [
+        makePull('5'),
+        makePull('5', { key: '1-5-cold-foil', variant: 'cold-foil' }),
+        makePull('5', { key: '1-5-normal-psa10', details: { grade: { company: 'PSA', grade: '10' } } }),
+      ],
+      meta,
+    )
+    expect(out.split('\n').slice(1)).toEqual([
+      'Ariel – On Human Legs,1,5,EN,1,0,,,,',
+      'Ariel – On Human Legs,1,5,EN,0,1,cold-foil,,,',
+      'Ariel – On Human Legs,1,5,EN,1,0,,,PSA 10,',
+    ])
+  })
+
+  it('gives each recorded condition its own row', () => {
+    const out = getExporter('lorcana-hq').generate(
+      [makePull('5', { key: '1-5-foil', variant: 'foil', count: 3, conditions: { NM: 1, LP: 1 } })],
+      meta,
+    )
+    expect(out.split('\n').slice(1)).toEqual([
+      'Ariel – On Human Legs,1,5,EN,0,1,,NM,,',
+      'Ariel – On Human Legs,1,5,EN,0,1,,LP,,',
+      'Ariel – On Human Legs,1,5,EN,0,1,,,,',
+    ])
+  })
+
+  it('keeps each language of a card on its own row', () => {
+    const french = makePull('5', { key: '1-5-fr-normal' })
+    french.card = { ...french.card, display: 'Ariel – Sur deux jambes', language: 'fr' }
+    const out = getExporter('lorcana-hq').generate([makePull('5'), french], meta)
+    expect(out.split('\n').slice(1)).toEqual([
+      'Ariel – On Human Legs,1,5,EN,1,0,,,,',
+      'Ariel – Sur deux jambes,1,5,FR,1,0,,,,',
+    ])
+  })
+
+  it('quotes names containing commas', () => {
+    const pull = makePull('1')
+    pull.card = { ...pull.card, display: 'Hiram Flaversham – Toymaker, Inventor' }
+    const out = getExporter('lorcana-hq').generate([pull], meta)
+    expect(out).toContain('"Hiram Flaversham – Toymaker, Inventor",1,1,EN,1,0,,,,')
+  })
+})
+
+describe('json exporter', () => {
+  it('includes card details and pack number', () => {
+    const out = JSON.parse(
+      getExporter('json').generate([makePull('3', { packNumber: 2 }), makePull('4')], meta),
+    )
+    expect(out).toMatchObject({
+      version: 1,
+      sessionName: 'Box 1',
+      exportedAt: '2026-01-02T03:04:00.000Z',
+      totalCards: 2,
+    })
+    expect(out.pulls[0]).toEqual({
+      setCode: '1',
+      setName: 'The First Chapter',
+      cn: '3',
+      name: 'Ariel – On Human Legs',
+      language: 'en',
+      rarity: 'Uncommon',
+      ink: 'Amber',
+      variant: 'normal',
+      condition: null,
+      grade: null,
+      signed: false,
+      count: 1,
+      packNumber: 2,
+    })
+    expect(out.pulls[1].packNumber).toBeNull()
+  })
+
+  it('writes condition, grade and signature', () => {
+    const pull = makePull('3', {
+      key: '1-3-stamped-bgs9.5-signed',
+      variant: 'stamped',
+      details: { grade: { company: 'BGS', grade: '9.5' }, signed: true },
+      conditions: { LP: 1 },
+    })
+    const out = JSON.parse(getExporter('json').generate([pull], meta))
+    expect(out.pulls[0]).toMatchObject({ variant: 'stamped', condition: 'LP', grade: 'BGS 9.5', signed: true })
+  })
+})
+
+describe('text exporter', () => {
+  it('lists each pull on its own line under a title', () => {
+    const out = getExporter('text').generate(
+      [makePull('1', { count: 2 }), makePull('9', { key: '1-9-foil', variant: 'foil' })],
+      meta,
+    )
+    expect(out.split('\n')).toEqual([
+      'Box 1 — 3 cards',
+      '',
+      '2× Ariel – On Human Legs (The First Chapter #1)',
+      '1× Ariel – On Human Legs (The First Chapter #9) ✦ Foil',
+    ])
+  })
+
+  it('names promo variants and details', () => {
+    const out = getExporter('text').generate(
+      [
+        makePull('1', { key: '1-1-oversized', variant: 'oversized' }),
+        makePull('2', { key: '1-2-normal-signed', details: { signed: true } }),
+      ],
+      meta,
+    )
+    expect(out.split('\n').slice(2)).toEqual([
+      '1× Ariel – On Human Legs (The First Chapter #1) · Oversized',
+      '1× Ariel – On Human Legs (The First Chapter #2) · Signed',
+    ])
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useCollection } from '../../hooks/useCollection'
+import { loadCollection, putCollectionEntry } from '../../db'
+import type { Card } from '../../types'
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    name: 'Ariel',
+    version: 'On Human Legs',
+    display: 'Ariel – On Human Legs',
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn: '1',
+    cost: 4,
+    ink: 'Amber',
+    rarity: 'Uncommon',
+    type: ['Character'],
+    imageUrl: '',
+    ...overrides,
+  }
+}
+
+const source = { sessionId: 1, sessionName: 'Box 1' }
+
+/** Render the hook and let the initial IndexedDB load settle. */
+async function renderCollection() {
+  const hook = renderHook(() => useCollection())
+  await act(async () => {})
+  return hook
+}
+
+describe('useCollection', () => {
+  it('starts empty', async () => {
+    const { result } = await renderCollection()
+    expect(result.current.entryList).toEqual([])
+    expect(result.current.totalCopies).toBe(0)
+  })
+
+  it('adds copies and derives totals', async () => {
+    const { result } = await renderCollection()
+
+    act(() => {
+      result.current.adjustCollection(makeCard(), 'normal', 1, source)
+      result.current.adjustCollection(makeCard(), 'normal', 1, source)
+      result.current.adjustCollection(makeCard(), 'foil', 1, source)
+      result.current.adjustCollection(makeCard({ cn: '2' }), 'normal', 1, source)
+    })
+
+    expect(result.current.entries['1-1-normal']!.count).toBe(2)
+    expect(result.current.totalCopies).toBe(4)
+    expect(result.current.totalFoils).toBe(1)
+    expect(result.current.uniqueCards).toBe(2)
+  })
+
+  it('removes an entry when its count reaches zero', async () => {
+    const { result } = await renderCollection()
+
+    act(() => {
+      result.current.adjustCollection(makeCard(), 'normal', 1, source)
+    })
+    act(() => {
+      result.current.adjustCollection(makeCard(), 'normal', -1, source)
+    })
+
+    expect(result.current.entries['1-1-normal']).toBeUndefined()
+    await waitFor(async () => expect(await loadCollection()).toEqual([]))
+  })
+
+  it('ignores removals for cards not in the collection', async () => {
+    const { result } = await renderCollection()
+
+    act(() => {
+      result.current.adjustCollection(makeCard(), 'normal', -1, source)
+    })
+
+    expect(result.current.entryList).toEqual([])
+  })
+
+  it('sorts entries by set, collector number, then variant', async () => {
+    const { result } = await renderCollection()
+
+    act(() => {
+      result.current.adjustCollection(makeCard({ setCode: '2', cn: '1' }), 'normal', 1, source)
+      result.current.adjustCollection(makeCard({ cn: '10' }), 'foil', 1, source)
+      result.current.adjustCollection(makeCard({ cn: '10' }), 'normal', 1, source)
+      result.current.adjustCollection(makeCard({ cn: '3' }), 'normal', 1, source)
+    })
+
+    expect(result.current.entryList.map((e) => e.key)).toEqual([
+      '1-3-normal',
+      '1-10-normal',
+      '1-10-foil',
+      '2-1-normal',
+    ])
+  })
+
+  it('persists entries to IndexedDB', async () => {
+    const { result } = await renderCollection()
+
+    act(() => {
+      result.current.adjustCollection(makeCard(), 'foil', 1, source)
+    })
+
+    await waitFor(async () => {
+      const stored = await loadCollection()
+      expect(stored).toHaveLength(1)
+      expect(stored[0]).toMatchObject({ key: '1-1-foil', count: 1, firstSessionName: 'Box 1' })
+    })
+  })
+
+  it('loads persisted entries', async () => {
+    await putCollectionEntry({
+      key: '1-1-normal',
+      variant: 'normal',
+      count: 4,
+      card: { display: 'Ariel', setCode: '1', setName: 'The First Chapter', cn: '1', ink: 'Amber', rarity: 'Uncommon' },
+      firstPulledAt: 1000,
+      firstSessionId: null,
+      firstSessionName: 'Old box',
+    })
+
+    const { result } = renderHook(() => useCollection())
+    await waitFor(() => expect(result.current.totalCopies).toBe(4))
+  })
+})
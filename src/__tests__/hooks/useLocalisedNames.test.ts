@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { useLocalisedNames } from '../../hooks/useLocalisedNames'
+import { loadLocalisedNames } from '../../db'
+import type { Card } from '../../types'
+
+function makeCard(setCode: string, cn: string): Card {
+  return {
+    name: 'Elsa',
+    version: 'Snow Queen',
+    display: 'Elsa – Snow Queen',
+    setCode,
+    setName: 'Set ' + setCode,
+    cn,
+    cost: 6,
+    ink: 'Sapphire',
+    rarity: 'Legendary',
+    type: ['Character'],
+    imageUrl: '',
+  }
+}
+
+// One card in each of ten sets
+const cards = Array.from({ length: 10 }, (_, i) => makeCard(String(i + 1), '10'))
+
+/** Stub fetch with the API answering every set with Elsa in `lang`, tracking requests in flight. */
+function stubApi(lang: string) {
+  const stats = { requests: 0, inFlight: 0, maxInFlight: 0 }
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => {
+      stats.requests++
+      stats.inFlight++
+      stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight)
+      await new Promise((resolve) => setTimeout(resolve, 1))
+      stats.inFlight--
+      return new Response(JSON.stringify([{ name: 'Elsa', version: 'Reine des Neiges', collector_number: '10', lang }]))
+    }),
+  )
+  return stats
+}
+
+/** Render the hook and let the stored names load. */
+async function renderNames() {
+  const hook = renderHook(({ list }) => useLocalisedNames(list), { initialProps: { list: cards } })
+  // loadLanguage is replaced once the stored names have been read
+  const initial = hook.result.current.loadLanguage
+  await waitFor(() => expect(hook.result.current.loadLanguage).not.toBe(initial))
+  return hook
+}
+
+describe('useLocalisedNames', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('downloads nothing until a language is used', async () => {
+    const stats = stubApi('fr')
+    const { result } = await renderNames()
+    act(() => result.current.loadLanguage('en'))
+    expect(stats.requests).toBe(0)
+    expect(result.current.cards).toBe(cards)
+  })
+
+  it('fetches a language a few sets at a time and keeps it on the device', async () => {
+    const stats = stubApi('fr')
+    const { result } = await renderNames()
+
+    act(() => result.current.loadLanguage('fr'))
+    await waitFor(() => expect(result.current.cards[0]!.names).toEqual({ fr: 'Elsa – Reine des Neiges' }))
+    expect(stats.requests).toBe(10)
+    expect(stats.maxInFlight).toBeLessThanOrEqual(4)
+
+    const stored = await loadLocalisedNames()
+    expect(stored.map((r) => [r.language, Object.keys(r.names).length])).toEqual([['fr', 10]])
+
+    // Next visit: names come from IndexedDB, with no requests
+    const again = await renderNames()
+    act(() => again.result.current.loadLanguage('fr'))
+    expect(again.result.current.cards[9]!.names).toEqual({ fr: 'Elsa – Reine des Neiges' })
+    expect(stats.requests).toBe(10)
+  })
+
+  it('stops after the first batch when the API answers in English', async () => {
+    const stats = stubApi('en')
+    const { result } = await renderNames()
+
+    act(() => result.current.loadLanguage('de'))
+    await waitFor(() => expect(stats.requests).toBe(4))
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    })
+    expect(stats.requests).toBe(4)
+    expect(result.current.cards[0]!.names).toBeUndefined()
+    expect(await loadLocalisedNames()).toEqual([])
+  })
+
+  it('tries a language again after a load that found no names', async () => {
+    const stats = stubApi('en')
+    const { result } = await renderNames()
+
+    act(() => result.current.loadLanguage('de'))
+    await waitFor(() => expect(stats.requests).toBe(4))
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    })
+
+    vi.unstubAllGlobals()
+    const retry = stubApi('de')
+    act(() => result.current.loadLanguage('de'))
+    await waitFor(() => expect(result.current.cards[0]!.names).toEqual({ de: 'Elsa – Reine des Neiges' }))
+    expect(retry.requests).toBe(10)
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { renderHook, act, waitFor } from '@testing-library/react'
+import { usePacks } from '../../hooks/usePacks'
+import { loadPacks, replacePacks } from '../../db'
+import { PACK_SIZE } from '../../constants'
+
+describe('usePacks', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  it('returns the pack each add went into', () => {
+    const { result } = renderHook(() => usePacks(null))
+    let added: { packNumber: number; closed: boolean }
+
+    act(() => {
+      added = result.current.addCard('1-1-normal')
+    })
+
+    expect(added!).toEqual({ packNumber: 1, closed: false })
+    expect(result.current.currentPack?.cards).toEqual(['1-1-normal'])
+    expect(result.current.totalPacks).toBe(1)
+  })
+
+  it('keeps consecutive adds in one tick consistent', () => {
+    const { result } = renderHook(() => usePacks(null))
+    const numbers: number[] = []
+
+    act(() => {
+      for (let i = 0; i <= PACK_SIZE; i++) numbers.push(result.current.addCard('1-' + i + '-normal').packNumber)
+    })
+
+    expect(numbers.filter((n) => n === 1)).toHaveLength(PACK_SIZE)
+    expect(numbers[PACK_SIZE]).toBe(2)
+  })
+
+  it('undoing the add that closed a pack keeps the next card in that pack', () => {
+    const { result } = renderHook(() => usePacks(null))
+    let last: { packNumber: number; closed: boolean }
+
+    act(() => {
+      for (let i = 0; i < PACK_SIZE; i++) last = result.current.addCard('1-1-normal')
+    })
+    expect(last!.closed).toBe(true)
+
+    act(() => {
+      result.current.removeCopy('1-1-normal', last.packNumber)
+      result.current.reopen(last.packNumber)
+    })
+
+    let next: { packNumber: number; closed: boolean }
+    act(() => {
+      next = result.current.addCard('1-2-normal')
+    })
+    expect(next!.packNumber).toBe(1)
+  })
+
+  it('starts a new pack on request', () => {
+    const { result } = renderHook(() => usePacks(null))
+
+    act(() => {
+      result.current.addCard('1-1-normal')
+      result.current.startNewPack()
+    })
+
+    expect(result.current.currentPack?.number).toBe(2)
+    expect(result.current.currentPack?.cards).toEqual([])
+  })
+
+  it('moves a copy between packs', () => {
+    const { result } = renderHook(() => usePacks(null))
+
+    act(() => {
+      result.current.addCard('1-1-normal')
+      result.current.startNewPack()
+      result.current.addCard('1-2-normal')
+    })
+    act(() => {
+      result.current.moveCopy('1-1-normal', 1, 2)
+    })
+
+    expect(result.current.packs.map((p) => p.cards)).toEqual([[], ['1-2-normal', '1-1-normal']])
+    expect(result.current.totalPacks).toBe(1)
+  })
+
+  it('loads stored packs and persists changes', async () => {
+    await replacePacks(3, [{ sessionId: 3, number: 1, openedAt: 1, closedAt: null, cards: ['1-1-normal'] }])
+
+    const { result } = renderHook(() => usePacks(3))
+    await waitFor(() => expect(result.current.packs).toHaveLength(1))
+
+    act(() => {
+      result.current.addCard('1-2-normal')
+    })
+
+    await waitFor(async () => {
+      expect((await loadPacks(3))[0]!.cards).toEqual(['1-1-normal', '1-2-normal'])
+    })
+  })
+})
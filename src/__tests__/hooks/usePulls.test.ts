@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { renderHook, act } from '@testing-library/react'
+import { renderHook, act, waitFor } from '@testing-library/react'
 import { usePulls } from '../../hooks/usePulls'
+import { loadPulls, replacePulls } from '../../db'
 import type { Card } from '../../types'
 
 function makeCard(overrides: Partial<Card> = {}): Card {
@@ -25,13 +26,13 @@ describe('usePulls', () => {
   })
 
   it('initializes with empty pulls array', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     expect(result.current.pulls).toEqual([])
     expect(result.current.totalCards).toBe(0)
   })
 
   it('adds a new pull and returns key', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card = makeCard()
     let key: string
 
@@ -51,7 +52,7 @@ describe('usePulls', () => {
   })
 
   it('increments count if pull key already exists', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card = makeCard()
 
     act(() => {
@@ -68,8 +69,26 @@ describe('usePulls', () => {
     expect(result.current.pulls[0]!.count).toBe(2)
   })
 
+  it('merges a batch into existing counts', () => {
+    const { result } = renderHook(() => usePulls(null))
+
+    act(() => {
+      result.current.addPull(makeCard(), 'normal', 1)
+    })
+    act(() => {
+      result.current.mergePulls([
+        { card: makeCard(), variant: 'normal', count: 3, packNumber: 4 },
+        { card: makeCard({ cn: '2' }), variant: 'foil', count: 2, packNumber: 4 },
+      ])
+    })
+
+    expect(result.current.pulls).toHaveLength(2)
+    expect(result.current.pulls[0]).toMatchObject({ key: '1-1-normal', count: 4, packNumber: 1 })
+    expect(result.current.pulls[1]).toMatchObject({ key: '1-2-foil', count: 2, packNumber: 4 })
+  })
+
   it('updates pull count by delta', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card = makeCard()
 
     act(() => {
@@ -84,7 +103,7 @@ describe('usePulls', () => {
   })
 
   it('removes pull when count reaches 0', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card = makeCard()
 
     act(() => {
@@ -101,7 +120,7 @@ describe('usePulls', () => {
   })
 
   it('ignores updateCount for non-existent pull', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
 
     act(() => {
       result.current.updateCount('nonexistent-key', 1)
@@ -111,7 +130,7 @@ describe('usePulls', () => {
   })
 
   it('removes pull by key', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card = makeCard()
 
     act(() => {
@@ -128,7 +147,7 @@ describe('usePulls', () => {
   })
 
   it('clears all pulls', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card1 = makeCard()
     const card2 = makeCard({ cn: '2', name: 'Elsa' })
 
@@ -147,7 +166,7 @@ describe('usePulls', () => {
   })
 
   it('calculates totalCards correctly', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card1 = makeCard()
     const card2 = makeCard({ cn: '2', name: 'Elsa' })
 
@@ -161,7 +180,7 @@ describe('usePulls', () => {
   })
 
   it('calculates totalFoils correctly', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card = makeCard()
 
     act(() => {
@@ -174,7 +193,7 @@ describe('usePulls', () => {
   })
 
   it('calculates totalLegendary correctly', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const legendary = makeCard({ rarity: 'Legendary' })
     const uncommon = makeCard({ cn: '2', rarity: 'Uncommon' })
 
@@ -188,7 +207,7 @@ describe('usePulls', () => {
   })
 
   it('calculates totalSuperRare correctly', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const superRare = makeCard({ rarity: 'Super Rare' })
     const superRare2 = makeCard({ cn: '2', rarity: 'Super_rare' })
     const uncommon = makeCard({ cn: '3', rarity: 'Uncommon' })
@@ -204,7 +223,7 @@ describe('usePulls', () => {
   })
 
   it('calculates totalEnchanted correctly', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const enchanted = makeCard({ rarity: 'Enchanted' })
     const uncommon = makeCard({ cn: '2', rarity: 'Uncommon' })
 
@@ -217,7 +236,7 @@ describe('usePulls', () => {
   })
 
   it('calculates totalPacks as max packNumber', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const card1 = makeCard()
     const card2 = makeCard({ cn: '2' })
     const card3 = makeCard({ cn: '3' })
@@ -232,7 +251,7 @@ describe('usePulls', () => {
   })
 
   it('groups pulls by set name and sorts by collector number', () => {
-    const { result } = renderHook(() => usePulls())
+    const { result } = renderHook(() => usePulls(null))
     const setA_1 = makeCard({ setCode: 'A', setName: 'Set A', cn: '10' })
     const setA_2 = makeCard({ setCode: 'A', setName: 'Set A', cn: '5', name: 'Card 5' })
     const setB_1 = makeCard({ setCode: 'B', setName: 'Set B', cn: '2', name: 'Card 2' })
@@ -250,19 +269,61 @@ describe('usePulls', () => {
     expect(result.current.groupedPulls['Set B']).toHaveLength(1)
   })
 
-  it('persists pulls to localStorage', () => {
-    const { result } = renderHook(() => usePulls())
+  it('persists pulls to IndexedDB once loaded', async () => {
+    const { result } = renderHook(() => usePulls(1))
     const card = makeCard()
 
+    // Let the initial load settle before adding
+    await act(async () => {})
+
     act(() => {
       result.current.addPull(card, 'normal', 1)
     })
 
-    const stored = localStorage.getItem('lorcana_session_pulls')
-    expect(stored).toBeTruthy()
+    await waitFor(async () => {
+      const stored = await loadPulls(1)
+      expect(stored).toHaveLength(1)
+      expect(stored[0]!.key).toBe('1-1-normal')
+    })
+  })
+
+  it('loads persisted pulls for the session', async () => {
+    await replacePulls(7, [
+      { key: '1-1-normal', card: makeCard(), variant: 'normal', count: 2, packNumber: 1 },
+      { key: '1-2-foil', card: makeCard({ cn: '2' }), variant: 'foil', count: 1, packNumber: 1 },
+    ])
+
+    const { result } = renderHook(() => usePulls(7))
+
+    await waitFor(() => expect(result.current.pulls).toHaveLength(2))
+    expect(result.current.pulls[0]!.count).toBe(2)
+    expect(result.current.pulls[1]!.key).toBe('1-2-foil')
+  })
+
+  it('does not persist while sessionId is null', async () => {
+    const { result } = renderHook(() => usePulls(null))
+
+    act(() => {
+      result.current.addPull(makeCard(), 'normal', 1)
+    })
+
+    await act(async () => {})
+    expect(await loadPulls(1)).toEqual([])
+  })
+
+  it('swaps to the other session\'s pulls on switch without mixing them', async () => {
+    await replacePulls(1, [{ key: '1-1-normal', card: makeCard(), variant: 'normal', count: 3, packNumber: 1 }])
+    await replacePulls(2, [{ key: '1-2-foil', card: makeCard({ cn: '2' }), variant: 'foil', count: 1, packNumber: 1 }])
+
+    const { result, rerender } = renderHook(({ id }) => usePulls(id), { initialProps: { id: 1 } })
+    await waitFor(() => expect(result.current.pulls).toHaveLength(1))
+
+    rerender({ id: 2 })
+    await waitFor(() => expect(result.current.pulls[0]?.key).toBe('1-2-foil'))
+    expect(result.current.pulls).toHaveLength(1)
 
-    const parsed = JSON.parse(stored!)
-    expect(parsed).toHaveLength(1)
-    expect(parsed[0].key).toBe('1-1-normal')
+    await act(async () => {})
+    expect((await loadPulls(1)).map((p) => p.key)).toEqual(['1-1-normal'])
+    expect((await loadPulls(2)).map((p) => p.key)).toEqual(['1-2-foil'])
   })
 })
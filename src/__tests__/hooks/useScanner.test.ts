@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useScanner } from '../../hooks/useScanner'
+import type { Card } from '../../types'
+import type { FoilSample } from '../../utils/foil-detector'
+
+const frames = vi.hoisted(() => ({
+  /** OCR text per frame, in order; the last one repeats */
+  texts: [] as string[],
+  /** Foil sample handed out with every frame, or null as when no card outline was found */
+  foilSample: null as FoilSample | null,
+  /** What the name banner reads as, or '' for no name crop */
+  nameText: '',
+  read: 0,
+}))
+
+vi.mock('../../utils/frame-worker', () => ({
+  isFrameWorkerSupported: () => false,
+  readCardFrame: async () => ({
+    located: null,
+    regions: {
+      frame: { x: 0, y: 0, w: 10, h: 10 },
+      cn: { x: 0, y: 0, w: 10, h: 10 },
+      ink: { x: 0, y: 0, w: 10, h: 10 },
+      name: { x: 0, y: 0, w: 10, h: 10 },
+    },
+    foilSample: frames.foilSample,
+    cn: 'cn-crop',
+    preprocess: {},
+    ink: { ink: null, confidence: 0, avgColor: [0, 0, 0], secondaryInk: null, detectedInks: [] },
+    name: frames.nameText ? 'name-crop' : null,
+    card: null,
+    pipeline: 'main',
+    mainThreadMs: 1,
+  }),
+  readPageFrame: async () => ({ pockets: [], pipeline: 'main', mainThreadMs: 0 }),
+  releaseCardFrame: () => {},
+  terminateFrameWorker: () => {},
+  ocrImageDataUrl: async () => null,
+}))
+
+vi.mock('../../utils/ocr-worker', () => ({
+  recognizeCollectorNumber: async () => {
+    const text = frames.texts[Math.min(frames.read, frames.texts.length - 1)] ?? ''
+    frames.read++
+    return { text, confidence: 90 }
+  },
+  recognizeFromCanvas: async () => ({ text: frames.nameText, confidence: 90 }),
+  terminateWorker: async () => {},
+}))
+
+const card: Card = {
+  name: 'Ariel',
+  version: 'On Human Legs',
+  display: 'Ariel – On Human Legs',
+  setCode: '1',
+  setName: 'The First Chapter',
+  cn: '1',
+  cost: 4,
+  ink: 'Amber',
+  rarity: 'Uncommon',
+  type: ['Character'],
+  imageUrl: '',
+}
+
+const flatSample: FoilSample = { luma: Array(88).fill(120), sat: Array(88).fill(40) }
+
+async function openRapidScanner(onCardMatched: () => void) {
+  const hook = renderHook(() =>
+    useScanner({ cards: [card], setFilter: 'all', onCardMatched, onPageMatched: () => {} }),
+  )
+  hook.result.current.videoRef.current = {
+    readyState: 4,
+    videoWidth: 1920,
+    videoHeight: 1080,
+    clientWidth: 400,
+    clientHeight: 800,
+    srcObject: null,
+    play: async () => {},
+  } as unknown as HTMLVideoElement
+  act(() => hook.result.current.toggleRapidMode())
+  await act(async () => {
+    await (hook.result.current.openScanner as () => Promise<void>)()
+  })
+  return hook
+}
+
+/** Run the frame loop for `n` frames. */
+async function runFrames(n: number) {
+  for (let i = 0; i < n; i++) {
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(500)
+    })
+  }
+}
+
+describe('useScanner rapid mode', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    frames.texts = []
+    frames.foilSample = null
+    frames.nameText = ''
+    frames.read = 0
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: async () => ({ getTracks: () => [] }) },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('waits for the user when the finish could not be measured', async () => {
+    frames.texts = ['1/204']
+    const onCardMatched = vi.fn()
+    const { result } = await openRapidScanner(onCardMatched)
+
+    await runFrames(3)
+    expect(result.current.scannerState).toBe('matched')
+    expect(result.current.foilEstimate).toBeNull()
+    expect(result.current.autoConfirmAt).toBeNull()
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(3000)
+    })
+    expect(onCardMatched).not.toHaveBeenCalled()
+
+    act(() => result.current.confirmMatch('normal'))
+    expect(onCardMatched).toHaveBeenCalledWith(card, 'normal', undefined, undefined)
+  })
+
+  it('logs a card that is confidently normal after the countdown', async () => {
+    // Frames of a still card with an unreadable number first, so the foil
+    // guess has a full window by the time the number is agreed on
+    frames.texts = ['', '', '', '1/204']
+    frames.foilSample = flatSample
+    const onCardMatched = vi.fn()
+    const { result } = await openRapidScanner(onCardMatched)
+
+    await runFrames(6)
+    expect(result.current.scannerState).toBe('matched')
+    expect(result.current.foilEstimate?.variant).toBe('normal')
+    expect(result.current.autoConfirmAt).not.toBeNull()
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(1500)
+    })
+    expect(onCardMatched).toHaveBeenCalledWith(card, 'normal', undefined, undefined)
+  })
+})
+
+describe('useScanner name fallback', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    frames.texts = []
+    frames.foilSample = null
+    frames.nameText = ''
+    frames.read = 0
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: async () => ({ getTracks: () => [] }) },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('logs a card matched by name in the language its footer reads', async () => {
+    // The number is unreadable but the language code is not
+    frames.texts = ['FR • 1']
+    frames.nameText = 'Ariel On Human Legs'
+    const onCardMatched = vi.fn()
+    const { result } = await openRapidScanner(onCardMatched)
+
+    await runFrames(3)
+    expect(result.current.scannerState).toBe('matched')
+
+    act(() => result.current.confirmMatch('normal'))
+    expect(onCardMatched).toHaveBeenCalledWith(
+      expect.objectContaining({ cn: '1', language: 'fr' }),
+      'normal',
+      undefined,
+      undefined,
+    )
+  })
+})
+
+describe('useScanner OCR strategies', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    frames.texts = []
+    frames.foilSample = null
+    frames.nameText = ''
+    frames.read = 0
+    Object.defineProperty(navigator, 'mediaDevices', {
+      configurable: true,
+      value: { getUserMedia: async () => ({ getTracks: () => [] }) },
+    })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /** Strategy tries and reads from the diagnostics export. */
+  async function exportedTries(exportDiagnostics: () => void) {
+    let json = ''
+    vi.stubGlobal(
+      'Blob',
+      class {
+        constructor(parts: string[]) {
+          json = parts.join('')
+        }
+      },
+    )
+    URL.createObjectURL = () => 'blob:diag'
+    URL.revokeObjectURL = () => {}
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    await act(async () => {
+      await (exportDiagnostics as () => Promise<void>)()
+    })
+    vi.unstubAllGlobals()
+    click.mockRestore()
+    const diag = JSON.parse(json) as { ocrStrategies: Record<string, { tries: number; reads: number }> }
+    return Object.values(diag.ocrStrategies).reduce(
+      (sum, r) => ({ tries: sum.tries + r.tries, reads: sum.reads + r.reads }),
+      { tries: 0, reads: 0 },
+    )
+  }
+
+  it('does not count frames with no card and no text against a strategy', async () => {
+    frames.texts = ['', '', '', '1/204']
+    const { result } = await openRapidScanner(() => {})
+
+    await runFrames(3)
+    expect(await exportedTries(result.current.exportDiagnostics)).toEqual({ tries: 0, reads: 0 })
+
+    await runFrames(1)
+    expect(await exportedTries(result.current.exportDiagnostics)).toEqual({ tries: 1, reads: 1 })
+  })
+})
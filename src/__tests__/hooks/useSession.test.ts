@@ -1,41 +1,55 @@
 import { describe, it, expect, beforeEach } from 'vitest'
-import { renderHook, act } from '@testing-library/react'
+import { renderHook, act, waitFor } from '@testing-library/react'
 import { useSession } from '../../hooks/useSession'
+import { loadActiveSession, saveActiveSession, saveSession, loadSessions, loadPulls, replacePulls, openDatabase } from '../../db'
+
+/** Render the hook and wait for the IndexedDB load to finish. */
+async function renderSession() {
+  const hook = renderHook(() => useSession())
+  await waitFor(() => expect(hook.result.current.sessionId).not.toBeNull())
+  return hook
+}
 
 describe('useSession', () => {
   beforeEach(() => {
     localStorage.clear()
   })
 
-  it('initializes with an auto-generated date/time session name', () => {
-    const { result } = renderHook(() => useSession())
+  it('initializes with an auto-generated date/time session name', async () => {
+    const { result } = await renderSession()
     // Default name matches pattern like "21 Feb 2026, 16:30"
     expect(result.current.sessionName).toMatch(/^\d{1,2} \w{3} \d{4}, \d{2}:\d{2}$/)
   })
 
-  it('initializes with null sessionStartedAt when not set', () => {
-    const { result } = renderHook(() => useSession())
+  it('initializes with null sessionStartedAt when not set', async () => {
+    const { result } = await renderSession()
     expect(result.current.sessionStartedAt).toBeNull()
   })
 
-  it('initializes addCountRef with 0', () => {
-    const { result } = renderHook(() => useSession())
-    expect(result.current.addCountRef.current).toBe(0)
+  it('creates and persists a session record on first run', async () => {
+    const { result } = await renderSession()
+
+    await waitFor(async () => {
+      const stored = await loadActiveSession()
+      expect(stored?.id).toBe(result.current.sessionId)
+    })
   })
 
-  it('sets session name and persists to localStorage', () => {
-    const { result } = renderHook(() => useSession())
+  it('sets session name and persists to IndexedDB', async () => {
+    const { result } = await renderSession()
 
     act(() => {
       result.current.setSessionName('My Session')
     })
 
     expect(result.current.sessionName).toBe('My Session')
-    expect(localStorage.getItem('lorcana_session_name')).toBe('My Session')
+    await waitFor(async () => {
+      expect((await loadActiveSession())?.name).toBe('My Session')
+    })
   })
 
-  it('ensureSessionStarted sets timestamp on first call', () => {
-    const { result } = renderHook(() => useSession())
+  it('ensureSessionStarted sets timestamp on first call', async () => {
+    const { result } = await renderSession()
 
     const beforeCall = Date.now()
 
@@ -50,8 +64,8 @@ describe('useSession', () => {
     expect(result.current.sessionStartedAt!).toBeLessThanOrEqual(afterCall)
   })
 
-  it('ensureSessionStarted does not reset timestamp on second call', () => {
-    const { result } = renderHook(() => useSession())
+  it('ensureSessionStarted does not reset timestamp on second call', async () => {
+    const { result } = await renderSession()
 
     act(() => {
       result.current.ensureSessionStarted()
@@ -66,139 +80,165 @@ describe('useSession', () => {
     expect(result.current.sessionStartedAt).toBe(firstTimestamp)
   })
 
-  it('ensureSessionStarted persists timestamp to localStorage', () => {
-    const { result } = renderHook(() => useSession())
+  it('ensureSessionStarted persists timestamp to IndexedDB', async () => {
+    const { result } = await renderSession()
 
     act(() => {
       result.current.ensureSessionStarted()
     })
 
-    const stored = localStorage.getItem('lorcana_session_started')
-    expect(stored).toBeTruthy()
-    expect(parseInt(stored!, 10)).toBe(result.current.sessionStartedAt)
+    await waitFor(async () => {
+      const stored = await loadActiveSession()
+      expect(stored?.startedAt).toBeTruthy()
+      expect(stored?.startedAt).toBe(result.current.sessionStartedAt)
+    })
   })
 
-  it('incrementAddCount increments count and returns new value', () => {
-    const { result } = renderHook(() => useSession())
-
-    let newCount: number
+  it('clearSession resets all state and the persisted record', async () => {
+    const { result } = await renderSession()
 
     act(() => {
-      newCount = result.current.incrementAddCount()
+      result.current.setSessionName('Test Session')
+      result.current.ensureSessionStarted()
     })
-    expect(newCount!).toBe(1)
-    expect(result.current.addCountRef.current).toBe(1)
+
+    expect(result.current.sessionName).toBe('Test Session')
+    expect(result.current.sessionStartedAt).toBeTruthy()
 
     act(() => {
-      newCount = result.current.incrementAddCount()
+      result.current.clearSession()
     })
-    expect(newCount!).toBe(2)
-    expect(result.current.addCountRef.current).toBe(2)
-  })
-
-  it('incrementAddCount persists count to localStorage', () => {
-    const { result } = renderHook(() => useSession())
 
-    act(() => {
-      result.current.incrementAddCount()
+    expect(result.current.sessionName).toMatch(/^\d{1,2} \w{3} \d{4}, \d{2}:\d{2}$/)
+    expect(result.current.sessionStartedAt).toBeNull()
+    await waitFor(async () => {
+      const stored = await loadActiveSession()
+      expect(stored?.name).toBe(result.current.sessionName)
+      expect(stored?.startedAt).toBeNull()
     })
+  })
 
-    expect(localStorage.getItem('lorcana_session_add_count')).toBe('1')
+  it('loads the persisted session from IndexedDB', async () => {
+    await saveActiveSession({ id: 42, name: 'Stored Session', startedAt: 1234567890 })
 
-    act(() => {
-      result.current.incrementAddCount()
-    })
+    const { result } = await renderSession()
+    expect(result.current.sessionId).toBe(42)
+    expect(result.current.sessionName).toBe('Stored Session')
+    expect(result.current.sessionStartedAt).toBe(1234567890)
+  })
 
-    expect(localStorage.getItem('lorcana_session_add_count')).toBe('2')
+  it('imports legacy localStorage session data on first open', async () => {
+    localStorage.setItem('lorcana_session_name', 'Persisted Session')
+    localStorage.setItem('lorcana_session_add_count', '5')
+    localStorage.setItem('lorcana_session_started', '1234567890')
+
+    const { result } = await renderSession()
+    expect(result.current.sessionName).toBe('Persisted Session')
+    expect(result.current.sessionStartedAt).toBe(1234567890)
   })
 
-  it('currentPack calculates pack number as ceil(addCount / 12)', () => {
-    const { result } = renderHook(() => useSession())
+  it('removes legacy keys once the import has committed', async () => {
+    localStorage.setItem('lorcana_session_name', 'Persisted Session')
+
+    await openDatabase()
+    expect(localStorage.getItem('lorcana_session_name')).toBeNull()
+  })
 
-    // Start with 0, should be pack 0
-    expect(result.current.currentPack()).toBe(0)
+  it('creates a new session and switches to it, keeping the old one', async () => {
+    const { result } = await renderSession()
+    const firstId = result.current.sessionId
 
-    // Add 1 card, should be pack 1
     act(() => {
-      result.current.incrementAddCount()
+      result.current.setSessionName('Box 1')
     })
-    expect(result.current.currentPack()).toBe(1)
-
-    // Add 11 more cards (total 12), should still be pack 1
-    for (let i = 0; i < 11; i++) {
-      act(() => {
-        result.current.incrementAddCount()
-      })
-    }
-    expect(result.current.currentPack()).toBe(1)
-
-    // Add 1 more card (total 13), should be pack 2
+    let newId: number
     act(() => {
-      result.current.incrementAddCount()
+      newId = result.current.createSession('Box 2')
     })
-    expect(result.current.currentPack()).toBe(2)
 
-    // Add 11 more cards (total 24), should still be pack 2
-    for (let i = 0; i < 11; i++) {
-      act(() => {
-        result.current.incrementAddCount()
-      })
-    }
-    expect(result.current.currentPack()).toBe(2)
+    expect(result.current.sessionId).toBe(newId!)
+    expect(result.current.sessionName).toBe('Box 2')
+    expect(result.current.sessions.map((s) => s.name)).toEqual(['Box 1', 'Box 2'])
+    await waitFor(async () => {
+      expect((await loadActiveSession())?.id).toBe(newId)
+      expect((await loadSessions()).map((s) => s.id)).toEqual([firstId, newId])
+    })
 
-    // Add 1 more card (total 25), should be pack 3
     act(() => {
-      result.current.incrementAddCount()
+      result.current.switchSession(firstId!)
     })
-    expect(result.current.currentPack()).toBe(3)
+    expect(result.current.sessionName).toBe('Box 1')
+    await waitFor(async () => expect((await loadActiveSession())?.id).toBe(firstId))
   })
 
-  it('clearSession resets all state and localStorage', () => {
-    const { result } = renderHook(() => useSession())
+  it('renames any session without switching to it', async () => {
+    await saveSession({ id: 1, name: 'Old', startedAt: null })
+    await saveActiveSession({ id: 2, name: 'Current', startedAt: null })
+    const { result } = await renderSession()
 
     act(() => {
-      result.current.setSessionName('Test Session')
-      result.current.ensureSessionStarted()
-      result.current.incrementAddCount()
-      result.current.incrementAddCount()
+      result.current.renameSession(1, 'Renamed')
     })
 
-    expect(result.current.sessionName).toBe('Test Session')
-    expect(result.current.sessionStartedAt).toBeTruthy()
-    expect(result.current.addCountRef.current).toBe(2)
+    expect(result.current.sessionId).toBe(2)
+    await waitFor(async () => expect((await loadSessions())[0]!.name).toBe('Renamed'))
+  })
+
+  it('archiving the active session switches to the newest open one', async () => {
+    await saveSession({ id: 1, name: 'Older', startedAt: null })
+    await saveSession({ id: 2, name: 'Archived', startedAt: null, archivedAt: 5 })
+    await saveActiveSession({ id: 3, name: 'Current', startedAt: null })
+    const { result } = await renderSession()
 
     act(() => {
-      result.current.clearSession()
+      result.current.archiveSession(3)
     })
 
-    expect(result.current.sessionName).toMatch(/^\d{1,2} \w{3} \d{4}, \d{2}:\d{2}$/)
-    expect(result.current.sessionStartedAt).toBeNull()
-    expect(result.current.addCountRef.current).toBe(0)
-    expect(localStorage.getItem('lorcana_session_name')).toBeNull()
-    expect(localStorage.getItem('lorcana_session_started')).toBeNull()
-    expect(localStorage.getItem('lorcana_session_add_count')).toBeNull()
-    expect(localStorage.getItem('lorcana_session_pulls')).toBeNull()
-  })
-
-  it('loads persisted session name from localStorage', () => {
-    localStorage.setItem('lorcana_session_name', 'Persisted Session')
+    expect(result.current.sessionId).toBe(1)
+    expect(result.current.sessions.find((s) => s.id === 3)?.archivedAt).toBeTruthy()
+    await waitFor(async () => expect((await loadActiveSession())?.id).toBe(1))
 
-    const { result } = renderHook(() => useSession())
-    expect(result.current.sessionName).toBe('Persisted Session')
+    act(() => {
+      result.current.switchSession(3)
+    })
+    expect(result.current.sessions.find((s) => s.id === 3)?.archivedAt).toBeNull()
   })
 
-  it('loads persisted add count from localStorage', () => {
-    localStorage.setItem('lorcana_session_add_count', '5')
-
-    const { result } = renderHook(() => useSession())
-    expect(result.current.addCountRef.current).toBe(5)
-  })
+  it('deleting the last session starts a fresh one and removes its pulls', async () => {
+    await saveActiveSession({ id: 5, name: 'Only', startedAt: 100 })
+    await replacePulls(5, [
+      {
+        key: '1-1-normal',
+        card: {
+          name: 'Ariel',
+          version: '',
+          display: 'Ariel',
+          setCode: '1',
+          setName: 'The First Chapter',
+          cn: '1',
+          cost: 4,
+          ink: 'Amber',
+          rarity: 'Uncommon',
+          type: ['Character'],
+          imageUrl: '',
+        },
+        variant: 'normal',
+        count: 1,
+        packNumber: 1,
+      },
+    ])
+    const { result } = await renderSession()
 
-  it('loads persisted session started timestamp from localStorage', () => {
-    const timestamp = '1234567890'
-    localStorage.setItem('lorcana_session_started', timestamp)
+    act(() => {
+      result.current.deleteSession(5)
+    })
 
-    const { result } = renderHook(() => useSession())
-    expect(result.current.sessionStartedAt).toBe(1234567890)
+    expect(result.current.sessionId).not.toBe(5)
+    expect(result.current.sessionStartedAt).toBeNull()
+    expect(result.current.sessions).toHaveLength(1)
+    await waitFor(async () => {
+      expect(await loadPulls(5)).toEqual([])
+      expect((await loadSessions()).map((s) => s.id)).toEqual([result.current.sessionId])
+    })
   })
 })
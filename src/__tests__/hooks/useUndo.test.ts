@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, act } from '@testing-library/react'
+import { useUndo } from '../../hooks/useUndo'
+import { usePacks } from '../../hooks/usePacks'
+import { pullKey } from '../../utils/card-language'
+import type { Card } from '../../types'
+
+function makeCard(cn: string): Card {
+  return {
+    name: 'Ariel',
+    version: 'On Human Legs',
+    display: 'Ariel – On Human Legs #' + cn,
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn,
+    cost: 4,
+    ink: 'Amber',
+    rarity: 'Uncommon',
+    type: ['Character'],
+    imageUrl: '',
+  }
+}
+
+describe('useUndo', () => {
+  it('takes back a single card', () => {
+    const { result } = renderHook(() => useUndo())
+    act(() => result.current.recordAction(makeCard('1'), 'foil', 1, false, undefined, 'NM'))
+
+    expect(result.current.showUndo).toBe(true)
+    expect(result.current.lastActionRef.current).toMatchObject({
+      label: 'Ariel – On Human Legs #1',
+      copies: [{ key: '1-1-foil', variant: 'foil', condition: 'NM', packNumber: 1 }],
+    })
+  })
+
+  it('takes back a whole binder page in one step', () => {
+    const { result } = renderHook(() => ({ undo: useUndo(), packs: usePacks(null) }))
+    const page = ['1', '2', '3'].map(makeCard)
+
+    act(() => {
+      const copies = page.map((card) => {
+        const { packNumber, closed } = result.current.packs.addCard(pullKey(card, 'normal'))
+        return { card, variant: 'normal' as const, packNumber, closedPack: closed }
+      })
+      result.current.undo.recordPage(copies)
+    })
+
+    const action = result.current.undo.lastActionRef.current!
+    expect(action.label).toBe('3 cards')
+    expect(action.copies.map((c) => c.key)).toEqual(['1-1-normal', '1-2-normal', '1-3-normal'])
+
+    // As App's Undo does: every copy of the page comes back out of its pack
+    act(() => {
+      ;[...action.copies].reverse().forEach((copy) => result.current.packs.removeCopy(copy.key, copy.packNumber))
+      result.current.undo.clearUndo()
+    })
+    expect(result.current.packs.currentPack?.cards ?? []).toEqual([])
+    expect(result.current.undo.showUndo).toBe(false)
+  })
+})
@@ -0,0 +1,226 @@
+import { describe, it, expect } from 'vitest'
+import { parseImportFile, parseImportCsv, parseImportJson, resolveImport } from '../../importers'
+import { getExporter } from '../../exporters'
+import type { Card, Pull } from '../../types'
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    name: 'Ariel',
+    version: 'On Human Legs',
+    display: 'Ariel – On Human Legs',
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn: '1',
+    cost: 4,
+    ink: 'Amber',
+    rarity: 'Uncommon',
+    type: ['Character'],
+    imageUrl: '',
+    ...overrides,
+  }
+}
+
+const cards = [makeCard(), makeCard({ cn: '2' }), makeCard({ setCode: '2', cn: '1' })]
+
+function makePull(card: Card, variant: 'normal' | 'foil', count: number, packNumber = 1): Pull {
+  return { key: card.setCode + '-' + card.cn + '-' + variant, card, variant, count, packNumber }
+}
+
+const meta = { sessionName: 'Box', exportedAt: 0 }
+
+describe('parseImportCsv', () => {
+  it('reads our Dreamborn export', () => {
+    const csv = getExporter('dreamborn').generate([makePull(cards[0]!, 'foil', 2)], meta)
+    expect(parseImportCsv(csv)).toEqual({
+      rows: [{ line: 2, setCode: '1', cn: '1', variant: 'foil', count: 2, packNumber: undefined }],
+      error: null,
+    })
+  })
+
+  it('splits normal and foil quantity columns into separate rows', () => {
+    const csv = getExporter('lorcana-hq').generate(
+      [makePull(cards[0]!, 'normal', 2), makePull(cards[0]!, 'foil', 1), makePull(cards[1]!, 'foil', 1)],
+      meta,
+    )
+    const { rows } = parseImportCsv(csv)
+    expect(rows.map((r) => [r.cn, r.variant, r.count])).toEqual([
+      ['1', 'normal', 2],
+      ['1', 'foil', 1],
+      ['2', 'foil', 1],
+    ])
+  })
+
+  it('reads back promo variants, details and conditions from our Lorcana HQ export', () => {
+    const graded: Pull = {
+      key: '1-2-cold-foil-psa10-signed',
+      card: cards[1]!,
+      variant: 'cold-foil',
+      details: { grade: { company: 'PSA', grade: '10' }, signed: true },
+      count: 3,
+      conditions: { NM: 2 },
+      packNumber: 1,
+    }
+    const csv = getExporter('lorcana-hq').generate([graded, makePull(cards[1]!, 'foil', 1)], meta)
+    const report = resolveImport(parseImportCsv(csv).rows, cards)
+
+    expect(report.issues).toEqual([])
+    const details = { grade: { company: 'PSA', grade: '10' }, signed: true }
+    expect(report.pulls).toEqual([
+      { card: cards[1], variant: 'cold-foil', details, count: 2, conditions: { NM: 2 }, packNumber: undefined },
+      { card: cards[1], variant: 'cold-foil', details, count: 1, packNumber: undefined },
+      { card: cards[1], variant: 'foil', count: 1, packNumber: undefined },
+    ])
+  })
+
+  it('reads a Dreamborn export of other languages back as English', () => {
+    const french = makePull(cards[0]!, 'normal', 1)
+    french.card = { ...french.card, language: 'fr' }
+    const csv = getExporter('dreamborn').generate([makePull(cards[0]!, 'normal', 2), french], meta)
+    const report = resolveImport(parseImportCsv(csv).rows, cards)
+    expect(report.pulls.map((p) => [p.card.language, p.count])).toEqual([[undefined, 3]])
+  })
+
+  it('accepts common header spellings and defaults missing columns', () => {
+    const { rows } = parseImportCsv('Set Code,Collector Number,Qty\n1,2,3\n2,1,')
+    expect(rows.map((r) => [r.setCode, r.cn, r.variant, r.count])).toEqual([
+      ['1', '2', 'normal', 3],
+      ['2', '1', 'normal', 1],
+    ])
+  })
+
+  it('reports a header without set or number columns', () => {
+    expect(parseImportCsv('Name,Count\nAriel,1').error).toMatch(/set and card number/)
+  })
+})
+
+describe('parseImportJson', () => {
+  it('reads our full JSON export including pack numbers', () => {
+    const json = getExporter('json').generate([makePull(cards[1]!, 'normal', 2, 3)], meta)
+    expect(parseImportJson(json).rows).toEqual([
+      { line: 1, setCode: '1', cn: '2', variant: 'normal', count: 2, packNumber: 3, language: 'en' },
+    ])
+  })
+
+  it('reads history entries with nested card snapshots', () => {
+    const entries = [
+      { id: 1, pulls: [{ key: '1-1-normal', variant: 'normal', count: 1, card: { setCode: '1', cn: '1' } }] },
+      { id: 2, pulls: [{ key: '2-1-foil', variant: 'foil', count: 2, card: { setCode: '2', cn: '1' } }] },
+    ]
+    const { rows } = parseImportJson(JSON.stringify(entries))
+    expect(rows.map((r) => [r.setCode, r.cn, r.variant, r.count])).toEqual([
+      ['1', '1', 'normal', 1],
+      ['2', '1', 'foil', 2],
+    ])
+  })
+
+  it('splits history condition counts into rows', () => {
+    const entries = [
+      { id: 1, pulls: [{ key: '1-1-normal', variant: 'normal', count: 3, conditions: { NM: 2 }, card: { setCode: '1', cn: '1' } }] },
+    ]
+    const { rows } = parseImportJson(JSON.stringify(entries))
+    expect(rows.map((r) => [r.cn, r.count, r.condition])).toEqual([
+      ['1', 2, 'NM'],
+      ['1', 1, undefined],
+    ])
+  })
+
+  it('reports invalid JSON and missing pull lists', () => {
+    expect(parseImportJson('{nope').error).toMatch(/not valid JSON/)
+    expect(parseImportJson('{"cards": []}').error).toMatch(/list of pulls/)
+  })
+})
+
+describe('parseImportFile', () => {
+  it('picks the parser from the extension, then the content', () => {
+    expect(parseImportFile('a.json', '[]').error).toBeNull()
+    expect(parseImportFile('a.csv', '[]').error).not.toBeNull()
+    expect(parseImportFile('paste', '{"pulls": []}').error).toBeNull()
+    expect(parseImportFile('paste', 'Set,Number\n1,1').rows).toHaveLength(1)
+  })
+})
+
+describe('resolveImport', () => {
+  it('resolves rows to cards by set code and collector number', () => {
+    const { rows } = parseImportCsv('Set,Number,Variant,Count,Pack\n1,2,Foil,2,5\n2,1,normal,1,')
+    const report = resolveImport(rows, cards)
+
+    expect(report.issues).toEqual([])
+    expect(report.totalRows).toBe(2)
+    expect(report.pulls).toEqual([
+      { card: cards[1], variant: 'foil', count: 2, packNumber: 5 },
+      { card: cards[2], variant: 'normal', count: 1, packNumber: undefined },
+    ])
+  })
+
+  it('skips rows that do not resolve, with bad counts or unknown variants', () => {
+    const { rows } = parseImportCsv(
+      'Set,Number,Variant,Count\n1,99,normal,1\n1,1,normal,0\n1,1,shiny,1\n1,2,normal,x',
+    )
+    const report = resolveImport(rows, cards)
+
+    expect(report.pulls).toEqual([])
+    expect(report.issues.map((i) => [i.line, i.skipped, i.message])).toEqual([
+      [2, true, 'No card #99 in set "1" for line 2'],
+      [3, true, 'Bad count "0" for line 3'],
+      [4, true, 'Unknown variant "shiny" for line 4'],
+      [5, true, 'Missing or non-numeric count for line 5'],
+    ])
+  })
+
+  it('resolves the printing language and skips unknown ones', () => {
+    const { rows } = parseImportCsv('Set,Number,Count,Language\n1,2,1,FR\n1,2,1,xx\n1,2,1,')
+    const report = resolveImport(rows, cards)
+
+    expect(report.pulls.map((p) => [p.card.cn, p.card.language])).toEqual([
+      ['2', 'fr'],
+      ['2', undefined],
+    ])
+    expect(report.issues.map((i) => [i.line, i.skipped, i.message])).toEqual([
+      [3, true, 'Unknown language "xx" for line 3'],
+    ])
+  })
+
+  it('resolves promo variants and their details', () => {
+    const { rows } = parseImportCsv(
+      'Set,Number,Variant,Count,Condition,Grade,Signed\n1,2,Cold Foil,1,lp,PSA 10,Yes\n1,2,foil,1,,,',
+    )
+    const report = resolveImport(rows, cards)
+
+    expect(report.issues).toEqual([])
+    expect(report.pulls).toEqual([
+      {
+        card: cards[1],
+        variant: 'cold-foil',
+        details: { grade: { company: 'PSA', grade: '10' }, signed: true },
+        conditions: { LP: 1 },
+        count: 1,
+        packNumber: undefined,
+      },
+      { card: cards[1], variant: 'foil', count: 1, packNumber: undefined },
+    ])
+  })
+
+  it('skips rows with unreadable details', () => {
+    const { rows } = parseImportCsv('Set,Number,Condition,Grade,Signed\n1,2,mint,,\n1,2,,PSA 11,\n1,2,,,maybe')
+    const report = resolveImport(rows, cards)
+
+    expect(report.pulls).toEqual([])
+    expect(report.issues.map((i) => i.message)).toEqual([
+      'Unknown condition "mint" for line 2',
+      'Unreadable grade "PSA 11" for line 3',
+      'Unreadable signed value "maybe" for line 4',
+    ])
+  })
+
+  it('includes the validatePulls set and number checks', () => {
+    const { rows } = parseImportCsv('Set,Number\n42,400')
+    const report = resolveImport(rows, cards)
+
+    expect(report.issues.map((i) => i.message)).toEqual([
+      'Unknown set code "42" for line 2',
+      'Unusual collector number "400" for line 2',
+      'No card #400 in set "42" for line 2',
+    ])
+    expect(report.issues.every((i) => i.skipped)).toBe(true)
+  })
+})
@@ -1 +1,10 @@
 import '@testing-library/jest-dom'
+import 'fake-indexeddb/auto'
+import { IDBFactory } from 'fake-indexeddb'
+import { closeDatabase } from '../db'
+
+// Fresh IndexedDB for every test so persisted state never leaks between tests
+beforeEach(async () => {
+  await closeDatabase()
+  globalThis.indexedDB = new IDBFactory()
+})
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  emptyBinderPage,
+  binderCellRects,
+  readBinderCell,
+  changeBinderCell,
+  isPageSettled,
+  binderPageEntries,
+  EMPTY_AFTER_MISSES,
+} from '../../utils/binder-page'
+import type { BinderCell } from '../../utils/binder-page'
+import type { ScanVote } from '../../utils/scan-voting'
+import type { Card } from '../../types'
+
+function makeCard(cn: string): Card {
+  return {
+    name: 'Card ' + cn,
+    version: '',
+    display: 'Card ' + cn,
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn,
+    cost: 1,
+    ink: 'Amber',
+    rarity: 'Common',
+    type: ['Character'],
+    imageUrl: '',
+  }
+}
+
+function vote(cn: string): ScanVote {
+  return { cn, total: '204', setNumber: null, ink: null, language: null, confidence: 60 }
+}
+
+const found = (card: Card) => () => ({ card, candidates: [], similarity: 1 })
+
+function readAll(cell: BinderCell, votes: (ScanVote | null)[], resolve = found(makeCard('1'))) {
+  return votes.reduce((c, v) => readBinderCell(c, v, resolve), cell)
+}
+
+describe('binderCellRects', () => {
+  it('splits the page into a 3x3 grid, row by row', () => {
+    const rects = binderCellRects({ x: 10, y: 20, w: 300, h: 420 })
+    expect(rects).toHaveLength(9)
+    expect(rects[0]).toEqual({ x: 10, y: 20, w: 100, h: 140 })
+    expect(rects[2]).toEqual({ x: 210, y: 20, w: 100, h: 140 })
+    expect(rects[8]).toEqual({ x: 210, y: 300, w: 100, h: 140 })
+  })
+})
+
+describe('readBinderCell', () => {
+  it('matches a pocket once its own frames agree', () => {
+    const card = makeCard('42')
+    const resolve = vi.fn(found(card))
+    const cell = readAll(emptyBinderPage()[0]!, [vote('42'), vote('42'), vote('42')], resolve)
+    expect(cell.status).toBe('matched')
+    expect(cell.card).toBe(card)
+    expect(resolve).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps reading until the frames agree', () => {
+    const cell = readAll(emptyBinderPage()[0]!, [vote('42'), vote('43')])
+    expect(cell.status).toBe('reading')
+    expect(cell.card).toBeNull()
+  })
+
+  it('shortlists the candidates when the CN fits several cards', () => {
+    const a = makeCard('7')
+    const b = { ...makeCard('7'), setCode: '2' }
+    const cell = readAll(emptyBinderPage()[0]!, [vote('7'), vote('7'), vote('7')], () => ({
+      card: null,
+      candidates: [a, b],
+      similarity: 1,
+    }))
+    expect(cell.status).toBe('ambiguous')
+    expect(cell.card).toBe(a)
+    expect(changeBinderCell(cell, 'next-candidate').card).toBe(b)
+    expect(changeBinderCell(changeBinderCell(cell, 'next-candidate'), 'next-candidate').card).toBe(a)
+  })
+
+  it('treats a pocket that never reads anything as empty', () => {
+    const misses = Array.from({ length: EMPTY_AFTER_MISSES }, () => null)
+    expect(readAll(emptyBinderPage()[0]!, misses.slice(1)).status).toBe('reading')
+    expect(readAll(emptyBinderPage()[0]!, misses).status).toBe('empty')
+  })
+
+  it('does not read a settled pocket again', () => {
+    const cell = readAll(emptyBinderPage()[0]!, [vote('1'), vote('1'), vote('1')])
+    expect(readBinderCell(cell, vote('99'), found(makeCard('99')))).toBe(cell)
+  })
+})
+
+describe('binder page review', () => {
+  it('is settled once no pocket is still reading', () => {
+    const page = emptyBinderPage()
+    expect(isPageSettled(page)).toBe(false)
+    const misses = Array.from({ length: EMPTY_AFTER_MISSES }, () => null)
+    expect(isPageSettled(page.map((c) => readAll(c, misses)))).toBe(true)
+  })
+
+  it('adds matched pockets in order with their foil toggles, leaving out skipped ones', () => {
+    const page = emptyBinderPage().map((c, i) =>
+      i < 3 ? readAll(c, [vote(String(i)), vote(String(i)), vote(String(i))], found(makeCard(String(i)))) : c,
+    )
+    page[1] = changeBinderCell(page[1]!, 'foil')
+    page[2] = changeBinderCell(page[2]!, 'skip')
+
+    expect(binderPageEntries(page).map((e) => [e.card.cn, e.variant])).toEqual([
+      ['0', 'normal'],
+      ['1', 'foil'],
+    ])
+  })
+
+  it('ignores edits to pockets without a card', () => {
+    const cell = emptyBinderPage()[0]!
+    expect(changeBinderCell(cell, 'foil')).toBe(cell)
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyHomography,
+  computeHomography,
+  convexHull,
+  detectCardQuad,
+  warpPerspective,
+  CARD_ASPECT,
+} from '../../utils/card-detector'
+import type { PixelBuffer, Point, Quad } from '../../utils/card-detector'
+
+/** Point-in-convex-polygon test (corners in clockwise screen order). */
+function inside(p: Point, poly: Point[]): boolean {
+  for (let i = 0; i < poly.length; i++) {
+    const a = poly[i]!
+    const b = poly[(i + 1) % poly.length]!
+    if ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x) < 0) return false
+  }
+  return true
+}
+
+/** Dark frame with a light card-shaped quad drawn on it. */
+function frameWithCard(width: number, height: number, quad: Quad, fill = 220): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4
+      const v = inside({ x, y }, quad) ? fill : 30
+      data[o] = v
+      data[o + 1] = v
+      data[o + 2] = v
+      data[o + 3] = 255
+    }
+  }
+  return { data, width, height }
+}
+
+const near = (a: Point, b: Point, tolerance: number) =>
+  Math.abs(a.x - b.x) <= tolerance && Math.abs(a.y - b.y) <= tolerance
+
+describe('convexHull', () => {
+  it('drops interior points', () => {
+    const hull = convexHull([
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 2, y: 1 },
+      { x: 4, y: 4 },
+      { x: 0, y: 4 },
+    ])
+    expect(hull).toHaveLength(4)
+    expect(hull).not.toContainEqual({ x: 2, y: 1 })
+  })
+})
+
+describe('computeHomography', () => {
+  it('maps each source corner onto its target', () => {
+    const from: Quad = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 14 }, { x: 0, y: 14 }]
+    const to: Quad = [{ x: 3, y: 2 }, { x: 40, y: 6 }, { x: 37, y: 60 }, { x: 1, y: 55 }]
+    const h = computeHomography(from, to)
+    from.forEach((p, i) => {
+      expect(near(applyHomography(h, p), to[i]!, 1e-6)).toBe(true)
+    })
+  })
+})
+
+describe('detectCardQuad', () => {
+  it('finds an off-centre, tilted card', () => {
+    const quad: Quad = [{ x: 40, y: 30 }, { x: 130, y: 42 }, { x: 118, y: 165 }, { x: 28, y: 152 }]
+    const detection = detectCardQuad(frameWithCard(200, 200, quad))
+    expect(detection).not.toBeNull()
+    detection!.quad.forEach((corner, i) => {
+      expect(near(corner, quad[i]!, 4)).toBe(true)
+    })
+    expect(detection!.aspect).toBeGreaterThan(0.6)
+    expect(detection!.aspect).toBeLessThan(0.85)
+  })
+
+  it('returns null for an empty frame', () => {
+    const blank = frameWithCard(120, 120, [{ x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }, { x: 0, y: 0 }])
+    expect(detectCardQuad(blank)).toBeNull()
+  })
+
+  it('ignores shapes too small to read', () => {
+    const tiny: Quad = [{ x: 90, y: 90 }, { x: 110, y: 90 }, { x: 110, y: 118 }, { x: 90, y: 118 }]
+    expect(detectCardQuad(frameWithCard(200, 200, tiny))).toBeNull()
+  })
+
+  it('rejects shapes that are not card-shaped', () => {
+    const wide: Quad = [{ x: 10, y: 60 }, { x: 190, y: 60 }, { x: 190, y: 140 }, { x: 10, y: 140 }]
+    expect(detectCardQuad(frameWithCard(200, 200, wide))).toBeNull()
+  })
+})
+
+describe('warpPerspective', () => {
+  it('straightens the card into an upright rectangle', () => {
+    const quad: Quad = [{ x: 40, y: 30 }, { x: 130, y: 42 }, { x: 118, y: 165 }, { x: 28, y: 152 }]
+    const frame = frameWithCard(200, 200, quad)
+    const width = 63
+    const height = Math.round(width / CARD_ASPECT)
+    const card = warpPerspective(frame, quad, width, height)
+
+    expect(card.width).toBe(width)
+    expect(card.height).toBe(height)
+    // Interior is the card's colour; no background bleeds in away from the edges
+    const centre = (Math.floor(height / 2) * width + Math.floor(width / 2)) * 4
+    expect(card.data[centre]).toBe(220)
+    const innerCorner = (3 * width + 3) * 4
+    expect(card.data[innerCorner]).toBeGreaterThan(200)
+  })
+})
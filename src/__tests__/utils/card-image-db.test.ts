@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest'
+import { CardImageDB } from '../../utils/card-image-db'
+import type { HistogramStore } from '../../utils/card-image-db'
+import type { Card } from '../../types'
+
+function makeCard(cn: string, imageUrl = 'https://img/' + cn + '.avif'): Card {
+  return {
+    name: 'Card ' + cn,
+    version: '',
+    display: 'Card ' + cn,
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn,
+    cost: 1,
+    ink: 'Amber',
+    rarity: 'Common',
+    type: ['Character'],
+    imageUrl,
+  }
+}
+
+describe('CardImageDB', () => {
+  it('builds from stored histograms without fetching any images', async () => {
+    const cards = [makeCard('1'), makeCard('2')]
+    const store: HistogramStore = {
+      load: vi.fn(async (urls: string[]) => Object.fromEntries(urls.map((u) => [u, [1]]))),
+      save: vi.fn(async () => true),
+    }
+    const onProgress = vi.fn()
+
+    const db = new CardImageDB()
+    await db.build(cards, onProgress, store)
+
+    expect(store.load).toHaveBeenCalledWith(['https://img/1.avif', 'https://img/2.avif'])
+    expect(store.save).not.toHaveBeenCalled()
+    expect(db.loadedCount).toBe(2)
+    expect(db.totalCount).toBe(2)
+    expect(onProgress).toHaveBeenLastCalledWith(2, 2)
+  })
+
+  it('skips cards without an image', async () => {
+    const store: HistogramStore = { load: vi.fn(async () => ({})), save: vi.fn(async () => true) }
+    const db = new CardImageDB()
+    await db.build([makeCard('1', '')], undefined, store)
+
+    expect(db.totalCount).toBe(0)
+    expect(store.load).not.toHaveBeenCalled()
+  })
+
+  it('finds nothing among candidates it has no art for', () => {
+    const db = new CardImageDB()
+    const result = db.findMatch(document.createElement('canvas'), [makeCard('1')])
+    expect(result.card).toBeNull()
+    expect(result.candidates).toEqual([])
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { cardLanguage, cardRef, pullKey, withLanguage, parseLanguageCode } from '../../utils/card-language'
+import type { Card } from '../../types'
+
+const card: Card = {
+  name: 'Elsa',
+  version: 'Snow Queen',
+  display: 'Elsa – Snow Queen',
+  setCode: '2',
+  setName: 'Rise of the Floodborn',
+  cn: '10',
+  cost: 6,
+  ink: 'Sapphire',
+  rarity: 'Legendary',
+  type: ['Character'],
+  imageUrl: '',
+  names: { fr: 'Elsa – Reine des Neiges' },
+}
+
+describe('pullKey', () => {
+  it('keeps the pre-language key for English cards', () => {
+    expect(cardLanguage(card)).toBe('en')
+    expect(cardRef(card)).toBe('2-10')
+    expect(pullKey(card, 'foil')).toBe('2-10-foil')
+  })
+
+  it('adds the language for other printings', () => {
+    expect(cardRef({ ...card, language: 'de' })).toBe('2-10-de')
+    expect(pullKey({ ...card, language: 'ja' }, 'normal')).toBe('2-10-ja-normal')
+  })
+
+  it('puts details after the variant', () => {
+    expect(pullKey(card, 'cold-foil', { signed: true })).toBe('2-10-cold-foil-signed')
+  })
+})
+
+describe('withLanguage', () => {
+  it('uses the localised name when there is one', () => {
+    const fr = withLanguage(card, 'fr')
+    expect(fr.language).toBe('fr')
+    expect(fr.display).toBe('Elsa – Reine des Neiges')
+    expect(fr.name).toBe('Elsa')
+  })
+
+  it('falls back to the English name', () => {
+    expect(withLanguage(card, 'it').display).toBe('Elsa – Snow Queen')
+  })
+
+  it('drops the language again for English', () => {
+    const en = withLanguage(withLanguage(card, 'fr'), 'en')
+    expect(en.language).toBeUndefined()
+    expect(en.display).toBe('Elsa – Snow Queen')
+  })
+})
+
+describe('parseLanguageCode', () => {
+  it.each([
+    ['FR', 'fr'],
+    [' de ', 'de'],
+    ['JP', 'ja'],
+    ['ja', 'ja'],
+    ['xx', null],
+    ['', null],
+  ])('reads %j as %j', (code, lang) => {
+    expect(parseLanguageCode(code)).toBe(lang)
+  })
+})
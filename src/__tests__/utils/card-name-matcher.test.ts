@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { levenshtein } from '../../utils/search'
-import { matchCardByName } from '../../utils/card-name-matcher'
+import { matchCardByName, pickCandidateByName } from '../../utils/card-name-matcher'
 import type { Card } from '../../types'
 
 // --- levenshtein ---
@@ -141,3 +141,29 @@ describe('matchCardByName', () => {
     expect(result.card?.name).toBe('Maleficent')
   })
 })
+
+describe('pickCandidateByName', () => {
+  // Cards sharing CN 15 across sets, as the CN matcher would return them
+  const sameCn = [
+    makeCard({ name: 'Ariel', version: 'Spectacular Singer', setCode: '2', cn: '15' }),
+    makeCard({ name: 'Pumbaa', version: 'Friendly Warthog', setCode: '4', cn: '15' }),
+  ]
+
+  it('picks the candidate whose name banner was read', () => {
+    expect(pickCandidateByName('Pumbaa\nFriendly Warthog', sameCn)?.setCode).toBe('4')
+  })
+
+  it('tolerates a rough read when the CN already narrowed the pool', () => {
+    expect(pickCandidateByName('Arie1 Spectacu1ar Sngr', sameCn)?.setCode).toBe('2')
+  })
+
+  it('returns null when no candidate reads clearly best', () => {
+    expect(pickCandidateByName('xyzzy', sameCn)).toBeNull()
+    expect(pickCandidateByName('Ariel', testCards.slice(0, 2))).toBeNull()
+  })
+
+  it('returns null for empty input', () => {
+    expect(pickCandidateByName('', sameCn)).toBeNull()
+    expect(pickCandidateByName('Ariel', [])).toBeNull()
+  })
+})
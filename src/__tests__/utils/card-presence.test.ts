@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { holdCard, trackHeldCard, CARD_GONE_FRAMES } from '../../utils/card-presence'
+import type { HeldCard } from '../../utils/card-presence'
+
+const inView = { cardInView: true, cn: null }
+const sameCard = { cardInView: true, cn: '42' }
+const sameCardNoOutline = { cardInView: false, cn: '42' }
+const empty = { cardInView: false, cn: null }
+
+/** Track `n` frames of `frame`. */
+function track(held: HeldCard | null, frame: { cardInView: boolean; cn: string | null }, n: number) {
+  for (let i = 0; i < n; i++) held = trackHeldCard(held, frame)
+  return held
+}
+
+describe('trackHeldCard', () => {
+  it('holds the card while it is still in view', () => {
+    const held = holdCard('1', '42', true)
+    expect(held.key).toBe('1-42')
+    expect(trackHeldCard(held, sameCard)).toBe(held)
+    expect(trackHeldCard(held, inView)).toBe(held)
+  })
+
+  it('releases the card once its outline has been gone for long enough', () => {
+    let held = trackHeldCard(holdCard('1', '42', true), empty)
+    for (let i = 1; i < CARD_GONE_FRAMES; i++) {
+      expect(held).not.toBeNull()
+      held = trackHeldCard(held, empty)
+    }
+    expect(held).toBeNull()
+  })
+
+  it('keeps holding while the outline has never been seen', () => {
+    // The detector misses on this background and the number misses OCR
+    const held = track(holdCard('1', '42'), empty, CARD_GONE_FRAMES * 3)
+    expect(held?.key).toBe('1-42')
+    expect(track(held, sameCardNoOutline, 2)?.goneFrames).toBe(0)
+  })
+
+  it('can release the card once the outline is seen while holding', () => {
+    const seen = trackHeldCard(holdCard('1', '42'), inView)
+    expect(seen?.outlineSeen).toBe(true)
+    expect(track(seen, empty, CARD_GONE_FRAMES)).toBeNull()
+  })
+
+  it('starts counting again when the card reappears', () => {
+    const gone = trackHeldCard(holdCard('1', '42', true), empty)
+    expect(gone?.goneFrames).toBe(1)
+    expect(trackHeldCard(gone, sameCard)?.goneFrames).toBe(0)
+    expect(trackHeldCard(gone, sameCardNoOutline)?.goneFrames).toBe(0)
+  })
+
+  it('releases the card as soon as a different collector number is read', () => {
+    expect(trackHeldCard(holdCard('1', '42'), { cardInView: false, cn: '43' })).toBeNull()
+    expect(trackHeldCard(holdCard('1', '42', true), { cardInView: true, cn: '43' })).toBeNull()
+  })
+
+  it('does nothing when no card is held', () => {
+    expect(trackHeldCard(null, empty)).toBeNull()
+  })
+})
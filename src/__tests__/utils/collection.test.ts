@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { applyCollectionDelta, buildCollection, toCardSnapshot } from '../../utils/collection'
+import type { Card, HistoryPull } from '../../types'
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    name: 'Ariel',
+    version: 'On Human Legs',
+    display: 'Ariel – On Human Legs',
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn: '1',
+    cost: 4,
+    ink: 'Amber',
+    rarity: 'Uncommon',
+    type: ['Character'],
+    imageUrl: '',
+    ...overrides,
+  }
+}
+
+function makeHistoryPull(cn: string, count: number, variant: 'normal' | 'foil' = 'normal'): HistoryPull {
+  return {
+    key: '1-' + cn + '-' + variant,
+    variant,
+    count,
+    card: toCardSnapshot(makeCard({ cn })),
+  }
+}
+
+const source = { sessionId: 5, sessionName: 'Box 1', at: 1000 }
+
+describe('toCardSnapshot', () => {
+  it('keeps only the display fields', () => {
+    expect(toCardSnapshot(makeCard())).toEqual({
+      display: 'Ariel – On Human Legs',
+      setCode: '1',
+      setName: 'The First Chapter',
+      cn: '1',
+      ink: 'Amber',
+      rarity: 'Uncommon',
+    })
+  })
+})
+
+describe('applyCollectionDelta', () => {
+  it('creates an entry crediting the source session', () => {
+    const entry = applyCollectionDelta(undefined, makeCard(), 'foil', 1, source)
+    expect(entry).toMatchObject({
+      key: '1-1-foil',
+      variant: 'foil',
+      count: 1,
+      firstPulledAt: 1000,
+      firstSessionId: 5,
+      firstSessionName: 'Box 1',
+    })
+  })
+
+  it('adds to an existing entry without moving the first-pulled fields', () => {
+    const first = applyCollectionDelta(undefined, makeCard(), 'normal', 1, source)!
+    const next = applyCollectionDelta(first, makeCard(), 'normal', 2, {
+      sessionId: 9,
+      sessionName: 'Box 2',
+      at: 5000,
+    })
+    expect(next).toMatchObject({ count: 3, firstPulledAt: 1000, firstSessionId: 5 })
+  })
+
+  it('returns null once no copies remain', () => {
+    const first = applyCollectionDelta(undefined, makeCard(), 'normal', 2, source)!
+    expect(applyCollectionDelta(first, makeCard(), 'normal', -2, source)).toBeNull()
+    expect(applyCollectionDelta(undefined, makeCard(), 'normal', -1, source)).toBeNull()
+  })
+})
+
+describe('buildCollection', () => {
+  it('sums counts across sources and credits the oldest', () => {
+    const entries = buildCollection([
+      { pulls: [makeHistoryPull('1', 2)], source: { sessionId: null, sessionName: 'Later', at: 2000 } },
+      { pulls: [makeHistoryPull('1', 1), makeHistoryPull('2', 1, 'foil')], source: { sessionId: null, sessionName: 'Earlier', at: 1000 } },
+    ])
+
+    expect(Object.keys(entries).sort()).toEqual(['1-1-normal', '1-2-foil'])
+    expect(entries['1-1-normal']).toMatchObject({ count: 3, firstSessionName: 'Earlier', firstPulledAt: 1000 })
+    expect(entries['1-2-foil']!.count).toBe(1)
+  })
+
+  it('returns an empty collection for no sources', () => {
+    expect(buildCollection([])).toEqual({})
+  })
+})
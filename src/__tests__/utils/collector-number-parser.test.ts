@@ -5,66 +5,66 @@ describe('parseCollectorNumber', () => {
   // --- Clean OCR output ---
   it('parses clean "123/204" format', () => {
     const result = parseCollectorNumber('123/204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123/204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123/204' })
   })
 
   it('parses single-digit collector number', () => {
     const result = parseCollectorNumber('3/204')
-    expect(result).toEqual({ cn: '3', total: '204', setNumber: null, raw: '3/204' })
+    expect(result).toEqual({ cn: '3', total: '204', setNumber: null, language: null, raw: '3/204' })
   })
 
   it('parses two-digit collector number', () => {
     const result = parseCollectorNumber('42/204')
-    expect(result).toEqual({ cn: '42', total: '204', setNumber: null, raw: '42/204' })
+    expect(result).toEqual({ cn: '42', total: '204', setNumber: null, language: null, raw: '42/204' })
   })
 
   // --- Spacing variations ---
   it('handles spaces around slash: "123 / 204"', () => {
     const result = parseCollectorNumber('123 / 204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123 / 204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123 / 204' })
   })
 
   it('handles space before slash', () => {
     const result = parseCollectorNumber('123 /204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123 /204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123 /204' })
   })
 
   it('handles backslash separator', () => {
     const result = parseCollectorNumber('123\\204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123\\204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123\\204' })
   })
 
   // --- OCR noise ---
   it('handles l misread as 1 in "l23/204"', () => {
     const result = parseCollectorNumber('l23/204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123/204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123/204' })
   })
 
   it('handles O misread as 0 in "1O3/2O4"', () => {
     const result = parseCollectorNumber('1O3/2O4')
-    expect(result).toEqual({ cn: '103', total: '204', setNumber: null, raw: '103/204' })
+    expect(result).toEqual({ cn: '103', total: '204', setNumber: null, language: null, raw: '103/204' })
   })
 
   it('handles pipe misread as 1 in "|23/204"', () => {
     const result = parseCollectorNumber('|23/204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123/204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123/204' })
   })
 
   // --- OCR text with surrounding noise ---
   it('extracts collector number from noisy OCR line', () => {
     const result = parseCollectorNumber('some text 123/204 more text')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123/204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123/204' })
   })
 
   it('extracts from multi-line OCR output', () => {
     const result = parseCollectorNumber('Card Name\n123/204\nRarity')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123/204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123/204' })
   })
 
   // --- Leading zeros ---
   it('normalises leading zeros: "023/204" -> cn: "23"', () => {
     const result = parseCollectorNumber('023/204')
-    expect(result).toEqual({ cn: '23', total: '204', setNumber: null, raw: '023/204' })
+    expect(result).toEqual({ cn: '23', total: '204', setNumber: null, language: null, raw: '023/204' })
   })
 
   // --- Standalone numbers are rejected (too ambiguous) ---
@@ -78,7 +78,7 @@ describe('parseCollectorNumber', () => {
 
   it('prefers slash format over surrounding noise', () => {
     const result = parseCollectorNumber('cost 4 collector 123/204')
-    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, raw: '123/204' })
+    expect(result).toEqual({ cn: '123', total: '204', setNumber: null, language: null, raw: '123/204' })
   })
 
   // --- Edge cases ---
@@ -96,7 +96,7 @@ describe('parseCollectorNumber', () => {
 
   it('handles max collector number 999/999', () => {
     const result = parseCollectorNumber('999/999')
-    expect(result).toEqual({ cn: '999', total: '999', setNumber: null, raw: '999/999' })
+    expect(result).toEqual({ cn: '999', total: '999', setNumber: null, language: null, raw: '999/999' })
   })
 
   // --- Total validation (rejects noise) ---
@@ -114,7 +114,7 @@ describe('parseCollectorNumber', () => {
 
   it('accepts total at boundary: "50/100"', () => {
     const result = parseCollectorNumber('50/100')
-    expect(result).toEqual({ cn: '50', total: '100', setNumber: null, raw: '50/100' })
+    expect(result).toEqual({ cn: '50', total: '100', setNumber: null, language: null, raw: '50/100' })
   })
 
   it('rejects total just below boundary: "50/99"', () => {
@@ -124,66 +124,85 @@ describe('parseCollectorNumber', () => {
   // --- Set number extraction ---
   it('extracts set number from "130/204 EN 7"', () => {
     const result = parseCollectorNumber('130/204 EN 7')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', language: 'en', raw: '130/204' })
   })
 
   it('extracts set number from OCR with separators: "130/204 + EN + 7"', () => {
     const result = parseCollectorNumber('130/204 + EN + 7')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', language: 'en', raw: '130/204' })
   })
 
   it('extracts set number from noisy OCR: "130/204 EN 7 (R)"', () => {
     const result = parseCollectorNumber('130/204 EN 7 (R)')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', language: 'en', raw: '130/204' })
   })
 
   it('extracts double-digit set number: "42/216 EN 11"', () => {
     const result = parseCollectorNumber('42/216 EN 11')
-    expect(result).toEqual({ cn: '42', total: '216', setNumber: '11', raw: '42/216' })
+    expect(result).toEqual({ cn: '42', total: '216', setNumber: '11', language: 'en', raw: '42/216' })
   })
 
   it('returns null setNumber when no digits follow CN', () => {
     const result = parseCollectorNumber('130/204')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: null, raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: null, language: null, raw: '130/204' })
   })
 
   it('handles real OCR output: "130/204 EN 7 ®"', () => {
     const result = parseCollectorNumber('130/204 EN 7 \u00AE')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', language: 'en', raw: '130/204' })
   })
 
   it('handles real OCR output with noise: "130/204 +EN 7 I"', () => {
     // "I" after "7" should NOT create a false set number — "7" is found first
     const result = parseCollectorNumber('130/204 +EN 7 I')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: '7', language: 'en', raw: '130/204' })
   })
 
   // --- Letter→digit confusion for set number ---
   it('recovers set number when OCR reads "1" as "I": "163/204 EN I"', () => {
     // OCR reads set 1 as "I" — the I→1 substitution + isolation regex should recover it
     const result = parseCollectorNumber('163/204 EN I')
-    expect(result).toEqual({ cn: '163', total: '204', setNumber: '1', raw: '163/204' })
+    expect(result).toEqual({ cn: '163', total: '204', setNumber: '1', language: 'en', raw: '163/204' })
   })
 
   it('recovers set number when OCR reads "1" as "l": "163/204 EN l"', () => {
     const result = parseCollectorNumber('163/204 EN l')
-    expect(result).toEqual({ cn: '163', total: '204', setNumber: '1', raw: '163/204' })
+    expect(result).toEqual({ cn: '163', total: '204', setNumber: '1', language: 'en', raw: '163/204' })
   })
 
   it('recovers set number when OCR reads "1" as "|": "163/204 EN |"', () => {
     const result = parseCollectorNumber('163/204 EN |')
-    expect(result).toEqual({ cn: '163', total: '204', setNumber: '1', raw: '163/204' })
+    expect(result).toEqual({ cn: '163', total: '204', setNumber: '1', language: 'en', raw: '163/204' })
   })
 
   it('does not false-positive set number from "EN" letters: "130/204 EN"', () => {
     // "EN" should NOT produce set number "1" from the N→1 confusion
     // (N is not in the substitution list, and E1 has E adjacent to the digit)
     const result = parseCollectorNumber('130/204 EN')
-    expect(result).toEqual({ cn: '130', total: '204', setNumber: null, raw: '130/204' })
+    expect(result).toEqual({ cn: '130', total: '204', setNumber: null, language: 'en', raw: '130/204' })
   })
 
   it('recovers set 11 when OCR reads as "Il": "42/216 EN Il"', () => {
     const result = parseCollectorNumber('42/216 EN Il')
-    expect(result).toEqual({ cn: '42', total: '216', setNumber: '11', raw: '42/216' })
+    expect(result).toEqual({ cn: '42', total: '216', setNumber: '11', language: 'en', raw: '42/216' })
+  })
+
+  it.each([
+    ['130/204 · FR · 7', 'fr'],
+    ['130/204 DE 7', 'de'],
+    ['130/204 IT 7', 'it'],
+    ['130/204 lT 7', 'it'],
+    ['130/204 JA 7', 'ja'],
+    ['130/204 JP 7', 'ja'],
+  ])('reads the language code from "%s"', (text, language) => {
+    const result = parseCollectorNumber(text)
+    expect(result?.language).toBe(language)
+    expect(result?.setNumber).toBe('7')
+  })
+
+  it('leaves the language unknown when the footer has no code', () => {
+    expect(parseCollectorNumber('130/204 7')?.language).toBeNull()
+    // Letters inside a longer word aren't a code
+    expect(parseCollectorNumber('130/204 FRENCH')?.language).toBeNull()
   })
 })
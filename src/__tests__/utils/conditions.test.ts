@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import {
+  conditionShares,
+  conditionsLabel,
+  mergeConditions,
+  recordCondition,
+  removeConditionCopies,
+  splitByCondition,
+} from '../../utils/conditions'
+
+describe('conditionShares', () => {
+  it('lists conditions best first, then the copies without one', () => {
+    expect(conditionShares(5, { HP: 1, NM: 2 })).toEqual([
+      { condition: 'NM', count: 2 },
+      { condition: 'HP', count: 1 },
+      { condition: null, count: 2 },
+    ])
+    expect(conditionShares(2, undefined)).toEqual([{ condition: null, count: 2 }])
+    expect(conditionShares(1, { LP: 1 })).toEqual([{ condition: 'LP', count: 1 }])
+  })
+})
+
+describe('recordCondition', () => {
+  it('records one more copy until every copy has a condition', () => {
+    const once = recordCondition(2, undefined, 'NM')
+    expect(once).toEqual({ NM: 1 })
+    const twice = recordCondition(2, once, 'MP')
+    expect(twice).toEqual({ NM: 1, MP: 1 })
+    expect(recordCondition(2, twice, 'DMG')).toBe(twice)
+  })
+})
+
+describe('removeConditionCopies', () => {
+  it('takes from the given condition first', () => {
+    expect(removeConditionCopies(3, { NM: 1, LP: 2 }, 1, 'NM')).toEqual({ LP: 2 })
+  })
+
+  it('takes copies without a condition before recorded ones', () => {
+    expect(removeConditionCopies(3, { NM: 1 }, 1)).toEqual({ NM: 1 })
+    expect(removeConditionCopies(3, { NM: 1 }, 2)).toEqual({ NM: 1 })
+  })
+
+  it('then takes from the worst condition up', () => {
+    expect(removeConditionCopies(3, { NM: 1, HP: 2 }, 2)).toEqual({ NM: 1 })
+    expect(removeConditionCopies(2, { NM: 1, HP: 1 }, 2)).toBeUndefined()
+  })
+
+  it('falls back once the given condition runs out', () => {
+    expect(removeConditionCopies(3, { NM: 1, LP: 1 }, 2, 'NM')).toEqual({ LP: 1 })
+  })
+})
+
+describe('mergeConditions', () => {
+  it('sums counts per condition', () => {
+    expect(mergeConditions({ NM: 1 }, { NM: 2, LP: 1 })).toEqual({ NM: 3, LP: 1 })
+    expect(mergeConditions(undefined, { DMG: 1 })).toEqual({ DMG: 1 })
+    expect(mergeConditions({ NM: 1 }, undefined)).toEqual({ NM: 1 })
+  })
+})
+
+describe('conditionsLabel', () => {
+  it('shows recorded conditions with their counts', () => {
+    expect(conditionsLabel({ LP: 1, NM: 2 })).toBe('NM ×2 · LP')
+    expect(conditionsLabel(undefined)).toBe('')
+  })
+})
+
+describe('splitByCondition', () => {
+  it('gives a row per share and leaves pulls without conditions whole', () => {
+    const rows = splitByCondition([
+      { key: 'a', count: 3, conditions: { MP: 1 } },
+      { key: 'b', count: 2 },
+    ])
+    expect(rows.map((r) => [r.key, r.count, r.condition])).toEqual([
+      ['a', 1, 'MP'],
+      ['a', 2, null],
+      ['b', 2, null],
+    ])
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { generateCSV } from '../../utils/csv'
+import { generateCSV, csvField, parseCSV } from '../../utils/csv'
 import type { Pull } from '../../types'
 
 function makePull(overrides: Partial<Pull> = {}): Pull {
@@ -42,6 +42,24 @@ describe('generateCSV', () => {
     expect(csv).toContain('foil,1')
   })
 
+  it('writes foil finishes as foil', () => {
+    const csv = generateCSV([
+      makePull({ key: '1-1-cold-foil', variant: 'cold-foil' }),
+      makePull({ key: '1-1-enchanted', variant: 'enchanted', count: 1 }),
+      makePull({ key: '1-1-stamped', variant: 'stamped', count: 1 }),
+    ])
+    expect(csv.split('\n').slice(1)).toEqual(['1,1,foil,3', '1,1,normal,1'])
+  })
+
+  it('sums copies that only differ by language, details or condition', () => {
+    const csv = generateCSV([
+      makePull({ count: 4, conditions: { LP: 1, NM: 2 } }),
+      makePull({ key: '1-1-fr-normal', card: { ...makePull().card, language: 'fr' }, count: 1 }),
+      makePull({ key: '1-1-normal-psa10', details: { grade: { company: 'PSA', grade: '10' } }, count: 1 }),
+    ])
+    expect(csv.split('\n').slice(1)).toEqual(['1,1,normal,6'])
+  })
+
   it('handles multiple pulls', () => {
     const pulls = [
       makePull(),
@@ -51,3 +69,36 @@ describe('generateCSV', () => {
     expect(lines).toHaveLength(3)
   })
 })
+
+describe('csvField', () => {
+  it('leaves plain values alone', () => {
+    expect(csvField('Ariel')).toBe('Ariel')
+  })
+
+  it('quotes values with commas and doubles embedded quotes', () => {
+    expect(csvField('a, b')).toBe('"a, b"')
+    expect(csvField('say "hi"')).toBe('"say ""hi"""')
+  })
+})
+
+describe('parseCSV', () => {
+  it('splits rows and fields', () => {
+    expect(parseCSV('a,b\n1,2\r\n3,4')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']])
+  })
+
+  it('handles quoted fields with commas, quotes and newlines', () => {
+    expect(parseCSV('"a, b","say ""hi""","x\ny"')).toEqual([['a, b', 'say "hi"', 'x\ny']])
+  })
+
+  it('drops blank lines', () => {
+    expect(parseCSV('a\n\n,\nb\n')).toEqual([['a'], ['b']])
+  })
+
+  it('round-trips generated CSV', () => {
+    const rows = parseCSV(generateCSV([makePull()]))
+    expect(rows).toEqual([
+      ['Set Number', 'Card Number', 'Variant', 'Count'],
+      ['1', '1', 'normal', '2'],
+    ])
+  })
+})
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  foilSample,
+  addFoilSample,
+  shimmerScore,
+  estimateFoil,
+  isConfidentlyNormal,
+  FOIL_THRESHOLD,
+  FOIL_WINDOW,
+} from '../../utils/foil-detector'
+import type { FoilSample } from '../../utils/foil-detector'
+
+const W = 63
+const H = 88
+
+/** RGBA card: a fixed diagonal pattern, optionally brightened and with a white highlight band at row `glareY`. */
+function makeCard(brightness = 0, glareY: number | null = null): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(W * H * 4)
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const off = (y * W + x) * 4
+      const glare = glareY !== null && Math.abs(y - glareY) < 6
+      const base = 60 + ((x * 3 + y * 2) % 80) + brightness
+      data[off] = glare ? 255 : base + 40
+      data[off + 1] = glare ? 255 : base
+      data[off + 2] = glare ? 255 : base - 30
+      data[off + 3] = 255
+    }
+  }
+  return data
+}
+
+function samplesOf(frames: Uint8ClampedArray[]): FoilSample[] {
+  return frames.reduce<FoilSample[]>((s, f) => addFoilSample(s, foilSample(f, W, H)), [])
+}
+
+describe('foil detector', () => {
+  it('has no estimate until the card has been seen a few times', () => {
+    expect(estimateFoil(samplesOf([makeCard(), makeCard()]))).toBeNull()
+  })
+
+  it('keeps only the most recent frames', () => {
+    const samples = samplesOf(Array.from({ length: FOIL_WINDOW + 3 }, () => makeCard()))
+    expect(samples).toHaveLength(FOIL_WINDOW)
+  })
+
+  it('ignores a card getting uniformly brighter or darker', () => {
+    const score = shimmerScore(samplesOf([makeCard(0), makeCard(20), makeCard(-15), makeCard(10)]))
+    expect(score).not.toBeNull()
+    expect(score!).toBeLessThan(FOIL_THRESHOLD / 4)
+    expect(estimateFoil(samplesOf([makeCard(0), makeCard(20), makeCard(-15), makeCard(10)]))?.variant).toBe('normal')
+  })
+
+  it('calls a card foil when a highlight moves across it', () => {
+    const estimate = estimateFoil(samplesOf([makeCard(0, 15), makeCard(0, 35), makeCard(0, 55), makeCard(0, 75)]))
+    expect(estimate?.variant).toBe('foil')
+    expect(estimate!.score).toBeGreaterThan(FOIL_THRESHOLD)
+    expect(estimate!.confidence).toBeGreaterThan(0)
+  })
+
+  it('is more confident with more frames', () => {
+    const few = estimateFoil(samplesOf([makeCard(0, 15), makeCard(0, 35), makeCard(0, 55)]))!
+    const many = estimateFoil(
+      samplesOf([makeCard(0, 15), makeCard(0, 35), makeCard(0, 55), makeCard(0, 75), makeCard(0, 50), makeCard(0, 25)]),
+    )!
+    expect(many.confidence).toBeGreaterThan(few.confidence)
+  })
+})
+
+describe('isConfidentlyNormal', () => {
+  it('only trusts a confident normal guess', () => {
+    expect(isConfidentlyNormal({ variant: 'normal', confidence: 0.9, score: 0, frames: 6 })).toBe(true)
+    expect(isConfidentlyNormal({ variant: 'normal', confidence: 0.1, score: 0.039, frames: 6 })).toBe(false)
+    expect(isConfidentlyNormal({ variant: 'foil', confidence: 0.9, score: 0.2, frames: 6 })).toBe(false)
+    expect(isConfidentlyNormal(null)).toBe(false)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  binderPocketRects,
+  canvasPool,
+  cropRegions,
+  getCoverTransform,
+  GUIDE_X,
+  GUIDE_W,
+} from '../../utils/frame-pipeline'
+import type { PipelineCanvas } from '../../utils/frame-pipeline'
+import { CARD_WIDTH, CARD_HEIGHT, CARD_CN_TOP } from '../../utils/card-detector'
+
+// 1920×1080 landscape camera shown in a 375×812 portrait container
+const video = { clientWidth: 375, clientHeight: 812, videoWidth: 1920, videoHeight: 1080 } as HTMLVideoElement
+
+describe('getCoverTransform', () => {
+  it('maps the container onto the visible part of the video', () => {
+    const cover = getCoverTransform(video)!
+    expect(cover.visibleH).toBeCloseTo(1080)
+    expect(cover.visibleW).toBeCloseTo(1080 * (375 / 812))
+    expect(cover.offsetX).toBeCloseTo((1920 - cover.visibleW) / 2)
+    expect(cover.offsetY).toBeCloseTo(0)
+  })
+
+  it('is null before the video has a size', () => {
+    expect(getCoverTransform({ ...video, videoWidth: 0 } as HTMLVideoElement)).toBeNull()
+  })
+})
+
+describe('cropRegions', () => {
+  const cover = { offsetX: 100, offsetY: 0, visibleW: 500, visibleH: 1000 }
+
+  it('crops from the guide frame in video pixels when no card was found', () => {
+    const regions = cropRegions(cover, false)
+    expect(regions.frame.x).toBe(Math.floor(100 + GUIDE_X * 500))
+    expect(regions.frame.w).toBe(Math.floor(GUIDE_W * 500))
+    // The CN strip is the bottom of the guide frame
+    expect(regions.cn.y + regions.cn.h).toBeLessThanOrEqual(regions.frame.y + regions.frame.h + 1)
+  })
+
+  it('crops from the upright card when one was found', () => {
+    const regions = cropRegions(cover, true)
+    expect(regions.frame).toEqual({ x: 0, y: 0, w: CARD_WIDTH, h: CARD_HEIGHT })
+    expect(regions.cn.y).toBe(Math.floor(CARD_CN_TOP * CARD_HEIGHT))
+    expect(regions.cn.w).toBe(CARD_WIDTH)
+  })
+})
+
+describe('binderPocketRects', () => {
+  it('lays nine pockets over the page guide', () => {
+    const rects = binderPocketRects({ offsetX: 0, offsetY: 0, visibleW: 1000, visibleH: 1000 })
+    expect(rects).toHaveLength(9)
+    expect(rects[0]!.x).toBeCloseTo(40)
+    expect(rects[0]!.y).toBeCloseTo(160)
+    expect(rects[8]!.x + rects[8]!.w).toBeCloseTo(960)
+  })
+})
+
+describe('canvasPool', () => {
+  it('creates each named canvas once and reuses it', () => {
+    const create = vi.fn(() => ({ width: 1, height: 1 }) as PipelineCanvas)
+    const pool = canvasPool(create)
+    expect(pool('cn')).toBe(pool('cn'))
+    expect(pool('ink')).not.toBe(pool('cn'))
+    expect(create).toHaveBeenCalledTimes(2)
+  })
+})
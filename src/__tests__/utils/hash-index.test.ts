@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import {
+  HASH_INDEX_FORMAT,
+  HASH_INDEX_VERSION,
+  createHashIndexFile,
+  pickByHash,
+  validateHashIndex,
+} from '../../utils/hash-index'
+import type { Card } from '../../types'
+
+function makeCard(cn: string): Card {
+  return {
+    name: 'Card ' + cn,
+    version: '',
+    display: 'Card ' + cn,
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn,
+    cost: 1,
+    ink: 'Amber',
+    rarity: 'Common',
+    type: ['Character'],
+    imageUrl: '',
+  }
+}
+
+describe('validateHashIndex', () => {
+  it('accepts a file made by createHashIndexFile and derives the keys', () => {
+    const file = createHashIndexFile([{ key: '', setCode: '1', cn: '12', hash: '0123456789abcdef' }], 1000)
+    const { entries, errors } = validateHashIndex(JSON.parse(JSON.stringify(file)))
+    expect(errors).toEqual([])
+    expect(entries).toEqual([{ key: '1-12', setCode: '1', cn: '12', hash: '0123456789abcdef' }])
+  })
+
+  it('rejects files that are not an index', () => {
+    expect(validateHashIndex({ sessions: [] }).entries).toBeNull()
+    expect(validateHashIndex(null).errors).toEqual(['This is not a card-art index file'])
+  })
+
+  it('rejects an index from a newer version', () => {
+    const { entries, errors } = validateHashIndex({
+      format: HASH_INDEX_FORMAT,
+      version: HASH_INDEX_VERSION + 1,
+      entries: [],
+    })
+    expect(entries).toBeNull()
+    expect(errors[0]).toMatch(/newer version/)
+  })
+
+  it('lists malformed entries', () => {
+    const { entries, errors } = validateHashIndex({
+      format: HASH_INDEX_FORMAT,
+      version: HASH_INDEX_VERSION,
+      entries: [{ setCode: '1', cn: '1', hash: 'nothex' }, { cn: '2', hash: '0123456789abcdef' }],
+    })
+    expect(entries).toBeNull()
+    expect(errors).toEqual(['entries[0].hash must be 16 hex characters', 'entries[1] must have a setCode and cn'])
+  })
+})
+
+describe('pickByHash', () => {
+  const index = new Map([
+    ['1-1', '0000000000000000'],
+    ['1-2', 'ffffffff00000000'],
+    ['1-3', '000000000000000f'],
+  ])
+
+  it('picks the candidate whose art is closest', () => {
+    const result = pickByHash('ffffff0f00000000', index, [makeCard('1'), makeCard('2')])
+    expect(result?.card.cn).toBe('2')
+    expect(result?.distance).toBe(4)
+  })
+
+  it('returns null when the best two are too close to call', () => {
+    expect(pickByHash('0000000000000003', index, [makeCard('1'), makeCard('3')])).toBeNull()
+  })
+
+  it('returns null when nothing is close enough', () => {
+    expect(pickByHash('0f0f0f0f0f0f0f0f', index, [makeCard('1'), makeCard('2')])).toBeNull()
+  })
+
+  it('ignores candidates missing from the index', () => {
+    expect(pickByHash('0000000000000000', index, [makeCard('9')])).toBeNull()
+    expect(pickByHash('0000000000000001', index, [makeCard('1'), makeCard('9')])?.card.cn).toBe('1')
+  })
+})
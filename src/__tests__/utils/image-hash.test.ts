@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { perceptualHash, hammingDistance } from '../../utils/image-hash'
+
+const W = 120
+const H = 168
+
+/** RGBA image whose pixels come from `shade(x, y)` (0-255 gray). */
+function makeImage(shade: (x: number, y: number) => number): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(W * H * 4)
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const v = shade(x, y)
+      const off = (y * W + x) * 4
+      data[off] = v
+      data[off + 1] = v
+      data[off + 2] = v
+      data[off + 3] = 255
+    }
+  }
+  return data
+}
+
+const diagonal = (x: number, y: number) => ((x + y) * 255) / (W + H)
+const rings = (x: number, y: number) => (Math.hypot(x - W / 2, y - H / 4) % 24 < 12 ? 220 : 30)
+
+describe('perceptualHash', () => {
+  it('returns 16 hex characters', () => {
+    expect(perceptualHash(makeImage(diagonal), W, H)).toMatch(/^[0-9a-f]{16}$/)
+  })
+
+  it('gives the same hash for the same art', () => {
+    expect(perceptualHash(makeImage(diagonal), W, H)).toBe(perceptualHash(makeImage(diagonal), W, H))
+  })
+
+  it('is stable under an exposure change', () => {
+    const a = perceptualHash(makeImage(rings), W, H)
+    const b = perceptualHash(makeImage((x, y) => Math.min(255, rings(x, y) * 0.8 + 30)), W, H)
+    expect(hammingDistance(a, b)).toBeLessThanOrEqual(4)
+  })
+
+  it('tells different art apart', () => {
+    const a = perceptualHash(makeImage(diagonal), W, H)
+    const b = perceptualHash(makeImage(rings), W, H)
+    expect(hammingDistance(a, b)).toBeGreaterThan(14)
+  })
+})
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0)
+    expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4)
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64)
+  })
+
+  it('returns Infinity for hashes that cannot be compared', () => {
+    expect(hammingDistance('00', '000')).toBe(Infinity)
+    expect(hammingDistance('zz', '00')).toBe(Infinity)
+  })
+})
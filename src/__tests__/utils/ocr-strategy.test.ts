@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import {
+  emptyStrategyStats,
+  pickStrategy,
+  recordStrategyRead,
+  OCR_STRATEGIES,
+  EXPLORE_EVERY,
+} from '../../utils/ocr-strategy'
+import type { StrategyStats } from '../../utils/ocr-strategy'
+
+/** Stats where every strategy has been tried `tries` times with the given reads. */
+function statsWith(reads: Partial<Record<keyof StrategyStats, number>>, tries = 10): StrategyStats {
+  const stats = emptyStrategyStats()
+  for (const s of OCR_STRATEGIES) stats[s] = { tries, reads: reads[s] ?? 0 }
+  return stats
+}
+
+describe('recordStrategyRead', () => {
+  it('counts tries and parseable reads without touching the input', () => {
+    const before = emptyStrategyStats()
+    const after = recordStrategyRead(recordStrategyRead(before, 'sauvola', true), 'sauvola', false)
+    expect(after.sauvola).toEqual({ tries: 2, reads: 1 })
+    expect(after.otsu).toEqual({ tries: 0, reads: 0 })
+    expect(before.sauvola).toEqual({ tries: 0, reads: 0 })
+  })
+})
+
+describe('pickStrategy', () => {
+  it('tries every strategy once before choosing', () => {
+    let stats = emptyStrategyStats()
+    const picked = []
+    for (let frame = 0; frame < OCR_STRATEGIES.length; frame++) {
+      const strategy = pickStrategy(stats, frame)
+      picked.push(strategy)
+      stats = recordStrategyRead(stats, strategy, false)
+    }
+    expect(new Set(picked).size).toBe(OCR_STRATEGIES.length)
+  })
+
+  it('uses the strategy with the best read rate', () => {
+    expect(pickStrategy(statsWith({ otsu: 3, deskew: 8 }), 0)).toBe('deskew')
+  })
+
+  it('gives the least-tried strategy an occasional frame', () => {
+    const stats = statsWith({ otsu: 9 })
+    stats.sharpen = { tries: 2, reads: 0 }
+    expect(pickStrategy(stats, EXPLORE_EVERY - 1)).toBe('sharpen')
+    expect(pickStrategy(stats, EXPLORE_EVERY)).toBe('otsu')
+  })
+})
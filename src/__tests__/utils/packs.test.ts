@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest'
+import {
+  openPack,
+  addToPack,
+  removeFromPack,
+  removeAllFromPacks,
+  reopenPack,
+  closePack,
+  startNewPack,
+  moveBetweenPacks,
+  importIntoPacks,
+  firstPackByKey,
+  buildPacksFromPulls,
+  countPacksBySet,
+} from '../../utils/packs'
+import { PACK_SIZE } from '../../constants'
+import type { Pack } from '../../types'
+
+function pack(number: number, cards: string[], closedAt: number | null = null): Pack {
+  return { sessionId: 1, number, openedAt: 0, closedAt, cards }
+}
+
+/** Add `count` copies of `key` and return the resulting packs. */
+function addMany(packs: Pack[], key: string, count: number): Pack[] {
+  let list = packs
+  for (let i = 0; i < count; i++) list = addToPack(list, 1, key, 10).packs
+  return list
+}
+
+describe('addToPack', () => {
+  it('opens the first pack on the first add', () => {
+    const result = addToPack([], 1, 'a', 5)
+    expect(result.packs).toEqual([{ ...pack(1, ['a']), openedAt: 5 }])
+    expect(result.packNumber).toBe(1)
+    expect(result.closed).toBe(false)
+  })
+
+  it('closes the pack when it reaches PACK_SIZE and opens the next on the following add', () => {
+    let packs = addMany([], 'a', PACK_SIZE - 1)
+    const filling = addToPack(packs, 1, 'b', 20)
+    expect(filling.closed).toBe(true)
+    expect(filling.packs[0]!.closedAt).toBe(20)
+    expect(openPack(filling.packs)).toBeNull()
+
+    packs = addToPack(filling.packs, 1, 'c', 30).packs
+    expect(packs.map((p) => p.number)).toEqual([1, 2])
+    expect(openPack(packs)!.cards).toEqual(['c'])
+  })
+})
+
+describe('removeFromPack', () => {
+  it('removes the copy from the given pack', () => {
+    const packs = [pack(1, ['a', 'b'], 1), pack(2, ['a'])]
+    expect(removeFromPack(packs, 'a', 1)).toEqual([pack(1, ['b'], 1), pack(2, ['a'])])
+  })
+
+  it('falls back to the latest pack holding the key', () => {
+    const packs = [pack(1, ['a'], 1), pack(2, ['a', 'b'])]
+    expect(removeFromPack(packs, 'a')).toEqual([pack(1, ['a'], 1), pack(2, ['b'])])
+    expect(removeFromPack(packs, 'a', 5)).toEqual([pack(1, ['a'], 1), pack(2, ['b'])])
+  })
+
+  it('leaves packs alone when the key is not logged', () => {
+    const packs = [pack(1, ['a'])]
+    expect(removeFromPack(packs, 'z')).toBe(packs)
+  })
+
+  it('removes every copy with removeAllFromPacks', () => {
+    expect(removeAllFromPacks([pack(1, ['a', 'b', 'a'], 1), pack(2, ['a'])], 'a')).toEqual([
+      pack(1, ['b'], 1),
+      pack(2, []),
+    ])
+  })
+})
+
+describe('undoing the add that closed a pack', () => {
+  it('puts the next card back into the same pack', () => {
+    const packs = addMany([], 'a', PACK_SIZE)
+    const undone = reopenPack(removeFromPack(packs, 'a', 1), 1)
+    expect(openPack(undone)!.number).toBe(1)
+
+    const result = addToPack(undone, 1, 'b', 40)
+    expect(result.packNumber).toBe(1)
+    expect(result.packs).toHaveLength(1)
+  })
+
+  it('only reopens the last pack', () => {
+    const packs = [pack(1, ['a'], 1), pack(2, ['b'], 2)]
+    expect(reopenPack(packs, 1)).toBe(packs)
+  })
+})
+
+describe('closePack and startNewPack', () => {
+  it('closes the open pack early', () => {
+    const packs = closePack([pack(1, ['a', 'b'])], 9)
+    expect(packs).toEqual([pack(1, ['a', 'b'], 9)])
+    expect(addToPack(packs, 1, 'c', 10).packNumber).toBe(2)
+  })
+
+  it('drops an empty open pack instead of closing it', () => {
+    expect(closePack([pack(1, ['a'], 1), pack(2, [])], 9)).toEqual([pack(1, ['a'], 1)])
+  })
+
+  it('starts a fresh pack, closing the current one', () => {
+    const packs = startNewPack([pack(1, ['a'])], 1, 9)
+    expect(packs).toEqual([pack(1, ['a'], 9), { ...pack(2, []), openedAt: 9 }])
+    // Pressing it again does not pile up empty packs
+    expect(startNewPack(packs, 1, 10)).toBe(packs)
+  })
+})
+
+describe('moveBetweenPacks', () => {
+  it('moves one copy to another pack', () => {
+    const packs = [pack(1, ['a', 'a'], 1), pack(2, ['b'])]
+    expect(moveBetweenPacks(packs, 'a', 1, 2)).toEqual([pack(1, ['a'], 1), pack(2, ['b', 'a'])])
+  })
+
+  it('ignores moves from a pack without the card or to a missing pack', () => {
+    const packs = [pack(1, ['a'], 1), pack(2, ['b'])]
+    expect(moveBetweenPacks(packs, 'b', 1, 2)).toBe(packs)
+    expect(moveBetweenPacks(packs, 'a', 1, 3)).toBe(packs)
+  })
+})
+
+describe('importIntoPacks', () => {
+  it('keeps the file pack grouping as new closed packs and adds the rest normally', () => {
+    const packs = importIntoPacks(
+      [pack(1, ['x'])],
+      1,
+      [
+        { key: 'a', count: 2, packNumber: 7 },
+        { key: 'b', count: 1, packNumber: 3 },
+        { key: 'c', count: 1 },
+      ],
+      50,
+    )
+    expect(packs.map((p) => [p.number, p.cards, p.closedAt])).toEqual([
+      [1, ['x'], 50],
+      [2, ['b'], 50],
+      [3, ['a', 'a'], 50],
+      [4, ['c'], null],
+    ])
+  })
+})
+
+describe('firstPackByKey', () => {
+  it('maps each key to the first pack it was logged in', () => {
+    expect(firstPackByKey([pack(1, ['a'], 1), pack(2, ['b', 'a'])])).toEqual({ a: 1, b: 2 })
+  })
+})
+
+describe('buildPacksFromPulls', () => {
+  it('groups copies by pack number and leaves a partial last pack open', () => {
+    const packs = buildPacksFromPulls(
+      1,
+      [
+        { key: 'a', count: 2, packNumber: 1 },
+        { key: 'b', count: 1, packNumber: 2 },
+        { key: 'c', count: 1, packNumber: 0 },
+      ],
+      100,
+    )
+    expect(packs).toEqual([
+      { sessionId: 1, number: 1, openedAt: 100, closedAt: 100, cards: ['a', 'a', 'c'] },
+      { sessionId: 1, number: 2, openedAt: 100, closedAt: null, cards: ['b'] },
+    ])
+  })
+})
+
+describe('countPacksBySet', () => {
+  it('counts each non-empty pack once under its main set', () => {
+    const setOf = (key: string) => key.split('-')[0]
+    const packs = [pack(1, ['1-a', '1-b', '2-c'], 1), pack(2, ['2-a']), pack(3, [])]
+    expect(countPacksBySet(packs, setOf)).toEqual({ '1': 1, '2': 1 })
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { preprocessPixels } from '../../utils/preprocess-ocr'
+import type { OcrStrategy } from '../../utils/preprocess-ocr'
+
+/** RGBA buffer from grey levels, one per pixel. */
+function greyPixels(levels: number[]): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(levels.length * 4)
+  levels.forEach((v, i) => {
+    data.set([v, v, v, 255], i * 4)
+  })
+  return data
+}
+
+describe('preprocessPixels', () => {
+  it('binarises to pure black and white', () => {
+    const data = greyPixels([20, 30, 220, 230, 240, 250])
+    preprocessPixels(data, 6, 1)
+    for (let i = 0; i < data.length; i += 4) {
+      expect([0, 255]).toContain(data[i])
+      expect(data[i + 3]).toBe(255)
+    }
+  })
+
+  it('keeps dark text on a light background as-is', () => {
+    const data = greyPixels([20, 230, 240, 250])
+    const info = preprocessPixels(data, 4, 1)
+    expect(info.inverted).toBe(false)
+    expect(data[0]).toBe(0)
+    expect(data[4]).toBe(255)
+  })
+
+  it('inverts light text on a dark background', () => {
+    const data = greyPixels([230, 20, 25, 30])
+    const info = preprocessPixels(data, 4, 1)
+    expect(info.inverted).toBe(true)
+    expect(data[0]).toBe(0)
+    expect(data[4]).toBe(255)
+  })
+
+  it('uses Otsu unless told otherwise', () => {
+    expect(preprocessPixels(greyPixels([20, 230, 240, 250]), 4, 1).strategy).toBe('otsu')
+  })
+})
+
+/** Vertical strokes in the middle rows of a background that brightens left to right. */
+function unevenlyLit(width: number, height: number) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  const ink = new Array<boolean>(width * height)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const background = 140 + Math.round((110 * x) / (width - 1))
+      const stroke = y >= height / 3 && y < (2 * height) / 3 && x % 8 < 2
+      ink[y * width + x] = stroke
+      const v = stroke ? background - 80 : background
+      data.set([v, v, v, 255], (y * width + x) * 4)
+    }
+  }
+  return { data, ink }
+}
+
+/** Pixels whose black/white doesn't match the stroke mask. */
+function wrongPixels(data: Uint8ClampedArray, ink: boolean[]): number {
+  return ink.filter((stroke, i) => (data[i * 4] === 0) !== stroke).length
+}
+
+describe('preprocessPixels strategies', () => {
+  it('sauvola keeps text that a single threshold loses under uneven light', () => {
+    const otsu = unevenlyLit(96, 48)
+    preprocessPixels(otsu.data, 96, 48, 'otsu')
+    const sauvola = unevenlyLit(96, 48)
+    const info = preprocessPixels(sauvola.data, 96, 48, 'sauvola')
+
+    expect(info.strategy).toBe('sauvola')
+    expect(wrongPixels(sauvola.data, sauvola.ink)).toBeLessThan(wrongPixels(otsu.data, otsu.ink) / 4)
+  })
+
+  it('deskew measures a slanted line and levels it', () => {
+    const width = 120
+    const height = 40
+    const slope = Math.tan((3 * Math.PI) / 180)
+    const levels = Array.from({ length: width * height }, (_, i) => {
+      const x = i % width
+      const y = Math.floor(i / width)
+      const lineY = height / 2 + (x - width / 2) * slope
+      return Math.abs(y - lineY) < 1.5 ? 20 : 230
+    })
+    const data = greyPixels(levels)
+    const info = preprocessPixels(data, width, height, 'deskew')
+
+    expect(info.skewDeg).toBe(3)
+    const blackRows = new Set<number>()
+    for (let i = 0; i < width * height; i++) {
+      if (data[i * 4] === 0) blackRows.add(Math.floor(i / width))
+    }
+    expect(blackRows.size).toBeLessThanOrEqual(4)
+  })
+
+  it.each<OcrStrategy>(['stretch', 'sharpen'])('%s still produces a two-tone image', (strategy) => {
+    const { data } = unevenlyLit(32, 24)
+    const info = preprocessPixels(data, 32, 24, strategy)
+    expect(info.strategy).toBe(strategy)
+    expect(info.skewDeg).toBeUndefined()
+    for (let i = 0; i < data.length; i += 4) expect([0, 255]).toContain(data[i])
+  })
+})
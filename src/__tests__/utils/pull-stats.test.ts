@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import {
+  wilsonInterval,
+  poissonRateInterval,
+  sampleFromHistory,
+  samplesFromData,
+  computePullStats,
+} from '../../utils/pull-stats'
+import type { StatsSample } from '../../utils/pull-stats'
+import type { Card, ExportHistoryEntry, HistoryPull } from '../../types'
+
+function pull(
+  setCode: string,
+  cn: string,
+  rarity: string,
+  ink: string,
+  count = 1,
+  variant: 'normal' | 'foil' = 'normal',
+): HistoryPull {
+  return {
+    key: setCode + '-' + cn + '-' + variant,
+    variant,
+    count,
+    card: { display: 'Card ' + cn, setCode, setName: 'Set ' + setCode, cn, ink, rarity },
+  }
+}
+
+const ALL = { setCode: 'all', from: null, to: null }
+
+describe('wilsonInterval', () => {
+  it('brackets the observed proportion', () => {
+    const e = wilsonInterval(20, 100)
+    expect(e.value).toBeCloseTo(0.2)
+    expect(e.low).toBeCloseTo(0.1333, 3)
+    expect(e.high).toBeCloseTo(0.2888, 3)
+  })
+
+  it('stays within 0..1 at the extremes', () => {
+    expect(wilsonInterval(0, 10).low).toBe(0)
+    expect(wilsonInterval(10, 10).high).toBe(1)
+    expect(wilsonInterval(0, 0)).toEqual({ count: 0, total: 0, value: 0, low: 0, high: 0 })
+  })
+})
+
+describe('poissonRateInterval', () => {
+  it('gives a per-pack rate with an interval around it', () => {
+    const e = poissonRateInterval(10, 100)
+    expect(e.value).toBeCloseTo(0.1)
+    expect(e.low).toBeCloseTo(0.048, 2)
+    expect(e.high).toBeCloseTo(0.184, 2)
+  })
+
+  it('has a zero lower bound and a positive upper bound when nothing was seen', () => {
+    const e = poissonRateInterval(0, 50)
+    expect(e.low).toBe(0)
+    expect(e.high).toBeGreaterThan(0.05)
+  })
+})
+
+describe('sampleFromHistory', () => {
+  const entry: ExportHistoryEntry = {
+    id: 1,
+    filename: 'f.csv',
+    sessionName: 'S',
+    timestamp: 5,
+    totalCards: 25,
+    totalFoils: 0,
+    pulls: [pull('1', '1', 'Common', 'Amber', 13), pull('2', '1', 'Common', 'Ruby', 12)],
+  }
+
+  it('uses the stored pack counts', () => {
+    const stored = { '1': 1, '2': 1 }
+    expect(sampleFromHistory({ ...entry, packsBySet: stored }).packsBySet).toEqual(stored)
+  })
+
+  it('estimates packs for older exports from card counts', () => {
+    expect(sampleFromHistory(entry).packsBySet).toEqual({ '1': 2, '2': 1 })
+  })
+})
+
+describe('samplesFromData', () => {
+  const card: Card = {
+    name: 'Card 1',
+    version: '',
+    display: 'Card 1',
+    setCode: '1',
+    setName: 'Set 1',
+    cn: '1',
+    cost: 1,
+    ink: 'Amber',
+    rarity: 'Common',
+    type: ['Character'],
+    imageUrl: '',
+  }
+  const exportOf = (id: number, sessionId?: number): ExportHistoryEntry => ({
+    id,
+    filename: 'f.csv',
+    sessionName: 'S',
+    timestamp: id,
+    totalCards: 1,
+    totalFoils: 0,
+    pulls: [pull('1', String(id), 'Common', 'Amber')],
+    packsBySet: { '1': 1 },
+    ...(sessionId !== undefined && { sessionId }),
+  })
+
+  it('uses stored pulls for sessions that still hold them, not their exports', () => {
+    const samples = samplesFromData({
+      sessions: [{ id: 1, name: 'Live', startedAt: 10 }],
+      pulls: [{ sessionId: 1, key: '1-1-normal', card, variant: 'normal', count: 2, packNumber: 1 }],
+      packs: [{ sessionId: 1, number: 1, openedAt: 10, closedAt: null, cards: ['1-1-normal', '1-1-normal'] }],
+      exports: [exportOf(100, 1)],
+    })
+    expect(samples).toHaveLength(1)
+    expect(samples[0]).toMatchObject({ timestamp: 10, packsBySet: { '1': 1 } })
+    expect(samples[0]!.pulls[0]!.count).toBe(2)
+  })
+
+  it('counts only the latest export of a cleared or deleted session', () => {
+    const samples = samplesFromData({
+      sessions: [{ id: 1, name: 'Cleared', startedAt: null }],
+      pulls: [],
+      packs: [],
+      exports: [exportOf(100, 1), exportOf(200, 1), exportOf(300, 9)],
+    })
+    expect(samples.map((s) => s.timestamp)).toEqual([200, 300])
+  })
+
+  it('keeps every export made before exports recorded their session', () => {
+    const samples = samplesFromData({ sessions: [], pulls: [], packs: [], exports: [exportOf(100), exportOf(200)] })
+    expect(samples).toHaveLength(2)
+  })
+})
+
+describe('computePullStats', () => {
+  const samples: StatsSample[] = [
+    {
+      timestamp: 100,
+      packsBySet: { '1': 4 },
+      pulls: [
+        pull('1', '1', 'Enchanted', 'Amber', 1, 'foil'),
+        pull('1', '2', 'Legendary', 'Amber', 2),
+        pull('1', '3', 'Common', 'Ruby', 3, 'foil'),
+      ],
+    },
+    {
+      timestamp: 200,
+      packsBySet: { '2': 2 },
+      pulls: [pull('2', '1', 'Legendary', 'Steel', 1), pull('2', '2', 'Rare', 'Ruby', 1, 'foil')],
+    },
+  ]
+
+  it('aggregates rates across sessions', () => {
+    const stats = computePullStats(samples, ALL)
+    expect(stats.packs).toBe(6)
+    expect(stats.cards).toBe(8)
+    expect(stats.enchantedPerPack.value).toBeCloseTo(1 / 6)
+    expect(stats.legendaryBySet.map((s) => [s.setCode, s.estimate.count, s.estimate.total])).toEqual([
+      ['1', 2, 4],
+      ['2', 1, 2],
+    ])
+    expect(stats.foilRarity.map((r) => [r.label, r.estimate.count])).toEqual([
+      ['Common', 3],
+      ['Rare', 1],
+      ['Enchanted', 1],
+    ])
+    expect(stats.ink.map((r) => [r.label, r.estimate.count])).toEqual([
+      ['Ruby', 4],
+      ['Amber', 3],
+      ['Steel', 1],
+    ])
+  })
+
+  it('filters by set', () => {
+    const stats = computePullStats(samples, { ...ALL, setCode: '2' })
+    expect(stats.packs).toBe(2)
+    expect(stats.cards).toBe(2)
+    expect(stats.legendaryBySet.map((s) => s.setCode)).toEqual(['2'])
+  })
+
+  it('filters by date range', () => {
+    const stats = computePullStats(samples, { ...ALL, from: 150, to: 250 })
+    expect(stats.samples).toBe(1)
+    expect(stats.packs).toBe(2)
+  })
+})
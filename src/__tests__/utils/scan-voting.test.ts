@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { addVote, tallyVotes, VOTE_WINDOW } from '../../utils/scan-voting'
+import type { ScanVote } from '../../utils/scan-voting'
+
+function vote(cn: string, overrides: Partial<ScanVote> = {}): ScanVote {
+  return { cn, total: '204', setNumber: null, ink: null, language: null, confidence: 60, ...overrides }
+}
+
+function windowOf(votes: (ScanVote | null)[]) {
+  return votes.reduce<(ScanVote | null)[]>((w, v) => addVote(w, v), [])
+}
+
+describe('addVote', () => {
+  it('keeps only the most recent frames', () => {
+    const w = windowOf(Array.from({ length: VOTE_WINDOW + 2 }, (_, i) => vote(String(i + 1))))
+    expect(w).toHaveLength(VOTE_WINDOW)
+    expect(w[0]!.cn).toBe('3')
+  })
+})
+
+describe('tallyVotes', () => {
+  it('does not accept a single read', () => {
+    const tally = tallyVotes(windowOf([vote('130')]))
+    expect(tally.accepted).toBeNull()
+    expect(tally.candidates[0]).toMatchObject({ key: '130/204', count: 1 })
+  })
+
+  it('accepts once enough frames agree', () => {
+    const tally = tallyVotes(windowOf([vote('130'), null, vote('130'), vote('130')]))
+    expect(tally.accepted?.cn).toBe('130')
+    expect(tally.frames).toBe(4)
+  })
+
+  it('accepts two high-confidence reads', () => {
+    const tally = tallyVotes(windowOf([vote('130', { confidence: 95 }), vote('130', { confidence: 92 })]))
+    expect(tally.accepted?.cn).toBe('130')
+  })
+
+  it('holds off while a competing reading is close behind', () => {
+    const tally = tallyVotes(windowOf([vote('130'), vote('180'), vote('130'), vote('180'), vote('130')]))
+    expect(tally.accepted).toBeNull()
+    expect(tally.candidates.map((c) => [c.cn, c.count])).toEqual([
+      ['130', 3],
+      ['180', 2],
+    ])
+  })
+
+  it('takes the most common set number and ink among reads that had one', () => {
+    const tally = tallyVotes(
+      windowOf([
+        vote('130', { setNumber: '7', ink: 'Amber' }),
+        vote('130', { setNumber: null, ink: 'Amber/Steel' }),
+        vote('130', { setNumber: '7', ink: 'Amber' }),
+        vote('130', { setNumber: '1' }),
+      ]),
+    )
+    expect(tally.accepted).toMatchObject({ setNumber: '7', ink: 'Amber', count: 4 })
+  })
+
+  it('lets old reads age out of the window', () => {
+    const w = windowOf([vote('130'), vote('130'), vote('130'), ...Array<null>(VOTE_WINDOW - 1).fill(null)])
+    expect(tallyVotes(w).candidates.map((c) => c.count)).toEqual([1])
+    expect(tallyVotes(w).accepted).toBeNull()
+  })
+})
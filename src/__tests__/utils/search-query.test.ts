@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { parseSearchQuery } from '../../utils/search-query'
+
+const parse = (input: string) => parseSearchQuery(input).query
+const error = (input: string) => parseSearchQuery(input).error
+
+describe('parseSearchQuery', () => {
+  it('is empty for a blank query', () => {
+    expect(parseSearchQuery('  ')).toEqual({ query: null, error: null })
+  })
+
+  it('reads plain words and quoted phrases as text', () => {
+    expect(parse('Ariel #2')).toEqual({
+      kind: 'and',
+      nodes: [
+        { kind: 'text', text: 'ariel' },
+        { kind: 'text', text: '#2' },
+      ],
+    })
+    expect(parse('"Snow Queen"')).toEqual({ kind: 'text', text: 'snow queen' })
+    expect(parse('"ink:amber"')).toEqual({ kind: 'text', text: 'ink:amber' })
+  })
+
+  it('reads text filters, lower-cased', () => {
+    expect(parse('INK:Amethyst')).toEqual({ kind: 'field', field: 'ink', value: 'amethyst' })
+    expect(parse('colour:ruby')).toEqual({ kind: 'field', field: 'ink', value: 'ruby' })
+    expect(parse('rarity:super_rare')).toEqual({ kind: 'field', field: 'rarity', value: 'superrare' })
+    expect(parse('name:"the queen"')).toEqual({ kind: 'field', field: 'name', value: 'the queen' })
+  })
+
+  it.each([
+    ['cost:5', 5, 5],
+    ['cost=5', 5, 5],
+    ['cost>=5', 5, Infinity],
+    ['cost>5', 6, Infinity],
+    ['cost<=5', -Infinity, 5],
+    ['cost<5', -Infinity, 4],
+  ])('reads %j as a range', (input, min, max) => {
+    expect(parse(input)).toEqual({ kind: 'range', field: 'cost', min, max })
+  })
+
+  it('reads collector number ranges', () => {
+    expect(parse('cn:100-120')).toEqual({ kind: 'range', field: 'cn', min: 100, max: 120 })
+  })
+
+  it('binds OR looser than terms side by side', () => {
+    expect(parse('ink:ruby cost:2 OR ink:steel')).toEqual({
+      kind: 'or',
+      nodes: [
+        {
+          kind: 'and',
+          nodes: [
+            { kind: 'field', field: 'ink', value: 'ruby' },
+            { kind: 'range', field: 'cost', min: 2, max: 2 },
+          ],
+        },
+        { kind: 'field', field: 'ink', value: 'steel' },
+      ],
+    })
+  })
+
+  it('negates with - or NOT, including brackets', () => {
+    expect(parse('-type:song')).toEqual({ kind: 'not', node: { kind: 'field', field: 'type', value: 'song' } })
+    expect(parse('NOT (elsa OR anna)')).toEqual({
+      kind: 'not',
+      node: {
+        kind: 'or',
+        nodes: [
+          { kind: 'text', text: 'elsa' },
+          { kind: 'text', text: 'anna' },
+        ],
+      },
+    })
+  })
+
+  it('leaves hyphens inside words alone', () => {
+    expect(parse('half-hexwell')).toEqual({ kind: 'text', text: 'half-hexwell' })
+  })
+
+  it.each([
+    ['foo:bar', 'Unknown filter "foo:"'],
+    ['ink:', '"ink:" needs a value, e.g. ink:amethyst'],
+    ['ink:pink', 'Unknown ink "pink" — try amber, amethyst, emerald, ruby, sapphire or steel'],
+    ['rarity:mythic', 'Unknown rarity "mythic"'],
+    ['ink>3', '"ink" can\'t be compared with ">" — use ink:amethyst'],
+    ['cost>=high', '"cost>=" needs a number, e.g. cost>=5'],
+    ['cn:120-100', 'cn:120-100 goes backwards — try cn:100-120'],
+    ['"snow queen', 'Missing closing quote'],
+    ['(elsa', 'Missing ")"'],
+    ['elsa)', 'Unexpected ")"'],
+    ['()', 'Nothing between "(" and ")"'],
+    ['OR elsa', '"OR" needs something on both sides'],
+    ['elsa OR', '"OR" needs something on both sides'],
+    ['elsa -', '"-" needs something to leave out'],
+  ])('explains %j', (input, message) => {
+    expect(error(input)).toContain(message)
+  })
+})
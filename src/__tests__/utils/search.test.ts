@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { searchCards } from '../../utils/search'
+import { findCards, searchCards, MAX_RESULTS } from '../../utils/search'
+import { parseSearchQuery } from '../../utils/search-query'
 import { parseCards } from '../../utils/card-parser'
 import type { RawCard } from '../../types'
 
@@ -69,4 +70,78 @@ describe('searchCards', () => {
     expect(results.length).toBe(1)
     expect(results[0]!.version).toBe('On Human Legs')
   })
+
+  it('matches localised names', () => {
+    const [elsa] = parseCards([
+      ['Elsa', 'Snow Queen', '2', 'Rise of the Floodborn', '10', 6, 'Sapphire', 'Legendary', 'Character', ''],
+    ])
+    const results = searchCards('reine', [{ ...elsa!, names: { fr: 'Elsa – Reine des Neiges' } }], 'all')
+    expect(results.map((c) => c.cn)).toEqual(['10'])
+  })
+})
+
+describe('searchCards with filters', () => {
+  const more = parseCards([
+    ...RAW,
+    ['Friends Like Me', '', '1', 'The First Chapter', '161', 7, 'Sapphire', 'Super_rare', 'Action,Song'],
+    ['Belle', 'Strange but Special', '2', 'Rise of the Floodborn', '142', 4, 'Sapphire/Steel', 'Legendary', 'Character'],
+  ])
+  const cns = (query: string, setFilter = 'all') => searchCards(query, more, setFilter).map((c) => c.cn)
+
+  it('filters by ink, rarity, type and set', () => {
+    expect(cns('ink:sapphire')).toEqual(['161', '10', '142'])
+    expect(cns('ink:steel')).toEqual(['142'])
+    expect(cns('rarity:legendary')).toEqual(['10', '142'])
+    expect(cns('rarity:"super rare"')).toEqual(['2', '161'])
+    expect(cns('type:song')).toEqual(['161'])
+    expect(cns('set:2')).toEqual(['10', '142'])
+    expect(cns('set:floodborn')).toEqual(['10', '142'])
+  })
+
+  it('compares cost and collector number', () => {
+    expect(cns('cost>=7')).toEqual(['5', '161'])
+    expect(cns('cost<4')).toEqual(['2'])
+    expect(cns('cn:100-150')).toEqual(['142'])
+  })
+
+  it('combines filters with text, negation and OR', () => {
+    expect(cns('ariel cost:3')).toEqual(['2'])
+    expect(cns('ink:amber -ariel')).toEqual(['3', '5'])
+    expect(cns('elsa OR belle')).toEqual(['10', '142'])
+    expect(cns('ink:sapphire -(type:song OR rarity:legendary)')).toEqual([])
+  })
+
+  it('keeps the set filter', () => {
+    expect(cns('rarity:legendary', '1')).toEqual([])
+  })
+
+  it('finds nothing for a query that does not parse', () => {
+    expect(cns('ink:pink')).toEqual([])
+  })
+})
+
+describe('findCards', () => {
+  // 30 Amber cards over two sets, listed out of order
+  const many = parseCards(
+    Array.from({ length: 30 }, (_, i): RawCard => {
+      const n = 29 - i
+      return ['Card ' + n, '', n < 15 ? '1' : '2', 'Set', String((n % 15) + 1), 2, 'Amber', 'Common', 'Character']
+    }),
+  )
+  const find = (query: string) => findCards(parseSearchQuery(query).query!, many, 'all')
+
+  it('shows the first matches of a filter-only query in set and number order, counting the rest', () => {
+    const { cards: found, more } = find('ink:amber')
+    expect(found).toHaveLength(MAX_RESULTS)
+    expect(found.map((c) => c.setCode + '-' + c.cn)).toEqual([
+      ...Array.from({ length: 15 }, (_, i) => '1-' + (i + 1)),
+      ...Array.from({ length: 5 }, (_, i) => '2-' + (i + 1)),
+    ])
+    expect(more).toBe(10)
+  })
+
+  it('counts nothing more when every match fits', () => {
+    expect(find('ink:amber set:2').more).toBe(0)
+    expect(find('ink:amber set:2').cards).toHaveLength(15)
+  })
 })
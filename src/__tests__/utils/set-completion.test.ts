@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeSetCompletion,
+  completionRatio,
+  missingCards,
+  groupMissing,
+} from '../../utils/set-completion'
+import { applyCollectionDelta } from '../../utils/collection'
+import type { Card, CardVariant, CollectionEntry } from '../../types'
+
+function makeCard(overrides: Partial<Card> = {}): Card {
+  return {
+    name: 'Ariel',
+    version: 'On Human Legs',
+    display: 'Ariel – On Human Legs',
+    setCode: '1',
+    setName: 'The First Chapter',
+    cn: '1',
+    cost: 4,
+    ink: 'Amber',
+    rarity: 'Uncommon',
+    type: ['Character'],
+    imageUrl: '',
+    ...overrides,
+  }
+}
+
+const source = { sessionId: 1, sessionName: 'Box 1', at: 1 }
+
+function own(...items: [Card, CardVariant][]): Record<string, CollectionEntry> {
+  const owned: Record<string, CollectionEntry> = {}
+  items.forEach(([card, variant]) => {
+    const entry = applyCollectionDelta(undefined, card, variant, 1, source)!
+    owned[entry.key] = entry
+  })
+  return owned
+}
+
+const setMap = { '1': 'The First Chapter', '2': 'Rise of the Floodborn' }
+
+const cards = [
+  makeCard({ cn: '3', ink: 'Ruby', rarity: 'Rare' }),
+  makeCard({ cn: '1' }),
+  makeCard({ cn: '2', ink: 'Steel', rarity: 'Super_rare' }),
+  makeCard({ cn: '10', ink: 'Amber', rarity: 'Common' }),
+  makeCard({ setCode: '2', setName: 'Rise of the Floodborn', cn: '1' }),
+]
+
+describe('computeSetCompletion', () => {
+  it('counts owned cards per set and variant', () => {
+    const owned = own([cards[1]!, 'normal'], [cards[1]!, 'foil'], [cards[0]!, 'foil'])
+    const [first, second] = computeSetCompletion(cards, owned, setMap)
+
+    expect(first).toMatchObject({ setCode: '1', total: 4, ownedNormal: 1, ownedFoil: 2, ownedAny: 2 })
+    expect(second).toMatchObject({ setCode: '2', total: 1, ownedNormal: 0, ownedFoil: 0, ownedAny: 0 })
+  })
+
+  it('sorts cards by collector number', () => {
+    const [first] = computeSetCompletion(cards, {}, setMap)
+    expect(first!.cards.map((c) => c.cn)).toEqual(['1', '2', '3', '10'])
+  })
+
+  it('appends sets that are missing from the set map', () => {
+    const extra = makeCard({ setCode: 'Q1', setName: 'Quest', cn: '1' })
+    const result = computeSetCompletion([...cards, extra], {}, setMap)
+    expect(result.map((s) => s.setCode)).toEqual(['1', '2', 'Q1'])
+    expect(result[2]!.setName).toBe('Quest')
+  })
+
+  it('ignores a zero-count entry', () => {
+    const owned = own([cards[1]!, 'normal'])
+    owned['1-1-normal']!.count = 0
+    const [first] = computeSetCompletion(cards, owned, setMap)
+    expect(first!.ownedNormal).toBe(0)
+  })
+
+  it('counts promo variants and graded copies by their finish', () => {
+    const owned = own([cards[1]!, 'cold-foil'], [cards[2]!, 'stamped'])
+    const graded = applyCollectionDelta(undefined, cards[0]!, 'normal', 1, source, {
+      grade: { company: 'PSA', grade: '9' },
+    })!
+    owned[graded.key] = graded
+    const [first] = computeSetCompletion(cards, owned, setMap)
+    expect(first).toMatchObject({ ownedNormal: 2, ownedFoil: 1, ownedAny: 3 })
+  })
+})
+
+describe('completionRatio', () => {
+  it('uses the count for the chosen variant', () => {
+    const owned = own([cards[1]!, 'normal'], [cards[0]!, 'foil'])
+    const [first] = computeSetCompletion(cards, owned, setMap)
+
+    expect(completionRatio(first!, 'normal')).toBe(0.25)
+    expect(completionRatio(first!, 'foil')).toBe(0.25)
+    expect(completionRatio(first!, 'any')).toBe(0.5)
+  })
+})
+
+describe('missingCards', () => {
+  it('lists cards not owned in the chosen variant', () => {
+    const owned = own([cards[1]!, 'normal'], [cards[0]!, 'foil'])
+    const [first] = computeSetCompletion(cards, owned, setMap)
+
+    expect(missingCards(first!, owned, 'any').map((c) => c.cn)).toEqual(['2', '10'])
+    expect(missingCards(first!, owned, 'foil').map((c) => c.cn)).toEqual(['1', '2', '10'])
+  })
+})
+
+describe('groupMissing', () => {
+  it('groups by rarity then ink', () => {
+    const groups = groupMissing([
+      makeCard({ cn: '5', ink: 'Ruby', rarity: 'Rare' }),
+      makeCard({ cn: '6', ink: 'Amber', rarity: 'Rare' }),
+      makeCard({ cn: '7', ink: 'Steel', rarity: 'Super_rare' }),
+      makeCard({ cn: '8', ink: 'Amber', rarity: 'Common' }),
+    ])
+
+    expect(groups.map((g) => g.rarity)).toEqual(['Common', 'Rare', 'Super Rare'])
+    expect(groups[1]!.inks.map((i) => i.ink)).toEqual(['Amber', 'Ruby'])
+  })
+
+  it('puts cards without an ink under Inkless', () => {
+    const [group] = groupMissing([makeCard({ ink: '' })])
+    expect(group!.inks[0]!.ink).toBe('Inkless')
+  })
+})
@@ -15,6 +15,7 @@ import {
   resetTelemetry,
   subscribe,
   exportDiagnostics,
+  recordFoilDecision,
 } from '../../utils/telemetry'
 
 describe('TelemetryService', () => {
@@ -169,4 +170,45 @@ describe('TelemetryService', () => {
       expect(frames[i].frameId).toBeGreaterThan(frames[i - 1].frameId)
     }
   })
+
+  it('keeps foil guesses with the variant the user chose, and exports them', () => {
+    recordFoilDecision({ card: 'Simba', predicted: 'foil', confidence: 0.8, score: 0.07, frames: 6, chosen: 'foil', auto: false })
+    recordFoilDecision({ card: 'Nala', predicted: null, confidence: 0, score: null, frames: 1, chosen: 'normal', auto: true })
+
+    const decisions = getState().foilDecisions
+    expect(decisions).toHaveLength(2)
+    expect(decisions[0]).toMatchObject({ card: 'Simba', predicted: 'foil', chosen: 'foil' })
+    expect(decisions[0]!.timestamp).toBeTruthy()
+    expect(JSON.parse(exportDiagnostics()).foilDecisions).toHaveLength(2)
+
+    resetTelemetry()
+    expect(getState().foilDecisions).toHaveLength(0)
+  })
+
+  it('averages main-thread time per pipeline so the worker can be compared with the fallback', () => {
+    const frame = { ocrConfidence: 50, ocrText: '', workerLatencyMs: 300, mutexContended: false, parsedCn: null, detectedInk: null, matchResult: 'no match' }
+    recordFrame({ ...frame, mainThreadMs: 40, pipeline: 'main' })
+    recordFrame({ ...frame, mainThreadMs: 50, pipeline: 'main' })
+    recordFrame({ ...frame, mainThreadMs: 2, pipeline: 'worker' })
+    recordFrame(frame)
+
+    expect(getState().mainThreadMs).toEqual({ main: 45, worker: 2 })
+    expect(JSON.parse(exportDiagnostics()).summary.mainThreadMs).toEqual({ main: 45, worker: 2 })
+  })
+
+  it('counts parseable reads per OCR strategy until reset', () => {
+    const frame = { ocrConfidence: 50, ocrText: '', workerLatencyMs: 300, mutexContended: false, detectedInk: null, matchResult: 'no match' }
+    recordFrame({ ...frame, parsedCn: null, ocrStrategy: 'otsu' })
+    recordFrame({ ...frame, parsedCn: '102/204', ocrStrategy: 'sauvola' })
+    recordFrame({ ...frame, parsedCn: null, ocrStrategy: 'sauvola' })
+    recordFrame({ ...frame, parsedCn: '7/204' })
+
+    expect(getState().ocrStrategies.otsu).toEqual({ tries: 1, reads: 0 })
+    expect(getState().ocrStrategies.sauvola).toEqual({ tries: 2, reads: 1 })
+    expect(JSON.parse(exportDiagnostics()).summary.ocrStrategies.sauvola).toEqual({ tries: 2, reads: 1 })
+
+    resetTelemetry()
+    expect(getState().ocrStrategies.sauvola).toEqual({ tries: 0, reads: 0 })
+  })
 })
+
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { validatePulls } from '../../utils/validation'
-import type { Pull } from '../../types'
+import { validatePulls, validateCardRef, validatePack } from '../../utils/validation'
+import type { Pack, Pull } from '../../types'
 
 function makePull(setCode: string, cn: string): Pull {
   return {
@@ -46,3 +46,94 @@ describe('validatePulls', () => {
     expect(validatePulls(pulls)).toHaveLength(0)
   })
 })
+
+describe('validateCardRef', () => {
+  it('labels warnings with the given name', () => {
+    const warnings = validateCardRef('99', '0', 'line 4')
+    expect(warnings).toEqual([
+      'Unknown set code "99" for line 4',
+      'Unusual collector number "0" for line 4',
+    ])
+  })
+})
+
+describe('validatePack', () => {
+  function pull(cn: string, rarity: string, variant: 'normal' | 'foil' = 'normal', setCode = '1'): Pull {
+    return {
+      ...makePull(setCode, cn),
+      key: `${setCode}-${cn}-${variant}`,
+      card: { ...makePull(setCode, cn).card, display: 'Card ' + cn, rarity },
+      variant,
+    }
+  }
+
+  function byKey(pulls: Pull[]): Record<string, Pull> {
+    return Object.fromEntries(pulls.map((p) => [p.key, p]))
+  }
+
+  function pack(cards: Pull[], closedAt: number | null = 1): Pack {
+    return { sessionId: 1, number: 1, openedAt: 0, closedAt, cards: cards.map((p) => p.key) }
+  }
+
+  // 6 commons, 3 uncommons, 2 rares, 1 foil
+  const valid = [
+    ...['1', '2', '3', '4', '5', '6'].map((cn) => pull(cn, 'Common')),
+    ...['7', '8', '9'].map((cn) => pull(cn, 'Uncommon')),
+    pull('10', 'Rare'),
+    pull('11', 'Legendary'),
+    pull('12', 'Common', 'foil'),
+  ]
+
+  it('accepts a pack that matches the slot template', () => {
+    expect(validatePack(pack(valid), byKey(valid))).toEqual([])
+  })
+
+  it('flags a 13th card', () => {
+    const cards = [...valid, pull('13', 'Common')]
+    expect(validatePack(pack(cards), byKey(cards))).toEqual([
+      'Has 13 cards (a pack holds 12)',
+      'Has 7 commons (a pack has 6)',
+    ])
+  })
+
+  it('flags a closed pack with no foil', () => {
+    const cards = [...valid.slice(0, 11), pull('12', 'Rare')]
+    expect(validatePack(pack(cards), byKey(cards))).toEqual([
+      'Has 3 rare-or-better cards (a pack has 2)',
+      'Has no foil',
+    ])
+  })
+
+  it('flags three legendaries', () => {
+    const cards = [...valid.slice(0, 9), pull('11', 'Legendary'), pull('20', 'Legendary'), pull('21', 'Legendary', 'foil')]
+    expect(validatePack(pack(cards), byKey(cards))).toEqual(['Has 3 Legendary cards (at most 2)'])
+  })
+
+  it('only flags overfull slots while the pack is open', () => {
+    const cards = [pull('1', 'Rare'), pull('2', 'Rare'), pull('3', 'Rare')]
+    expect(validatePack(pack(cards, null), byKey(cards))).toEqual([
+      'Has 3 rare-or-better cards (a pack has 2)',
+    ])
+  })
+
+  it('flags mixed sets and rarities that have no regular slot', () => {
+    const cards = [pull('1', 'Common'), pull('2', 'Common', 'normal', '2'), pull('3', 'Special')]
+    expect(validatePack(pack(cards, null), byKey(cards))).toEqual([
+      'Mixes cards from sets 1, 2',
+      'Card 3 (Special) logged as non-foil',
+    ])
+  })
+
+  it('skips composition checks for promo sets', () => {
+    const cards = [pull('1', 'Promo', 'normal', 'P1'), pull('2', 'Promo', 'normal', 'P1')]
+    expect(validatePack(pack(cards), byKey(cards))).toEqual([])
+  })
+
+  it('adds pack warnings to validatePulls', () => {
+    const cards = [...valid, pull('13', 'Common')]
+    expect(validatePulls(cards, [pack(cards)])).toEqual([
+      'Pack 1: Has 13 cards (a pack holds 12)',
+      'Pack 1: Has 7 commons (a pack has 6)',
+    ])
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import {
+  cleanDetails,
+  copyLabel,
+  isFoilVariant,
+  parseCondition,
+  parseGrade,
+  parseSigned,
+  parseVariant,
+  variantKey,
+  variantLabel,
+} from '../../utils/variants'
+
+describe('variantKey', () => {
+  it('is the bare variant without details', () => {
+    expect(variantKey('normal')).toBe('normal')
+    expect(variantKey('cold-foil', {})).toBe('cold-foil')
+  })
+
+  it('adds grade and signature in a fixed order', () => {
+    expect(variantKey('foil', { signed: true, grade: { company: 'BGS', grade: '9.5' } })).toBe('foil-bgs9.5-signed')
+  })
+})
+
+describe('labels', () => {
+  it('describes the variant and its details', () => {
+    expect(variantLabel('cold-foil', { grade: { company: 'PSA', grade: '10' }, signed: true })).toBe(
+      'Cold Foil · PSA 10 · Signed',
+    )
+    expect(copyLabel('normal')).toBe('')
+    expect(copyLabel('normal', { signed: true })).toBe('Signed')
+    expect(copyLabel('stamped')).toBe('Stamped')
+  })
+})
+
+describe('isFoilVariant', () => {
+  it('counts foil finishes only', () => {
+    expect(['normal', 'foil', 'cold-foil', 'enchanted', 'stamped', 'oversized'].filter((v) => isFoilVariant(v as never))).toEqual([
+      'foil',
+      'cold-foil',
+      'enchanted',
+    ])
+  })
+})
+
+describe('cleanDetails', () => {
+  it('drops empty fields and empty details', () => {
+    expect(cleanDetails({ signed: false })).toBeUndefined()
+    expect(cleanDetails({ grade: { company: 'CGC', grade: '9' }, signed: false })).toEqual({
+      grade: { company: 'CGC', grade: '9' },
+    })
+  })
+})
+
+describe('parsing', () => {
+  it.each([
+    ['Foil', 'foil'],
+    ['cold foil', 'cold-foil'],
+    ['COLD_FOIL', 'cold-foil'],
+    ['coldfoil', 'cold-foil'],
+    ['shiny', null],
+  ])('reads variant %j as %j', (text, variant) => {
+    expect(parseVariant(text)).toBe(variant)
+  })
+
+  it('reads conditions', () => {
+    expect(parseCondition(' lp ')).toBe('LP')
+    expect(parseCondition('mint')).toBeNull()
+  })
+
+  it.each([
+    ['PSA 10', { company: 'PSA', grade: '10' }],
+    ['bgs9.5', { company: 'BGS', grade: '9.5' }],
+    ['PSA 11', null],
+    ['ABC 9', null],
+    ['PSA 9.3', null],
+  ])('reads grade %j', (text, grade) => {
+    expect(parseGrade(text)).toEqual(grade)
+  })
+
+  it('reads signed flags', () => {
+    expect(parseSigned('Yes')).toBe(true)
+    expect(parseSigned('')).toBe(false)
+    expect(parseSigned('no')).toBe(false)
+    expect(parseSigned('maybe')).toBeNull()
+  })
+})
@@ -9,8 +9,10 @@ const CACHE_DURATION_MS = 86400000 // 24 hours
  * Stale caches with a different version are silently invalidated.
  *
  * v2 → v3: dual-ink cards now store "Sapphire/Steel" instead of "".
+ * v3 → v4: localised display names of non-English printings.
+ * v4 → v5: localised names moved out to IndexedDB, to keep the cache small.
  */
-const CACHE_VERSION = 3
+const CACHE_VERSION = 5
 
 interface CardCache {
   version: number
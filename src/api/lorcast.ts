@@ -1,9 +1,11 @@
-import type { RawCard } from '../types'
+import type { CardLanguage, RawCard } from '../types'
 import { getCachedCards, setCachedCards } from './cache'
 
 const API_BASE = 'https://api.lorcast.com/v0'
 const TIMEOUT_MS = 8000
 const MAX_RETRIES = 1
+/** Sets fetched at once — one request per set in flight, to be polite */
+const BATCH_SIZE = 4
 
 /**
  * Fetch with timeout and retry. Aborts after TIMEOUT_MS and retries once on failure.
@@ -42,6 +44,8 @@ interface ApiCard {
   /** Array of inks for dual-ink cards (e.g. ["Sapphire", "Steel"]). */
   inks?: string[]
   rarity?: string
+  /** Printed language code, e.g. "en" */
+  lang?: string
   type?: string | string[]
   classifications?: string | string[]
   image_uris?: {
@@ -79,6 +83,8 @@ function mapApiCards(cards: ApiCard[]): RawCard[] {
 /**
  * Fetches the complete card database from lorcast.com API.
  * Uses localStorage cache (24h). Fetches all sets, then all cards per set.
+ * Names of non-English printings are fetched separately, per language, by
+ * fetchLocalisedNames.
  * Returns { data, source } where source indicates freshness.
  */
 export async function fetchCardDatabase(): Promise<{
@@ -104,7 +110,6 @@ export async function fetchCardDatabase(): Promise<{
     const allCards: RawCard[] = []
 
     // Fetch cards for each set concurrently (in batches of 4 to be polite)
-    const BATCH_SIZE = 4
     for (let i = 0; i < sets.length; i += BATCH_SIZE) {
       const batch = sets.slice(i, i + BATCH_SIZE)
       const results = await Promise.allSettled(
@@ -133,3 +138,37 @@ export async function fetchCardDatabase(): Promise<{
     return { data: null, source: 'offline' }
   }
 }
+
+/**
+ * Display names of the cards printed in `language`, by "setCode-cn", for
+ * the given sets. One request per set, in batches like the card database.
+ *
+ * Only cards the API returns tagged with `language` count, so a set it
+ * answers in English adds nothing. If the first batch gives no names at
+ * all the language isn't served and the rest are not requested. Empty when
+ * offline.
+ */
+export async function fetchLocalisedNames(setCodes: string[], language: CardLanguage): Promise<Record<string, string>> {
+  const names: Record<string, string> = {}
+  for (let i = 0; i < setCodes.length; i += BATCH_SIZE) {
+    const batch = setCodes.slice(i, i + BATCH_SIZE)
+    const results = await Promise.allSettled(
+      batch.map(async (setCode) => {
+        const res = await fetchWithResilience(`${API_BASE}/sets/${setCode}/cards?lang=${language}`)
+        const cards: ApiCard[] = await res.json()
+        return { setCode, cards: Array.isArray(cards) ? cards : [] }
+      }),
+    )
+
+    for (const result of results) {
+      if (result.status !== 'fulfilled') continue
+      const { setCode, cards } = result.value
+      cards.forEach((c) => {
+        if (c.lang !== language || !c.name || !c.collector_number) return
+        names[setCode + '-' + c.collector_number] = c.name + (c.version ? ' \u2013 ' + c.version : '')
+      })
+    }
+    if (i === 0 && Object.keys(names).length === 0) break
+  }
+  return names
+}
@@ -0,0 +1,157 @@
+import type { BackupData } from '../db'
+import type { BackupArchive } from './types'
+import { buildPacksFromPulls } from '../utils/packs'
+import { CARD_VARIANTS } from '../constants'
+
+export const BACKUP_FORMAT = 'lorcana-pack-logger-backup'
+/** 2: packs stored per session */
+export const BACKUP_VERSION = 2
+
+/** localStorage keys carried in a backup. The card cache is re-downloadable, so it stays out. */
+export const BACKUP_SETTING_KEYS = [
+  'lorcana_sensory_enabled',
+  'lorcana_hints_dismissed',
+  'lorcana_export_format',
+  'lorcana_set_metadata',
+  'lorcana_image_assist',
+]
+
+const MAX_ERRORS = 20
+
+export function createBackupArchive(
+  data: BackupData,
+  settings: Record<string, string>,
+  createdAt: number,
+): BackupArchive {
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, createdAt, data, settings }
+}
+
+type Check = (value: unknown) => boolean
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v)
+const isNumber: Check = (v) => typeof v === 'number' && Number.isFinite(v)
+const isString: Check = (v) => typeof v === 'string'
+const isVariant: Check = (v) => CARD_VARIANTS.some((variant) => variant === v)
+const isCount: Check = (v) => Number.isInteger(v) && (v as number) > 0
+const isNumberOrNull: Check = (v) => v === null || isNumber(v)
+const isCard: Check = (v) => isObject(v) && isString(v.setCode) && isString(v.cn) && isString(v.display)
+
+// Required fields per record type, with a check and a description for the error message
+type Shape = Record<string, [Check, string]>
+
+const SESSION_SHAPE: Shape = {
+  id: [isNumber, 'a number'],
+  name: [isString, 'a string'],
+  startedAt: [isNumberOrNull, 'a number or null'],
+}
+
+const PULL_SHAPE: Shape = {
+  sessionId: [isNumber, 'a number'],
+  order: [isNumber, 'a number'],
+  key: [isString, 'a string'],
+  variant: [isVariant, 'a known variant'],
+  count: [isCount, 'a positive integer'],
+  packNumber: [isNumber, 'a number'],
+  card: [isCard, 'a card with setCode, cn and display'],
+}
+
+const PACK_SHAPE: Shape = {
+  sessionId: [isNumber, 'a number'],
+  number: [isCount, 'a positive integer'],
+  openedAt: [isNumber, 'a number'],
+  closedAt: [isNumberOrNull, 'a number or null'],
+  cards: [(v) => Array.isArray(v) && v.every(isString), 'a list of pull keys'],
+}
+
+const EXPORT_SHAPE: Shape = {
+  id: [isNumber, 'a number'],
+  filename: [isString, 'a string'],
+  sessionName: [isString, 'a string'],
+  timestamp: [isNumber, 'a number'],
+  pulls: [Array.isArray, 'a list'],
+}
+
+const COLLECTION_SHAPE: Shape = {
+  key: [isString, 'a string'],
+  variant: [isVariant, 'a known variant'],
+  count: [isCount, 'a positive integer'],
+  card: [isCard, 'a card with setCode, cn and display'],
+  firstPulledAt: [isNumber, 'a number'],
+}
+
+function checkList(list: unknown, path: string, shape: Shape, errors: string[]): void {
+  if (!Array.isArray(list)) {
+    errors.push(path + ' must be a list')
+    return
+  }
+  list.forEach((item, i) => {
+    if (!isObject(item)) {
+      errors.push(path + '[' + i + '] must be an object')
+      return
+    }
+    Object.entries(shape).forEach(([field, [check, description]]) => {
+      if (!check(item[field])) errors.push(path + '[' + i + '].' + field + ' must be ' + description)
+    })
+  })
+}
+
+/**
+ * Check that parsed JSON is a backup this version can restore. Returns the
+ * archive when valid, otherwise a list of readable problems (capped).
+ */
+export function validateBackup(value: unknown): { archive: BackupArchive | null; errors: string[] } {
+  const errors: string[] = []
+
+  if (!isObject(value) || value.format !== BACKUP_FORMAT) {
+    return { archive: null, errors: ['This is not a Lorcana Pack Logger backup file'] }
+  }
+  if (!isNumber(value.version) || (value.version as number) < 1) {
+    return { archive: null, errors: ['The backup has no valid version number'] }
+  }
+  if ((value.version as number) > BACKUP_VERSION) {
+    return {
+      archive: null,
+      errors: ['This backup was made by a newer version of the app — update before restoring'],
+    }
+  }
+  if (!isNumber(value.createdAt)) errors.push('createdAt must be a number')
+
+  const data = value.data
+  if (!isObject(data)) {
+    errors.push('data must be an object')
+  } else {
+    checkList(data.sessions, 'data.sessions', SESSION_SHAPE, errors)
+    checkList(data.pulls, 'data.pulls', PULL_SHAPE, errors)
+    // Version 1 backups predate stored packs; they are rebuilt from the pulls below
+    if ((value.version as number) >= 2) checkList(data.packs, 'data.packs', PACK_SHAPE, errors)
+    checkList(data.exports, 'data.exports', EXPORT_SHAPE, errors)
+    checkList(data.collection, 'data.collection', COLLECTION_SHAPE, errors)
+    if (!isNumberOrNull(data.activeSessionId)) errors.push('data.activeSessionId must be a number or null')
+  }
+
+  if (!isObject(value.settings) || !Object.values(value.settings).every(isString)) {
+    errors.push('settings must map keys to strings')
+  }
+
+  if (errors.length > MAX_ERRORS) {
+    const extra = errors.length - MAX_ERRORS
+    errors.splice(MAX_ERRORS, extra, '…and ' + extra + ' more')
+  }
+  if (errors.length > 0) return { archive: null, errors }
+  return { archive: upgradeArchive(value as unknown as BackupArchive), errors }
+}
+
+/** Bring an older (already validated) archive up to the current data shape. */
+function upgradeArchive(archive: BackupArchive): BackupArchive {
+  if (archive.version >= 2) return archive
+  const sessions = archive.data.sessions.map(({ id, name, startedAt }) => ({ id, name, startedAt }))
+  const packs = sessions.flatMap((s) =>
+    buildPacksFromPulls(
+      s.id,
+      archive.data.pulls.filter((p) => p.sessionId === s.id).sort((a, b) => a.order - b.order),
+      s.startedAt ?? archive.createdAt,
+    ),
+  )
+  return { ...archive, version: BACKUP_VERSION, data: { ...archive.data, sessions, packs } }
+}
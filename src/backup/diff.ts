@@ -0,0 +1,40 @@
+import type { BackupData } from '../db'
+import type { BackupArchive, BackupDiff, CategoryDiff } from './types'
+
+function diffBy<T>(current: T[], incoming: T[], id: (item: T) => string): CategoryDiff {
+  const local = new Map(current.map((item) => [id(item), JSON.stringify(item)]))
+  const result: CategoryDiff = { incoming: incoming.length, added: 0, changed: 0, unchanged: 0, localOnly: 0 }
+  const seen = new Set<string>()
+
+  incoming.forEach((item) => {
+    const key = id(item)
+    seen.add(key)
+    const existing = local.get(key)
+    if (existing === undefined) result.added++
+    else if (existing === JSON.stringify(item)) result.unchanged++
+    else result.changed++
+  })
+  local.forEach((_, key) => {
+    if (!seen.has(key)) result.localOnly++
+  })
+
+  return result
+}
+
+/** Compare this device's data with a backup, per record type. */
+export function diffBackup(
+  current: BackupData,
+  currentSettings: Record<string, string>,
+  archive: BackupArchive,
+): BackupDiff {
+  const incoming = archive.data
+  const settingEntries = (s: Record<string, string>) => Object.entries(s)
+  return {
+    sessions: diffBy(current.sessions, incoming.sessions, (s) => String(s.id)),
+    pulls: diffBy(current.pulls, incoming.pulls, (p) => p.sessionId + '/' + p.key),
+    packs: diffBy(current.packs, incoming.packs, (p) => p.sessionId + '/' + p.number),
+    exports: diffBy(current.exports, incoming.exports, (e) => String(e.id)),
+    collection: diffBy(current.collection, incoming.collection, (c) => c.key),
+    settings: diffBy(settingEntries(currentSettings), settingEntries(archive.settings), ([k]) => k),
+  }
+}
@@ -0,0 +1,33 @@
+import { readAllData, replaceAllData } from '../db'
+import type { BackupArchive, RestoreMode } from './types'
+import { createBackupArchive } from './archive'
+import { mergeBackupData, mergeSettings } from './merge'
+import { readSettings, writeSettings } from './settings'
+
+/** Snapshot the database and preferences into an archive, or null if the database can't be read. */
+export async function createBackup(): Promise<BackupArchive | null> {
+  const data = await readAllData()
+  if (!data) return null
+  return createBackupArchive(data, readSettings(), Date.now())
+}
+
+/** Apply a validated archive. Resolves false if the database write failed. */
+export async function restoreBackup(archive: BackupArchive, mode: RestoreMode): Promise<boolean> {
+  let data = archive.data
+  let settings = archive.settings
+  if (mode === 'merge') {
+    const current = await readAllData()
+    if (!current) return false
+    data = mergeBackupData(current, archive.data)
+    settings = mergeSettings(readSettings(), archive.settings)
+  }
+  const ok = await replaceAllData(data)
+  if (ok) writeSettings(settings)
+  return ok
+}
+
+export { BACKUP_FORMAT, BACKUP_VERSION, BACKUP_SETTING_KEYS, createBackupArchive, validateBackup } from './archive'
+export { mergeBackupData, mergeSettings } from './merge'
+export { diffBackup } from './diff'
+export { readSettings } from './settings'
+export type { BackupArchive, RestoreMode, CategoryDiff, BackupCategory, BackupDiff } from './types'
@@ -0,0 +1,61 @@
+import type { BackupData } from '../db'
+import type { CollectionEntry } from '../types'
+
+function unionBy<T>(current: T[], incoming: T[], id: (item: T) => string | number): T[] {
+  const seen = new Set(current.map(id))
+  return [...current, ...incoming.filter((item) => !seen.has(id(item)))]
+}
+
+/**
+ * Combine two copies of one card's collection entry. Taking the larger count
+ * (rather than the sum) keeps a merge safe to repeat, and the earlier first
+ * pull wins.
+ */
+function mergeEntry(a: CollectionEntry, b: CollectionEntry): CollectionEntry {
+  const first = b.firstPulledAt < a.firstPulledAt ? b : a
+  return {
+    ...first,
+    count: Math.max(a.count, b.count),
+  }
+}
+
+/**
+ * Merge a backup into the current data. Records already on this device win;
+ * sessions and exports from the backup are added when their id is new, along
+ * with the pulls and packs of any added session. Collection entries are combined.
+ */
+export function mergeBackupData(current: BackupData, incoming: BackupData): BackupData {
+  const currentSessionIds = new Set(current.sessions.map((s) => s.id))
+
+  const collection: Record<string, CollectionEntry> = {}
+  current.collection.forEach((e) => {
+    collection[e.key] = e
+  })
+  incoming.collection.forEach((e) => {
+    const existing = collection[e.key]
+    collection[e.key] = existing ? mergeEntry(existing, e) : e
+  })
+
+  return {
+    sessions: unionBy(current.sessions, incoming.sessions, (s) => s.id),
+    pulls: [
+      ...current.pulls,
+      ...incoming.pulls.filter((p) => !currentSessionIds.has(p.sessionId)),
+    ],
+    packs: [
+      ...current.packs,
+      ...incoming.packs.filter((p) => !currentSessionIds.has(p.sessionId)),
+    ],
+    exports: unionBy(current.exports, incoming.exports, (e) => e.id),
+    collection: Object.values(collection),
+    activeSessionId: current.activeSessionId ?? incoming.activeSessionId,
+  }
+}
+
+/** Settings already set on this device win over the backup's. */
+export function mergeSettings(
+  current: Record<string, string>,
+  incoming: Record<string, string>,
+): Record<string, string> {
+  return { ...incoming, ...current }
+}
@@ -0,0 +1,21 @@
+import { SafeStorage } from '../utils/safe-storage'
+import { BACKUP_SETTING_KEYS } from './archive'
+
+/** The backed-up preference keys that are currently set. */
+export function readSettings(): Record<string, string> {
+  const settings: Record<string, string> = {}
+  BACKUP_SETTING_KEYS.forEach((key) => {
+    const value = SafeStorage.getItem(key)
+    if (value !== null) settings[key] = value
+  })
+  return settings
+}
+
+/** Write restored preferences, clearing any backed-up key the restore leaves unset. */
+export function writeSettings(settings: Record<string, string>): void {
+  BACKUP_SETTING_KEYS.forEach((key) => {
+    const value = settings[key]
+    if (value === undefined) SafeStorage.removeItem(key)
+    else SafeStorage.setItem(key, value)
+  })
+}
@@ -0,0 +1,33 @@
+import type { BackupData } from '../db'
+
+/** The single JSON file written by "Export backup". */
+export interface BackupArchive {
+  format: string
+  version: number
+  /** Epoch ms the backup was made */
+  createdAt: number
+  data: BackupData
+  /** Preference keys from localStorage (sensory, hints, export format, set metadata) */
+  settings: Record<string, string>
+}
+
+/** Merge keeps what's on this device and adds what's new; replace wipes first. */
+export type RestoreMode = 'merge' | 'replace'
+
+/** How one kind of record compares between this device and a backup. */
+export interface CategoryDiff {
+  /** Records in the backup */
+  incoming: number
+  /** In the backup, not on this device */
+  added: number
+  /** On both, with different contents */
+  changed: number
+  /** On both and identical */
+  unchanged: number
+  /** On this device, not in the backup (removed by a replace) */
+  localOnly: number
+}
+
+export type BackupCategory = 'sessions' | 'pulls' | 'packs' | 'exports' | 'collection' | 'settings'
+
+export type BackupDiff = Record<BackupCategory, CategoryDiff>
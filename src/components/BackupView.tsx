@@ -0,0 +1,437 @@
+import React, { useState } from 'react';
+import { readAllData } from '../db';
+import {
+  BackupArchive,
+  BackupCategory,
+  BackupDiff,
+  RestoreMode,
+  createBackup,
+  diffBackup,
+  readSettings,
+  restoreBackup,
+  validateBackup,
+} from '../backup';
+import { downloadFile } from '../utils/download';
+
+interface BackupViewProps {
+  /** Called after a successful restore so the app can reload its state */
+  onRestored: () => void;
+  onBack: () => void;
+  /** Cards in the offline card-art index */
+  hashIndexSize: number;
+  /** Resolves to the problems found, empty on success */
+  onImportHashIndex: (file: File) => Promise<string[]>;
+  onDownloadHashIndex: () => void;
+}
+
+const IconBack = () => (
+  <svg
+    style={{ width: 16, height: 16, marginRight: 4 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <line x1={19} y1={12} x2={5} y2={12} />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+);
+
+const CATEGORY_LABELS: Record<BackupCategory, string> = {
+  sessions: 'Sessions',
+  pulls: 'Session pulls',
+  packs: 'Packs',
+  exports: 'Export history',
+  collection: 'Collection',
+  settings: 'Settings',
+};
+
+const formatStamp = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return (
+    d.getFullYear() +
+    '-' +
+    String(d.getMonth() + 1).padStart(2, '0') +
+    '-' +
+    String(d.getDate()).padStart(2, '0')
+  );
+};
+
+interface PendingRestore {
+  filename: string;
+  archive: BackupArchive;
+  diff: BackupDiff;
+}
+
+export const BackupView: React.FC<BackupViewProps> = ({
+  onRestored,
+  onBack,
+  hashIndexSize,
+  onImportHashIndex,
+  onDownloadHashIndex,
+}) => {
+  const [exportState, setExportState] = useState<'idle' | 'done' | 'error'>('idle');
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirming, setConfirming] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [indexErrors, setIndexErrors] = useState<string[]>([]);
+  const [indexImported, setIndexImported] = useState(false);
+
+  const handleExport = () => {
+    createBackup().then((archive) => {
+      if (!archive) {
+        setExportState('error');
+        return;
+      }
+      downloadFile(
+        JSON.stringify(archive),
+        'lorcana_backup_' + formatStamp(archive.createdAt) + '.json',
+        'application/json;charset=utf-8;',
+      );
+      setExportState('done');
+      setTimeout(() => setExportState('idle'), 2500);
+    });
+  };
+
+  const handleFile = async (file: File) => {
+    setPending(null);
+    setConfirming(false);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      setErrors(['The file is not valid JSON']);
+      return;
+    }
+    const { archive, errors: problems } = validateBackup(parsed);
+    if (!archive) {
+      setErrors(problems);
+      return;
+    }
+    const current = await readAllData();
+    if (!current) {
+      setErrors(['Could not read the data on this device']);
+      return;
+    }
+    setErrors([]);
+    setPending({ filename: file.name, archive, diff: diffBackup(current, readSettings(), archive) });
+  };
+
+  const handleRestore = () => {
+    if (!pending) return;
+    setRestoring(true);
+    restoreBackup(pending.archive, mode).then((ok) => {
+      setRestoring(false);
+      setConfirming(false);
+      if (ok) onRestored();
+      else setErrors(['Restoring failed — your existing data was left unchanged']);
+    });
+  };
+
+  const handleIndexFile = (file: File) => {
+    setIndexImported(false);
+    onImportHashIndex(file).then((problems) => {
+      setIndexErrors(problems);
+      setIndexImported(problems.length === 0);
+    });
+  };
+
+  const sectionStyle: React.CSSProperties = {
+    background: 'var(--bg-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius-lg)',
+    padding: '20px 18px',
+    marginBottom: 16,
+    boxShadow: 'var(--shadow-elevated)',
+  };
+
+  const headingStyle: React.CSSProperties = {
+    fontSize: 10,
+    fontWeight: 700,
+    textTransform: 'uppercase',
+    letterSpacing: '0.1em',
+    color: 'var(--text-tertiary)',
+    marginBottom: 10,
+  };
+
+  const buttonStyle = (primary: boolean, active = false): React.CSSProperties => ({
+    flex: 1,
+    padding: '12px 20px',
+    background: active ? 'var(--success)' : primary ? 'var(--accent)' : 'var(--bg-elevated)',
+    border: primary || active ? 'none' : '1px solid var(--border)',
+    borderRadius: 'var(--radius-sm)',
+    color: active ? '#fff' : primary ? 'var(--bg-base)' : 'var(--text-primary)',
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    fontFamily: "'Outfit', sans-serif",
+    transition: 'background 200ms ease',
+  });
+
+  const chipStyle = (active: boolean): React.CSSProperties => ({
+    flex: 1,
+    padding: '8px 12px',
+    background: active ? 'var(--accent-subtle)' : 'transparent',
+    border: active ? '1px solid var(--accent)' : '1px solid var(--border)',
+    borderRadius: 'var(--radius-sm)',
+    color: active ? 'var(--accent)' : 'var(--text-secondary)',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+    fontFamily: "'Outfit', sans-serif",
+  });
+
+  const cellStyle: React.CSSProperties = {
+    padding: '5px 4px',
+    textAlign: 'right',
+    fontVariantNumeric: 'tabular-nums',
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--bg-base)',
+        color: 'var(--text-primary)',
+        animation: 'viewSlideInRight 250ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+      }}
+    >
+      {/* Sticky header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 24px',
+          borderBottom: '1px solid var(--border)',
+          position: 'sticky',
+          top: 0,
+          background: 'var(--bg-base)',
+          zIndex: 100,
+        }}
+      >
+        <h1
+          style={{
+            fontSize: 20,
+            fontWeight: 700,
+            letterSpacing: '-0.02em',
+            fontFamily: "'Cinzel', serif",
+          }}
+        >
+          Backup &amp; Restore
+        </h1>
+        <button
+          style={{
+            padding: '8px 16px',
+            background: 'transparent',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-sm)',
+            color: 'var(--text-secondary)',
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+            display: 'flex',
+            alignItems: 'center',
+          }}
+          onClick={onBack}
+        >
+          <IconBack />
+          Back
+        </button>
+      </div>
+
+      {/* Content */}
+      <div
+        className="view-content"
+        style={{
+          maxWidth: 600,
+          margin: '0 auto',
+          padding: '24px 16px',
+        }}
+      >
+        {/* Export */}
+        <div style={sectionStyle}>
+          <div style={headingStyle}>Export backup</div>
+          <p style={{ fontSize: 13, color: 'var(--text-secondary)', marginBottom: 14, lineHeight: 1.5 }}>
+            Saves your session, pulls, packs, export history, collection and settings to one file you can
+            restore on another device.
+          </p>
+          <div style={{ display: 'flex' }}>
+            <button style={buttonStyle(true, exportState === 'done')} onClick={handleExport}>
+              {exportState === 'done' ? '✓ Backup saved' : '⬇ Export backup'}
+            </button>
+          </div>
+          {exportState === 'error' && (
+            <div style={{ fontSize: 12, color: 'var(--danger)', marginTop: 8 }}>
+              Could not read this device's data
+            </div>
+          )}
+        </div>
+
+        {/* Restore */}
+        <div style={sectionStyle}>
+          <div style={headingStyle}>Restore backup</div>
+          <label style={{ ...buttonStyle(false), display: 'block', textAlign: 'center' }}>
+            {pending ? pending.filename : 'Choose backup file'}
+            <input
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(ev) => {
+                const file = ev.target.files?.[0];
+                if (file) handleFile(file);
+                ev.target.value = '';
+              }}
+            />
+          </label>
+
+          {errors.length > 0 && (
+            <div
+              style={{
+                background: 'rgba(255,69,58,0.08)',
+                border: '1px solid var(--danger)',
+                borderRadius: 'var(--radius-md)',
+                padding: '12px 14px',
+                marginTop: 14,
+                fontSize: 12,
+                lineHeight: '1.6',
+              }}
+            >
+              <div style={{ fontSize: 14, fontWeight: 600, color: 'var(--danger)', marginBottom: 6 }}>
+                ⚠ Can't restore this file
+              </div>
+              {errors.map((e, i) => (
+                <div key={i}>{e}</div>
+              ))}
+            </div>
+          )}
+
+          {pending && (
+            <>
+              <div style={{ fontSize: 12, color: 'var(--text-tertiary)', margin: '14px 0 8px' }}>
+                Backup from {formatStamp(pending.archive.createdAt)}
+              </div>
+
+              {/* Diff preview */}
+              <table style={{ width: '100%', fontSize: 12, borderCollapse: 'collapse', marginBottom: 14 }}>
+                <thead>
+                  <tr style={{ color: 'var(--text-tertiary)', borderBottom: '1px solid var(--border)' }}>
+                    <th style={{ ...cellStyle, textAlign: 'left', fontWeight: 600 }}></th>
+                    <th style={{ ...cellStyle, fontWeight: 600 }}>In backup</th>
+                    <th style={{ ...cellStyle, fontWeight: 600 }}>New</th>
+                    <th style={{ ...cellStyle, fontWeight: 600 }}>Different</th>
+                    <th style={{ ...cellStyle, fontWeight: 600 }}>Only here</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(Object.keys(CATEGORY_LABELS) as BackupCategory[]).map((cat) => {
+                    const d = pending.diff[cat];
+                    return (
+                      <tr key={cat} style={{ borderBottom: '1px solid rgba(30,51,82,0.5)' }}>
+                        <td style={{ ...cellStyle, textAlign: 'left', color: 'var(--text-secondary)' }}>
+                          {CATEGORY_LABELS[cat]}
+                        </td>
+                        <td style={cellStyle}>{d.incoming}</td>
+                        <td style={{ ...cellStyle, color: d.added ? 'var(--success)' : undefined }}>
+                          {d.added}
+                        </td>
+                        <td style={{ ...cellStyle, color: d.changed ? 'var(--accent)' : undefined }}>
+                          {d.changed}
+                        </td>
+                        <td
+                          style={{
+                            ...cellStyle,
+                            color: mode === 'replace' && d.localOnly ? 'var(--danger)' : undefined,
+                          }}
+                        >
+                          {d.localOnly}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {/* Mode */}
+              <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+                <button style={chipStyle(mode === 'merge')} onClick={() => setMode('merge')}>
+                  Merge
+                </button>
+                <button style={chipStyle(mode === 'replace')} onClick={() => setMode('replace')}>
+                  Replace
+                </button>
+              </div>
+              <p style={{ fontSize: 12, color: 'var(--text-tertiary)', marginBottom: 14, lineHeight: 1.5 }}>
+                {mode === 'merge'
+                  ? 'Keeps everything on this device and adds new sessions, exports and collection cards from the backup. Where both have a card, the higher count is kept.'
+                  : 'Deletes everything on this device, including the "Only here" records, and restores the backup exactly.'}
+              </p>
+
+              <div style={{ display: 'flex', gap: 8 }}>
+                {confirming ? (
+                  <>
+                    <button style={buttonStyle(false)} onClick={() => setConfirming(false)}>
+                      Cancel
+                    </button>
+                    <button
+                      style={{ ...buttonStyle(true), background: 'var(--danger)', color: '#fff' }}
+                      disabled={restoring}
+                      onClick={handleRestore}
+                    >
+                      {restoring ? 'Restoring…' : mode === 'merge' ? 'Confirm merge' : 'Confirm replace'}
+                    </button>
+                  </>
+                ) : (
+                  <button style={buttonStyle(true)} onClick={() => setConfirming(true)}>
+                    {mode === 'merge' ? 'Merge backup' : 'Replace with backup'}
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Offline card-art index */}
+        <div style={sectionStyle}>
+          <div style={headingStyle}>Offline card-art index</div>
+          <p style={{ fontSize: 13, color: 'var(--text-secondary)', marginBottom: 14, lineHeight: 1.5 }}>
+            Lets the scanner's image assist compare card art without downloading any images.{' '}
+            {hashIndexSize > 0 ? hashIndexSize + ' cards indexed.' : 'No index imported yet.'}
+          </p>
+          <div style={{ display: 'flex', gap: 8 }}>
+            <label style={{ ...buttonStyle(false, indexImported), display: 'block', textAlign: 'center' }}>
+              {indexImported ? '✓ Index imported' : 'Import index'}
+              <input
+                type="file"
+                accept=".json,application/json"
+                style={{ display: 'none' }}
+                onChange={(ev) => {
+                  const file = ev.target.files?.[0];
+                  if (file) handleIndexFile(file);
+                  ev.target.value = '';
+                }}
+              />
+            </label>
+            {hashIndexSize > 0 && (
+              <button style={buttonStyle(false)} onClick={onDownloadHashIndex}>
+                ⬇ Download index
+              </button>
+            )}
+          </div>
+          {indexErrors.length > 0 && (
+            <div style={{ fontSize: 12, color: 'var(--danger)', marginTop: 8, lineHeight: 1.6 }}>
+              {indexErrors.map((e, i) => (
+                <div key={i}>{e}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React from 'react'
+import type { BinderCell, BinderCellChange } from '../utils/binder-page'
+import { binderPageEntries, BINDER_COLS } from '../utils/binder-page'
+
+interface BinderPageReviewProps {
+  cells: BinderCell[]
+  onChangeCell: (index: number, change: BinderCellChange) => void
+  onConfirm: () => void
+  onRescan: () => void
+}
+
+const tileButtonStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '4px 0',
+  background: 'rgba(255,255,255,0.1)',
+  border: '1px solid rgba(255,255,255,0.2)',
+  borderRadius: 'var(--radius-sm)',
+  color: 'rgba(255,255,255,0.7)',
+  fontSize: 10,
+  fontWeight: 600,
+  cursor: 'pointer',
+  fontFamily: "'Outfit', sans-serif",
+}
+
+/**
+ * Bottom sheet for confirming a scanned binder page: the pockets as a 3x3
+ * grid, each with a foil toggle and a way to leave it out. Pockets the
+ * collector number couldn't settle cycle through their shortlist on tap.
+ */
+export const BinderPageReview: React.FC<BinderPageReviewProps> = ({ cells, onChangeCell, onConfirm, onRescan }) => {
+  const count = binderPageEntries(cells).length
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: 0,
+        left: 0,
+        right: 0,
+        maxHeight: '80%',
+        overflowY: 'auto',
+        WebkitOverflowScrolling: 'touch',
+        background: 'rgba(0,0,0,0.9)',
+        backdropFilter: 'blur(16px)',
+        WebkitBackdropFilter: 'blur(16px)',
+        borderRadius: '20px 20px 0 0',
+        padding: '16px 12px',
+        paddingBottom: 'max(16px, env(safe-area-inset-bottom))',
+        pointerEvents: 'auto',
+        animation: 'scannerCardBanner 300ms ease-out',
+        zIndex: 3,
+        fontFamily: "'Outfit', sans-serif",
+      }}
+    >
+      <div style={{ fontSize: 14, fontWeight: 600, color: 'rgba(255,255,255,0.8)', marginBottom: 12 }}>
+        Review page — {count} {count === 1 ? 'card' : 'cards'}
+      </div>
+
+      <div style={{ display: 'grid', gridTemplateColumns: `repeat(${BINDER_COLS}, 1fr)`, gap: 8, marginBottom: 14 }}>
+        {cells.map((cell, i) => {
+          const card = cell.card
+          if (!card) {
+            return (
+              <div
+                key={i}
+                style={{
+                  aspectRatio: '63 / 88',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  border: '1px dashed rgba(255,255,255,0.2)',
+                  borderRadius: 6,
+                  fontSize: 11,
+                  color: 'rgba(255,255,255,0.35)',
+                }}
+              >
+                {cell.status === 'empty' ? 'Empty' : 'Not read'}
+              </div>
+            )
+          }
+          const position = cell.candidates.indexOf(card) + 1
+          return (
+            <div key={i} style={{ display: 'flex', flexDirection: 'column', gap: 4, minWidth: 0 }}>
+              <button
+                onClick={() => onChangeCell(i, cell.candidates.length > 1 ? 'next-candidate' : 'skip')}
+                title={cell.candidates.length > 1 ? 'Show the next possible card' : cell.skipped ? 'Include' : 'Leave out'}
+                style={{
+                  position: 'relative',
+                  padding: 0,
+                  aspectRatio: '63 / 88',
+                  background: 'rgba(255,255,255,0.05)',
+                  border: cell.foil
+                    ? '2px solid rgba(175,82,222,0.8)'
+                    : cell.status === 'ambiguous'
+                      ? '2px solid var(--accent)'
+                      : '2px solid rgba(52,199,89,0.5)',
+                  borderRadius: 6,
+                  overflow: 'hidden',
+                  cursor: 'pointer',
+                  opacity: cell.skipped ? 0.3 : 1,
+                }}
+              >
+                {card.imageUrl && (
+                  <img
+                    src={card.imageUrl}
+                    alt={card.display}
+                    style={{ width: '100%', height: '100%', objectFit: 'cover', display: 'block' }}
+                  />
+                )}
+                {cell.candidates.length > 1 && (
+                  <span
+                    style={{
+                      position: 'absolute',
+                      top: 4,
+                      right: 4,
+                      padding: '1px 6px',
+                      background: 'rgba(0,0,0,0.75)',
+                      borderRadius: 'var(--radius-full)',
+                      fontSize: 10,
+                      fontWeight: 600,
+                      color: 'var(--accent)',
+                    }}
+                  >
+                    {position}/{cell.candidates.length} ⟳
+                  </span>
+                )}
+              </button>
+              <div
+                style={{
+                  fontSize: 10,
+                  color: cell.skipped ? 'rgba(255,255,255,0.35)' : '#fff',
+                  whiteSpace: 'nowrap',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  textDecoration: cell.skipped ? 'line-through' : undefined,
+                }}
+              >
+                #{card.cn} {card.display}
+              </div>
+              <div style={{ display: 'flex', gap: 4 }}>
+                <button
+                  onClick={() => onChangeCell(i, 'foil')}
+                  disabled={cell.skipped}
+                  style={{
+                    ...tileButtonStyle,
+                    ...(cell.foil
+                      ? { background: 'rgba(175,82,222,0.25)', border: '1px solid rgba(175,82,222,0.5)', color: '#c084fc' }
+                      : {}),
+                  }}
+                >
+                  Foil
+                </button>
+                <button onClick={() => onChangeCell(i, 'skip')} style={tileButtonStyle}>
+                  {cell.skipped ? 'Add' : 'Skip'}
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: 10 }}>
+        <button
+          onClick={onRescan}
+          style={{
+            flex: 1,
+            padding: '12px 0',
+            background: 'rgba(255,255,255,0.1)',
+            border: '1px solid rgba(255,255,255,0.2)',
+            borderRadius: 'var(--radius-md)',
+            color: 'rgba(255,255,255,0.8)',
+            fontSize: 15,
+            fontWeight: 600,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+          }}
+        >
+          Rescan
+        </button>
+        <button
+          onClick={onConfirm}
+          style={{
+            flex: 2,
+            padding: '12px 0',
+            background: count > 0 ? 'var(--success)' : 'rgba(52,199,89,0.3)',
+            border: 'none',
+            borderRadius: 'var(--radius-md)',
+            color: '#000',
+            fontSize: 15,
+            fontWeight: 700,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+          }}
+        >
+          {count > 0 ? `Add ${count} ${count === 1 ? 'card' : 'cards'}` : 'Next page'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,360 @@
+import React, { useMemo, useState } from 'react';
+import { CollectionEntry } from '../types';
+import { inkGradientStyle } from '../utils/colour';
+import { rarityNameColour } from '../utils/rarity-styles';
+import { copyLabel, isFoilVariant } from '../utils/variants';
+import { InkDot } from './InkDot';
+import { RarityBadge } from './RarityBadge';
+import { SetFilterDropdown } from './SetFilterDropdown';
+
+interface CollectionViewProps {
+  entries: CollectionEntry[];
+  totalCopies: number;
+  totalFoils: number;
+  uniqueCards: number;
+  setMap: Record<string, string>;
+  setColours: Record<string, string>;
+  onCompletionClick: () => void;
+  onBack: () => void;
+}
+
+const IconCollection = () => (
+  <svg
+    style={{ width: 18, height: 18, color: 'var(--text-secondary)' }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <rect x="3" y="7" width="13" height="15" rx="2" />
+    <path d="M8 3h11a2 2 0 0 1 2 2v13" />
+  </svg>
+);
+
+const IconBack = () => (
+  <svg
+    style={{ width: 16, height: 16, marginRight: 4 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <line x1={19} y1={12} x2={5} y2={12} />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+);
+
+const formatDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return (
+    String(d.getDate()).padStart(2, '0') +
+    '/' +
+    String(d.getMonth() + 1).padStart(2, '0') +
+    '/' +
+    d.getFullYear()
+  );
+};
+
+export const CollectionView: React.FC<CollectionViewProps> = ({
+  entries,
+  totalCopies,
+  totalFoils,
+  uniqueCards,
+  setMap,
+  setColours,
+  onCompletionClick,
+  onBack,
+}) => {
+  const [setFilter, setSetFilter] = useState('all');
+  const [query, setQuery] = useState('');
+
+  // Filter by set + name/number, then group by set name (entries arrive sorted)
+  const groupedEntries = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const groups: Record<string, CollectionEntry[]> = {};
+    entries.forEach((e) => {
+      if (setFilter !== 'all' && e.card.setCode !== setFilter) return;
+      if (q && !e.card.display.toLowerCase().includes(q) && e.card.cn !== q.replace(/^#/, '')) {
+        return;
+      }
+      if (!groups[e.card.setName]) groups[e.card.setName] = [];
+      groups[e.card.setName]!.push(e);
+    });
+    return groups;
+  }, [entries, setFilter, query]);
+
+  const groupNames = Object.keys(groupedEntries);
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--bg-base)',
+        color: 'var(--text-primary)',
+        animation: 'viewSlideInRight 250ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+      }}
+    >
+      {/* Sticky header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 24px',
+          borderBottom: '1px solid var(--border)',
+          position: 'sticky',
+          top: 0,
+          background: 'var(--bg-base)',
+          zIndex: 100,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+          <IconCollection />
+          <h1
+            style={{
+              fontSize: 20,
+              fontWeight: 700,
+              letterSpacing: '-0.02em',
+              fontFamily: "'Cinzel', serif",
+            }}
+          >
+            My Collection
+          </h1>
+        </div>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            style={{
+              padding: '8px 16px',
+              background: 'var(--accent-subtle)',
+              border: '1px solid var(--accent)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--accent)',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+            }}
+            onClick={onCompletionClick}
+          >
+            Sets
+          </button>
+          <button
+            style={{
+              padding: '8px 16px',
+              background: 'transparent',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--text-secondary)',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+              display: 'flex',
+              alignItems: 'center',
+            }}
+            onClick={onBack}
+          >
+            <IconBack />
+            Back
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div
+        className="view-content"
+        style={{
+          maxWidth: 600,
+          margin: '0 auto',
+          padding: '24px 16px',
+        }}
+      >
+        {entries.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '48px 20px' }}>
+            <p
+              style={{
+                color: 'var(--text-secondary)',
+                fontSize: 16,
+                fontWeight: 500,
+                marginBottom: 4,
+              }}
+            >
+              Your collection is empty
+            </p>
+            <p style={{ color: 'var(--text-tertiary)', fontSize: 13 }}>
+              Every card you log is added here and stays after you export
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'center',
+                gap: 8,
+                fontSize: 13,
+                fontVariantNumeric: 'tabular-nums',
+                flexWrap: 'wrap',
+                marginBottom: 16,
+              }}
+            >
+              <span style={{ color: 'var(--text-primary)' }}>
+                {uniqueCards} unique card{uniqueCards !== 1 ? 's' : ''}
+              </span>
+              <span style={{ color: 'var(--text-secondary)' }}>
+                · {totalCopies} cop{totalCopies !== 1 ? 'ies' : 'y'}
+              </span>
+              {totalFoils > 0 && (
+                <span style={{ color: 'var(--foil)' }}>
+                  · {totalFoils} foil{totalFoils !== 1 ? 's' : ''}
+                </span>
+              )}
+            </div>
+
+            {/* Filters */}
+            <SetFilterDropdown
+              value={setFilter}
+              onChange={setSetFilter}
+              setMap={setMap}
+              setColours={setColours}
+            />
+            <input
+              className="search-input"
+              style={{
+                width: '100%',
+                padding: '10px 14px',
+                marginBottom: 16,
+                background: 'var(--bg-surface)',
+                border: '2px solid var(--border)',
+                borderRadius: 'var(--radius-md)',
+                color: 'var(--text-primary)',
+                fontSize: 15,
+                fontFamily: "'Outfit', sans-serif",
+              }}
+              type="text"
+              placeholder="Filter by name or #number…"
+              value={query}
+              onChange={(ev) => setQuery(ev.target.value)}
+            />
+
+            {groupNames.length === 0 ? (
+              <div
+                style={{
+                  padding: 16,
+                  textAlign: 'center',
+                  color: 'var(--text-tertiary)',
+                  fontSize: 13,
+                }}
+              >
+                No cards match these filters
+              </div>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+                {groupNames.map((setName) => (
+                  <div key={setName} style={{ display: 'flex', flexDirection: 'column' }}>
+                    <div
+                      style={{
+                        fontSize: 11,
+                        fontWeight: 600,
+                        color: 'var(--text-tertiary)',
+                        textTransform: 'uppercase',
+                        letterSpacing: '0.04em',
+                        fontFamily: "'Cinzel', serif",
+                        padding: '4px 0 6px',
+                        borderBottom: '1px solid var(--border)',
+                        marginBottom: 4,
+                      }}
+                    >
+                      {setName}
+                    </div>
+                    {groupedEntries[setName]!.map((e) => (
+                      <div
+                        key={e.key}
+                        style={{
+                          ...inkGradientStyle(e.card.ink, 0.08),
+                          display: 'flex',
+                          alignItems: 'center',
+                          justifyContent: 'space-between',
+                          padding: '8px 0 8px 8px',
+                          gap: 8,
+                          borderBottom: '1px solid rgba(30,51,82,0.5)',
+                        }}
+                      >
+                        <div style={{ flex: 1, minWidth: 0 }}>
+                          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                            <InkDot ink={e.card.ink} />
+                            <span
+                              style={{
+                                color: rarityNameColour(e.card.rarity),
+                                fontSize: 14,
+                                fontWeight: 500,
+                                whiteSpace: 'nowrap',
+                                overflow: 'hidden',
+                                textOverflow: 'ellipsis',
+                                letterSpacing: '-0.01em',
+                              }}
+                            >
+                              {e.card.display}
+                            </span>
+                            <span style={{ color: 'var(--text-tertiary)', fontSize: 11, flexShrink: 0 }}>
+                              #{e.card.cn}
+                              {e.card.language && ' · ' + e.card.language.toUpperCase()}
+                            </span>
+                          </div>
+                          <div
+                            style={{
+                              fontSize: 11,
+                              color: 'var(--text-tertiary)',
+                              marginTop: 3,
+                              paddingLeft: 16,
+                              whiteSpace: 'nowrap',
+                              overflow: 'hidden',
+                              textOverflow: 'ellipsis',
+                            }}
+                          >
+                            First pulled {formatDate(e.firstPulledAt)}
+                            {e.firstSessionName && ` · ${e.firstSessionName}`}
+                          </div>
+                        </div>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexShrink: 0 }}>
+                          <RarityBadge rarity={e.card.rarity} />
+                          {copyLabel(e.variant, e.details) && (
+                            <span
+                              style={{
+                                fontSize: 11,
+                                color: isFoilVariant(e.variant) ? 'var(--foil)' : 'var(--text-secondary)',
+                              }}
+                            >
+                              {isFoilVariant(e.variant) && '✦ '}
+                              {copyLabel(e.variant, e.details)}
+                            </span>
+                          )}
+                          <span
+                            style={{
+                              color: 'var(--accent)',
+                              fontWeight: 700,
+                              fontVariantNumeric: 'tabular-nums',
+                              minWidth: 28,
+                              textAlign: 'right',
+                            }}
+                          >
+                            ×{e.count}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
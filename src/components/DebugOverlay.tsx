@@ -1,8 +1,17 @@
 import React from 'react'
 import type { TelemetryState } from '../utils/telemetry'
+import type { FramePipeline } from '../utils/frame-pipeline'
+import { OCR_STRATEGIES } from '../utils/ocr-strategy'
+import { MIN_AGREEING, VOTE_WINDOW } from '../utils/scan-voting'
+import type { VoteTally } from '../utils/scan-voting'
 
 interface DebugOverlayProps {
   telemetry: TelemetryState
+  /** Consensus window of the live scanner, or null when it isn't scanning */
+  voteTally: VoteTally | null
+  /** Where the scanner processes frames */
+  framePipeline: FramePipeline
+  onToggleFramePipeline: () => void
   visible: boolean
   onClose: () => void
   onExport: () => string
@@ -11,11 +20,15 @@ interface DebugOverlayProps {
 /**
  * Real-time debug overlay that visualises the scanner pipeline internals.
  *
- * Shows mutex state, OCR queue depth, latency stats, memory usage,
- * and a scrollable log of the last 20 frame snapshots.
+ * Shows mutex state, OCR queue depth, latency stats, memory usage, main-thread
+ * time per frame, the multi-frame vote tally, and a scrollable log of the last
+ * 20 frame snapshots.
  */
 export const DebugOverlay: React.FC<DebugOverlayProps> = ({
   telemetry,
+  voteTally,
+  framePipeline,
+  onToggleFramePipeline,
   visible,
   onClose,
   onExport,
@@ -24,6 +37,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
 
   const memMB = (telemetry.currentMemoryBytes / (1024 * 1024)).toFixed(1)
   const memAvailable = telemetry.currentMemoryBytes > 0
+  const userFoilDecisions = telemetry.foilDecisions.filter((d) => !d.auto)
 
   const handleExport = () => {
     const json = onExport()
@@ -159,6 +173,60 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
         />
       </div>
 
+      {/* Main-thread time per frame — switch pipelines to compare before/after */}
+      <div style={{ padding: '8px 14px', borderBottom: '1px solid rgba(255,255,255,0.06)', flexShrink: 0 }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 }}>
+          <span style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)' }}>Main thread per frame</span>
+          <button
+            onClick={onToggleFramePipeline}
+            style={{
+              padding: '2px 8px',
+              background: 'rgba(255,255,255,0.08)',
+              border: '1px solid rgba(255,255,255,0.15)',
+              borderRadius: 4,
+              color: 'rgba(255,255,255,0.7)',
+              fontSize: 10,
+              cursor: 'pointer',
+              fontFamily: 'monospace',
+            }}
+          >
+            {framePipeline === 'worker' ? 'Run on main thread' : 'Run in worker'}
+          </button>
+        </div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px 12px' }}>
+          {(['worker', 'main'] as const).map((pipeline) => {
+            const ms = telemetry.mainThreadMs[pipeline]
+            return (
+              <StatRow
+                key={pipeline}
+                label={pipeline === framePipeline ? `${pipeline} ●` : pipeline}
+                value={ms === undefined ? '-' : `${ms}ms`}
+                color={ms === undefined ? 'rgba(255,255,255,0.4)' : ms > 16 ? '#ff3b30' : ms > 8 ? '#f5a623' : '#34c759'}
+              />
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Collector-number reads per preprocessing strategy, since the scanner opened */}
+      <div style={{ padding: '8px 14px', borderBottom: '1px solid rgba(255,255,255,0.06)', flexShrink: 0 }}>
+        <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)', marginBottom: 4 }}>OCR strategies (reads/tries)</div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '6px 12px' }}>
+          {OCR_STRATEGIES.map((strategy) => {
+            const { tries, reads } = telemetry.ocrStrategies[strategy]
+            const rate = tries > 0 ? reads / tries : null
+            return (
+              <StatRow
+                key={strategy}
+                label={strategy}
+                value={`${reads}/${tries}`}
+                color={rate === null ? 'rgba(255,255,255,0.4)' : rate >= 0.5 ? '#34c759' : rate >= 0.2 ? '#f5a623' : '#ff3b30'}
+              />
+            )
+          })}
+        </div>
+      </div>
+
       {/* Queue depth visualizer */}
       <div style={{ padding: '8px 14px', borderBottom: '1px solid rgba(255,255,255,0.06)', flexShrink: 0 }}>
         <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)', marginBottom: 4 }}>Queue Depth</div>
@@ -179,6 +247,65 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
         </div>
       </div>
 
+      {/* Vote tally */}
+      <div style={{ padding: '8px 14px', borderBottom: '1px solid rgba(255,255,255,0.06)', flexShrink: 0 }}>
+        <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)', marginBottom: 4 }}>
+          Votes ({voteTally?.frames ?? 0}/{VOTE_WINDOW} frames, {MIN_AGREEING} to accept)
+        </div>
+        {!voteTally || voteTally.candidates.length === 0 ? (
+          <div style={{ color: 'rgba(255,255,255,0.25)', fontStyle: 'italic' }}>No readings in window</div>
+        ) : (
+          voteTally.candidates.map((c) => (
+            <div
+              key={c.key}
+              style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 2 }}
+            >
+              <span
+                style={{
+                  width: 70,
+                  color: voteTally.accepted?.key === c.key ? '#34c759' : 'rgba(255,255,255,0.8)',
+                  fontWeight: voteTally.accepted?.key === c.key ? 700 : 400,
+                }}
+              >
+                {c.key}
+              </span>
+              <div style={{ display: 'flex', gap: 2, flex: 1, height: 8 }}>
+                {Array.from({ length: VOTE_WINDOW }, (_, i) => (
+                  <div
+                    key={i}
+                    style={{
+                      flex: 1,
+                      borderRadius: 2,
+                      background: i < c.count
+                        ? voteTally.accepted?.key === c.key ? '#34c759' : '#f5a623'
+                        : 'rgba(255,255,255,0.06)',
+                    }}
+                  />
+                ))}
+              </div>
+              <span style={{ color: 'rgba(255,255,255,0.4)', width: 90, textAlign: 'right' }}>
+                {c.setNumber ? 'set ' + c.setNumber : 'set ?'} · {Math.round(c.confidenceSum)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Foil guesses vs what the user confirmed (rapid-mode auto logs don't count) */}
+      {userFoilDecisions.length > 0 && (
+        <div style={{ padding: '8px 14px', borderBottom: '1px solid rgba(255,255,255,0.06)', flexShrink: 0 }}>
+          <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)', marginBottom: 4 }}>
+            Foil guesses ({userFoilDecisions.filter((d) => d.predicted === d.chosen).length}/
+            {userFoilDecisions.filter((d) => d.predicted !== null).length} right)
+          </div>
+          {userFoilDecisions.slice(-3).reverse().map((d) => (
+            <div key={d.timestamp} style={{ color: d.predicted === d.chosen ? '#4f4' : d.predicted ? '#f84' : 'rgba(255,255,255,0.5)' }}>
+              {d.card.slice(0, 24)} · {d.predicted ?? '?'} → {d.chosen} ({d.score?.toFixed(3) ?? '-'})
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Frame log */}
       <div style={{ padding: '10px 14px', flex: 1, overflowY: 'auto' }}>
         <div style={{ fontSize: 10, color: 'rgba(255,255,255,0.4)', marginBottom: 8 }}>
@@ -200,7 +327,7 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
                   borderLeft: `2px solid ${
                     frame.matchResult.includes('no match')
                       ? '#ff3b30'
-                      : frame.matchResult.includes('disambig')
+                      : frame.matchResult.includes('disambig') || frame.matchResult.startsWith('voting')
                         ? '#f5a623'
                         : frame.ocrConfidence < 40
                           ? '#666'
@@ -211,6 +338,8 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
                 <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: 2 }}>
                   <span style={{ color: 'rgba(255,255,255,0.3)' }}>#{frame.frameId}</span>
                   <span style={{ color: 'rgba(255,255,255,0.3)' }}>
+                    {frame.ocrStrategy && `${frame.ocrStrategy} · `}
+                    {frame.mainThreadMs !== undefined && `main ${frame.mainThreadMs}ms · `}
                     {frame.workerLatencyMs}ms
                     {frame.mutexContended && (
                       <span style={{ color: '#f5a623', marginLeft: 4 }}>queued</span>
@@ -224,7 +353,8 @@ export const DebugOverlay: React.FC<DebugOverlayProps> = ({
                   {' '}&quot;{frame.ocrText.slice(0, 20)}{frame.ocrText.length > 20 ? '...' : ''}&quot;
                 </div>
                 <div>
-                  CN: {frame.parsedCn || '-'} | Ink: {frame.detectedInk || '-'} | {frame.matchResult}
+                  CN: {frame.parsedCn || '-'} | Ink: {frame.detectedInk || '-'}
+                  {frame.foilScore != null && ' | Foil: ' + frame.foilScore.toFixed(3)} | {frame.matchResult}
                 </div>
               </div>
             ))}
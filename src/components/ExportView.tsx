@@ -1,15 +1,18 @@
 import React, { useMemo, useState } from 'react';
-import { Pull, Card } from '../types';
+import { Pack, Pull, Card } from '../types';
 import { INK_COLOURS, SET_MAP } from '../constants';
 import { hexToRgba, inkGradientStyle } from '../utils/colour';
 import { rarityNameColour } from '../utils/rarity-styles';
-import { generateCSV } from '../utils/csv';
+import { getExporter, listExporters } from '../exporters';
 import { validatePulls } from '../utils/validation';
+import { copyLabel, isFoilVariant } from '../utils/variants';
+import { conditionsLabel } from '../utils/conditions';
 import { InkDot } from './InkDot';
 import { RarityBadge } from './RarityBadge';
 
 interface ExportViewProps {
   pulls: Pull[];
+  packs: Pack[];
   sessionName: string;
   totalCards: number;
   totalFoils: number;
@@ -18,6 +21,8 @@ interface ExportViewProps {
   totalEnchanted: number;
   downloaded: boolean;
   copied: boolean;
+  format: string;
+  onFormatChange: (id: string) => void;
   onDownload: () => void;
   onCopy: () => void;
   onBack: () => void;
@@ -56,6 +61,7 @@ const IconInfo = () => (
 
 export const ExportView: React.FC<ExportViewProps> = ({
   pulls,
+  packs,
   sessionName,
   totalCards,
   totalFoils,
@@ -64,11 +70,14 @@ export const ExportView: React.FC<ExportViewProps> = ({
   totalEnchanted,
   downloaded,
   copied,
+  format,
+  onFormatChange,
   onDownload,
   onCopy,
   onBack,
 }) => {
   const [csvExpanded, setCsvExpanded] = useState(false);
+  const exporter = getExporter(format);
 
   const notablePulls = useMemo(() => {
     return pulls.filter((p) => {
@@ -104,14 +113,14 @@ export const ExportView: React.FC<ExportViewProps> = ({
     return { tintBg };
   }, [notablePulls]);
 
-  let csv = '';
+  let output = '';
   try {
-    csv = generateCSV(pulls);
+    output = exporter.generate(pulls, { sessionName, exportedAt: Date.now() });
   } catch (e) {
-    csv = `Error generating CSV: ${(e as Error).message}`;
+    output = `Error generating ${exporter.label} export: ${(e as Error).message}`;
   }
 
-  const warnings = useMemo(() => validatePulls(pulls), [pulls]);
+  const warnings = useMemo(() => validatePulls(pulls, packs), [pulls, packs]);
 
   return (
     <div
@@ -146,7 +155,7 @@ export const ExportView: React.FC<ExportViewProps> = ({
               fontFamily: "'Cinzel', serif",
             }}
           >
-            Export for Dreamborn
+            Export Session
           </h1>
         </div>
         <button
@@ -297,10 +306,23 @@ export const ExportView: React.FC<ExportViewProps> = ({
                   </span>
                   <span style={{ color: 'var(--text-tertiary)', fontSize: 11, flexShrink: 0 }}>
                     #{p.card.cn}
+                    {p.card.language && ' · ' + p.card.language.toUpperCase()}
                   </span>
-                  {p.variant === 'foil' && (
-                    <span style={{ fontSize: 9, color: 'var(--foil)', fontWeight: 700 }}>
-                      ✦ Foil
+                  {copyLabel(p.variant, p.details) && (
+                    <span
+                      style={{
+                        fontSize: 9,
+                        color: isFoilVariant(p.variant) ? 'var(--foil)' : 'var(--text-secondary)',
+                        fontWeight: 700,
+                      }}
+                    >
+                      {isFoilVariant(p.variant) && '✦ '}
+                      {copyLabel(p.variant, p.details)}
+                    </span>
+                  )}
+                  {p.conditions && (
+                    <span style={{ fontSize: 9, color: 'var(--text-tertiary)', fontWeight: 700, flexShrink: 0 }}>
+                      {conditionsLabel(p.conditions)}
                     </span>
                   )}
                 </div>
@@ -309,6 +331,37 @@ export const ExportView: React.FC<ExportViewProps> = ({
           )}
         </div>
 
+        {/* Format picker */}
+        <div style={{ marginBottom: 12 }}>
+          <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+            {listExporters().map((x) => {
+              const active = x.id === exporter.id;
+              return (
+                <button
+                  key={x.id}
+                  style={{
+                    padding: '6px 12px',
+                    background: active ? 'var(--accent-subtle)' : 'transparent',
+                    border: active ? '1px solid var(--accent)' : '1px solid var(--border)',
+                    borderRadius: 'var(--radius-full)',
+                    color: active ? 'var(--accent)' : 'var(--text-secondary)',
+                    fontSize: 13,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                    fontFamily: "'Outfit', sans-serif",
+                  }}
+                  onClick={() => onFormatChange(x.id)}
+                >
+                  {x.label}
+                </button>
+              );
+            })}
+          </div>
+          <div style={{ fontSize: 12, color: 'var(--text-tertiary)', marginTop: 6 }}>
+            {exporter.description}
+          </div>
+        </div>
+
         {/* Action buttons */}
         <div
           style={{
@@ -335,7 +388,7 @@ export const ExportView: React.FC<ExportViewProps> = ({
             }}
             onClick={onDownload}
           >
-            {downloaded ? '✓ Downloaded' : '⬇ Download .csv'}
+            {downloaded ? '✓ Downloaded' : `⬇ Download .${exporter.extension}`}
           </button>
           <button
             style={{
@@ -397,7 +450,7 @@ export const ExportView: React.FC<ExportViewProps> = ({
                 marginTop: 6,
               }}
             >
-              You can still export, but Dreamborn may reject some entries.
+              You can still export, but the importing site may reject some entries, and flagged packs may hold a mis-scanned card.
             </div>
           </div>
         )}
@@ -433,7 +486,7 @@ export const ExportView: React.FC<ExportViewProps> = ({
             >
               <polyline points="9 18 15 12 9 6" />
             </svg>
-            Show CSV data
+            Show {exporter.label} data
           </button>
           {csvExpanded && (
             <div
@@ -459,7 +512,7 @@ export const ExportView: React.FC<ExportViewProps> = ({
                   boxShadow: 'inset 0 1px 4px rgba(0,0,0,0.3)',
                 }}
                 readOnly
-                value={csv}
+                value={output}
                 onClick={(ev) => {
                   (ev.target as HTMLTextAreaElement).select();
                 }}
@@ -469,32 +522,34 @@ export const ExportView: React.FC<ExportViewProps> = ({
         </div>
 
         {/* Tip */}
-        <div
-          style={{
-            background: 'rgba(52,199,89,0.06)',
-            border: '1px solid rgba(52,199,89,0.2)',
-            borderRadius: 'var(--radius-md)',
-            padding: 14,
-          }}
-        >
-          <p
+        {exporter.id === 'dreamborn' && (
+          <div
             style={{
-              fontSize: 13,
-              color: 'var(--success)',
-              lineHeight: 1.5,
-              display: 'flex',
-              alignItems: 'flex-start',
-              gap: 4,
-              margin: 0,
+              background: 'rgba(52,199,89,0.06)',
+              border: '1px solid rgba(52,199,89,0.2)',
+              borderRadius: 'var(--radius-md)',
+              padding: 14,
             }}
           >
-            <IconInfo />
-            <span>
-              <strong>Tip:</strong> After pasting in Dreamborn, check that the card counts went up
-              correctly. The import should <em>add</em> to your existing collection, not replace it.
-            </span>
-          </p>
-        </div>
+            <p
+              style={{
+                fontSize: 13,
+                color: 'var(--success)',
+                lineHeight: 1.5,
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: 4,
+                margin: 0,
+              }}
+            >
+              <IconInfo />
+              <span>
+                <strong>Tip:</strong> After pasting in Dreamborn, check that the card counts went up
+                correctly. The import should <em>add</em> to your existing collection, not replace it.
+              </span>
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,18 @@
-import React from 'react';
-import { RarityFlashType, CardSource } from '../types';
+import React, { useState } from 'react';
+import { RarityFlashType, CardSource, Session } from '../types';
 import { formatRelativeTime } from '../utils/formatting';
+import { SessionList } from './SessionList';
 
 interface HeaderProps {
+  sessions: Session[];
+  sessionId: number | null;
   sessionName: string;
   onSessionNameChange: (name: string) => void;
+  onSwitchSession: (id: number) => void;
+  onCreateSession: () => void;
+  onArchiveSession: (id: number) => void;
+  onRestoreSession: (id: number) => void;
+  onDeleteSession: (id: number) => void;
   savedIndicator: boolean;
   cardSource: CardSource | null;
   sensoryEnabled: boolean;
@@ -21,6 +29,7 @@ interface HeaderProps {
   countBumping: boolean;
   historyCount: number;
   onHistoryClick: () => void;
+  onCollectionClick: () => void;
   onExportClick: () => void;
   onClearClick: () => void;
 }
@@ -40,9 +49,31 @@ const IconHistory = () => (
   </svg>
 );
 
+const IconCollection = () => (
+  <svg
+    style={{ width: 18, height: 18 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <rect x="3" y="7" width="13" height="15" rx="2" />
+    <path d="M8 3h11a2 2 0 0 1 2 2v13" />
+  </svg>
+);
+
 export const Header: React.FC<HeaderProps> = ({
+  sessions,
+  sessionId,
   sessionName,
   onSessionNameChange,
+  onSwitchSession,
+  onCreateSession,
+  onArchiveSession,
+  onRestoreSession,
+  onDeleteSession,
   savedIndicator,
   cardSource,
   sensoryEnabled,
@@ -59,10 +90,13 @@ export const Header: React.FC<HeaderProps> = ({
   countBumping,
   historyCount,
   onHistoryClick,
+  onCollectionClick,
   onExportClick,
   onClearClick,
 }) => {
   const isStaleSession = sessionStartedAt && Date.now() - sessionStartedAt > 86400000;
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const otherSessions = sessions.filter((s) => s.id !== sessionId && !s.archivedAt).length;
 
   return (
     <div
@@ -187,6 +221,30 @@ export const Header: React.FC<HeaderProps> = ({
               el.style.boxShadow = '0 0 0 0 transparent';
             }}
           />
+          <button
+            title="Switch session"
+            aria-expanded={sessionsOpen}
+            style={{
+              background: 'transparent',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              color: sessionsOpen ? 'var(--accent)' : 'var(--text-secondary)',
+              cursor: 'pointer',
+              padding: '4px 8px',
+              fontSize: 12,
+              fontFamily: "'Outfit', sans-serif",
+              flexShrink: 0,
+              display: 'flex',
+              alignItems: 'center',
+              gap: 4,
+            }}
+            onClick={() => setSessionsOpen((v) => !v)}
+          >
+            {otherSessions > 0 && (
+              <span style={{ fontVariantNumeric: 'tabular-nums' }}>+{otherSessions}</span>
+            )}
+            {sessionsOpen ? '▴' : '▾'}
+          </button>
           {savedIndicator && (
             <span
               style={{
@@ -300,6 +358,25 @@ export const Header: React.FC<HeaderProps> = ({
             )}
           </button>
 
+          <button
+            title="My collection"
+            style={{
+              padding: '6px 10px',
+              background: 'transparent',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--text-secondary)',
+              fontSize: 13,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+              display: 'flex',
+              alignItems: 'center',
+            }}
+            onClick={onCollectionClick}
+          >
+            <IconCollection />
+          </button>
+
           {totalCards > 0 && (
             <button
               className="export-btn"
@@ -322,6 +399,24 @@ export const Header: React.FC<HeaderProps> = ({
         </div>
       </div>
 
+      {sessionsOpen && (
+        <SessionList
+          sessions={sessions}
+          activeId={sessionId}
+          onSwitch={(id) => {
+            onSwitchSession(id);
+            setSessionsOpen(false);
+          }}
+          onCreate={() => {
+            onCreateSession();
+            setSessionsOpen(false);
+          }}
+          onArchive={onArchiveSession}
+          onRestore={onRestoreSession}
+          onDelete={onDeleteSession}
+        />
+      )}
+
       {/* Row 2: Stats bar */}
       {totalCards > 0 && (
         <div
@@ -1,22 +1,30 @@
 import React, { useState } from 'react';
-import { ExportHistoryEntry, HistoryPull } from '../types';
+import { ExportHistoryEntry } from '../types';
 import { INK_COLOURS } from '../constants';
 import { hexToRgba, inkGradientStyle } from '../utils/colour';
+import { downloadFile } from '../utils/download';
+import { copyLabel, isFoilVariant } from '../utils/variants';
+import { conditionsLabel } from '../utils/conditions';
+import { Exporter, getExporter, listExporters, withExtension } from '../exporters';
 import { InkDot } from './InkDot';
 
 /**
- * Regenerate CSV from stored pulls when the csv field is absent.
+ * Regenerate an entry's output from its stored pulls. Old entries that
+ * still carry their original CSV reuse it for the Dreamborn format.
  */
-function regenerateCsv(pulls: HistoryPull[]): string {
-  const header = 'Set Number,Card Number,Variant,Count';
-  const rows = pulls.map(
-    (p) => `${p.card.setCode},${p.card.cn},${p.variant},${p.count}`,
-  );
-  return [header, ...rows].join('\n');
+function regenerate(entry: ExportHistoryEntry, exporter: Exporter): string {
+  if (entry.csv && exporter.id === 'dreamborn') return entry.csv;
+  return exporter.generate(entry.pulls, {
+    sessionName: entry.sessionName,
+    exportedAt: entry.timestamp,
+  });
 }
 
 interface HistoryViewProps {
   history: ExportHistoryEntry[];
+  onImportClick: () => void;
+  onBackupClick: () => void;
+  onStatsClick: () => void;
   onBack: () => void;
 }
 
@@ -65,8 +73,16 @@ const EmptyFileIcon = () => (
   </svg>
 );
 
-export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) => {
+export const HistoryView: React.FC<HistoryViewProps> = ({
+  history,
+  onImportClick,
+  onBackupClick,
+  onStatsClick,
+  onBack,
+}) => {
   const [expandedHistory, setExpandedHistory] = useState<number | null>(null);
+  // Per-entry format picked here; defaults to the format it was exported in
+  const [formatChoice, setFormatChoice] = useState<Record<number, string>>({});
 
   const formatDate = (timestamp: number) => {
     const d = new Date(timestamp);
@@ -80,24 +96,17 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
     return `${dateStr} ${timeStr}`;
   };
 
-  const handleRedownload = (csv: string, filename: string) => {
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename.match(/\.csv$/) ? filename : filename + '.csv';
-    a.style.display = 'none';
-    document.body.appendChild(a);
-    a.click();
-    setTimeout(() => {
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }, 100);
+  const entryExporter = (entry: ExportHistoryEntry) =>
+    getExporter(formatChoice[entry.id] ?? entry.format);
+
+  const handleRedownload = (entry: ExportHistoryEntry) => {
+    const exporter = entryExporter(entry);
+    downloadFile(regenerate(entry, exporter), withExtension(entry.filename, exporter), exporter.mimeType);
   };
 
-  const handleCopyCsv = (csv: string) => {
+  const handleCopy = (entry: ExportHistoryEntry) => {
     try {
-      navigator.clipboard.writeText(csv);
+      navigator.clipboard.writeText(regenerate(entry, entryExporter(entry)));
     } catch (e) {}
   };
 
@@ -137,25 +146,75 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
             Export History
           </h1>
         </div>
-        <button
-          style={{
-            padding: '8px 16px',
-            background: 'transparent',
-            border: '1px solid var(--border)',
-            borderRadius: 'var(--radius-sm)',
-            color: 'var(--text-secondary)',
-            fontSize: 14,
-            fontWeight: 600,
-            cursor: 'pointer',
-            fontFamily: "'Outfit', sans-serif",
-            display: 'flex',
-            alignItems: 'center',
-          }}
-          onClick={onBack}
-        >
-          <IconBack />
-          Back
-        </button>
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            style={{
+              padding: '8px 16px',
+              background: 'var(--accent-subtle)',
+              border: '1px solid var(--accent)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--accent)',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+            }}
+            onClick={onImportClick}
+          >
+            Import
+          </button>
+          <button
+            style={{
+              padding: '8px 16px',
+              background: 'transparent',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--text-secondary)',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+            }}
+            onClick={onBackupClick}
+          >
+            Backup
+          </button>
+          <button
+            style={{
+              padding: '8px 16px',
+              background: 'transparent',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--text-secondary)',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+            }}
+            onClick={onStatsClick}
+          >
+            Stats
+          </button>
+          <button
+            style={{
+              padding: '8px 16px',
+              background: 'transparent',
+              border: '1px solid var(--border)',
+              borderRadius: 'var(--radius-sm)',
+              color: 'var(--text-secondary)',
+              fontSize: 14,
+              fontWeight: 600,
+              cursor: 'pointer',
+              fontFamily: "'Outfit', sans-serif",
+              display: 'flex',
+              alignItems: 'center',
+            }}
+            onClick={onBack}
+          >
+            <IconBack />
+            Back
+          </button>
+        </div>
       </div>
 
       {/* Content */}
@@ -188,7 +247,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
               No exports yet
             </p>
             <p style={{ color: 'var(--text-tertiary)', fontSize: 13 }}>
-              Your export history will appear here after you download or copy a CSV
+              Your export history will appear here after you download or copy an export
             </p>
           </div>
         ) : (
@@ -328,8 +387,30 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                             display: 'flex',
                             gap: 6,
                             marginBottom: 12,
+                            flexWrap: 'wrap',
                           }}
                         >
+                          <select
+                            value={entryExporter(entry).id}
+                            onChange={(ev) =>
+                              setFormatChoice((prev) => ({ ...prev, [entry.id]: ev.target.value }))
+                            }
+                            style={{
+                              padding: '6px 8px',
+                              background: 'var(--bg-elevated)',
+                              border: '1px solid var(--border)',
+                              borderRadius: 'var(--radius-sm)',
+                              color: 'var(--text-secondary)',
+                              fontSize: 12,
+                              fontFamily: "'Outfit', sans-serif",
+                            }}
+                          >
+                            {listExporters().map((x) => (
+                              <option key={x.id} value={x.id}>
+                                {x.label}
+                              </option>
+                            ))}
+                          </select>
                           <button
                             style={{
                               padding: '6px 14px',
@@ -342,7 +423,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                               cursor: 'pointer',
                               fontFamily: "'Outfit', sans-serif",
                             }}
-                            onClick={() => handleRedownload(entry.csv || regenerateCsv(entry.pulls), entry.filename)}
+                            onClick={() => handleRedownload(entry)}
                           >
                             ⬇ Re-download
                           </button>
@@ -358,9 +439,9 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                               cursor: 'pointer',
                               fontFamily: "'Outfit', sans-serif",
                             }}
-                            onClick={() => handleCopyCsv(entry.csv || regenerateCsv(entry.pulls))}
+                            onClick={() => handleCopy(entry)}
                           >
-                            Copy CSV
+                            Copy
                           </button>
                         </div>
 
@@ -437,6 +518,7 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                                       }}
                                     >
                                       {p.card.setName} #{p.card.cn}
+                                      {p.card.language && ' · ' + p.card.language.toUpperCase()}
                                     </span>
                                   </div>
                                   <div
@@ -447,14 +529,22 @@ export const HistoryView: React.FC<HistoryViewProps> = ({ history, onBack }) =>
                                       flexShrink: 0,
                                     }}
                                   >
-                                    {p.variant === 'foil' && (
+                                    {copyLabel(p.variant, p.details) && (
                                       <span
                                         style={{
                                           fontSize: 11,
-                                          color: 'var(--foil)',
+                                          color: isFoilVariant(p.variant)
+                                            ? 'var(--foil)'
+                                            : 'var(--text-secondary)',
                                         }}
                                       >
-                                        ✦ Foil
+                                        {isFoilVariant(p.variant) && '✦ '}
+                                        {copyLabel(p.variant, p.details)}
+                                      </span>
+                                    )}
+                                    {p.conditions && (
+                                      <span style={{ fontSize: 11, color: 'var(--text-tertiary)' }}>
+                                        {conditionsLabel(p.conditions)}
                                       </span>
                                     )}
                                     <span
@@ -0,0 +1,341 @@
+import React, { useMemo, useState } from 'react';
+import { Card } from '../types';
+import { parseImportFile, resolveImport, ImportedPull, ImportReport } from '../importers';
+import { inkGradientStyle } from '../utils/colour';
+import { rarityNameColour } from '../utils/rarity-styles';
+import { copyLabel, isFoilVariant } from '../utils/variants';
+import { InkDot } from './InkDot';
+import { RarityBadge } from './RarityBadge';
+
+export type ImportTarget = 'session' | 'collection';
+
+interface ImportViewProps {
+  cards: Card[];
+  onImport: (target: ImportTarget, pulls: ImportedPull[], filename: string) => void;
+  onBack: () => void;
+}
+
+const IconBack = () => (
+  <svg
+    style={{ width: 16, height: 16, marginRight: 4 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <line x1={19} y1={12} x2={5} y2={12} />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+);
+
+interface LoadedFile {
+  filename: string;
+  error: string | null;
+  report: ImportReport | null;
+}
+
+export const ImportView: React.FC<ImportViewProps> = ({ cards, onImport, onBack }) => {
+  const [loaded, setLoaded] = useState<LoadedFile | null>(null);
+
+  const handleFile = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const parsed = parseImportFile(file.name, text);
+        setLoaded({
+          filename: file.name,
+          error: parsed.error,
+          report: parsed.error ? null : resolveImport(parsed.rows, cards),
+        });
+      })
+      .catch(() => {
+        setLoaded({ filename: file.name, error: 'Could not read the file', report: null });
+      });
+  };
+
+  const report = loaded?.report ?? null;
+  const skippedRows = useMemo(
+    () => (report ? new Set(report.issues.filter((i) => i.skipped).map((i) => i.line)).size : 0),
+    [report],
+  );
+  const importCount = report ? report.pulls.reduce((s, p) => s + p.count, 0) : 0;
+
+  const actionStyle = (primary: boolean): React.CSSProperties => ({
+    flex: 1,
+    minWidth: 140,
+    padding: '12px 20px',
+    background: primary ? 'var(--accent)' : 'var(--bg-elevated)',
+    border: primary ? 'none' : '1px solid var(--border)',
+    borderRadius: 'var(--radius-sm)',
+    color: primary ? 'var(--bg-base)' : 'var(--text-primary)',
+    fontSize: 14,
+    fontWeight: 600,
+    cursor: 'pointer',
+    fontFamily: "'Outfit', sans-serif",
+  });
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--bg-base)',
+        color: 'var(--text-primary)',
+        animation: 'viewSlideInRight 250ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+      }}
+    >
+      {/* Sticky header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 24px',
+          borderBottom: '1px solid var(--border)',
+          position: 'sticky',
+          top: 0,
+          background: 'var(--bg-base)',
+          zIndex: 100,
+        }}
+      >
+        <h1
+          style={{
+            fontSize: 20,
+            fontWeight: 700,
+            letterSpacing: '-0.02em',
+            fontFamily: "'Cinzel', serif",
+          }}
+        >
+          Import
+        </h1>
+        <button
+          style={{
+            padding: '8px 16px',
+            background: 'transparent',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-sm)',
+            color: 'var(--text-secondary)',
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+            display: 'flex',
+            alignItems: 'center',
+          }}
+          onClick={onBack}
+        >
+          <IconBack />
+          Back
+        </button>
+      </div>
+
+      {/* Content */}
+      <div
+        className="view-content"
+        style={{
+          maxWidth: 600,
+          margin: '0 auto',
+          padding: '24px 16px',
+        }}
+      >
+        {/* File picker */}
+        <label
+          style={{
+            display: 'block',
+            padding: '20px 16px',
+            marginBottom: 16,
+            background: 'var(--bg-surface)',
+            border: '2px dashed var(--border)',
+            borderRadius: 'var(--radius-md)',
+            textAlign: 'center',
+            cursor: 'pointer',
+          }}
+        >
+          <div style={{ fontSize: 15, fontWeight: 600, marginBottom: 4 }}>
+            {loaded ? loaded.filename : 'Choose a CSV or JSON file'}
+          </div>
+          <div style={{ fontSize: 12, color: 'var(--text-tertiary)' }}>
+            Dreamborn / Lorcana HQ CSV, JSON exports, or any sheet with set and card number columns
+          </div>
+          <input
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            style={{ display: 'none' }}
+            onChange={(ev) => {
+              const file = ev.target.files?.[0];
+              if (file) handleFile(file);
+              ev.target.value = '';
+            }}
+          />
+        </label>
+
+        {loaded?.error && (
+          <div
+            style={{
+              background: 'rgba(255,69,58,0.08)',
+              border: '1px solid var(--danger)',
+              borderRadius: 'var(--radius-md)',
+              padding: '12px 14px',
+              marginBottom: 16,
+              fontSize: 13,
+              color: 'var(--danger)',
+            }}
+          >
+            ⚠ {loaded.error}
+          </div>
+        )}
+
+        {report && loaded && (
+          <>
+            {/* Summary */}
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'center',
+                gap: 8,
+                fontSize: 13,
+                fontVariantNumeric: 'tabular-nums',
+                flexWrap: 'wrap',
+                marginBottom: 16,
+              }}
+            >
+              <span style={{ color: 'var(--text-primary)' }}>
+                {report.totalRows} row{report.totalRows !== 1 ? 's' : ''}
+              </span>
+              <span style={{ color: 'var(--success)' }}>
+                · {importCount} card{importCount !== 1 ? 's' : ''} ready
+              </span>
+              {skippedRows > 0 && (
+                <span style={{ color: 'var(--danger)' }}>· {skippedRows} skipped</span>
+              )}
+            </div>
+
+            {/* Validation report */}
+            {report.issues.length > 0 && (
+              <div
+                style={{
+                  background: 'rgba(255,69,58,0.08)',
+                  border: '1px solid var(--danger)',
+                  borderRadius: 'var(--radius-md)',
+                  padding: '12px 14px',
+                  marginBottom: 16,
+                }}
+              >
+                <div
+                  style={{
+                    fontSize: 14,
+                    fontWeight: 600,
+                    color: 'var(--danger)',
+                    marginBottom: 6,
+                  }}
+                >
+                  ⚠ Import Report
+                </div>
+                <div
+                  style={{
+                    fontSize: 12,
+                    lineHeight: '1.6',
+                    maxHeight: 200,
+                    overflowY: 'auto',
+                  }}
+                >
+                  {report.issues.map((issue, i) => (
+                    <div
+                      key={i}
+                      style={{ color: issue.skipped ? 'var(--text-primary)' : 'var(--text-secondary)' }}
+                    >
+                      {issue.skipped ? '✕ ' : '• '}
+                      {issue.message}
+                    </div>
+                  ))}
+                </div>
+                <div style={{ fontSize: 11, color: 'var(--text-tertiary)', marginTop: 6 }}>
+                  Rows marked ✕ will not be imported.
+                </div>
+              </div>
+            )}
+
+            {/* Merge actions */}
+            {report.pulls.length > 0 && (
+              <div style={{ display: 'flex', gap: 8, marginBottom: 20, flexWrap: 'wrap' }}>
+                <button
+                  style={actionStyle(true)}
+                  onClick={() => onImport('session', report.pulls, loaded.filename)}
+                >
+                  Add to session
+                </button>
+                <button
+                  style={actionStyle(false)}
+                  onClick={() => onImport('collection', report.pulls, loaded.filename)}
+                >
+                  Add to collection only
+                </button>
+              </div>
+            )}
+
+            {/* Preview */}
+            <div style={{ display: 'flex', flexDirection: 'column' }}>
+              {report.pulls.map((p, i) => (
+                <div
+                  key={i}
+                  style={{
+                    ...inkGradientStyle(p.card.ink, 0.08),
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: 8,
+                    padding: '6px 0 6px 8px',
+                    borderBottom: '1px solid rgba(30,51,82,0.5)',
+                    fontSize: 13,
+                  }}
+                >
+                  <InkDot ink={p.card.ink} />
+                  <span
+                    style={{
+                      color: rarityNameColour(p.card.rarity),
+                      fontWeight: 500,
+                      flex: 1,
+                      minWidth: 0,
+                      whiteSpace: 'nowrap',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                    }}
+                  >
+                    {p.card.display}
+                  </span>
+                  <span style={{ color: 'var(--text-tertiary)', fontSize: 11, flexShrink: 0 }}>
+                    {p.card.setCode} #{p.card.cn}
+                    {p.card.language && ' · ' + p.card.language.toUpperCase()}
+                  </span>
+                  <RarityBadge rarity={p.card.rarity} />
+                  {copyLabel(p.variant, p.details) && (
+                    <span
+                      style={{
+                        fontSize: 11,
+                        color: isFoilVariant(p.variant) ? 'var(--foil)' : 'var(--text-secondary)',
+                      }}
+                    >
+                      {isFoilVariant(p.variant) && '✦ '}
+                      {copyLabel(p.variant, p.details)}
+                    </span>
+                  )}
+                  <span
+                    style={{
+                      color: 'var(--accent)',
+                      fontWeight: 700,
+                      fontVariantNumeric: 'tabular-nums',
+                      minWidth: 28,
+                      textAlign: 'right',
+                    }}
+                  >
+                    ×{p.count}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ interface MobileBottomBarProps {
   pullsCount: number;
   confirmClear: boolean;
   onHistoryClick: () => void;
+  onCollectionClick: () => void;
   onExportClick: () => void;
   onClearClick: () => void;
   onClearConfirm: () => void;
@@ -26,11 +27,27 @@ const IconHistory = () => (
   </svg>
 );
 
+const IconCollection = () => (
+  <svg
+    style={{ width: 18, height: 18 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="1.5"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <rect x="3" y="7" width="13" height="15" rx="2" />
+    <path d="M8 3h11a2 2 0 0 1 2 2v13" />
+  </svg>
+);
+
 export const MobileBottomBar: React.FC<MobileBottomBarProps> = ({
   historyCount,
   pullsCount,
   confirmClear,
   onHistoryClick,
+  onCollectionClick,
   onExportClick,
   onClearClick,
   onClearConfirm,
@@ -82,6 +99,25 @@ export const MobileBottomBar: React.FC<MobileBottomBarProps> = ({
         )}
       </button>
 
+      <button
+        title="My collection"
+        style={{
+          padding: '10px 14px',
+          background: 'transparent',
+          border: '1px solid var(--border)',
+          borderRadius: 'var(--radius-sm)',
+          color: 'var(--text-secondary)',
+          cursor: 'pointer',
+          fontFamily: "'Outfit', sans-serif",
+          minHeight: 44,
+          display: 'flex',
+          alignItems: 'center',
+        }}
+        onClick={onCollectionClick}
+      >
+        <IconCollection />
+      </button>
+
       {pullsCount > 0 && (
         <button
           style={{
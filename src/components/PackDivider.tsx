@@ -2,9 +2,12 @@ import React from 'react';
 
 interface PackDividerProps {
   packNumber: number;
+  /** Composition problems found in this pack */
+  warnings?: string[];
 }
 
-export const PackDivider: React.FC<PackDividerProps> = ({ packNumber }) => {
+export const PackDivider: React.FC<PackDividerProps> = ({ packNumber, warnings = [] }) => {
+  const flagged = warnings.length > 0;
   return (
     <div
       style={{
@@ -12,34 +15,42 @@ export const PackDivider: React.FC<PackDividerProps> = ({ packNumber }) => {
         alignItems: 'center',
         gap: 8,
         padding: '6px 0 4px',
-        opacity: 0.5,
+        opacity: flagged ? 1 : 0.5,
       }}
+      title={flagged ? warnings.join('\n') : undefined}
     >
       <div
         style={{
           flex: 1,
           height: 1,
-          background: 'var(--border)',
+          background: flagged ? 'var(--danger)' : 'var(--border)',
         }}
       />
       <span
         style={{
           fontSize: 10,
           fontWeight: 600,
-          color: 'var(--text-tertiary)',
+          color: flagged ? 'var(--danger)' : 'var(--text-tertiary)',
           textTransform: 'uppercase',
           letterSpacing: '0.05em',
           fontFamily: "'Poppins', sans-serif",
           whiteSpace: 'nowrap',
         }}
       >
-        Pack {packNumber}
+        {flagged && '⚠ '}Pack {packNumber}
+        {flagged && (
+          <span style={{ textTransform: 'none', letterSpacing: 0, fontWeight: 500 }}>
+            {' · '}
+            {warnings[0]}
+            {warnings.length > 1 && ` (+${warnings.length - 1})`}
+          </span>
+        )}
       </span>
       <div
         style={{
           flex: 1,
           height: 1,
-          background: 'var(--border)',
+          background: flagged ? 'var(--danger)' : 'var(--border)',
         }}
       />
     </div>
@@ -0,0 +1,239 @@
+import React, { useMemo } from 'react';
+import { Pack, Pull } from '../types';
+import { PACK_SIZE } from '../constants';
+import { inkGradientStyle } from '../utils/colour';
+import { rarityNameColour } from '../utils/rarity-styles';
+import { InkDot } from './InkDot';
+import { RarityBadge } from './RarityBadge';
+import { validatePacks } from '../utils/validation';
+import { copyLabel, isFoilVariant } from '../utils/variants';
+
+interface PacksViewProps {
+  packs: Pack[];
+  pulls: Pull[];
+  onMoveCopy: (key: string, from: number, to: number) => void;
+  onBack: () => void;
+}
+
+const IconBack = () => (
+  <svg
+    style={{ width: 16, height: 16, marginRight: 4 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <line x1={19} y1={12} x2={5} y2={12} />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+);
+
+const formatTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return String(d.getHours()).padStart(2, '0') + ':' + String(d.getMinutes()).padStart(2, '0');
+};
+
+export const PacksView: React.FC<PacksViewProps> = ({ packs, pulls, onMoveCopy, onBack }) => {
+  const pullByKey = useMemo(() => {
+    const map: Record<string, Pull> = {};
+    pulls.forEach((p) => {
+      map[p.key] = p;
+    });
+    return map;
+  }, [pulls]);
+
+  const warnings = useMemo(() => validatePacks(packs, pulls), [packs, pulls]);
+
+  const visiblePacks = packs.filter((p) => p.cards.length > 0 || p.closedAt === null);
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--bg-base)',
+        color: 'var(--text-primary)',
+        animation: 'viewSlideInRight 250ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+      }}
+    >
+      {/* Sticky header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 24px',
+          borderBottom: '1px solid var(--border)',
+          position: 'sticky',
+          top: 0,
+          background: 'var(--bg-base)',
+          zIndex: 100,
+        }}
+      >
+        <h1
+          style={{
+            fontSize: 20,
+            fontWeight: 700,
+            letterSpacing: '-0.02em',
+            fontFamily: "'Cinzel', serif",
+          }}
+        >
+          Packs
+        </h1>
+        <button
+          style={{
+            padding: '8px 16px',
+            background: 'transparent',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-sm)',
+            color: 'var(--text-secondary)',
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+            display: 'flex',
+            alignItems: 'center',
+          }}
+          onClick={onBack}
+        >
+          <IconBack />
+          Back
+        </button>
+      </div>
+
+      {/* Content */}
+      <div
+        className="view-content"
+        style={{
+          maxWidth: 600,
+          margin: '0 auto',
+          padding: '24px 16px',
+        }}
+      >
+        {visiblePacks.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '48px 20px' }}>
+            <p style={{ color: 'var(--text-secondary)', fontSize: 16, fontWeight: 500 }}>
+              No packs opened yet
+            </p>
+          </div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+            {visiblePacks.map((pack) => (
+              <div
+                key={pack.number}
+                style={{
+                  background: 'var(--bg-surface)',
+                  border: pack.closedAt === null ? '1px solid var(--accent)' : '1px solid var(--border)',
+                  borderRadius: 'var(--radius-lg)',
+                  padding: '14px 16px',
+                }}
+              >
+                <div
+                  style={{
+                    display: 'flex',
+                    alignItems: 'baseline',
+                    justifyContent: 'space-between',
+                    marginBottom: 8,
+                  }}
+                >
+                  <span style={{ fontSize: 15, fontWeight: 600, fontFamily: "'Cinzel', serif" }}>
+                    Pack {pack.number}
+                  </span>
+                  <span
+                    style={{
+                      fontSize: 11,
+                      color: pack.cards.length === PACK_SIZE ? 'var(--text-tertiary)' : 'var(--accent)',
+                      fontVariantNumeric: 'tabular-nums',
+                    }}
+                  >
+                    {pack.cards.length}/{PACK_SIZE} · opened {formatTime(pack.openedAt)}
+                    {pack.closedAt !== null ? ' · closed ' + formatTime(pack.closedAt) : ' · open'}
+                  </span>
+                </div>
+
+                {warnings[pack.number]?.map((w, i) => (
+                  <div key={i} style={{ fontSize: 12, color: 'var(--danger)', marginBottom: 4 }}>
+                    ⚠ {w}
+                  </div>
+                ))}
+
+                {pack.cards.map((key, i) => {
+                  const pull = pullByKey[key];
+                  return (
+                    <div
+                      key={key + '-' + i}
+                      style={{
+                        ...(pull ? inkGradientStyle(pull.card.ink, 0.08) : {}),
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 8,
+                        padding: '6px 0 6px 8px',
+                        borderBottom: '1px solid rgba(30,51,82,0.5)',
+                        fontSize: 13,
+                      }}
+                    >
+                      {pull && <InkDot ink={pull.card.ink} />}
+                      <span
+                        style={{
+                          color: pull ? rarityNameColour(pull.card.rarity) : 'var(--text-tertiary)',
+                          fontWeight: 500,
+                          flex: 1,
+                          minWidth: 0,
+                          whiteSpace: 'nowrap',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                        }}
+                      >
+                        {pull ? pull.card.display : key}
+                      </span>
+                      {pull && <RarityBadge rarity={pull.card.rarity} />}
+                      {pull && copyLabel(pull.variant, pull.details) && (
+                        <span
+                          style={{
+                            fontSize: 11,
+                            color: isFoilVariant(pull.variant) ? 'var(--foil)' : 'var(--text-secondary)',
+                          }}
+                        >
+                          {isFoilVariant(pull.variant) && '✦ '}
+                          {copyLabel(pull.variant, pull.details)}
+                        </span>
+                      )}
+                      {visiblePacks.length > 1 && (
+                        <select
+                          aria-label="Move to pack"
+                          value=""
+                          onChange={(ev) => {
+                            if (ev.target.value) onMoveCopy(key, pack.number, Number(ev.target.value));
+                          }}
+                          style={{
+                            padding: '3px 6px',
+                            background: 'var(--bg-elevated)',
+                            border: '1px solid var(--border)',
+                            borderRadius: 'var(--radius-sm)',
+                            color: 'var(--text-secondary)',
+                            fontSize: 11,
+                            fontFamily: "'Outfit', sans-serif",
+                          }}
+                        >
+                          <option value="">Move…</option>
+                          {visiblePacks
+                            .filter((p) => p.number !== pack.number)
+                            .map((p) => (
+                              <option key={p.number} value={p.number}>
+                                Pack {p.number}
+                              </option>
+                            ))}
+                        </select>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
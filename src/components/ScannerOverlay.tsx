@@ -1,13 +1,24 @@
 import React, { useState, useEffect } from 'react'
-import type { Card, ScannerState } from '../types'
-import type { MatchMethod, ScannerDebugInfo, DebugCaptures } from '../hooks/useScanner'
+import type { Card, CardCondition, CardVariant, ScannerState, VariantDetails } from '../types'
+import type { MatchMethod, ScannerDebugInfo, DebugCaptures, ScanMode } from '../hooks/useScanner'
+import type { BinderCell, BinderCellChange } from '../utils/binder-page'
+import type { FoilEstimate } from '../utils/foil-detector'
+import { isConfidentlyNormal, PRESELECT_CONFIDENCE } from '../utils/foil-detector'
+import type { Quad } from '../utils/card-detector'
+import type { ImageAssistProgress } from '../hooks/useImageAssist'
 import { RarityBadge } from './RarityBadge'
 import { InkDot } from './InkDot'
+import { BinderPageReview } from './BinderPageReview'
+import { VariantPicker } from './VariantPicker'
 
 interface ScannerOverlayProps {
   scannerState: ScannerState
   lastMatch: Card | null
   matchMethod: MatchMethod
+  foilEstimate: FoilEstimate | null
+  rapidMode: boolean
+  autoConfirmAt: number | null
+  onToggleRapidMode: () => void
   candidates: Card[]
   error: string | null
   scanCount: number
@@ -15,11 +26,25 @@ interface ScannerOverlayProps {
   debugCaptures: DebugCaptures | null
   lastOcrText: string
   lastDetectedInk: string | null
+  cardOutline: Quad | null
+  imageAssistEnabled: boolean
+  imageAssistProgress: ImageAssistProgress | null
+  /** Image assist is on but has no set to index the art of */
+  imageAssistNeedsSet: boolean
+  onToggleImageAssist: () => void
+  scanMode: ScanMode
+  binderPage: BinderCell[]
+  onToggleScanMode: () => void
+  onReviewPage: () => void
+  onUpdateBinderCell: (index: number, change: BinderCellChange) => void
+  onConfirmPage: () => void
+  onRescanPage: () => void
   videoRef: React.RefObject<HTMLVideoElement | null>
   onClose: () => void
   onRetry: () => void
   onSelectCandidate: (card: Card) => void
-  onConfirmMatch: (variant: 'normal' | 'foil') => void
+  onConfirmMatch: (variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => void
+  onHoldMatch: () => void
   onSkipMatch: () => void
   onDismissDisambiguation: () => void
   onCaptureDebug: () => void
@@ -32,6 +57,10 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
   scannerState,
   lastMatch,
   matchMethod,
+  foilEstimate,
+  rapidMode,
+  autoConfirmAt,
+  onToggleRapidMode,
   candidates,
   error,
   scanCount,
@@ -39,11 +68,24 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
   debugCaptures,
   lastOcrText,
   lastDetectedInk,
+  cardOutline,
+  imageAssistEnabled,
+  imageAssistProgress,
+  imageAssistNeedsSet,
+  onToggleImageAssist,
+  scanMode,
+  binderPage,
+  onToggleScanMode,
+  onReviewPage,
+  onUpdateBinderCell,
+  onConfirmPage,
+  onRescanPage,
   videoRef,
   onClose,
   onRetry,
   onSelectCandidate,
   onConfirmMatch,
+  onHoldMatch,
   onSkipMatch,
   onDismissDisambiguation,
   onCaptureDebug,
@@ -52,6 +94,12 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
   onExportDiagnostics,
 }) => {
   const [showHint, setShowHint] = useState(false)
+  const [showMore, setShowMore] = useState(false)
+
+  // Each match starts with just the normal / foil buttons
+  useEffect(() => {
+    setShowMore(false)
+  }, [lastMatch])
 
   // Show a helpful hint after 10s of no match
   useEffect(() => {
@@ -65,6 +113,11 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
 
   const isMatched = scannerState === 'matched'
   const isDisambiguating = scannerState === 'disambiguating'
+  const isBinder = scanMode === 'binder'
+  const isScanning = scannerState === 'streaming' || scannerState === 'processing'
+  const pocketsSettled = binderPage.filter((c) => c.status !== 'reading').length
+  // The shimmer guess picks the highlighted button once it is sure enough
+  const suggestFoil = foilEstimate?.variant === 'foil' && foilEstimate.confidence >= PRESELECT_CONFIDENCE
   const guideColor = isMatched
     ? 'var(--success)'
     : isDisambiguating
@@ -98,6 +151,24 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
         muted
       />
 
+      {/* Outline of the detected card, in fractions of the visible feed */}
+      {cardOutline && !isMatched && (
+        <svg
+          viewBox="0 0 1 1"
+          preserveAspectRatio="none"
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none' }}
+        >
+          <polygon
+            points={cardOutline.map((p) => `${p.x},${p.y}`).join(' ')}
+            fill="rgba(52, 199, 89, 0.08)"
+            stroke="var(--success)"
+            strokeWidth={2}
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+        </svg>
+      )}
+
       {/* Dark overlay with transparent guide window */}
       <div style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
         {/* Top bar */}
@@ -128,7 +199,7 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                 fontFamily: "'Outfit', sans-serif",
               }}
             >
-              Scan Card
+              {isBinder ? 'Scan Page' : 'Scan Card'}
               <span style={{ fontSize: 10, fontWeight: 400, color: 'rgba(255,255,255,0.4)' }}>
                 v{__APP_VERSION__}
               </span>
@@ -148,8 +219,98 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                 {scanCount} scanned
               </span>
             )}
+            {imageAssistProgress?.building && (
+              <span
+                style={{
+                  fontSize: 11,
+                  color: 'rgba(255,255,255,0.6)',
+                  fontFamily: "'Outfit', sans-serif",
+                }}
+              >
+                Indexing art {imageAssistProgress.loaded}/{imageAssistProgress.total}
+              </span>
+            )}
+            {imageAssistNeedsSet && (
+              <span
+                style={{
+                  fontSize: 11,
+                  color: 'rgba(255,255,255,0.6)',
+                  fontFamily: "'Outfit', sans-serif",
+                }}
+              >
+                Pick a set to index its art
+              </span>
+            )}
           </div>
           <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            {/* Rapid mode — confident matches are logged after a countdown */}
+            {!isBinder && (
+              <button
+                onClick={onToggleRapidMode}
+                title={rapidMode ? 'Rapid mode on' : 'Rapid mode off'}
+                style={{
+                  height: 36,
+                  padding: '0 10px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  background: rapidMode ? 'rgba(245,166,35,0.25)' : 'rgba(255,255,255,0.1)',
+                  border: rapidMode ? '1px solid rgba(245,166,35,0.5)' : '1px solid rgba(255,255,255,0.2)',
+                  borderRadius: 'var(--radius-full)',
+                  color: rapidMode ? 'var(--accent)' : 'rgba(255,255,255,0.6)',
+                  fontSize: 11,
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                  fontFamily: "'Outfit', sans-serif",
+                }}
+              >
+                Rapid
+              </button>
+            )}
+            {/* Binder mode — a 3x3 page of cards per frame */}
+            <button
+              onClick={onToggleScanMode}
+              title={isBinder ? 'Binder page mode on' : 'Binder page mode off'}
+              style={{
+                height: 36,
+                padding: '0 10px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                background: isBinder ? 'rgba(245,166,35,0.25)' : 'rgba(255,255,255,0.1)',
+                border: isBinder ? '1px solid rgba(245,166,35,0.5)' : '1px solid rgba(255,255,255,0.2)',
+                borderRadius: 'var(--radius-full)',
+                color: isBinder ? 'var(--accent)' : 'rgba(255,255,255,0.6)',
+                fontSize: 11,
+                fontWeight: 600,
+                cursor: 'pointer',
+                fontFamily: "'Outfit', sans-serif",
+              }}
+            >
+              Page
+            </button>
+            {/* Image assist — compares card art when the collector number leaves several cards */}
+            <button
+              onClick={onToggleImageAssist}
+              title={imageAssistEnabled ? 'Image assist on' : 'Image assist off'}
+              style={{
+                height: 36,
+                padding: '0 10px',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                background: imageAssistEnabled ? 'rgba(245,166,35,0.25)' : 'rgba(255,255,255,0.1)',
+                border: imageAssistEnabled ? '1px solid rgba(245,166,35,0.5)' : '1px solid rgba(255,255,255,0.2)',
+                borderRadius: 'var(--radius-full)',
+                color: imageAssistEnabled ? 'var(--accent)' : 'rgba(255,255,255,0.6)',
+                fontSize: 11,
+                fontWeight: 600,
+                cursor: 'pointer',
+                fontFamily: "'Outfit', sans-serif",
+              }}
+            >
+              Art
+            </button>
             {/* Debug capture button — freezes frame and shows what the algorithm sees */}
             {(scannerState === 'streaming' || scannerState === 'processing' || scannerState === 'disambiguating') && (
               <>
@@ -174,27 +335,29 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                 >
                   Telem
                 </button>
-                <button
-                  onClick={onCaptureDebug}
-                  style={{
-                    height: 36,
-                    padding: '0 12px',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    gap: 4,
-                    background: 'rgba(59,130,246,0.3)',
-                    border: '1px solid rgba(59,130,246,0.5)',
-                    borderRadius: 'var(--radius-full)',
-                    color: '#7cb3ff',
-                    fontSize: 11,
-                    fontWeight: 600,
-                    cursor: 'pointer',
-                    fontFamily: "'Outfit', sans-serif",
-                  }}
-                >
-                  Debug
-                </button>
+                {!isBinder && (
+                  <button
+                    onClick={onCaptureDebug}
+                    style={{
+                      height: 36,
+                      padding: '0 12px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      gap: 4,
+                      background: 'rgba(59,130,246,0.3)',
+                      border: '1px solid rgba(59,130,246,0.5)',
+                      borderRadius: 'var(--radius-full)',
+                      color: '#7cb3ff',
+                      fontSize: 11,
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                      fontFamily: "'Outfit', sans-serif",
+                    }}
+                  >
+                    Debug
+                  </button>
+                )}
                 <button
                   onClick={onExportDiagnostics}
                   style={{
@@ -240,14 +403,14 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
           </div>
         </div>
 
-        {/* Single card-shaped guide frame — matches algo crop (18%/21%/64%×58%) */}
+        {/* Guide frame — one card (18%/21%/64%×58%) or a binder page (4%/16%/92%×62%), matching the algo crops */}
         <div
           style={{
             position: 'absolute',
-            left: '18%',
-            right: '18%',
-            top: '21%',
-            height: '58%',
+            left: isBinder ? '4%' : '18%',
+            right: isBinder ? '4%' : '18%',
+            top: isBinder ? '16%' : '21%',
+            height: isBinder ? '62%' : '58%',
             pointerEvents: 'none',
           }}
         >
@@ -294,8 +457,64 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
             })}
           </div>
 
+          {/* Binder pockets — tinted as each one settles */}
+          {isBinder && (
+            <div
+              style={{
+                position: 'absolute',
+                inset: 0,
+                display: 'grid',
+                gridTemplateColumns: 'repeat(3, 1fr)',
+                gridTemplateRows: 'repeat(3, 1fr)',
+                pointerEvents: 'none',
+              }}
+            >
+              {binderPage.map((cell, i) => (
+                <div
+                  key={i}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'flex-end',
+                    justifyContent: 'center',
+                    padding: 4,
+                    border: cell.status === 'matched'
+                      ? '1px solid var(--success)'
+                      : cell.status === 'ambiguous'
+                        ? '1px solid var(--accent)'
+                        : '1px dashed rgba(255,255,255,' + (cell.status === 'empty' ? '0.15' : '0.4') + ')',
+                    background: cell.status === 'matched'
+                      ? 'rgba(52,199,89,0.15)'
+                      : cell.status === 'ambiguous'
+                        ? 'rgba(245,166,35,0.15)'
+                        : 'transparent',
+                    transition: 'background 200ms ease',
+                  }}
+                >
+                  {cell.card && (
+                    <span
+                      style={{
+                        maxWidth: '100%',
+                        padding: '1px 6px',
+                        background: 'rgba(0,0,0,0.65)',
+                        borderRadius: 'var(--radius-full)',
+                        fontSize: 10,
+                        color: '#fff',
+                        whiteSpace: 'nowrap',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        fontFamily: "'Outfit', sans-serif",
+                      }}
+                    >
+                      #{cell.card.cn}{cell.status === 'ambiguous' && ' ?'}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* CN region indicator — dashed rect at card bottom */}
-          {(scannerState === 'streaming' || scannerState === 'processing') && (
+          {!isBinder && isScanning && (
             <div
               style={{
                 position: 'absolute',
@@ -311,7 +530,7 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
           )}
 
           {/* Ink colour indicator — strip covering name banner for all card types */}
-          {(scannerState === 'streaming' || scannerState === 'processing') && (
+          {!isBinder && isScanning && (
             <div
               style={{
                 position: 'absolute',
@@ -350,7 +569,7 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                 Requesting camera access...
               </span>
             )}
-            {(scannerState === 'streaming' || scannerState === 'processing') && (
+            {!isBinder && isScanning && (
               <div
                 style={{
                   display: 'flex',
@@ -376,7 +595,9 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                     fontFamily: "'Outfit', sans-serif",
                   }}
                 >
-                  Make sure the collector number is visible
+                  {rapidMode
+                    ? 'Rapid mode — cards are added as normal automatically'
+                    : 'Make sure the collector number is visible'}
                 </span>
               </div>
             )}
@@ -425,7 +646,7 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
           </div>
 
           {/* Helpful hint after 10s of no match */}
-          {showHint && scannerState === 'streaming' && (
+          {showHint && !isBinder && scannerState === 'streaming' && (
             <div
               style={{
                 position: 'absolute',
@@ -444,6 +665,62 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
           )}
         </div>
 
+        {/* ── Binder page progress — review early once the pockets you need are in ── */}
+        {isBinder && isScanning && (
+          <div
+            style={{
+              position: 'absolute',
+              bottom: 0,
+              left: 0,
+              right: 0,
+              padding: '12px 16px',
+              paddingBottom: 'max(12px, env(safe-area-inset-bottom))',
+              background: 'rgba(0,0,0,0.7)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              gap: 12,
+              pointerEvents: 'auto',
+              fontFamily: "'Outfit', sans-serif",
+            }}
+          >
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+              <span style={{ fontSize: 14, color: 'rgba(255,255,255,0.85)' }}>
+                Line the binder page up with the grid
+              </span>
+              <span style={{ fontSize: 11, color: 'rgba(255,255,255,0.45)' }}>
+                {pocketsSettled}/{binderPage.length} pockets read
+              </span>
+            </div>
+            <button
+              onClick={onReviewPage}
+              style={{
+                padding: '10px 16px',
+                background: 'var(--accent)',
+                border: 'none',
+                borderRadius: 'var(--radius-md)',
+                color: '#000',
+                fontSize: 14,
+                fontWeight: 600,
+                cursor: 'pointer',
+                fontFamily: "'Outfit', sans-serif",
+                flexShrink: 0,
+              }}
+            >
+              Review page
+            </button>
+          </div>
+        )}
+
+        {scannerState === 'reviewing-page' && (
+          <BinderPageReview
+            cells={binderPage}
+            onChangeCell={onUpdateBinderCell}
+            onConfirm={onConfirmPage}
+            onRescan={onRescanPage}
+          />
+        )}
+
         {/* ── Match confirmation — card info + Normal / Foil / Skip buttons ── */}
         {isMatched && lastMatch && (
           <div
@@ -463,6 +740,42 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
               zIndex: 3,
             }}
           >
+            {/* Rapid mode — countdown to logging as normal, or a foil to check by hand */}
+            {autoConfirmAt !== null && (
+              <div
+                style={{
+                  height: 3,
+                  marginBottom: 12,
+                  borderRadius: 2,
+                  background: 'rgba(255,255,255,0.1)',
+                  overflow: 'hidden',
+                }}
+              >
+                <div
+                  key={autoConfirmAt}
+                  style={{
+                    height: '100%',
+                    background: 'var(--success)',
+                    transformOrigin: 'left',
+                    animation: `scannerCountdown ${Math.max(0, autoConfirmAt - Date.now())}ms linear forwards`,
+                  }}
+                />
+              </div>
+            )}
+            {rapidMode && autoConfirmAt === null && !isConfidentlyNormal(foilEstimate) && (
+              <div
+                style={{
+                  marginBottom: 10,
+                  fontSize: 12,
+                  fontWeight: 600,
+                  color: '#c084fc',
+                  fontFamily: "'Outfit', sans-serif",
+                }}
+              >
+                {foilEstimate?.variant === 'foil' ? 'Possible foil' : "Couldn't tell if it's foil"} — check it and choose
+              </div>
+            )}
+
             {/* Card info row */}
             <div
               style={{
@@ -513,8 +826,46 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                     }}
                   >
                     {lastMatch.setName} · #{lastMatch.cn}
+                    {lastMatch.language && ' · ' + lastMatch.language.toUpperCase()}
+                    {(matchMethod === 'name' || matchMethod === 'cn+name') && ' · by name'}
+                    {matchMethod === 'cn+image' && ' · by art'}
                   </span>
                 </div>
+                {foilEstimate && (
+                  <div
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: 6,
+                      marginTop: 6,
+                      fontSize: 11,
+                      color: foilEstimate.variant === 'foil' ? '#c084fc' : 'rgba(255,255,255,0.5)',
+                      fontFamily: "'Outfit', sans-serif",
+                    }}
+                  >
+                    {foilEstimate.variant === 'foil' ? '✨ Looks foil' : 'Looks normal'}
+                    {/* Confidence bar */}
+                    <span
+                      style={{
+                        width: 40,
+                        height: 4,
+                        borderRadius: 2,
+                        background: 'rgba(255,255,255,0.15)',
+                        overflow: 'hidden',
+                      }}
+                    >
+                      <span
+                        style={{
+                          display: 'block',
+                          width: `${Math.round(foilEstimate.confidence * 100)}%`,
+                          height: '100%',
+                          background: foilEstimate.variant === 'foil' ? '#c084fc' : 'rgba(255,255,255,0.6)',
+                        }}
+                      />
+                    </span>
+                    {Math.round(foilEstimate.confidence * 100)}%
+                  </div>
+                )}
               </div>
               {/* Skip / wrong card button */}
               <button
@@ -545,10 +896,10 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                 style={{
                   flex: 1,
                   padding: '12px 0',
-                  background: 'var(--success)',
-                  border: 'none',
+                  background: suggestFoil ? 'rgba(52,199,89,0.15)' : 'var(--success)',
+                  border: suggestFoil ? '1.5px solid rgba(52,199,89,0.5)' : 'none',
                   borderRadius: 'var(--radius-md)',
-                  color: '#000',
+                  color: suggestFoil ? 'var(--success)' : '#000',
                   fontSize: 15,
                   fontWeight: 700,
                   cursor: 'pointer',
@@ -562,10 +913,10 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                 style={{
                   flex: 1,
                   padding: '12px 0',
-                  background: 'rgba(175,82,222,0.25)',
-                  border: '1.5px solid rgba(175,82,222,0.5)',
+                  background: suggestFoil ? '#af52de' : 'rgba(175,82,222,0.25)',
+                  border: suggestFoil ? 'none' : '1.5px solid rgba(175,82,222,0.5)',
                   borderRadius: 'var(--radius-md)',
-                  color: '#c084fc',
+                  color: suggestFoil ? '#fff' : '#c084fc',
                   fontSize: 15,
                   fontWeight: 700,
                   cursor: 'pointer',
@@ -574,7 +925,32 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
               >
                 Add Foil
               </button>
+              <button
+                aria-label="More variants"
+                aria-expanded={showMore}
+                onClick={() => {
+                  // Picking takes a moment — don't let rapid mode log it meanwhile
+                  onHoldMatch()
+                  setShowMore((v) => !v)
+                }}
+                style={{
+                  padding: '12px 14px',
+                  background: showMore ? 'rgba(255,255,255,0.2)' : 'rgba(255,255,255,0.1)',
+                  border: '1.5px solid rgba(255,255,255,0.2)',
+                  borderRadius: 'var(--radius-md)',
+                  color: 'rgba(255,255,255,0.8)',
+                  fontSize: 15,
+                  fontWeight: 700,
+                  cursor: 'pointer',
+                  fontFamily: "'Outfit', sans-serif",
+                }}
+              >
+                {showMore ? '▴' : '▾'}
+              </button>
             </div>
+            {showMore && (
+              <VariantPicker initialVariant={suggestFoil ? 'foil' : 'normal'} onAdd={onConfirmMatch} />
+            )}
           </div>
         )}
 
@@ -711,6 +1087,7 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
                         }}
                       >
                         {card.setName} · #{card.cn}
+                        {card.language && ' · ' + card.language.toUpperCase()}
                       </div>
                     </div>
                     <InkDot ink={card.ink} />
@@ -742,6 +1119,12 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
           >
             <div>Cam: <span style={{ color: '#aaf' }}>{debugInfo.videoRes || '?'}</span> | OCR: <span style={{ color: debugInfo.lastOcrConfidence >= 60 ? '#4f4' : debugInfo.lastOcrConfidence >= 40 ? '#ff4' : '#f84' }}>{Math.round(debugInfo.lastOcrConfidence)}%</span> "{debugInfo.lastOcrText}"</div>
             <div>CN: <span style={{ color: debugInfo.parsedCn !== '-' && debugInfo.parsedCn !== 'no match' ? '#4f4' : '#f84' }}>{debugInfo.parsedCn}</span> | Ink: <span style={{ color: debugInfo.inkConfidence >= 0.5 ? '#4f4' : debugInfo.inkConfidence >= 0.3 ? '#ff4' : '#f84' }}>{debugInfo.detectedInk} ({(debugInfo.inkConfidence * 100).toFixed(0)}%)</span></div>
+            {debugInfo.foilScore !== null && (
+              <div>Foil: <span style={{ color: '#c084fc' }}>{debugInfo.foilScore.toFixed(3)}</span></div>
+            )}
+            {debugInfo.nameOcrText && (
+              <div>Name: <span style={{ color: '#aaf' }}>"{debugInfo.nameOcrText}"</span></div>
+            )}
             <div>Match: <span style={{ color: debugInfo.matchResult.includes('(') ? '#4f4' : '#ff4' }}>{debugInfo.matchResult}</span></div>
           </div>
         )}
@@ -827,7 +1210,9 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
             },
             {
               label: 'Algorithm Crop',
-              desc: 'Card-shaped centre crop (inner 64×58% of frame)',
+              desc: debugCaptures.cardDetected
+                ? 'Detected card, warped upright'
+                : 'No card found — card-shaped centre crop (inner 64×58% of frame)',
               src: debugCaptures.algoCrop,
               border: '#f5a623',
             },
@@ -843,6 +1228,12 @@ export const ScannerOverlay: React.FC<ScannerOverlayProps> = ({
               src: debugCaptures.inkDotRegion,
               border: '#af52de',
             },
+            {
+              label: 'Card Name Region',
+              desc: 'Name banner — read when the collector number fails',
+              src: debugCaptures.nameRegion,
+              border: '#5ac8fa',
+            },
           ] as const).map((item) => (
             <div key={item.label} style={{ marginBottom: 20 }}>
               <div style={{ marginBottom: 6 }}>
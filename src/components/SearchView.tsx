@@ -1,7 +1,14 @@
-import React, { useMemo, useRef, useEffect } from 'react';
-import { Card, Pull, ScannerState } from '../types';
-import type { MatchMethod, ScannerDebugInfo, DebugCaptures } from '../hooks/useScanner';
-import { PACK_SIZE } from '../constants';
+import React, { useMemo, useRef, useEffect, useState } from 'react';
+import { Card, CardCondition, CardLanguage, CardVariant, Pack, Pull, ScannerState, VariantDetails } from '../types';
+import type { MatchMethod, ScannerDebugInfo, DebugCaptures, ScanMode } from '../hooks/useScanner';
+import type { BinderCell, BinderCellChange } from '../utils/binder-page';
+import type { FoilEstimate } from '../utils/foil-detector';
+import type { Quad } from '../utils/card-detector';
+import type { ImageAssistProgress } from '../hooks/useImageAssist';
+import { CARD_CONDITIONS, CARD_LANGUAGES, CONDITION_LABELS, LANGUAGE_LABELS, PACK_SIZE } from '../constants';
+import { cardRef, pullKey } from '../utils/card-language';
+import { copyLabel, isFoilVariant } from '../utils/variants';
+import { conditionsLabel, recordedCopies } from '../utils/conditions';
 import { inkGradientStyle } from '../utils/colour';
 import { rarityRowStyle, rarityNameColour } from '../utils/rarity-styles';
 import { InkDot } from './InkDot';
@@ -9,24 +16,40 @@ import { RarityBadge } from './RarityBadge';
 import { PackDivider } from './PackDivider';
 import { ScannerOverlay } from './ScannerOverlay';
 import { SetFilterDropdown } from './SetFilterDropdown';
+import { validatePacks } from '../utils/validation';
 
 interface SearchViewProps {
   search: string;
   setFilter: string;
   onSetFilterChange: (filter: string) => void;
+  /** Printing that search results are added in */
+  language: CardLanguage;
+  onLanguageChange: (language: CardLanguage) => void;
   setMap: Record<string, string>;
   setColours: Record<string, string>;
   results: Card[];
+  /** Matches past the results shown */
+  moreResults: number;
+  /** Why the search query doesn't parse */
+  queryError: string | null;
   selectedIdx: number;
   onSelectedIdxChange: (idx: number) => void;
   pulls: Pull[];
-  onAddCard: (card: Card, variant: 'normal' | 'foil', closeSearch?: boolean) => void;
+  onAddCard: (card: Card, variant: CardVariant, closeSearch?: boolean) => void;
   onUpdateCount: (key: string, delta: number) => void;
+  onSetCopyCondition: (key: string, condition: CardCondition) => void;
+  onClearConditions: (key: string) => void;
   onRemovePull: (key: string) => void;
   removingKey: string | null;
   firstInteraction: boolean;
   hintsDismissed: boolean;
   totalCards: number;
+  packs: Pack[];
+  currentPack: Pack | null;
+  totalPacks: number;
+  onClosePack: () => void;
+  onNewPack: () => void;
+  onPacksClick: () => void;
   confirmClear: boolean;
   onClearClick: () => void;
   onClearConfirm: () => void;
@@ -41,6 +64,10 @@ interface SearchViewProps {
   scannerState: ScannerState;
   lastMatch: Card | null;
   matchMethod: MatchMethod;
+  foilEstimate: FoilEstimate | null;
+  rapidMode: boolean;
+  autoConfirmAt: number | null;
+  onToggleRapidMode: () => void;
   candidates: Card[];
   scannerError: string | null;
   scanCount: number;
@@ -48,12 +75,26 @@ interface SearchViewProps {
   debugCaptures: DebugCaptures | null;
   lastOcrText: string;
   lastDetectedInk: string | null;
+  cardOutline: Quad | null;
+  imageAssistEnabled: boolean;
+  imageAssistProgress: ImageAssistProgress | null;
+  /** Image assist is on but has no set to index the art of */
+  imageAssistNeedsSet: boolean;
+  onToggleImageAssist: () => void;
+  scanMode: ScanMode;
+  binderPage: BinderCell[];
+  onToggleScanMode: () => void;
+  onReviewPage: () => void;
+  onUpdateBinderCell: (index: number, change: BinderCellChange) => void;
+  onConfirmPage: () => void;
+  onRescanPage: () => void;
   videoRef: React.RefObject<HTMLVideoElement | null>;
   cameraSupported: boolean;
   onOpenScanner: () => void;
   onCloseScanner: () => void;
   onSelectCandidate: (card: Card) => void;
-  onConfirmMatch: (variant: 'normal' | 'foil') => void;
+  onConfirmMatch: (variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => void;
+  onHoldMatch: () => void;
   onSkipMatch: () => void;
   onDismissDisambiguation: () => void;
   onCaptureDebug: () => void;
@@ -66,19 +107,31 @@ export const SearchView: React.FC<SearchViewProps> = ({
   search,
   setFilter,
   onSetFilterChange,
+  language,
+  onLanguageChange,
   setMap,
   setColours,
   results,
+  moreResults,
+  queryError,
   selectedIdx,
   onSelectedIdxChange,
   pulls,
   onAddCard,
   onUpdateCount,
+  onSetCopyCondition,
+  onClearConditions,
   onRemovePull,
   removingKey,
   firstInteraction,
   hintsDismissed,
   totalCards,
+  packs,
+  currentPack,
+  totalPacks,
+  onClosePack,
+  onNewPack,
+  onPacksClick,
   confirmClear,
   onClearClick,
   onClearConfirm,
@@ -92,6 +145,10 @@ export const SearchView: React.FC<SearchViewProps> = ({
   scannerState,
   lastMatch,
   matchMethod,
+  foilEstimate,
+  rapidMode,
+  autoConfirmAt,
+  onToggleRapidMode,
   candidates,
   scannerError,
   scanCount,
@@ -99,12 +156,25 @@ export const SearchView: React.FC<SearchViewProps> = ({
   debugCaptures,
   lastOcrText,
   lastDetectedInk,
+  cardOutline,
+  imageAssistEnabled,
+  imageAssistProgress,
+  imageAssistNeedsSet,
+  onToggleImageAssist,
+  scanMode,
+  binderPage,
+  onToggleScanMode,
+  onReviewPage,
+  onUpdateBinderCell,
+  onConfirmPage,
+  onRescanPage,
   videoRef,
   cameraSupported,
   onOpenScanner,
   onCloseScanner,
   onSelectCandidate,
   onConfirmMatch,
+  onHoldMatch,
   onSkipMatch,
   onDismissDisambiguation,
   onCaptureDebug,
@@ -112,6 +182,9 @@ export const SearchView: React.FC<SearchViewProps> = ({
   onToggleTelemetry,
   onExportDiagnostics,
 }) => {
+  // Pull whose condition picker is open
+  const [conditionKey, setConditionKey] = useState<string | null>(null);
+
   // Group pulls by set
   const groupedPulls = useMemo(() => {
     const groups: Record<string, Pull[]> = {};
@@ -129,8 +202,8 @@ export const SearchView: React.FC<SearchViewProps> = ({
   const resultItems = useMemo(() => {
     return results.map((card, idx) => {
       // Count for this card
-      const nKey = card.setCode + '-' + card.cn + '-normal';
-      const fKey = card.setCode + '-' + card.cn + '-foil';
+      const nKey = pullKey(card, 'normal');
+      const fKey = pullKey(card, 'foil');
       let nCount = 0;
       let fCount = 0;
       pulls.forEach((p) => {
@@ -140,7 +213,7 @@ export const SearchView: React.FC<SearchViewProps> = ({
 
       return (
         <div
-          key={card.setCode + '-' + card.cn}
+          key={cardRef(card)}
           className="result-item"
           style={{
             display: 'flex',
@@ -306,6 +379,8 @@ export const SearchView: React.FC<SearchViewProps> = ({
     });
   }, [results, selectedIdx, pulls, onSelectedIdxChange, onAddCard]);
 
+  const packWarnings = useMemo(() => validatePacks(packs, pulls), [packs, pulls]);
+
   // Build pull groups with dividers
   const pullGroups = useMemo(() => {
     const groups: JSX.Element[] = [];
@@ -343,7 +418,11 @@ export const SearchView: React.FC<SearchViewProps> = ({
         if (p.packNumber && p.packNumber !== lastPackInGroup) {
           lastPackInGroup = p.packNumber;
           items.push(
-            <PackDivider key={`pack-${p.packNumber}-${setName}`} packNumber={p.packNumber} />
+            <PackDivider
+              key={`pack-${p.packNumber}-${setName}`}
+              packNumber={p.packNumber}
+              warnings={packWarnings[p.packNumber]}
+            />
           );
         }
 
@@ -413,23 +492,103 @@ export const SearchView: React.FC<SearchViewProps> = ({
                   #{p.card.cn}
                 </span>
               </span>
-              {p.variant === 'foil' && (
+              {copyLabel(p.variant, p.details) && (
+                <span
+                  style={{
+                    fontSize: 9,
+                    fontWeight: 700,
+                    color: isFoilVariant(p.variant) ? 'var(--foil)' : 'var(--text-secondary)',
+                    background: isFoilVariant(p.variant) ? 'rgba(191,90,242,0.1)' : 'var(--bg-elevated)',
+                    padding: '2px 6px',
+                    borderRadius: 'var(--radius-sm)',
+                    letterSpacing: '0.05em',
+                    flexShrink: 0,
+                  }}
+                >
+                  {isFoilVariant(p.variant) && '✦ '}
+                  {copyLabel(p.variant, p.details).toUpperCase()}
+                </span>
+              )}
+              {p.card.language && (
                 <span
+                  title={LANGUAGE_LABELS[p.card.language]}
                   style={{
                     fontSize: 9,
                     fontWeight: 700,
-                    color: 'var(--foil)',
-                    background: 'rgba(191,90,242,0.1)',
+                    color: 'var(--text-secondary)',
+                    background: 'var(--bg-elevated)',
                     padding: '2px 6px',
                     borderRadius: 'var(--radius-sm)',
                     letterSpacing: '0.05em',
                     flexShrink: 0,
                   }}
                 >
-                  ✦ FOIL
+                  {p.card.language.toUpperCase()}
                 </span>
               )}
               <RarityBadge rarity={p.card.rarity} />
+              <button
+                title="Condition of each copy"
+                onClick={() => setConditionKey(conditionKey === p.key ? null : p.key)}
+                style={{
+                  fontSize: 9,
+                  fontWeight: 700,
+                  color: p.conditions ? 'var(--text-secondary)' : 'var(--text-tertiary)',
+                  background: conditionKey === p.key ? 'var(--bg-elevated)' : 'transparent',
+                  border: '1px dashed var(--border)',
+                  padding: '2px 6px',
+                  borderRadius: 'var(--radius-sm)',
+                  letterSpacing: '0.05em',
+                  flexShrink: 0,
+                  cursor: 'pointer',
+                }}
+              >
+                {conditionsLabel(p.conditions) || 'CONDITION'}
+              </button>
+              {conditionKey === p.key && (
+                <div style={{ flexBasis: '100%', display: 'flex', alignItems: 'center', gap: 4, flexWrap: 'wrap' }}>
+                  {CARD_CONDITIONS.map((c) => (
+                    <button
+                      key={c}
+                      title={CONDITION_LABELS[c]}
+                      disabled={recordedCopies(p.conditions) >= p.count}
+                      onClick={() => onSetCopyCondition(p.key, c)}
+                      style={{
+                        padding: '4px 8px',
+                        background: 'var(--bg-elevated)',
+                        border: 'none',
+                        borderRadius: 'var(--radius-full)',
+                        color: 'var(--text-primary)',
+                        fontSize: 11,
+                        fontWeight: 600,
+                        cursor: 'pointer',
+                        opacity: recordedCopies(p.conditions) >= p.count ? 0.4 : 1,
+                      }}
+                    >
+                      {c}
+                      {p.conditions?.[c] ? ' ' + p.conditions[c] : ''}
+                    </button>
+                  ))}
+                  {p.conditions && (
+                    <button
+                      onClick={() => onClearConditions(p.key)}
+                      style={{
+                        padding: '4px 8px',
+                        background: 'none',
+                        border: 'none',
+                        color: 'var(--text-tertiary)',
+                        fontSize: 11,
+                        cursor: 'pointer',
+                      }}
+                    >
+                      Clear
+                    </button>
+                  )}
+                  <span style={{ fontSize: 11, color: 'var(--text-tertiary)' }}>
+                    {recordedCopies(p.conditions)}/{p.count} recorded
+                  </span>
+                </div>
+              )}
             </div>
 
             {/* Quantity controls */}
@@ -522,7 +681,20 @@ export const SearchView: React.FC<SearchViewProps> = ({
       );
     });
     return groups;
-  }, [groupedPulls, removingKey, onUpdateCount, onRemovePull]);
+  }, [groupedPulls, packWarnings, removingKey, conditionKey, onUpdateCount, onSetCopyCondition, onClearConditions, onRemovePull]);
+
+  const packButtonStyle: React.CSSProperties = {
+    padding: '5px 10px',
+    background: 'transparent',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius-sm)',
+    color: 'var(--text-secondary)',
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: 'pointer',
+    fontFamily: "'Outfit', sans-serif",
+    flexShrink: 0,
+  };
 
   return (
     <div
@@ -552,6 +724,36 @@ export const SearchView: React.FC<SearchViewProps> = ({
             setColours={setColours}
           />
 
+          {/* Printing language — results are added as this language's cards */}
+          <div
+            role="radiogroup"
+            aria-label="Card language"
+            style={{ display: 'flex', gap: 6, marginBottom: 10 }}
+          >
+            {CARD_LANGUAGES.map((lang) => (
+              <button
+                key={lang}
+                role="radio"
+                aria-checked={language === lang}
+                title={LANGUAGE_LABELS[lang]}
+                onClick={() => onLanguageChange(lang)}
+                style={{
+                  padding: '4px 10px',
+                  background: language === lang ? 'rgba(245,166,35,0.12)' : 'transparent',
+                  border: language === lang ? '1px solid #F5A623' : '1px solid var(--border)',
+                  borderRadius: 'var(--radius-sm)',
+                  color: language === lang ? '#F5A623' : 'var(--text-secondary)',
+                  fontSize: 12,
+                  fontWeight: 600,
+                  cursor: 'pointer',
+                  fontFamily: "'Outfit', sans-serif",
+                }}
+              >
+                {lang.toUpperCase()}
+              </button>
+            ))}
+          </div>
+
           {/* Search input + camera button row */}
           <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
             <div
@@ -686,20 +888,34 @@ export const SearchView: React.FC<SearchViewProps> = ({
             </div>
           )}
 
+          {/* Matches past the shown results */}
+          {moreResults > 0 && (
+            <div
+              style={{
+                padding: '6px 12px',
+                textAlign: 'center',
+                color: 'var(--text-tertiary)',
+                fontSize: 12,
+              }}
+            >
+              {moreResults} more — narrow the search to see them
+            </div>
+          )}
+
           {/* No results message */}
           {search.trim().length > 0 && results.length === 0 && (
             <div
               style={{
                 padding: 16,
                 textAlign: 'center',
-                color: 'var(--text-tertiary)',
+                color: queryError ? 'var(--danger)' : 'var(--text-tertiary)',
                 fontSize: 13,
                 background: 'var(--bg-surface)',
                 borderRadius: 'var(--radius-md)',
                 marginTop: 4,
               }}
             >
-              No cards found for "{search}"
+              {queryError ?? `No cards found for "${search}"`}
             </div>
           )}
 
@@ -720,6 +936,7 @@ export const SearchView: React.FC<SearchViewProps> = ({
               <span>Right-click = add foil</span>
               <span>↑↓ navigate</span>
               <span>#number = find by number</span>
+              <span>ink:ruby cost&gt;=5 = filter</span>
             </div>
           )}
 
@@ -833,6 +1050,48 @@ export const SearchView: React.FC<SearchViewProps> = ({
               ))}
           </div>
 
+          {/* Pack status */}
+          {(totalCards > 0 || currentPack) && (
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 8,
+                padding: '8px 12px',
+                marginBottom: 12,
+                background: 'var(--bg-surface)',
+                border: '1px solid var(--border)',
+                borderRadius: 'var(--radius-md)',
+                fontSize: 13,
+              }}
+            >
+              <span style={{ flex: 1, color: 'var(--text-secondary)', fontVariantNumeric: 'tabular-nums' }}>
+                {currentPack ? (
+                  <>
+                    <span style={{ color: 'var(--accent)', fontWeight: 600 }}>Pack {currentPack.number}</span>
+                    {' · '}
+                    {currentPack.cards.length}/{PACK_SIZE}
+                  </>
+                ) : (
+                  'No pack open — the next card starts a new one'
+                )}
+              </span>
+              {currentPack && currentPack.cards.length > 0 && (
+                <button style={packButtonStyle} onClick={onClosePack}>
+                  Close pack
+                </button>
+              )}
+              <button style={packButtonStyle} onClick={onNewPack}>
+                New pack
+              </button>
+              {totalPacks > 0 && (
+                <button style={{ ...packButtonStyle, color: 'var(--accent)' }} onClick={onPacksClick}>
+                  Packs
+                </button>
+              )}
+            </div>
+          )}
+
           {/* Empty state or pulls list */}
           {totalCards === 0 ? (
             <div style={{
@@ -927,6 +1186,10 @@ export const SearchView: React.FC<SearchViewProps> = ({
           scannerState={scannerState}
           lastMatch={lastMatch}
           matchMethod={matchMethod}
+          foilEstimate={foilEstimate}
+          rapidMode={rapidMode}
+          autoConfirmAt={autoConfirmAt}
+          onToggleRapidMode={onToggleRapidMode}
           candidates={candidates}
           error={scannerError}
           scanCount={scanCount}
@@ -934,11 +1197,24 @@ export const SearchView: React.FC<SearchViewProps> = ({
           debugCaptures={debugCaptures}
           lastOcrText={lastOcrText}
           lastDetectedInk={lastDetectedInk}
+          cardOutline={cardOutline}
+          imageAssistEnabled={imageAssistEnabled}
+          imageAssistProgress={imageAssistProgress}
+          imageAssistNeedsSet={imageAssistNeedsSet}
+          onToggleImageAssist={onToggleImageAssist}
+          scanMode={scanMode}
+          binderPage={binderPage}
+          onToggleScanMode={onToggleScanMode}
+          onReviewPage={onReviewPage}
+          onUpdateBinderCell={onUpdateBinderCell}
+          onConfirmPage={onConfirmPage}
+          onRescanPage={onRescanPage}
           videoRef={videoRef}
           onClose={onCloseScanner}
           onRetry={onOpenScanner}
           onSelectCandidate={onSelectCandidate}
           onConfirmMatch={onConfirmMatch}
+          onHoldMatch={onHoldMatch}
           onSkipMatch={onSkipMatch}
           onDismissDisambiguation={onDismissDisambiguation}
           onCaptureDebug={onCaptureDebug}
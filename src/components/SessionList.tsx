@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { Session } from '../types';
+
+interface SessionListProps {
+  sessions: Session[];
+  activeId: number | null;
+  onSwitch: (id: number) => void;
+  onCreate: () => void;
+  onArchive: (id: number) => void;
+  onRestore: (id: number) => void;
+  onDelete: (id: number) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+const smallButtonStyle: React.CSSProperties = {
+  padding: '3px 8px',
+  background: 'transparent',
+  border: '1px solid var(--border)',
+  borderRadius: 'var(--radius-sm)',
+  color: 'var(--text-secondary)',
+  fontSize: 11,
+  cursor: 'pointer',
+  fontFamily: "'Outfit', sans-serif",
+  flexShrink: 0,
+};
+
+/**
+ * Session switcher panel shown under the header. Newest sessions first;
+ * archived ones are tucked behind a toggle. Delete asks for a second click
+ * because it also removes the session's pulls and packs.
+ */
+export const SessionList: React.FC<SessionListProps> = ({
+  sessions,
+  activeId,
+  onSwitch,
+  onCreate,
+  onArchive,
+  onRestore,
+  onDelete,
+}) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<number | null>(null);
+
+  const newestFirst = [...sessions].reverse();
+  const open = newestFirst.filter((s) => !s.archivedAt);
+  const archived = newestFirst.filter((s) => s.archivedAt);
+
+  const renderRow = (session: Session) => {
+    const isActive = session.id === activeId;
+    const isArchived = !!session.archivedAt;
+    return (
+      <div
+        key={session.id}
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 6,
+          padding: '6px 8px',
+          borderRadius: 'var(--radius-sm)',
+          background: isActive ? 'var(--accent-subtle)' : 'transparent',
+        }}
+      >
+        <button
+          style={{
+            flex: 1,
+            minWidth: 0,
+            textAlign: 'left',
+            background: 'none',
+            border: 'none',
+            padding: 0,
+            cursor: isActive ? 'default' : 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+            color: isArchived ? 'var(--text-tertiary)' : 'var(--text-primary)',
+          }}
+          onClick={() => {
+            if (!isActive) onSwitch(session.id);
+          }}
+        >
+          <div
+            style={{
+              fontSize: 13,
+              fontWeight: isActive ? 600 : 500,
+              whiteSpace: 'nowrap',
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+            }}
+          >
+            {isActive && <span style={{ color: 'var(--accent)' }}>✓ </span>}
+            {session.name}
+          </div>
+          <div style={{ fontSize: 11, color: 'var(--text-tertiary)' }}>
+            {session.startedAt ? 'Started ' + formatDate(session.startedAt) : 'Not started'}
+            {isArchived && ' · archived'}
+          </div>
+        </button>
+        {isArchived ? (
+          <button style={smallButtonStyle} onClick={() => onRestore(session.id)}>
+            Restore
+          </button>
+        ) : (
+          <button style={smallButtonStyle} onClick={() => onArchive(session.id)}>
+            Archive
+          </button>
+        )}
+        {confirmDeleteId === session.id ? (
+          <button
+            style={{ ...smallButtonStyle, borderColor: 'var(--danger)', color: 'var(--danger)' }}
+            onClick={() => {
+              setConfirmDeleteId(null);
+              onDelete(session.id);
+            }}
+            onBlur={() => setConfirmDeleteId(null)}
+          >
+            Delete pulls too?
+          </button>
+        ) : (
+          <button style={smallButtonStyle} onClick={() => setConfirmDeleteId(session.id)}>
+            Delete
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        zIndex: 1,
+        marginTop: 4,
+        marginBottom: 8,
+        padding: 8,
+        background: 'var(--bg-surface)',
+        border: '1px solid var(--border)',
+        borderRadius: 'var(--radius-md)',
+        maxHeight: 320,
+        overflowY: 'auto',
+      }}
+    >
+      <button
+        style={{
+          width: '100%',
+          padding: '8px 10px',
+          marginBottom: 4,
+          background: 'transparent',
+          border: '1px dashed var(--border)',
+          borderRadius: 'var(--radius-sm)',
+          color: 'var(--accent)',
+          fontSize: 13,
+          fontWeight: 600,
+          cursor: 'pointer',
+          fontFamily: "'Outfit', sans-serif",
+          textAlign: 'left',
+        }}
+        onClick={onCreate}
+      >
+        + New session
+      </button>
+
+      {open.map(renderRow)}
+
+      {archived.length > 0 && (
+        <>
+          <button
+            style={{
+              background: 'none',
+              border: 'none',
+              color: 'var(--text-tertiary)',
+              fontSize: 11,
+              cursor: 'pointer',
+              padding: '8px 8px 4px',
+              fontFamily: "'Outfit', sans-serif",
+            }}
+            onClick={() => setShowArchived((v) => !v)}
+          >
+            {showArchived ? '▾' : '▸'} Archived ({archived.length})
+          </button>
+          {showArchived && archived.map(renderRow)}
+        </>
+      )}
+    </div>
+  );
+};
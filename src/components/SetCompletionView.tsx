@@ -0,0 +1,370 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CollectionEntry } from '../types';
+import { INK_COLOURS, RARITY_ORDER } from '../constants';
+import {
+  CompletionVariant,
+  computeSetCompletion,
+  completionRatio,
+  missingCards,
+  groupMissing,
+} from '../utils/set-completion';
+import { InkDot } from './InkDot';
+import { RarityBadge } from './RarityBadge';
+
+interface SetCompletionViewProps {
+  cards: Card[];
+  owned: Record<string, CollectionEntry>;
+  setMap: Record<string, string>;
+  setColours: Record<string, string>;
+  onBack: () => void;
+}
+
+const IconBack = () => (
+  <svg
+    style={{ width: 16, height: 16, marginRight: 4 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <line x1={19} y1={12} x2={5} y2={12} />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+);
+
+/** Circular progress ring with the percentage in the middle. */
+const CompletionRing: React.FC<{ ratio: number; colour: string }> = ({ ratio, colour }) => {
+  const r = 18;
+  const circumference = 2 * Math.PI * r;
+  return (
+    <svg width={44} height={44} viewBox="0 0 44 44" style={{ flexShrink: 0 }}>
+      <circle cx={22} cy={22} r={r} fill="none" stroke="var(--border)" strokeWidth={4} />
+      <circle
+        cx={22}
+        cy={22}
+        r={r}
+        fill="none"
+        stroke={colour}
+        strokeWidth={4}
+        strokeLinecap="round"
+        strokeDasharray={circumference}
+        strokeDashoffset={circumference * (1 - ratio)}
+        transform="rotate(-90 22 22)"
+        style={{ transition: 'stroke-dashoffset 300ms ease' }}
+      />
+      <text
+        x={22}
+        y={26}
+        textAnchor="middle"
+        fontSize={11}
+        fontWeight={700}
+        fill="var(--text-primary)"
+        style={{ fontFamily: "'Outfit', sans-serif" }}
+      >
+        {Math.floor(ratio * 100)}%
+      </text>
+    </svg>
+  );
+};
+
+const VARIANT_OPTIONS: { value: CompletionVariant; label: string }[] = [
+  { value: 'any', label: 'Any' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'foil', label: 'Foil' },
+];
+
+export const SetCompletionView: React.FC<SetCompletionViewProps> = ({
+  cards,
+  owned,
+  setMap,
+  setColours,
+  onBack,
+}) => {
+  const [variant, setVariant] = useState<CompletionVariant>('any');
+  const [rarityFilter, setRarityFilter] = useState('all');
+  const [inkFilter, setInkFilter] = useState<string | null>(null);
+  const [expandedSet, setExpandedSet] = useState<string | null>(null);
+
+  const completion = useMemo(
+    () => computeSetCompletion(cards, owned, setMap),
+    [cards, owned, setMap],
+  );
+
+  const chipStyle = (active: boolean): React.CSSProperties => ({
+    padding: '4px 10px',
+    background: active ? 'var(--accent-subtle)' : 'transparent',
+    border: active ? '1px solid var(--accent)' : '1px solid var(--border)',
+    borderRadius: 'var(--radius-full)',
+    color: active ? 'var(--accent)' : 'var(--text-secondary)',
+    fontSize: 12,
+    fontWeight: 600,
+    cursor: 'pointer',
+    fontFamily: "'Outfit', sans-serif",
+    display: 'flex',
+    alignItems: 'center',
+    gap: 4,
+  });
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--bg-base)',
+        color: 'var(--text-primary)',
+        animation: 'viewSlideInRight 250ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+      }}
+    >
+      {/* Sticky header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 24px',
+          borderBottom: '1px solid var(--border)',
+          position: 'sticky',
+          top: 0,
+          background: 'var(--bg-base)',
+          zIndex: 100,
+        }}
+      >
+        <h1
+          style={{
+            fontSize: 20,
+            fontWeight: 700,
+            letterSpacing: '-0.02em',
+            fontFamily: "'Cinzel', serif",
+          }}
+        >
+          Set Completion
+        </h1>
+        <button
+          style={{
+            padding: '8px 16px',
+            background: 'transparent',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-sm)',
+            color: 'var(--text-secondary)',
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+            display: 'flex',
+            alignItems: 'center',
+          }}
+          onClick={onBack}
+        >
+          <IconBack />
+          Back
+        </button>
+      </div>
+
+      {/* Content */}
+      <div
+        className="view-content"
+        style={{
+          maxWidth: 600,
+          margin: '0 auto',
+          padding: '24px 16px',
+        }}
+      >
+        {completion.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '48px 20px' }}>
+            <p style={{ color: 'var(--text-secondary)', fontSize: 16, fontWeight: 500 }}>
+              Card database not loaded yet
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Filters */}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
+              <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+                {VARIANT_OPTIONS.map((o) => (
+                  <button
+                    key={o.value}
+                    style={chipStyle(variant === o.value)}
+                    onClick={() => setVariant(o.value)}
+                  >
+                    {o.label}
+                  </button>
+                ))}
+                <select
+                  value={rarityFilter}
+                  onChange={(ev) => setRarityFilter(ev.target.value)}
+                  style={{
+                    marginLeft: 'auto',
+                    padding: '4px 8px',
+                    background: 'var(--bg-surface)',
+                    border: '1px solid var(--border)',
+                    borderRadius: 'var(--radius-sm)',
+                    color: 'var(--text-secondary)',
+                    fontSize: 12,
+                    fontFamily: "'Outfit', sans-serif",
+                  }}
+                >
+                  <option value="all">All rarities</option>
+                  {RARITY_ORDER.map((r) => (
+                    <option key={r} value={r}>
+                      {r}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+                {Object.keys(INK_COLOURS).map((ink) => (
+                  <button
+                    key={ink}
+                    style={chipStyle(inkFilter === ink)}
+                    onClick={() => setInkFilter(inkFilter === ink ? null : ink)}
+                  >
+                    <InkDot ink={ink} size={8} />
+                    {ink}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Set list */}
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+              {completion.map((set) => {
+                const isExpanded = expandedSet === set.setCode;
+                const ratio = completionRatio(set, variant);
+                const missing = isExpanded
+                  ? missingCards(set, owned, variant).filter((c) => {
+                      const rarity = c.rarity === 'Super_rare' ? 'Super Rare' : c.rarity;
+                      if (rarityFilter !== 'all' && rarity !== rarityFilter) return false;
+                      if (inkFilter && !c.ink.split('/').includes(inkFilter)) return false;
+                      return true;
+                    })
+                  : [];
+
+                return (
+                  <div
+                    key={set.setCode}
+                    style={{
+                      background: 'var(--bg-surface)',
+                      border: '1px solid var(--border)',
+                      borderRadius: 'var(--radius-md)',
+                      overflow: 'hidden',
+                      boxShadow: 'var(--shadow-elevated)',
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 12,
+                        padding: '12px 14px',
+                        cursor: 'pointer',
+                      }}
+                      onClick={() => setExpandedSet(isExpanded ? null : set.setCode)}
+                    >
+                      <CompletionRing ratio={ratio} colour={setColours[set.setCode] || 'var(--accent)'} />
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div
+                          style={{
+                            fontSize: 15,
+                            fontWeight: 500,
+                            whiteSpace: 'nowrap',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            letterSpacing: '-0.01em',
+                          }}
+                        >
+                          {set.setName}
+                        </div>
+                        <div
+                          style={{
+                            fontSize: 12,
+                            color: 'var(--text-secondary)',
+                            marginTop: 3,
+                            fontVariantNumeric: 'tabular-nums',
+                            display: 'flex',
+                            gap: 8,
+                          }}
+                        >
+                          <span>
+                            {set.ownedNormal}/{set.total} normal
+                          </span>
+                          <span style={{ color: 'var(--foil)' }}>
+                            ✦ {set.ownedFoil}/{set.total} foil
+                          </span>
+                        </div>
+                      </div>
+                      <span
+                        style={{
+                          fontSize: 12,
+                          color: 'var(--text-tertiary)',
+                          transition: 'transform 200ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+                          transform: isExpanded ? 'rotate(180deg)' : 'rotate(0deg)',
+                          display: 'inline-block',
+                        }}
+                      >
+                        ▼
+                      </span>
+                    </div>
+
+                    {isExpanded && (
+                      <div
+                        style={{
+                          padding: '12px 14px',
+                          borderTop: '1px solid var(--border)',
+                          animation: 'fadeIn 200ms ease-out',
+                        }}
+                      >
+                        {missing.length === 0 ? (
+                          <div style={{ fontSize: 13, color: 'var(--success)' }}>
+                            Nothing missing here ✓
+                          </div>
+                        ) : (
+                          groupMissing(missing).map((group) => (
+                            <div key={group.rarity} style={{ marginBottom: 10 }}>
+                              <div style={{ marginBottom: 4 }}>
+                                <RarityBadge rarity={group.rarity} />
+                              </div>
+                              {group.inks.map(({ ink, cards: inkCards }) => (
+                                <div
+                                  key={ink}
+                                  style={{
+                                    display: 'flex',
+                                    alignItems: 'flex-start',
+                                    gap: 8,
+                                    padding: '3px 0',
+                                    fontSize: 12,
+                                  }}
+                                >
+                                  <span style={{ marginTop: 3 }}>
+                                    <InkDot ink={ink} size={7} />
+                                  </span>
+                                  <span
+                                    style={{
+                                      color: 'var(--text-secondary)',
+                                      fontVariantNumeric: 'tabular-nums',
+                                      lineHeight: 1.6,
+                                    }}
+                                  >
+                                    {inkCards.map((c) => (
+                                      <span key={c.cn} title={c.display} style={{ marginRight: 8 }}>
+                                        #{c.cn}
+                                      </span>
+                                    ))}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
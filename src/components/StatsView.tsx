@@ -0,0 +1,379 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { readAllData } from '../db';
+import { INK_COLOURS, RARITY_COLOURS } from '../constants';
+import { computePullStats, Estimate, samplesFromData, ShareRow, StatsSample } from '../utils/pull-stats';
+import { SetFilterDropdown } from './SetFilterDropdown';
+
+interface StatsViewProps {
+  setMap: Record<string, string>;
+  setColours: Record<string, string>;
+  onBack: () => void;
+}
+
+const IconBack = () => (
+  <svg
+    style={{ width: 16, height: 16, marginRight: 4 }}
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <line x1={19} y1={12} x2={5} y2={12} />
+    <polyline points="12 19 5 12 12 5" />
+  </svg>
+);
+
+const percent = (v: number) => (v * 100).toFixed(1) + '%';
+const rate = (v: number) => v.toFixed(3);
+
+/** "yyyy-mm-dd" from a date input → epoch ms at the start (or end) of that day. */
+const parseDay = (value: string, endOfDay: boolean): number | null => {
+  if (!value) return null;
+  const [y, m, d] = value.split('-').map(Number);
+  const date = endOfDay ? new Date(y!, m! - 1, d!, 23, 59, 59, 999) : new Date(y!, m! - 1, d!);
+  return isNaN(date.getTime()) ? null : date.getTime();
+};
+
+/** Horizontal bar with the value marked and the confidence interval shaded. */
+const IntervalBar: React.FC<{ estimate: Estimate; max: number; colour: string }> = ({
+  estimate,
+  max,
+  colour,
+}) => {
+  const scale = (v: number) => (max > 0 ? Math.min(v / max, 1) * 100 : 0) + '%';
+  return (
+    <div
+      style={{
+        position: 'relative',
+        height: 8,
+        background: 'var(--bg-elevated)',
+        borderRadius: 4,
+        overflow: 'hidden',
+      }}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          left: scale(estimate.low),
+          width: `calc(${scale(estimate.high)} - ${scale(estimate.low)})`,
+          top: 0,
+          bottom: 0,
+          background: colour,
+          opacity: 0.25,
+        }}
+      />
+      <div
+        style={{
+          position: 'absolute',
+          left: 0,
+          width: scale(estimate.value),
+          top: 2,
+          bottom: 2,
+          background: colour,
+          borderRadius: 3,
+        }}
+      />
+    </div>
+  );
+};
+
+export const StatsView: React.FC<StatsViewProps> = ({ setMap, setColours, onBack }) => {
+  const [samples, setSamples] = useState<StatsSample[]>([]);
+  const [setFilter, setSetFilter] = useState('all');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  // Every session's pulls are in IndexedDB, not just the active one's
+  useEffect(() => {
+    let cancelled = false;
+    readAllData().then((data) => {
+      if (!cancelled && data) setSamples(samplesFromData(data));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const stats = useMemo(
+    () =>
+      computePullStats(samples, {
+        setCode: setFilter,
+        from: parseDay(fromDay, false),
+        to: parseDay(toDay, true),
+      }),
+    [samples, setFilter, fromDay, toDay],
+  );
+
+  const sectionStyle: React.CSSProperties = {
+    background: 'var(--bg-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius-lg)',
+    padding: '16px 18px',
+    marginBottom: 16,
+  };
+
+  const headingStyle: React.CSSProperties = {
+    fontSize: 10,
+    fontWeight: 700,
+    textTransform: 'uppercase',
+    letterSpacing: '0.1em',
+    color: 'var(--text-tertiary)',
+    marginBottom: 10,
+  };
+
+  const dateInputStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '8px 10px',
+    background: 'var(--bg-surface)',
+    border: '1px solid var(--border)',
+    borderRadius: 'var(--radius-sm)',
+    color: 'var(--text-primary)',
+    fontSize: 13,
+    fontFamily: "'Outfit', sans-serif",
+    colorScheme: 'dark',
+  };
+
+  const intervalText = (e: Estimate, format: (v: number) => string) =>
+    '95% CI ' + format(e.low) + '–' + format(e.high);
+
+  const renderShares = (rows: ShareRow[], colourOf: (label: string) => string) => {
+    const max = Math.max(...rows.map((r) => r.estimate.high), 0);
+    return rows.map((row) => (
+      <div key={row.label} style={{ marginBottom: 10 }}>
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            fontSize: 13,
+            marginBottom: 4,
+            fontVariantNumeric: 'tabular-nums',
+          }}
+        >
+          <span style={{ color: colourOf(row.label), fontWeight: 500 }}>{row.label}</span>
+          <span>
+            {percent(row.estimate.value)}{' '}
+            <span style={{ color: 'var(--text-tertiary)', fontSize: 11 }}>
+              ({row.estimate.count}) · {intervalText(row.estimate, percent)}
+            </span>
+          </span>
+        </div>
+        <IntervalBar estimate={row.estimate} max={max} colour={colourOf(row.label)} />
+      </div>
+    ));
+  };
+
+  const maxLegendaryRate = Math.max(...stats.legendaryBySet.map((s) => s.estimate.high), 0);
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        background: 'var(--bg-base)',
+        color: 'var(--text-primary)',
+        animation: 'viewSlideInRight 250ms cubic-bezier(0.25, 0.1, 0.25, 1.0)',
+      }}
+    >
+      {/* Sticky header */}
+      <div
+        style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          padding: '16px 24px',
+          borderBottom: '1px solid var(--border)',
+          position: 'sticky',
+          top: 0,
+          background: 'var(--bg-base)',
+          zIndex: 100,
+        }}
+      >
+        <h1
+          style={{
+            fontSize: 20,
+            fontWeight: 700,
+            letterSpacing: '-0.02em',
+            fontFamily: "'Cinzel', serif",
+          }}
+        >
+          Pull Rates
+        </h1>
+        <button
+          style={{
+            padding: '8px 16px',
+            background: 'transparent',
+            border: '1px solid var(--border)',
+            borderRadius: 'var(--radius-sm)',
+            color: 'var(--text-secondary)',
+            fontSize: 14,
+            fontWeight: 600,
+            cursor: 'pointer',
+            fontFamily: "'Outfit', sans-serif",
+            display: 'flex',
+            alignItems: 'center',
+          }}
+          onClick={onBack}
+        >
+          <IconBack />
+          Back
+        </button>
+      </div>
+
+      {/* Content */}
+      <div
+        className="view-content"
+        style={{
+          maxWidth: 600,
+          margin: '0 auto',
+          padding: '24px 16px',
+        }}
+      >
+        {/* Filters */}
+        <SetFilterDropdown
+          value={setFilter}
+          onChange={setSetFilter}
+          setMap={setMap}
+          setColours={setColours}
+        />
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 16 }}>
+          <input
+            type="date"
+            aria-label="From date"
+            style={dateInputStyle}
+            value={fromDay}
+            max={toDay || undefined}
+            onChange={(ev) => setFromDay(ev.target.value)}
+          />
+          <span style={{ color: 'var(--text-tertiary)', fontSize: 13 }}>to</span>
+          <input
+            type="date"
+            aria-label="To date"
+            style={dateInputStyle}
+            value={toDay}
+            min={fromDay || undefined}
+            onChange={(ev) => setToDay(ev.target.value)}
+          />
+        </div>
+
+        {/* Summary */}
+        <div
+          style={{
+            display: 'flex',
+            justifyContent: 'center',
+            gap: 8,
+            fontSize: 13,
+            fontVariantNumeric: 'tabular-nums',
+            flexWrap: 'wrap',
+            marginBottom: 16,
+          }}
+        >
+          <span style={{ color: 'var(--text-primary)' }}>
+            {stats.packs} pack{stats.packs !== 1 ? 's' : ''}
+          </span>
+          <span style={{ color: 'var(--text-secondary)' }}>
+            · {stats.cards} card{stats.cards !== 1 ? 's' : ''}
+          </span>
+          <span style={{ color: 'var(--text-tertiary)' }}>
+            · {stats.samples} session{stats.samples !== 1 ? 's' : ''}
+          </span>
+        </div>
+
+        {stats.packs === 0 ? (
+          <div style={{ textAlign: 'center', padding: '48px 20px' }}>
+            <p style={{ color: 'var(--text-secondary)', fontSize: 16, fontWeight: 500, marginBottom: 4 }}>
+              No packs recorded for these filters
+            </p>
+            <p style={{ color: 'var(--text-tertiary)', fontSize: 13 }}>
+              Stats come from your sessions and export history
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Enchanted rate */}
+            <div style={sectionStyle}>
+              <div style={headingStyle}>Enchanted per pack</div>
+              <div style={{ display: 'flex', alignItems: 'baseline', gap: 10, fontVariantNumeric: 'tabular-nums' }}>
+                <span style={{ fontSize: 28, fontWeight: 700, color: 'var(--foil)' }}>
+                  {rate(stats.enchantedPerPack.value)}
+                </span>
+                <span style={{ fontSize: 12, color: 'var(--text-tertiary)' }}>
+                  {stats.enchantedPerPack.count} in {stats.packs} packs ·{' '}
+                  {intervalText(stats.enchantedPerPack, rate)}
+                </span>
+              </div>
+              {stats.enchantedPerPack.value > 0 && (
+                <div style={{ fontSize: 12, color: 'var(--text-secondary)', marginTop: 4 }}>
+                  About one every {Math.round(1 / stats.enchantedPerPack.value)} packs
+                </div>
+              )}
+            </div>
+
+            {/* Legendary rate per set */}
+            <div style={sectionStyle}>
+              <div style={headingStyle}>Legendaries per pack, by set</div>
+              {stats.legendaryBySet.map((s) => (
+                <div key={s.setCode} style={{ marginBottom: 10 }}>
+                  <div
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      fontSize: 13,
+                      marginBottom: 4,
+                      fontVariantNumeric: 'tabular-nums',
+                      gap: 8,
+                    }}
+                  >
+                    <span
+                      style={{
+                        color: 'var(--text-secondary)',
+                        whiteSpace: 'nowrap',
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                      }}
+                    >
+                      {s.setName}
+                    </span>
+                    <span style={{ flexShrink: 0 }}>
+                      {rate(s.estimate.value)}{' '}
+                      <span style={{ color: 'var(--text-tertiary)', fontSize: 11 }}>
+                        ({s.estimate.count}/{s.estimate.total}) · {intervalText(s.estimate, rate)}
+                      </span>
+                    </span>
+                  </div>
+                  <IntervalBar
+                    estimate={s.estimate}
+                    max={maxLegendaryRate}
+                    colour={setColours[s.setCode] ?? RARITY_COLOURS.Legendary!}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Foil rarity distribution */}
+            <div style={sectionStyle}>
+              <div style={headingStyle}>Foil rarity distribution</div>
+              {stats.foilRarity.length === 0 ? (
+                <div style={{ fontSize: 13, color: 'var(--text-tertiary)' }}>No foils logged</div>
+              ) : (
+                renderShares(stats.foilRarity, (r) => RARITY_COLOURS[r] ?? 'var(--text-secondary)')
+              )}
+            </div>
+
+            {/* Ink distribution */}
+            <div style={sectionStyle}>
+              <div style={headingStyle}>Ink distribution</div>
+              {renderShares(stats.ink, (ink) => INK_COLOURS[ink] ?? 'var(--text-secondary)')}
+            </div>
+
+            <p style={{ fontSize: 11, color: 'var(--text-tertiary)', lineHeight: 1.5 }}>
+              Shaded bands are 95% confidence intervals — they narrow as you log more packs. Exports
+              made before packs were tracked estimate their pack count as one per 12 cards.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react'
+import type { CardCondition, CardVariant, GradingCompany, VariantDetails } from '../types'
+import { CARD_CONDITIONS, CARD_VARIANTS, CONDITION_LABELS, GRADING_COMPANIES, VARIANT_LABELS } from '../constants'
+import { cleanDetails, isFoilVariant, variantLabel } from '../utils/variants'
+
+interface VariantPickerProps {
+  /** Variant selected when the picker opens */
+  initialVariant: CardVariant
+  onAdd: (variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => void
+}
+
+// 10 down to 1 in half grades
+const GRADES = Array.from({ length: 19 }, (_, i) => String(10 - i / 2))
+
+const chipStyle = (active: boolean): React.CSSProperties => ({
+  padding: '5px 10px',
+  background: active ? 'rgba(255,255,255,0.9)' : 'rgba(255,255,255,0.1)',
+  border: '1px solid ' + (active ? 'transparent' : 'rgba(255,255,255,0.2)'),
+  borderRadius: 'var(--radius-full)',
+  color: active ? '#000' : 'rgba(255,255,255,0.75)',
+  fontSize: 12,
+  fontWeight: 600,
+  cursor: 'pointer',
+  fontFamily: "'Outfit', sans-serif",
+})
+
+const selectStyle: React.CSSProperties = {
+  padding: '5px 8px',
+  background: 'rgba(255,255,255,0.1)',
+  border: '1px solid rgba(255,255,255,0.2)',
+  borderRadius: 'var(--radius-sm)',
+  color: '#fff',
+  fontSize: 12,
+  fontFamily: "'Outfit', sans-serif",
+}
+
+const labelStyle: React.CSSProperties = {
+  fontSize: 11,
+  color: 'rgba(255,255,255,0.45)',
+  marginBottom: 6,
+}
+
+/**
+ * The scanner's "More" options: any variant, plus condition, grade and
+ * signature for the copy being confirmed.
+ */
+export const VariantPicker: React.FC<VariantPickerProps> = ({ initialVariant, onAdd }) => {
+  const [variant, setVariant] = useState<CardVariant>(initialVariant)
+  const [condition, setCondition] = useState<CardCondition | null>(null)
+  const [company, setCompany] = useState<GradingCompany | ''>('')
+  const [grade, setGrade] = useState('10')
+  const [signed, setSigned] = useState(false)
+
+  const details = cleanDetails({ grade: company ? { company, grade } : undefined, signed })
+
+  return (
+    <div style={{ marginTop: 12, fontFamily: "'Outfit', sans-serif" }}>
+      <div style={labelStyle}>Variant</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 10 }}>
+        {CARD_VARIANTS.map((v) => (
+          <button key={v} onClick={() => setVariant(v)} style={chipStyle(variant === v)}>
+            {VARIANT_LABELS[v]}
+          </button>
+        ))}
+      </div>
+
+      <div style={labelStyle}>Condition</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 10 }}>
+        <button onClick={() => setCondition(null)} style={chipStyle(condition === null)}>
+          —
+        </button>
+        {CARD_CONDITIONS.map((c) => (
+          <button key={c} title={CONDITION_LABELS[c]} onClick={() => setCondition(c)} style={chipStyle(condition === c)}>
+            {c}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+        <select
+          aria-label="Grading company"
+          value={company}
+          onChange={(e) => setCompany(e.target.value as GradingCompany | '')}
+          style={selectStyle}
+        >
+          <option value="">Ungraded</option>
+          {GRADING_COMPANIES.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+        {company && (
+          <select aria-label="Grade" value={grade} onChange={(e) => setGrade(e.target.value)} style={selectStyle}>
+            {GRADES.map((g) => (
+              <option key={g} value={g}>
+                {g}
+              </option>
+            ))}
+          </select>
+        )}
+        <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 12, color: 'rgba(255,255,255,0.75)' }}>
+          <input type="checkbox" checked={signed} onChange={(e) => setSigned(e.target.checked)} />
+          Signed
+        </label>
+      </div>
+
+      <button
+        onClick={() => onAdd(variant, details, condition ?? undefined)}
+        style={{
+          width: '100%',
+          padding: '12px 0',
+          background: isFoilVariant(variant) ? '#af52de' : 'var(--success)',
+          border: 'none',
+          borderRadius: 'var(--radius-md)',
+          color: isFoilVariant(variant) ? '#fff' : '#000',
+          fontSize: 15,
+          fontWeight: 700,
+          cursor: 'pointer',
+          fontFamily: "'Outfit', sans-serif",
+        }}
+      >
+        Add {[variantLabel(variant, details), condition].filter(Boolean).join(' · ')}
+      </button>
+    </div>
+  )
+}
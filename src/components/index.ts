@@ -7,3 +7,10 @@ export { Header } from './Header';
 export { ExportView } from './ExportView';
 export { HistoryView } from './HistoryView';
 export { SearchView } from './SearchView';
+export { CollectionView } from './CollectionView';
+export { SetCompletionView } from './SetCompletionView';
+export { ImportView } from './ImportView';
+export { BackupView } from './BackupView';
+export { PacksView } from './PacksView';
+export { StatsView } from './StatsView';
+export { SessionList } from './SessionList';
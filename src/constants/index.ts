@@ -1,3 +1,13 @@
 export { INK_COLOURS } from './inks'
 export { SET_MAP, SET_COLOURS } from './sets'
-export { RARITY_COLOURS, PACK_SIZE } from './rarities'
+export { RARITY_COLOURS, RARITY_ORDER, PACK_SIZE } from './rarities'
+export { PACK_TEMPLATES, packTemplateFor } from './pack-templates'
+export { CARD_LANGUAGES, LANGUAGE_LABELS } from './languages'
+export {
+  CARD_VARIANTS,
+  VARIANT_LABELS,
+  FOIL_VARIANTS,
+  GRADING_COMPANIES,
+  CARD_CONDITIONS,
+  CONDITION_LABELS,
+} from './variants'
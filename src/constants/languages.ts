@@ -0,0 +1,13 @@
+import type { CardLanguage } from '../types'
+
+/** Languages Lorcana is printed in, English first. */
+export const CARD_LANGUAGES: CardLanguage[] = ['en', 'fr', 'de', 'it', 'ja']
+
+/** Names for language pickers, in their own language. */
+export const LANGUAGE_LABELS: Record<CardLanguage, string> = {
+  en: 'English',
+  fr: 'Français',
+  de: 'Deutsch',
+  it: 'Italiano',
+  ja: '日本語',
+}
@@ -0,0 +1,47 @@
+import { PACK_SIZE } from './rarities'
+
+/** One group of slots in a booster, filled from the listed rarities. */
+export interface PackSlot {
+  label: string
+  rarities: string[]
+  count: number
+  /** The foil slot takes a foil of any rarity instead */
+  foil?: boolean
+}
+
+/** Slot layout of a booster pack, used to flag packs that can't be real. */
+export interface PackTemplate {
+  size: number
+  slots: PackSlot[]
+  /** Most copies of a rarity one pack can plausibly hold */
+  maxPerRarity: Record<string, number>
+}
+
+const RARE_OR_BETTER = ['Rare', 'Super Rare', 'Super_rare', 'Legendary', 'Epic', 'Iconic']
+
+export const DEFAULT_PACK_TEMPLATE: PackTemplate = {
+  size: PACK_SIZE,
+  slots: [
+    { label: 'common', rarities: ['Common'], count: 6 },
+    { label: 'uncommon', rarities: ['Uncommon'], count: 3 },
+    { label: 'rare-or-better card', rarities: RARE_OR_BETTER, count: 2 },
+    { label: 'foil', rarities: [], count: 1, foil: true },
+  ],
+  maxPerRarity: { Legendary: 2, Epic: 1, Iconic: 1, Enchanted: 1 },
+}
+
+/**
+ * Slot template per booster set. Sets not listed use the default layout;
+ * promo sets map to null because they aren't sold in boosters.
+ */
+export const PACK_TEMPLATES: Record<string, PackTemplate | null> = {
+  P1: null,
+  P2: null,
+  cp: null,
+  D23: null,
+}
+
+export function packTemplateFor(setCode: string): PackTemplate | null {
+  const template = PACK_TEMPLATES[setCode]
+  return template === undefined ? DEFAULT_PACK_TEMPLATE : template
+}
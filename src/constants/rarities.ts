@@ -12,3 +12,17 @@ export const RARITY_COLOURS: Record<string, string> = {
 }
 
 export const PACK_SIZE = 12
+
+/** Display order for rarity groupings, lowest to highest. */
+export const RARITY_ORDER = [
+  'Common',
+  'Uncommon',
+  'Rare',
+  'Super Rare',
+  'Legendary',
+  'Epic',
+  'Enchanted',
+  'Iconic',
+  'Special',
+  'Promo',
+]
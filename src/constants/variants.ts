@@ -0,0 +1,29 @@
+import type { CardCondition, CardVariant, GradingCompany } from '../types'
+
+/** Variants in picker order, booster-pack ones first. */
+export const CARD_VARIANTS: CardVariant[] = ['normal', 'foil', 'cold-foil', 'enchanted', 'stamped', 'oversized']
+
+export const VARIANT_LABELS: Record<CardVariant, string> = {
+  normal: 'Normal',
+  foil: 'Foil',
+  'cold-foil': 'Cold Foil',
+  enchanted: 'Enchanted',
+  stamped: 'Stamped',
+  oversized: 'Oversized',
+}
+
+/** Variants with a foil finish — they fill a pack's foil slot and count as foils. */
+export const FOIL_VARIANTS: CardVariant[] = ['foil', 'cold-foil', 'enchanted']
+
+export const GRADING_COMPANIES: GradingCompany[] = ['PSA', 'BGS', 'CGC', 'SGC']
+
+/** Best first. */
+export const CARD_CONDITIONS: CardCondition[] = ['NM', 'LP', 'MP', 'HP', 'DMG']
+
+export const CONDITION_LABELS: Record<CardCondition, string> = {
+  NM: 'Near Mint',
+  LP: 'Lightly Played',
+  MP: 'Moderately Played',
+  HP: 'Heavily Played',
+  DMG: 'Damaged',
+}
@@ -0,0 +1,58 @@
+import type { CollectionEntry, ExportHistoryEntry, Pack, Session } from '../types'
+import { STORES, ACTIVE_SESSION_KEY } from './schema'
+import type { PullRecord } from './schema'
+import { getAllRecords, getMeta, withTransaction } from './database'
+
+/** Every record the database holds, as written to a backup archive. */
+export interface BackupData {
+  sessions: Session[]
+  pulls: PullRecord[]
+  packs: Pack[]
+  exports: ExportHistoryEntry[]
+  collection: CollectionEntry[]
+  activeSessionId: number | null
+}
+
+const DATA_STORES = [STORES.sessions, STORES.pulls, STORES.packs, STORES.exports, STORES.collection] as const
+
+/** Read the whole database, or null if it can't be read. */
+export async function readAllData(): Promise<BackupData | null> {
+  try {
+    const [sessions, pulls, packs, exports, collection, activeSessionId] = await Promise.all([
+      getAllRecords<Session>(STORES.sessions),
+      getAllRecords<PullRecord>(STORES.pulls),
+      getAllRecords<Pack>(STORES.packs),
+      getAllRecords<ExportHistoryEntry>(STORES.exports),
+      getAllRecords<CollectionEntry>(STORES.collection),
+      getMeta<number>(ACTIVE_SESSION_KEY),
+    ])
+    return { sessions, pulls, packs, exports, collection, activeSessionId: activeSessionId ?? null }
+  } catch (err) {
+    console.error('[db] Failed to read data for backup:', err)
+    return null
+  }
+}
+
+/**
+ * Swap the database contents for `data` in a single transaction, so a failed
+ * restore leaves the existing data untouched.
+ */
+export async function replaceAllData(data: BackupData): Promise<boolean> {
+  try {
+    await withTransaction([...DATA_STORES, STORES.meta], 'readwrite', (tx) => {
+      DATA_STORES.forEach((name) => tx.objectStore(name).clear())
+      data.sessions.forEach((s) => tx.objectStore(STORES.sessions).put(s))
+      data.pulls.forEach((p) => tx.objectStore(STORES.pulls).put(p))
+      data.packs.forEach((p) => tx.objectStore(STORES.packs).put(p))
+      data.exports.forEach((e) => tx.objectStore(STORES.exports).put(e))
+      data.collection.forEach((c) => tx.objectStore(STORES.collection).put(c))
+      const meta = tx.objectStore(STORES.meta)
+      if (data.activeSessionId == null) meta.delete(ACTIVE_SESSION_KEY)
+      else meta.put({ key: ACTIVE_SESSION_KEY, value: data.activeSessionId })
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to restore backup:', err)
+    return false
+  }
+}
@@ -0,0 +1,48 @@
+import type { ExportHistoryEntry, Session } from '../types'
+import { buildCollection } from '../utils/collection'
+import type { CollectionSeed } from '../utils/collection'
+import { STORES } from './schema'
+import type { PullRecord } from './schema'
+
+/**
+ * Seed the collection store from everything logged before it existed:
+ * every export history snapshot plus the pulls of any unexported session.
+ * Runs inside the upgrade transaction, chaining reads through callbacks.
+ */
+export function backfillCollection(tx: IDBTransaction): void {
+  const exportsReq = tx.objectStore(STORES.exports).getAll()
+  exportsReq.onsuccess = () => {
+    const exports = exportsReq.result as ExportHistoryEntry[]
+
+    const sessionsReq = tx.objectStore(STORES.sessions).getAll()
+    sessionsReq.onsuccess = () => {
+      const sessions = sessionsReq.result as Session[]
+
+      const pullsReq = tx.objectStore(STORES.pulls).getAll()
+      pullsReq.onsuccess = () => {
+        const pulls = pullsReq.result as PullRecord[]
+
+        const sources: CollectionSeed[] = exports.map((entry) => ({
+          pulls: entry.pulls,
+          source: { sessionId: null, sessionName: entry.sessionName, at: entry.timestamp },
+        }))
+
+        sessions.forEach((session) => {
+          const sessionPulls = pulls.filter((p) => p.sessionId === session.id)
+          if (sessionPulls.length === 0) return
+          sources.push({
+            pulls: sessionPulls,
+            source: {
+              sessionId: session.id,
+              sessionName: session.name,
+              at: session.startedAt ?? session.id,
+            },
+          })
+        })
+
+        const store = tx.objectStore(STORES.collection)
+        Object.values(buildCollection(sources)).forEach((entry) => store.put(entry))
+      }
+    }
+  }
+}
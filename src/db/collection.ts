@@ -0,0 +1,36 @@
+import type { CollectionEntry } from '../types'
+import { STORES } from './schema'
+import { getAllRecords, withTransaction } from './database'
+
+export async function loadCollection(): Promise<CollectionEntry[]> {
+  try {
+    return await getAllRecords<CollectionEntry>(STORES.collection)
+  } catch (err) {
+    console.error('[db] Failed to load collection:', err)
+    return []
+  }
+}
+
+export async function putCollectionEntry(entry: CollectionEntry): Promise<boolean> {
+  try {
+    await withTransaction(STORES.collection, 'readwrite', (tx) => {
+      tx.objectStore(STORES.collection).put(entry)
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save collection entry:', err)
+    return false
+  }
+}
+
+export async function deleteCollectionEntry(key: string): Promise<boolean> {
+  try {
+    await withTransaction(STORES.collection, 'readwrite', (tx) => {
+      tx.objectStore(STORES.collection).delete(key)
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to delete collection entry:', err)
+    return false
+  }
+}
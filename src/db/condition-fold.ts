@@ -0,0 +1,146 @@
+import type {
+  CardCondition,
+  CollectionEntry,
+  ConditionCounts,
+  ExportHistoryEntry,
+  HistoryPull,
+  Pack,
+  VariantDetails,
+} from '../types'
+import { pullKey } from '../utils/card-language'
+import { mergeConditions } from '../utils/conditions'
+import { cleanDetails } from '../utils/variants'
+import { STORES } from './schema'
+import type { PullRecord } from './schema'
+
+/** Details as first stored with promo variants, when condition was one of them. */
+type LegacyDetails = VariantDetails & { condition?: CardCondition }
+
+interface Keyed {
+  key: string
+  variant: PullRecord['variant']
+  details?: LegacyDetails
+  card: Pick<PullRecord['card'], 'setCode' | 'cn' | 'language'>
+}
+
+/** Condition suffix ended a key: "1-12-foil-psa10-lp" */
+const CONDITION_SUFFIX = /-(nm|lp|mp|hp|dmg)$/
+
+/**
+ * The record without a condition in its details and key, with the condition
+ * that was there. The key's suffix counts too, for records whose details
+ * have since been cleaned.
+ */
+function fold<T extends Keyed>(record: T): { record: T; condition: CardCondition | null } {
+  const suffix = record.key.match(CONDITION_SUFFIX)?.[1]
+  const condition = record.details?.condition ?? ((suffix?.toUpperCase() as CardCondition | undefined) ?? null)
+  if (!condition) return { record, condition }
+  const details = cleanDetails(record.details)
+  const { details: _legacy, ...rest } = record
+  return {
+    record: { ...rest, ...(details ? { details } : {}), key: pullKey(record.card, record.variant, details) } as T,
+    condition,
+  }
+}
+
+/**
+ * Fold condition details into per-copy condition counts. Returns the records
+ * re-keyed and merged, and whether anything changed.
+ */
+function foldCounted<T extends Keyed & { count: number; conditions?: ConditionCounts }>(
+  records: T[],
+): { records: T[]; changed: boolean } {
+  const byKey = new Map<string, T>()
+  let changed = false
+  records.forEach((original) => {
+    const { record, condition } = fold(original)
+    const counted = condition
+      ? { ...record, conditions: mergeConditions(record.conditions, { [condition]: record.count }) }
+      : record
+    if (condition) changed = true
+    const existing = byKey.get(counted.key)
+    if (!existing) {
+      byKey.set(counted.key, counted)
+      return
+    }
+    byKey.set(counted.key, {
+      ...existing,
+      count: existing.count + counted.count,
+      conditions: mergeConditions(existing.conditions, counted.conditions),
+    })
+  })
+  return { records: [...byKey.values()], changed }
+}
+
+/**
+ * Move condition out of variant details, where promo variants first stored
+ * it, into each pull's condition counts, and drop its "-nm" / "-lp" / ...
+ * suffix from keys. Pulls of one card that only differed by condition become
+ * one pull; packs, collection entries and export snapshots follow the new
+ * keys. Runs inside the upgrade transaction.
+ */
+export function foldDetailConditions(tx: IDBTransaction): void {
+  const pullsReq = tx.objectStore(STORES.pulls).getAll()
+  pullsReq.onsuccess = () => {
+    const pulls = (pullsReq.result as PullRecord[]).sort((a, b) => a.order - b.order)
+    const pullStore = tx.objectStore(STORES.pulls)
+    // Old key → new key, per session, for the packs
+    const renamed = new Map<number, Map<string, string>>()
+
+    const sessionIds = [...new Set(pulls.map((p) => p.sessionId))]
+    sessionIds.forEach((sessionId) => {
+      const sessionPulls = pulls.filter((p) => p.sessionId === sessionId)
+      const { records, changed } = foldCounted(sessionPulls)
+      if (!changed) return
+      const keys = new Map<string, string>()
+      sessionPulls.forEach((p) => keys.set(p.key, fold(p).record.key))
+      renamed.set(sessionId, keys)
+      // Merged pulls keep the place and pack of the first one logged
+      sessionPulls.forEach((p) => pullStore.delete([sessionId, p.key]))
+      records.forEach((p) => pullStore.put(p))
+    })
+
+    if (renamed.size === 0) return
+    const packsReq = tx.objectStore(STORES.packs).getAll()
+    packsReq.onsuccess = () => {
+      const packStore = tx.objectStore(STORES.packs)
+      ;(packsReq.result as Pack[]).forEach((pack) => {
+        const keys = renamed.get(pack.sessionId)
+        if (!keys) return
+        packStore.put({ ...pack, cards: pack.cards.map((key) => keys.get(key) ?? key) })
+      })
+    }
+  }
+
+  const collectionReq = tx.objectStore(STORES.collection).getAll()
+  collectionReq.onsuccess = () => {
+    const store = tx.objectStore(STORES.collection)
+    const byKey = new Map<string, CollectionEntry>()
+    let changed = false
+    ;(collectionReq.result as CollectionEntry[]).forEach((original) => {
+      const { record: entry, condition } = fold(original)
+      if (condition) {
+        changed = true
+        store.delete(original.key)
+      }
+      const existing = byKey.get(entry.key)
+      if (!existing) {
+        byKey.set(entry.key, entry)
+        return
+      }
+      const first = existing.firstPulledAt <= entry.firstPulledAt ? existing : entry
+      byKey.set(entry.key, { ...first, count: existing.count + entry.count })
+    })
+    if (changed) byKey.forEach((entry) => store.put(entry))
+  }
+
+  const exportsReq = tx.objectStore(STORES.exports).getAll()
+  exportsReq.onsuccess = () => {
+    const store = tx.objectStore(STORES.exports)
+    ;(exportsReq.result as ExportHistoryEntry[]).forEach((entry) => {
+      const { records, changed } = foldCounted<HistoryPull>(entry.pulls)
+      // The stored file is what was downloaded at the time, so it stays as is
+      if (changed) store.put({ ...entry, pulls: records })
+    })
+  }
+}
@@ -0,0 +1,122 @@
+import { DB_NAME, STORES } from './schema'
+import type { StoreName, MetaRecord } from './schema'
+import { MIGRATIONS, DB_VERSION } from './migrations'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/** Wrap a single IDBRequest in a promise. */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** Resolve once a transaction commits; reject if it errors or aborts. */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+}
+
+/**
+ * Apply every migration newer than the on-disk version, in version order.
+ */
+function runMigrations(db: IDBDatabase, tx: IDBTransaction, oldVersion: number): void {
+  MIGRATIONS
+    .filter((m) => m.version > oldVersion)
+    .sort((a, b) => a.version - b.version)
+    .forEach((m) => m.migrate(db, tx))
+}
+
+/**
+ * Open (and upgrade, if needed) the app database. The connection is shared —
+ * repeated calls return the same promise until the connection is closed.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (ev) => {
+      runMigrations(request.result, request.transaction!, ev.oldVersion)
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Another tab is upgrading the schema — let go so it isn't blocked
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+
+    request.onerror = () => reject(request.error)
+  })
+
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+
+  return dbPromise
+}
+
+/** Close the shared connection. The next openDatabase() call reopens it. */
+export async function closeDatabase(): Promise<void> {
+  if (!dbPromise) return
+  const pending = dbPromise
+  dbPromise = null
+  try {
+    const db = await pending
+    db.close()
+  } catch {
+    // Never opened — nothing to close
+  }
+}
+
+/**
+ * Run `fn` against a fresh transaction and resolve once it commits.
+ * `fn` must issue its requests synchronously (or from request callbacks) —
+ * awaiting anything else lets the transaction auto-commit early.
+ */
+export async function withTransaction<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => T,
+): Promise<T> {
+  const db = await openDatabase()
+  const tx = db.transaction(storeNames, mode)
+  const done = transactionDone(tx)
+  const result = fn(tx)
+  await done
+  return result
+}
+
+/** Read every record from a store. */
+export async function getAllRecords<T>(storeName: StoreName): Promise<T[]> {
+  const db = await openDatabase()
+  const request = db.transaction(storeName, 'readonly').objectStore(storeName).getAll()
+  return (await requestToPromise(request)) as T[]
+}
+
+export async function getMeta<T>(key: string): Promise<T | undefined> {
+  const db = await openDatabase()
+  const request = db.transaction(STORES.meta, 'readonly').objectStore(STORES.meta).get(key)
+  const record = (await requestToPromise(request)) as MetaRecord | undefined
+  return record?.value as T | undefined
+}
+
+export function setMeta(key: string, value: unknown): Promise<void> {
+  return withTransaction(STORES.meta, 'readwrite', (tx) => {
+    tx.objectStore(STORES.meta).put({ key, value })
+  })
+}
@@ -0,0 +1,26 @@
+import type { ExportHistoryEntry } from '../types'
+import { STORES } from './schema'
+import { getAllRecords, withTransaction } from './database'
+
+/** Load every export history entry, newest first. */
+export async function loadExportHistory(): Promise<ExportHistoryEntry[]> {
+  try {
+    const entries = await getAllRecords<ExportHistoryEntry>(STORES.exports)
+    return entries.sort((a, b) => b.id - a.id)
+  } catch (err) {
+    console.error('[db] Failed to load export history:', err)
+    return []
+  }
+}
+
+export async function addExportEntry(entry: ExportHistoryEntry): Promise<boolean> {
+  try {
+    await withTransaction(STORES.exports, 'readwrite', (tx) => {
+      tx.objectStore(STORES.exports).put(entry)
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save export entry:', err)
+    return false
+  }
+}
@@ -0,0 +1,27 @@
+import type { CardHash } from '../types'
+import { STORES } from './schema'
+import { getAllRecords, withTransaction } from './database'
+
+export async function loadHashIndex(): Promise<CardHash[]> {
+  try {
+    return await getAllRecords<CardHash>(STORES.hashes)
+  } catch (err) {
+    console.error('[db] Failed to load card-art index:', err)
+    return []
+  }
+}
+
+/** Swap the stored card-art index for `entries` in a single transaction. */
+export async function replaceHashIndex(entries: CardHash[]): Promise<boolean> {
+  try {
+    await withTransaction(STORES.hashes, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.hashes)
+      store.clear()
+      entries.forEach((e) => store.put(e))
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save card-art index:', err)
+    return false
+  }
+}
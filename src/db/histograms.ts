@@ -0,0 +1,40 @@
+import { STORES } from './schema'
+import type { HistogramRecord } from './schema'
+import { withTransaction } from './database'
+
+/** Stored histograms for the given image URLs, keyed by URL. Missing ones are left out. */
+export async function loadHistograms(imageUrls: string[]): Promise<Record<string, number[]>> {
+  try {
+    const found: Record<string, number[]> = {}
+    await withTransaction(STORES.histograms, 'readonly', (tx) => {
+      const store = tx.objectStore(STORES.histograms)
+      imageUrls.forEach((url) => {
+        const request = store.get(url)
+        request.onsuccess = () => {
+          const record = request.result as HistogramRecord | undefined
+          if (record) found[url] = record.hist
+        }
+      })
+    })
+    return found
+  } catch (err) {
+    console.error('[db] Failed to load histograms:', err)
+    return {}
+  }
+}
+
+export async function saveHistograms(histograms: Record<string, number[]>): Promise<boolean> {
+  try {
+    await withTransaction(STORES.histograms, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.histograms)
+      Object.entries(histograms).forEach(([imageUrl, hist]) => {
+        const record: HistogramRecord = { imageUrl, hist }
+        store.put(record)
+      })
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save histograms:', err)
+    return false
+  }
+}
@@ -0,0 +1,12 @@
+export { openDatabase, closeDatabase } from './database'
+export { loadActiveSession, saveActiveSession, loadSessions, saveSession, deleteSession } from './sessions'
+export { loadPulls, replacePulls } from './pulls'
+export { loadPacks, replacePacks } from './packs'
+export { loadExportHistory, addExportEntry } from './exports'
+export { loadCollection, putCollectionEntry, deleteCollectionEntry } from './collection'
+export { loadHistograms, saveHistograms } from './histograms'
+export { loadHashIndex, replaceHashIndex } from './hashes'
+export { loadLocalisedNames, saveLocalisedNames } from './localised-names'
+export { readAllData, replaceAllData } from './backup'
+export type { BackupData } from './backup'
+export type { PullRecord, LocalisedNamesRecord } from './schema'
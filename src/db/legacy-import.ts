@@ -0,0 +1,55 @@
+import type { ExportHistoryEntry, Pull, Session } from '../types'
+import { SafeStorage } from '../utils/safe-storage'
+import { STORES, ACTIVE_SESSION_KEY } from './schema'
+import type { PullRecord } from './schema'
+
+/** localStorage keys that held session data before the IndexedDB move. */
+export const LEGACY_KEYS = {
+  sessionName: 'lorcana_session_name',
+  sessionStarted: 'lorcana_session_started',
+  addCount: 'lorcana_session_add_count',
+  pulls: 'lorcana_session_pulls',
+  exportHistory: 'lorcana_export_history',
+} as const
+
+/**
+ * One-time import of the pre-IndexedDB localStorage data into the new stores.
+ *
+ * Called from the v1 migration, so it shares the upgrade transaction: either
+ * every record lands or none do. The legacy keys are only removed once the
+ * transaction has committed, so an aborted upgrade never loses data.
+ */
+export function importLegacyStorage(tx: IDBTransaction): void {
+  const name = SafeStorage.getItem(LEGACY_KEYS.sessionName)
+  const started = SafeStorage.getItem(LEGACY_KEYS.sessionStarted)
+  const addCount = SafeStorage.getItem(LEGACY_KEYS.addCount)
+  const pulls = SafeStorage.getJSON<Pull[]>(LEGACY_KEYS.pulls, [])
+  const history = SafeStorage.getJSON<ExportHistoryEntry[]>(LEGACY_KEYS.exportHistory, [])
+
+  if (name !== null || started !== null || addCount !== null || pulls.length > 0) {
+    const startedAt = started ? parseInt(started, 10) : null
+    // Sessions from this era also carried their add count, which numbered packs
+    const session: Session & { addCount: number } = {
+      id: startedAt || Date.now(),
+      name: name || '',
+      startedAt,
+      addCount: addCount ? parseInt(addCount, 10) : 0,
+    }
+    tx.objectStore(STORES.sessions).put(session)
+    tx.objectStore(STORES.meta).put({ key: ACTIVE_SESSION_KEY, value: session.id })
+
+    const pullStore = tx.objectStore(STORES.pulls)
+    pulls.forEach((p, order) => {
+      const record: PullRecord = { ...p, sessionId: session.id, order }
+      pullStore.put(record)
+    })
+  }
+
+  // Every entry comes across — the old 50-entry cap no longer applies
+  const exportStore = tx.objectStore(STORES.exports)
+  history.forEach((entry) => exportStore.put(entry))
+
+  tx.addEventListener('complete', () => {
+    Object.values(LEGACY_KEYS).forEach((key) => SafeStorage.removeItem(key))
+  })
+}
@@ -0,0 +1,26 @@
+import { STORES } from './schema'
+import type { LocalisedNamesRecord } from './schema'
+import { getAllRecords, withTransaction } from './database'
+
+/** Every language's stored names. */
+export async function loadLocalisedNames(): Promise<LocalisedNamesRecord[]> {
+  try {
+    return await getAllRecords<LocalisedNamesRecord>(STORES.localisedNames)
+  } catch (err) {
+    console.error('[db] Failed to load localised names:', err)
+    return []
+  }
+}
+
+/** Store one language's names, replacing what was stored for it. */
+export async function saveLocalisedNames(record: LocalisedNamesRecord): Promise<boolean> {
+  try {
+    await withTransaction(STORES.localisedNames, 'readwrite', (tx) => {
+      tx.objectStore(STORES.localisedNames).put(record)
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save localised names:', err)
+    return false
+  }
+}
@@ -0,0 +1,81 @@
+import { STORES } from './schema'
+import { importLegacyStorage } from './legacy-import'
+import { backfillCollection } from './collection-backfill'
+import { backfillPacks } from './packs-backfill'
+import { foldDetailConditions } from './condition-fold'
+
+export interface Migration {
+  version: number
+  description: string
+  /**
+   * Runs inside the versionchange transaction, so a failure aborts the whole
+   * upgrade and leaves the previous schema (and any legacy data) untouched.
+   */
+  migrate: (db: IDBDatabase, tx: IDBTransaction) => void
+}
+
+/**
+ * Numbered schema migrations. Append only — never edit a migration that has
+ * shipped, add a new one with the next version number instead.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create sessions, pulls, exports and meta stores; import localStorage data',
+    migrate(db, tx) {
+      db.createObjectStore(STORES.sessions, { keyPath: 'id' })
+      const pulls = db.createObjectStore(STORES.pulls, { keyPath: ['sessionId', 'key'] })
+      pulls.createIndex('bySession', 'sessionId')
+      db.createObjectStore(STORES.exports, { keyPath: 'id' })
+      db.createObjectStore(STORES.meta, { keyPath: 'key' })
+      importLegacyStorage(tx)
+    },
+  },
+  {
+    version: 2,
+    description: 'Add collection store, backfilled from export history and open sessions',
+    migrate(db, tx) {
+      db.createObjectStore(STORES.collection, { keyPath: 'key' })
+      backfillCollection(tx)
+    },
+  },
+  {
+    version: 3,
+    description: 'Add packs store, backfilled from each pull\'s pack number',
+    migrate(db, tx) {
+      const packs = db.createObjectStore(STORES.packs, { keyPath: ['sessionId', 'number'] })
+      packs.createIndex('bySession', 'sessionId')
+      backfillPacks(tx)
+    },
+  },
+  {
+    version: 4,
+    description: 'Add histograms store caching card-image colour histograms',
+    migrate(db) {
+      db.createObjectStore(STORES.histograms, { keyPath: 'imageUrl' })
+    },
+  },
+  {
+    version: 5,
+    description: 'Add hashes store for the imported offline card-art index',
+    migrate(db) {
+      db.createObjectStore(STORES.hashes, { keyPath: 'key' })
+    },
+  },
+  {
+    version: 6,
+    description: 'Add localisedNames store caching non-English card names per language',
+    migrate(db) {
+      db.createObjectStore(STORES.localisedNames, { keyPath: 'language' })
+    },
+  },
+  {
+    version: 7,
+    description: 'Move condition out of variant details and pull keys into per-copy condition counts',
+    migrate(_db, tx) {
+      foldDetailConditions(tx)
+    },
+  },
+]
+
+export const DB_VERSION = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0)
@@ -0,0 +1,28 @@
+import type { Session } from '../types'
+import { buildPacksFromPulls } from '../utils/packs'
+import { STORES } from './schema'
+import type { PullRecord } from './schema'
+
+/**
+ * Create pack records for sessions logged before packs were stored, using
+ * each pull's pack number. Runs inside the upgrade transaction.
+ */
+export function backfillPacks(tx: IDBTransaction): void {
+  const sessionsReq = tx.objectStore(STORES.sessions).getAll()
+  sessionsReq.onsuccess = () => {
+    const sessions = sessionsReq.result as Session[]
+
+    const pullsReq = tx.objectStore(STORES.pulls).getAll()
+    pullsReq.onsuccess = () => {
+      const pulls = (pullsReq.result as PullRecord[]).sort((a, b) => a.order - b.order)
+      const store = tx.objectStore(STORES.packs)
+
+      sessions.forEach((session) => {
+        const sessionPulls = pulls.filter((p) => p.sessionId === session.id)
+        buildPacksFromPulls(session.id, sessionPulls, session.startedAt ?? session.id).forEach(
+          (pack) => store.put(pack),
+        )
+      })
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import type { Pack } from '../types'
+import { STORES } from './schema'
+import { openDatabase, requestToPromise, withTransaction } from './database'
+
+/** Load a session's packs in pack order. */
+export async function loadPacks(sessionId: number): Promise<Pack[]> {
+  try {
+    const db = await openDatabase()
+    const request = db
+      .transaction(STORES.packs, 'readonly')
+      .objectStore(STORES.packs)
+      .index('bySession')
+      .getAll(sessionId)
+    const packs = (await requestToPromise(request)) as Pack[]
+    return packs.sort((a, b) => a.number - b.number)
+  } catch (err) {
+    console.error('[db] Failed to load packs:', err)
+    return []
+  }
+}
+
+/** Replace a session's packs with `packs` in a single transaction. */
+export async function replacePacks(sessionId: number, packs: Pack[]): Promise<boolean> {
+  try {
+    await withTransaction(STORES.packs, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.packs)
+      store.delete(IDBKeyRange.bound([sessionId, -Infinity], [sessionId, Infinity]))
+      packs.forEach((p) => store.put({ ...p, sessionId }))
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save packs:', err)
+    return false
+  }
+}
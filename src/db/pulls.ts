@@ -0,0 +1,49 @@
+import type { Pull } from '../types'
+import { STORES } from './schema'
+import type { PullRecord } from './schema'
+import { openDatabase, requestToPromise, withTransaction } from './database'
+
+/** Key range covering every [sessionId, key] pair for one session. */
+function sessionRange(sessionId: number): IDBKeyRange {
+  // Arrays sort after strings, so [id, []] is an upper bound for any [id, key]
+  return IDBKeyRange.bound([sessionId], [sessionId, []])
+}
+
+function toPull({ sessionId: _sessionId, order: _order, ...pull }: PullRecord): Pull {
+  return pull
+}
+
+/** Load a session's pulls in insertion order. */
+export async function loadPulls(sessionId: number): Promise<Pull[]> {
+  try {
+    const db = await openDatabase()
+    const request = db
+      .transaction(STORES.pulls, 'readonly')
+      .objectStore(STORES.pulls)
+      .index('bySession')
+      .getAll(sessionId)
+    const records = (await requestToPromise(request)) as PullRecord[]
+    return records.sort((a, b) => a.order - b.order).map(toPull)
+  } catch (err) {
+    console.error('[db] Failed to load pulls:', err)
+    return []
+  }
+}
+
+/** Replace a session's pulls with `pulls` in a single transaction. */
+export async function replacePulls(sessionId: number, pulls: Pull[]): Promise<boolean> {
+  try {
+    await withTransaction(STORES.pulls, 'readwrite', (tx) => {
+      const store = tx.objectStore(STORES.pulls)
+      store.delete(sessionRange(sessionId))
+      pulls.forEach((p, order) => {
+        const record: PullRecord = { ...p, sessionId, order }
+        store.put(record)
+      })
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save pulls:', err)
+    return false
+  }
+}
@@ -0,0 +1,52 @@
+import type { CardLanguage, Pull } from '../types'
+
+export const DB_NAME = 'lorcana-pack-logger'
+
+export const STORES = {
+  sessions: 'sessions',
+  pulls: 'pulls',
+  exports: 'exports',
+  meta: 'meta',
+  collection: 'collection',
+  packs: 'packs',
+  histograms: 'histograms',
+  hashes: 'hashes',
+  localisedNames: 'localisedNames',
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+/** A pull as persisted — scoped to the session it was logged in. */
+export interface PullRecord extends Pull {
+  sessionId: number
+  /** Position in the session's pull list, so display order survives a reload */
+  order: number
+}
+
+/**
+ * Cached colour histogram of a card image for the scanner's image assist.
+ * Keyed by image URL, so a card whose art changes is simply recomputed.
+ */
+export interface HistogramRecord {
+  imageUrl: string
+  hist: number[]
+}
+
+/**
+ * Cached display names of one language's printings, by "setCode-cn".
+ * Fetched the first time the language is used; refreshed when stale.
+ */
+export interface LocalisedNamesRecord {
+  language: CardLanguage
+  names: Record<string, string>
+  fetchedAt: number
+}
+
+/** Free-form key/value row in the meta store (active session id, flags). */
+export interface MetaRecord {
+  key: string
+  value: unknown
+}
+
+/** Meta key holding the id of the session that new pulls are logged into. */
+export const ACTIVE_SESSION_KEY = 'activeSessionId'
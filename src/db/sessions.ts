@@ -0,0 +1,74 @@
+import type { Session } from '../types'
+import { STORES, ACTIVE_SESSION_KEY } from './schema'
+import { openDatabase, requestToPromise, withTransaction, getMeta, getAllRecords } from './database'
+
+/**
+ * Load the active session, or null if none has been created yet
+ * (or IndexedDB is unavailable).
+ */
+export async function loadActiveSession(): Promise<Session | null> {
+  try {
+    const id = await getMeta<number>(ACTIVE_SESSION_KEY)
+    if (id == null) return null
+    const db = await openDatabase()
+    const request = db.transaction(STORES.sessions, 'readonly').objectStore(STORES.sessions).get(id)
+    return ((await requestToPromise(request)) as Session | undefined) ?? null
+  } catch (err) {
+    console.error('[db] Failed to load session:', err)
+    return null
+  }
+}
+
+/** Insert or update a session and mark it as the active one. */
+export async function saveActiveSession(session: Session): Promise<boolean> {
+  try {
+    await withTransaction([STORES.sessions, STORES.meta], 'readwrite', (tx) => {
+      tx.objectStore(STORES.sessions).put(session)
+      tx.objectStore(STORES.meta).put({ key: ACTIVE_SESSION_KEY, value: session.id })
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save session:', err)
+    return false
+  }
+}
+
+/** Every stored session, oldest first. */
+export async function loadSessions(): Promise<Session[]> {
+  try {
+    const sessions = await getAllRecords<Session>(STORES.sessions)
+    return sessions.sort((a, b) => a.id - b.id)
+  } catch (err) {
+    console.error('[db] Failed to load sessions:', err)
+    return []
+  }
+}
+
+/** Insert or update a session without changing which one is active. */
+export async function saveSession(session: Session): Promise<boolean> {
+  try {
+    await withTransaction(STORES.sessions, 'readwrite', (tx) => {
+      tx.objectStore(STORES.sessions).put(session)
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to save session:', err)
+    return false
+  }
+}
+
+/** Delete a session together with its pulls and packs. */
+export async function deleteSession(id: number): Promise<boolean> {
+  try {
+    await withTransaction([STORES.sessions, STORES.pulls, STORES.packs], 'readwrite', (tx) => {
+      tx.objectStore(STORES.sessions).delete(id)
+      // Arrays sort after strings and numbers, so [id, []] bounds every [id, ...] key
+      tx.objectStore(STORES.pulls).delete(IDBKeyRange.bound([id], [id, []]))
+      tx.objectStore(STORES.packs).delete(IDBKeyRange.bound([id], [id, []]))
+    })
+    return true
+  } catch (err) {
+    console.error('[db] Failed to delete session:', err)
+    return false
+  }
+}
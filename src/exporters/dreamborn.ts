@@ -0,0 +1,12 @@
+import type { Exporter } from './types'
+import { generateCSV } from '../utils/csv'
+
+/** Dreamborn collection import: one row per set/number/variant. */
+export const dreambornExporter: Exporter = {
+  id: 'dreamborn',
+  label: 'Dreamborn',
+  description: 'CSV for Dreamborn\'s collection import',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8;',
+  generate: (pulls) => generateCSV(pulls),
+}
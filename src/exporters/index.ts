@@ -0,0 +1,19 @@
+import { registerExporter } from './registry'
+import { dreambornExporter } from './dreamborn'
+import { lorcanaHqExporter } from './lorcana-hq'
+import { jsonExporter } from './json'
+import { textExporter } from './text'
+
+registerExporter(dreambornExporter)
+registerExporter(lorcanaHqExporter)
+registerExporter(jsonExporter)
+registerExporter(textExporter)
+
+export {
+  DEFAULT_EXPORT_FORMAT,
+  registerExporter,
+  getExporter,
+  listExporters,
+  withExtension,
+} from './registry'
+export type { Exporter, ExportPull, ExportMeta } from './types'
@@ -0,0 +1,42 @@
+import type { Exporter } from './types'
+import { cardLanguage } from '../utils/card-language'
+import { gradeLabel } from '../utils/variants'
+import { splitByCondition } from '../utils/conditions'
+
+export const JSON_EXPORT_VERSION = 1
+
+/** Everything we know about each pull, for scripts and spreadsheets. */
+export const jsonExporter: Exporter = {
+  id: 'json',
+  label: 'JSON',
+  description: 'Full data including name, language, rarity, ink, variant details and pack number',
+  extension: 'json',
+  mimeType: 'application/json;charset=utf-8;',
+  generate: (pulls, meta) =>
+    JSON.stringify(
+      {
+        version: JSON_EXPORT_VERSION,
+        sessionName: meta.sessionName,
+        exportedAt: new Date(meta.exportedAt).toISOString(),
+        totalCards: pulls.reduce((s, p) => s + p.count, 0),
+        // A row per condition, like the CSV
+        pulls: splitByCondition(pulls).map((p) => ({
+          setCode: p.card.setCode,
+          setName: p.card.setName,
+          cn: p.card.cn,
+          name: p.card.display,
+          language: cardLanguage(p.card),
+          rarity: p.card.rarity,
+          ink: p.card.ink,
+          variant: p.variant,
+          condition: p.condition,
+          grade: p.details?.grade ? gradeLabel(p.details.grade) : null,
+          signed: p.details?.signed ?? false,
+          count: p.count,
+          packNumber: p.packNumber ?? null,
+        })),
+      },
+      null,
+      2,
+    ),
+}
@@ -0,0 +1,69 @@
+import type { Exporter } from './types'
+import { csvField } from '../utils/csv'
+import { cardLanguage, cardRef } from '../utils/card-language'
+import { gradeLabel, isFoilVariant, variantKey } from '../utils/variants'
+import { splitByCondition } from '../utils/conditions'
+
+/**
+ * Lorcana HQ-style CSV: one row per card with separate normal and foil
+ * quantities, identified by name as well as set, number and language.
+ * Promo variants, copies with a grade or signature and each recorded
+ * condition get a row of their own, with Variant, Condition, Grade and
+ * Signed columns our importer reads back, and the quantity under foil for
+ * foil finishes.
+ */
+export const lorcanaHqExporter: Exporter = {
+  id: 'lorcana-hq',
+  label: 'Lorcana HQ',
+  description: 'CSV with one row per card and normal / foil quantities',
+  extension: 'csv',
+  mimeType: 'text/csv;charset=utf-8;',
+  generate: (pulls) => {
+    const rows: {
+      name: string
+      setCode: string
+      cn: string
+      language: string
+      normal: number
+      foil: number
+      /** Blank for plain normal and foil copies, which the quantity columns tell apart */
+      variant: string
+      condition: string
+      grade: string
+      signed: string
+    }[] = []
+    const byCard: Record<string, (typeof rows)[number]> = {}
+
+    splitByCondition(pulls).forEach((p) => {
+      const promo = p.variant !== 'normal' && p.variant !== 'foil'
+      const plain = !promo && !p.details
+      const id =
+        cardRef(p.card) + (plain ? '' : '-' + variantKey(p.variant, p.details)) + (p.condition ? '-' + p.condition : '')
+      let row = byCard[id]
+      if (!row) {
+        row = {
+          name: p.card.display,
+          setCode: p.card.setCode,
+          cn: p.card.cn,
+          language: cardLanguage(p.card).toUpperCase(),
+          normal: 0,
+          foil: 0,
+          variant: promo ? p.variant : '',
+          condition: p.condition ?? '',
+          grade: p.details?.grade ? gradeLabel(p.details.grade) : '',
+          signed: p.details?.signed ? 'Yes' : '',
+        }
+        byCard[id] = row
+        rows.push(row)
+      }
+      row[isFoilVariant(p.variant) ? 'foil' : 'normal'] += p.count
+    })
+
+    const header = 'Name,Set,Card Number,Language,Quantity,Foil Quantity,Variant,Condition,Grade,Signed'
+    const lines = rows.map((r) =>
+      [csvField(r.name), r.setCode, r.cn, r.language, r.normal, r.foil, r.variant, r.condition, r.grade, r.signed]
+        .join(','),
+    )
+    return [header, ...lines].join('\n')
+  },
+}
@@ -0,0 +1,29 @@
+import type { Exporter } from './types'
+
+export const DEFAULT_EXPORT_FORMAT = 'dreamborn'
+
+const exporters = new Map<string, Exporter>()
+
+/** Register an export format. Re-registering an id replaces the old one. */
+export function registerExporter(exporter: Exporter): void {
+  exporters.set(exporter.id, exporter)
+}
+
+/**
+ * Look up an export format, falling back to the default so entries saved
+ * with a format that no longer exists still produce something.
+ */
+export function getExporter(id: string | undefined): Exporter {
+  return exporters.get(id ?? DEFAULT_EXPORT_FORMAT) ?? exporters.get(DEFAULT_EXPORT_FORMAT)!
+}
+
+/** All registered formats, in registration order. */
+export function listExporters(): Exporter[] {
+  return [...exporters.values()]
+}
+
+/** Swap whatever extension `filename` has for the exporter's. */
+export function withExtension(filename: string, exporter: Exporter): string {
+  const base = filename.replace(/\.(csv|json|txt)$/i, '')
+  return base + '.' + exporter.extension
+}
@@ -0,0 +1,38 @@
+import type { Exporter, ExportPull } from './types'
+import type { CardCondition } from '../types'
+import { copyLabel, isFoilVariant } from '../utils/variants'
+import { splitByCondition } from '../utils/conditions'
+
+/** " ✦ Foil", " · Stamped · LP" — nothing for a plain normal copy. */
+function variantSuffix(p: ExportPull & { condition: CardCondition | null }): string {
+  const label = [copyLabel(p.variant, p.details), p.condition].filter(Boolean).join(' · ')
+  if (!label) return ''
+  return (isFoilVariant(p.variant) ? ' ✦ ' : ' · ') + label
+}
+
+/** Human-readable list for pasting into chat. */
+export const textExporter: Exporter = {
+  id: 'text',
+  label: 'Plain text',
+  description: 'Readable card list for sharing in chat',
+  extension: 'txt',
+  mimeType: 'text/plain;charset=utf-8;',
+  generate: (pulls, meta) => {
+    const total = pulls.reduce((s, p) => s + p.count, 0)
+    const lines = splitByCondition(pulls).map(
+      (p) =>
+        p.count +
+        '× ' +
+        p.card.display +
+        ' (' +
+        p.card.setName +
+        ' #' +
+        p.card.cn +
+        ')' +
+        (p.card.language ? ' [' + p.card.language.toUpperCase() + ']' : '') +
+        variantSuffix(p),
+    )
+    const title = meta.sessionName + ' — ' + total + ' card' + (total !== 1 ? 's' : '')
+    return [title, '', ...lines].join('\n')
+  },
+}
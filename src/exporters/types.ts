@@ -0,0 +1,36 @@
+import type { CardSnapshot, CardVariant, ConditionCounts, VariantDetails } from '../types'
+
+/**
+ * The pull shape every exporter accepts. Live session pulls (`Pull`) and
+ * stored history pulls (`HistoryPull`) both satisfy it; history pulls have
+ * no pack number.
+ */
+export interface ExportPull {
+  key: string
+  variant: CardVariant
+  details?: VariantDetails
+  count: number
+  conditions?: ConditionCounts
+  card: CardSnapshot
+  packNumber?: number
+}
+
+/** Context passed alongside the pulls. */
+export interface ExportMeta {
+  sessionName: string
+  /** Epoch ms the export was made (or originally made, for history) */
+  exportedAt: number
+}
+
+export interface Exporter {
+  /** Stable id, stored on history entries */
+  id: string
+  /** Short name for format pickers */
+  label: string
+  /** One-line hint shown under the picker */
+  description: string
+  /** Filename extension without the dot */
+  extension: string
+  mimeType: string
+  generate(pulls: ExportPull[], meta: ExportMeta): string
+}
@@ -0,0 +1,111 @@
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
+import type { Card, CardVariant, CollectionEntry, VariantDetails } from '../types'
+import { CARD_VARIANTS } from '../constants'
+import { loadCollection, putCollectionEntry, deleteCollectionEntry } from '../db'
+import { applyCollectionDelta } from '../utils/collection'
+import type { CollectionSource } from '../utils/collection'
+import { pullKey } from '../utils/card-language'
+import { isFoilVariant } from '../utils/variants'
+
+/**
+ * Running inventory of every confirmed pull across all sessions.
+ * Unlike the session pull list it survives export and "Clear all" —
+ * only corrections (undo, −, remove) take copies back out.
+ */
+export function useCollection() {
+  const [entries, setEntries] = useState<Record<string, CollectionEntry>>({})
+  // Mirror so consecutive adjustments in one tick build on each other
+  const entriesRef = useRef(entries)
+
+  useEffect(() => {
+    let cancelled = false
+
+    loadCollection().then((stored) => {
+      if (cancelled) return
+      const loaded: Record<string, CollectionEntry> = {}
+      stored.forEach((e) => {
+        loaded[e.key] = e
+      })
+      // Anything adjusted while loading wins over the stored copy
+      entriesRef.current = { ...loaded, ...entriesRef.current }
+      setEntries(entriesRef.current)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const adjustCollection = useCallback(
+    (
+      card: Card,
+      variant: CardVariant,
+      delta: number,
+      source: Omit<CollectionSource, 'at'>,
+      details?: VariantDetails,
+    ) => {
+      const key = pullKey(card, variant, details)
+      const existing = entriesRef.current[key]
+      if (!existing && delta <= 0) return
+
+      const next = applyCollectionDelta(existing, card, variant, delta, { ...source, at: Date.now() }, details)
+      const updated = { ...entriesRef.current }
+      if (next) {
+        updated[key] = next
+        putCollectionEntry(next)
+      } else {
+        delete updated[key]
+        deleteCollectionEntry(key)
+      }
+      entriesRef.current = updated
+      setEntries(updated)
+    },
+    [],
+  )
+
+  // Sorted by set then collector number, like the card database
+  const entryList = useMemo(
+    () =>
+      Object.values(entries).sort((a, b) => {
+        if (a.card.setCode !== b.card.setCode) {
+          const an = parseInt(a.card.setCode)
+          const bn = parseInt(b.card.setCode)
+          if (!isNaN(an) && !isNaN(bn)) return an - bn
+          if (!isNaN(an)) return -1
+          if (!isNaN(bn)) return 1
+          return a.card.setCode < b.card.setCode ? -1 : 1
+        }
+        const cnDiff = parseInt(a.card.cn) - parseInt(b.card.cn)
+        if (cnDiff !== 0) return cnDiff
+        const variantDiff = CARD_VARIANTS.indexOf(a.variant) - CARD_VARIANTS.indexOf(b.variant)
+        if (variantDiff !== 0) return variantDiff
+        return a.key < b.key ? -1 : a.key > b.key ? 1 : 0
+      }),
+    [entries],
+  )
+
+  const totalCopies = useMemo(
+    () => entryList.reduce((s, e) => s + e.count, 0),
+    [entryList],
+  )
+
+  const totalFoils = useMemo(
+    () => entryList.filter((e) => isFoilVariant(e.variant)).reduce((s, e) => s + e.count, 0),
+    [entryList],
+  )
+
+  // Distinct cards regardless of variant
+  const uniqueCards = useMemo(
+    () => new Set(entryList.map((e) => e.card.setCode + '-' + e.card.cn)).size,
+    [entryList],
+  )
+
+  return {
+    entries,
+    entryList,
+    totalCopies,
+    totalFoils,
+    uniqueCards,
+    adjustCollection,
+  }
+}
@@ -1,18 +1,45 @@
-import { useState, useCallback } from 'react'
-import type { ExportHistoryEntry, Pull } from '../types'
+import { useState, useCallback, useEffect } from 'react'
+import type { ExportHistoryEntry, Pack, Pull } from '../types'
 import { SafeStorage } from '../utils/safe-storage'
-import { generateCSV } from '../utils/csv'
 import { sanitiseFilename } from '../utils/formatting'
+import { downloadFile } from '../utils/download'
+import { toCardSnapshot } from '../utils/collection'
+import { isFoilVariant } from '../utils/variants'
+import { countPacksBySet } from '../utils/packs'
+import { loadExportHistory, addExportEntry } from '../db'
+import { DEFAULT_EXPORT_FORMAT, getExporter } from '../exporters'
 
 export function useExportHistory() {
-  const [history, setHistory] = useState<ExportHistoryEntry[]>(
-    () => SafeStorage.getJSON<ExportHistoryEntry[]>('lorcana_export_history', []),
-  )
+  const [history, setHistory] = useState<ExportHistoryEntry[]>([])
+
+  // Load persisted history from IndexedDB
+  useEffect(() => {
+    let cancelled = false
+
+    loadExportHistory().then((stored) => {
+      if (cancelled) return
+      setHistory((prev) => [...prev, ...stored.filter((s) => !prev.some((p) => p.id === s.id))])
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
 
   const [hintsDismissed, setHintsDismissedRaw] = useState(
     () => SafeStorage.getItem('lorcana_hints_dismissed') === 'true',
   )
 
+  // Last-used export format, remembered across visits
+  const [format, setFormatRaw] = useState(
+    () => getExporter(SafeStorage.getItem('lorcana_export_format') ?? DEFAULT_EXPORT_FORMAT).id,
+  )
+
+  const setFormat = useCallback((id: string) => {
+    setFormatRaw(id)
+    SafeStorage.setItem('lorcana_export_format', id)
+  }, [])
+
   const [copied, setCopied] = useState(false)
   const [downloaded, setDownloaded] = useState(false)
 
@@ -22,7 +49,14 @@ export function useExportHistory() {
   }, [])
 
   const saveToHistory = useCallback(
-    (filename: string, _csv: string, pullsSnapshot: Pull[], sessionName: string) => {
+    (
+      filename: string,
+      formatId: string,
+      pullsSnapshot: Pull[],
+      packs: Pack[],
+      sessionName: string,
+      sessionId: number | null,
+    ) => {
       if (!hintsDismissed) {
         dismissHints()
       }
@@ -34,37 +68,33 @@ export function useExportHistory() {
         timestamp: Date.now(),
         totalCards: pullsSnapshot.reduce((s, p) => s + p.count, 0),
         totalFoils: pullsSnapshot
-          .filter((p) => p.variant === 'foil')
+          .filter((p) => isFoilVariant(p.variant))
           .reduce((s, p) => s + p.count, 0),
         pulls: pullsSnapshot.map((p) => ({
           key: p.key,
           variant: p.variant,
+          ...(p.details ? { details: p.details } : {}),
+          ...(p.conditions ? { conditions: p.conditions } : {}),
           count: p.count,
-          card: {
-            display: p.card.display,
-            setCode: p.card.setCode,
-            setName: p.card.setName,
-            cn: p.card.cn,
-            ink: p.card.ink,
-            rarity: p.card.rarity,
-          },
+          card: toCardSnapshot(p.card),
         })),
-        // CSV is no longer persisted to save storage space.
-        // It can be regenerated from pulls on demand.
+        // Output is not persisted to save storage space.
+        // It can be regenerated from pulls on demand, in any format.
+        format: formatId,
+        packsBySet: countPacksBySet(packs, (key) => pullsSnapshot.find((p) => p.key === key)?.card.setCode),
+        ...(sessionId !== null && { sessionId }),
       }
 
-      setHistory((prev) => {
-        const next = [entry, ...prev].slice(0, 50)
-        SafeStorage.setJSON('lorcana_export_history', next)
-        return next
-      })
+      setHistory((prev) => [entry, ...prev])
+      addExportEntry(entry)
     },
     [hintsDismissed, dismissHints],
   )
 
   const handleCopy = useCallback(
-    (pulls: Pull[], sessionName: string) => {
-      const csv = generateCSV(pulls)
+    (pulls: Pull[], packs: Pack[], sessionName: string, sessionId: number | null) => {
+      const exporter = getExporter(format)
+      const output = exporter.generate(pulls, { sessionName, exportedAt: Date.now() })
       const d = new Date()
       const prefix = sanitiseFilename(sessionName)
       const fn =
@@ -80,7 +110,7 @@ export function useExportHistory() {
         String(d.getMinutes()).padStart(2, '0')
 
       try {
-        navigator.clipboard.writeText(csv).then(() => {
+        navigator.clipboard.writeText(output).then(() => {
           setCopied(true)
           setTimeout(() => setCopied(false), 2500)
         })
@@ -94,14 +124,15 @@ export function useExportHistory() {
         }
       }
 
-      saveToHistory(fn, csv, pulls, sessionName)
+      saveToHistory(fn, exporter.id, pulls, packs, sessionName, sessionId)
     },
-    [saveToHistory],
+    [format, saveToHistory],
   )
 
   const handleDownload = useCallback(
-    (pulls: Pull[], sessionName: string) => {
-      const csv = generateCSV(pulls)
+    (pulls: Pull[], packs: Pack[], sessionName: string, sessionId: number | null) => {
+      const exporter = getExporter(format)
+      const output = exporter.generate(pulls, { sessionName, exportedAt: Date.now() })
       const d = new Date()
       const prefix = sanitiseFilename(sessionName)
       const fn =
@@ -115,31 +146,23 @@ export function useExportHistory() {
         '_' +
         String(d.getHours()).padStart(2, '0') +
         String(d.getMinutes()).padStart(2, '0') +
-        '.csv'
-
-      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
-      const url = URL.createObjectURL(blob)
-      const a = document.createElement('a')
-      a.href = url
-      a.download = fn
-      a.style.display = 'none'
-      document.body.appendChild(a)
-      a.click()
-      setTimeout(() => {
-        document.body.removeChild(a)
-        URL.revokeObjectURL(url)
-      }, 100)
+        '.' +
+        exporter.extension
+
+      downloadFile(output, fn, exporter.mimeType)
 
       setDownloaded(true)
       setTimeout(() => setDownloaded(false), 2500)
-      saveToHistory(fn, csv, pulls, sessionName)
+      saveToHistory(fn, exporter.id, pulls, packs, sessionName, sessionId)
     },
-    [saveToHistory],
+    [format, saveToHistory],
   )
 
   return {
     history,
     hintsDismissed,
+    format,
+    setFormat,
     copied,
     downloaded,
     dismissHints,
@@ -0,0 +1,142 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import type { Card, CardHash } from '../types'
+import { CardImageDB } from '../utils/card-image-db'
+import { loadHistograms, saveHistograms, loadHashIndex, replaceHashIndex } from '../db'
+import { SafeStorage } from '../utils/safe-storage'
+import { cardHashKey, createHashIndexFile, validateHashIndex } from '../utils/hash-index'
+import { downloadFile } from '../utils/download'
+
+const STORAGE_KEY = 'lorcana_image_assist'
+
+const histogramStore = { load: loadHistograms, save: saveHistograms }
+
+export interface ImageAssistProgress {
+  loaded: number
+  total: number
+  /** True while images are still being fetched and measured */
+  building: boolean
+}
+
+/**
+ * Opt-in "image assist" for the scanner, used to pick between cards the
+ * collector number and ink can't tell apart. Two sources of card art:
+ *  - the imported offline index of perceptual hashes (no downloads at all)
+ *  - a colour-histogram index of the set filter's card images, built for
+ *    cards the offline index doesn't cover. Histograms are cached in
+ *    IndexedDB, so after the first build only new cards are downloaded.
+ *    With every set showing it isn't built, as that would download the art
+ *    of the whole card database.
+ */
+export function useImageAssist(cards: Card[], setFilter: string) {
+  const [enabled, setEnabled] = useState<boolean>(() => SafeStorage.getItem(STORAGE_KEY) === 'true')
+  const [db, setDb] = useState<CardImageDB | null>(null)
+  const [progress, setProgress] = useState<ImageAssistProgress | null>(null)
+  // Cards need art but no set is chosen to index
+  const [needsSet, setNeedsSet] = useState(false)
+  const [hashes, setHashes] = useState<CardHash[]>([])
+  const [hashesLoaded, setHashesLoaded] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadHashIndex().then((stored) => {
+      if (cancelled) return
+      setHashes(stored)
+      setHashesLoaded(true)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const hashIndex = useMemo(() => new Map(hashes.map((h) => [h.key, h.hash])), [hashes])
+
+  /** Import an index file; resolves to the problems found (empty on success). */
+  const importHashIndex = useCallback(async (file: File): Promise<string[]> => {
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(await file.text())
+    } catch {
+      return ['The file is not valid JSON']
+    }
+    const { entries, errors } = validateHashIndex(parsed)
+    if (!entries) return errors
+    if (!(await replaceHashIndex(entries))) return ['Could not save the index on this device']
+    setHashes(entries)
+    return []
+  }, [])
+
+  const downloadHashIndex = useCallback(() => {
+    downloadFile(
+      JSON.stringify(createHashIndexFile(hashes)),
+      'lorcana_card_art_index.json',
+      'application/json;charset=utf-8;',
+    )
+  }, [hashes])
+
+  const toggleImageAssist = useCallback(() => {
+    setEnabled((prev) => {
+      const next = !prev
+      SafeStorage.setItem(STORAGE_KEY, String(next))
+      return next
+    })
+  }, [])
+
+  // (Re)build the index whenever it is switched on or the set filter changes.
+  // Each build gets its own instance so an aborted one can't leak entries.
+  useEffect(() => {
+    // Wait for the offline index so covered cards aren't downloaded first
+    if (!enabled || cards.length === 0 || !hashesLoaded) {
+      setDb(null)
+      setProgress(null)
+      setNeedsSet(false)
+      return
+    }
+
+    // Cards in the offline index are compared by hash — no images needed
+    const pool = (setFilter === 'all' ? cards : cards.filter((c) => c.setCode === setFilter)).filter(
+      (c) => !hashIndex.has(cardHashKey(c)),
+    )
+    setNeedsSet(setFilter === 'all' && pool.length > 0)
+    if (pool.length === 0 || setFilter === 'all') {
+      setDb(null)
+      setProgress(null)
+      return
+    }
+    const next = new CardImageDB()
+    let cancelled = false
+    setDb(next)
+    setProgress({ loaded: 0, total: pool.length, building: true })
+
+    next
+      .build(
+        pool,
+        (loaded, total) => {
+          if (!cancelled) setProgress({ loaded, total, building: true })
+        },
+        histogramStore,
+      )
+      .then(() => {
+        if (!cancelled) setProgress({ loaded: next.loadedCount, total: next.totalCount, building: false })
+      })
+
+    return () => {
+      cancelled = true
+      next.abort()
+    }
+  }, [enabled, cards, setFilter, hashIndex, hashesLoaded])
+
+  return {
+    imageAssistEnabled: enabled,
+    imageAssistProgress: progress,
+    /** True when the art index waits for a set to be chosen */
+    imageAssistNeedsSet: needsSet,
+    /** The histogram index, once it holds at least one card */
+    imageDB: enabled && db && progress && progress.loaded > 0 ? db : null,
+    /** Offline card-art hashes by "setCode-cn", when image assist is on */
+    hashIndex: enabled && hashIndex.size > 0 ? hashIndex : null,
+    hashIndexSize: hashes.length,
+    toggleImageAssist,
+    importHashIndex,
+    downloadHashIndex,
+  }
+}
@@ -0,0 +1,83 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import type { Card, CardLanguage } from '../types'
+import { loadLocalisedNames, saveLocalisedNames } from '../db'
+import type { LocalisedNamesRecord } from '../db'
+import { fetchLocalisedNames } from '../api/lorcast'
+
+/** Refetch a language's names after a day, like the card database. */
+const NAMES_MAX_AGE_MS = 86400000
+
+type NamesByLanguage = Partial<Record<CardLanguage, Record<string, string>>>
+
+/**
+ * Non-English card names, attached to `cards` as `names`. Nothing is
+ * downloaded until a language is used: `loadLanguage` fetches that
+ * language's names (or refreshes stale ones) and keeps them in IndexedDB.
+ * Languages stored by an earlier visit are loaded from there on start.
+ */
+export function useLocalisedNames(cards: Card[]) {
+  const [stored, setStored] = useState<LocalisedNamesRecord[] | null>(null)
+  const [names, setNames] = useState<NamesByLanguage>({})
+  // Languages fetched (or being fetched) this visit; a failed fetch is taken off again
+  const requestedRef = useRef(new Set<CardLanguage>())
+
+  useEffect(() => {
+    let cancelled = false
+    loadLocalisedNames().then((records) => {
+      if (cancelled) return
+      setStored(records)
+      setNames((prev) => Object.fromEntries([...records.map((r) => [r.language, r.names]), ...Object.entries(prev)]))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const loadLanguage = useCallback(
+    (language: CardLanguage) => {
+      // Wait for the card list (for its sets) and what is stored
+      if (language === 'en' || cards.length === 0 || !stored) return
+      if (requestedRef.current.has(language)) return
+      requestedRef.current.add(language)
+
+      const record = stored.find((r) => r.language === language)
+      if (record && Date.now() - record.fetchedAt < NAMES_MAX_AGE_MS) return
+
+      const setCodes = [...new Set(cards.map((c) => c.setCode))]
+      fetchLocalisedNames(setCodes, language)
+        .then((fetched) => {
+          // Offline or not served — keep whatever was stored, and try again next time
+          if (Object.keys(fetched).length === 0) {
+            requestedRef.current.delete(language)
+            return
+          }
+          saveLocalisedNames({ language, names: fetched, fetchedAt: Date.now() })
+          setNames((prev) => ({ ...prev, [language]: fetched }))
+        })
+        .catch(() => {
+          requestedRef.current.delete(language)
+        })
+    },
+    [cards, stored],
+  )
+
+  const withNames = useMemo(() => {
+    const languages = Object.keys(names) as CardLanguage[]
+    if (languages.length === 0) return cards
+    return cards.map((card) => {
+      const ref = card.setCode + '-' + card.cn
+      const cardNames: Partial<Record<CardLanguage, string>> = {}
+      languages.forEach((lang) => {
+        const name = names[lang]?.[ref]
+        if (name) cardNames[lang] = name
+      })
+      return Object.keys(cardNames).length > 0 ? { ...card, names: cardNames } : card
+    })
+  }, [cards, names])
+
+  return {
+    /** `cards` with the names loaded so far */
+    cards: withNames,
+    loadLanguage,
+  }
+}
@@ -0,0 +1,138 @@
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
+import type { Pack } from '../types'
+import { loadPacks, replacePacks } from '../db'
+import {
+  openPack,
+  addToPack,
+  removeFromPack,
+  removeAllFromPacks,
+  reopenPack,
+  closePack as closeOpenPack,
+  startNewPack as startPack,
+  moveBetweenPacks,
+  importIntoPacks,
+} from '../utils/packs'
+
+/**
+ * Packs opened in one session. Like pulls they are loaded once `sessionId`
+ * is known and written back on every change. Every copy logged belongs to
+ * exactly one pack, so undo and corrections take it back out of the right one.
+ */
+export function usePacks(sessionId: number | null) {
+  const [packs, setPacksState] = useState<Pack[]>([])
+  // Mirror so the pack number of an add is known synchronously
+  const packsRef = useRef<Pack[]>([])
+  const loadedSessionRef = useRef<number | null>(null)
+
+  const setPacks = useCallback((next: Pack[]) => {
+    packsRef.current = next
+    setPacksState(next)
+  }, [])
+
+  useEffect(() => {
+    if (sessionId == null) return
+    let cancelled = false
+    if (loadedSessionRef.current !== null && loadedSessionRef.current !== sessionId) {
+      loadedSessionRef.current = null
+      setPacks([])
+    }
+
+    loadPacks(sessionId).then((stored) => {
+      if (cancelled) return
+      loadedSessionRef.current = sessionId
+      // Cards logged while the load was in flight go on top of the stored packs
+      let merged = stored
+      packsRef.current.forEach((p) => {
+        p.cards.forEach((key) => {
+          merged = addToPack(merged, sessionId, key, p.openedAt).packs
+        })
+      })
+      setPacks(merged)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId, setPacks])
+
+  useEffect(() => {
+    if (sessionId == null || loadedSessionRef.current !== sessionId) return
+    replacePacks(sessionId, packs)
+  }, [packs, sessionId])
+
+  /** Log one copy into the open pack; returns where it went. */
+  const addCard = useCallback(
+    (key: string) => {
+      const result = addToPack(packsRef.current, sessionId ?? 0, key, Date.now())
+      setPacks(result.packs)
+      return { packNumber: result.packNumber, closed: result.closed }
+    },
+    [sessionId, setPacks],
+  )
+
+  const removeCopy = useCallback(
+    (key: string, packNumber?: number) => {
+      setPacks(removeFromPack(packsRef.current, key, packNumber))
+    },
+    [setPacks],
+  )
+
+  const removeAll = useCallback(
+    (key: string) => {
+      setPacks(removeAllFromPacks(packsRef.current, key))
+    },
+    [setPacks],
+  )
+
+  const reopen = useCallback(
+    (packNumber: number) => {
+      setPacks(reopenPack(packsRef.current, packNumber))
+    },
+    [setPacks],
+  )
+
+  const closePack = useCallback(() => {
+    setPacks(closeOpenPack(packsRef.current, Date.now()))
+  }, [setPacks])
+
+  const startNewPack = useCallback(() => {
+    setPacks(startPack(packsRef.current, sessionId ?? 0, Date.now()))
+  }, [sessionId, setPacks])
+
+  const moveCopy = useCallback(
+    (key: string, from: number, to: number) => {
+      setPacks(moveBetweenPacks(packsRef.current, key, from, to))
+    },
+    [setPacks],
+  )
+
+  const importCopies = useCallback(
+    (items: { key: string; count: number; packNumber?: number }[]) => {
+      setPacks(importIntoPacks(packsRef.current, sessionId ?? 0, items, Date.now()))
+    },
+    [sessionId, setPacks],
+  )
+
+  const clearPacks = useCallback(() => {
+    setPacks([])
+  }, [setPacks])
+
+  const currentPack = useMemo(() => openPack(packs), [packs])
+
+  const totalPacks = useMemo(() => packs.filter((p) => p.cards.length > 0).length, [packs])
+
+  return {
+    packs,
+    currentPack,
+    totalPacks,
+    addCard,
+    removeCopy,
+    removeAll,
+    reopen,
+    closePack,
+    startNewPack,
+    moveCopy,
+    importCopies,
+    clearPacks,
+  }
+}
@@ -1,18 +1,56 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
-import type { Pull, Card } from '../types'
-import { SafeStorage } from '../utils/safe-storage'
-
-export function usePulls() {
-  const [pulls, setPulls] = useState<Pull[]>(
-    () => SafeStorage.getJSON<Pull[]>('lorcana_session_pulls', []),
-  )
+import type { Pull, Card, CardCondition, CardVariant, VariantDetails } from '../types'
+import { loadPulls, replacePulls } from '../db'
+import { pullKey } from '../utils/card-language'
+import { cleanDetails, isFoilVariant } from '../utils/variants'
+import {
+  addConditionCopies,
+  mergeConditions,
+  recordCondition,
+  removeConditionCopies,
+} from '../utils/conditions'
+
+/**
+ * Pull list for one session. Pulls are loaded from IndexedDB once `sessionId`
+ * is known and written back on every change; until then nothing is persisted.
+ */
+export function usePulls(sessionId: number | null) {
+  const [pulls, setPulls] = useState<Pull[]>([])
+  const loadedSessionRef = useRef<number | null>(null)
 
   const [savedIndicator, setSavedIndicator] = useState(false)
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
-  // Auto-save to localStorage with debounced indicator
+  // Load persisted pulls for the session
+  useEffect(() => {
+    if (sessionId == null) return
+    let cancelled = false
+    // Switching sessions: drop the previous session's pulls and stop saving
+    // until the new session's pulls are in
+    if (loadedSessionRef.current !== null && loadedSessionRef.current !== sessionId) {
+      loadedSessionRef.current = null
+      setPulls([])
+    }
+
+    loadPulls(sessionId).then((stored) => {
+      if (cancelled) return
+      loadedSessionRef.current = sessionId
+      // Keep anything added while the load was in flight
+      setPulls((prev) => [
+        ...stored,
+        ...prev.filter((p) => !stored.some((s) => s.key === p.key)),
+      ])
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [sessionId])
+
+  // Auto-save to IndexedDB with debounced indicator
   useEffect(() => {
-    SafeStorage.setJSON('lorcana_session_pulls', pulls)
+    if (sessionId == null || loadedSessionRef.current !== sessionId) return
+    replacePulls(sessionId, pulls)
 
     if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
     saveTimerRef.current = setTimeout(() => {
@@ -23,39 +61,108 @@ export function usePulls() {
     return () => {
       if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
     }
-  }, [pulls])
-
-  const addPull = useCallback((card: Card, variant: 'normal' | 'foil', packNumber: number) => {
-    const key = card.setCode + '-' + card.cn + '-' + variant
+  }, [pulls, sessionId])
+
+  const addPull = useCallback(
+    (card: Card, variant: CardVariant, packNumber: number, details?: VariantDetails, condition?: CardCondition) => {
+      const clean = cleanDetails(details)
+      const key = pullKey(card, variant, clean)
+
+      setPulls((prev) => {
+        const found = prev.find((p) => p.key === key)
+        if (found) {
+          const conditions = condition ? addConditionCopies(found.conditions, condition, 1) : found.conditions
+          return prev.map((p) =>
+            p.key === key
+              ? { ...p, count: p.count + 1, packNumber: p.packNumber || packNumber, ...(conditions ? { conditions } : {}) }
+              : p,
+          )
+        }
+        return [
+          ...prev,
+          {
+            key,
+            card,
+            variant,
+            ...(clean ? { details: clean } : {}),
+            count: 1,
+            ...(condition ? { conditions: { [condition]: 1 } } : {}),
+            packNumber,
+          },
+        ]
+      })
+
+      return key
+    },
+    [],
+  )
 
+  /** Add a batch of pulls (e.g. from an import), summing into existing counts. */
+  const mergePulls = useCallback((incoming: Omit<Pull, 'key'>[]) => {
     setPulls((prev) => {
-      const found = prev.some((p) => p.key === key)
-      if (found) {
-        return prev.map((p) =>
-          p.key === key
-            ? { ...p, count: p.count + 1, packNumber: p.packNumber || packNumber }
-            : p,
-        )
-      }
-      return [...prev, { key, card, variant, count: 1, packNumber }]
+      const next = [...prev]
+      incoming.forEach((p) => {
+        const key = pullKey(p.card, p.variant, p.details)
+        const idx = next.findIndex((q) => q.key === key)
+        if (idx === -1) {
+          next.push({ ...p, key })
+        } else {
+          const conditions = mergeConditions(next[idx]!.conditions, p.conditions)
+          next[idx] = { ...next[idx]!, count: next[idx]!.count + p.count, ...(conditions ? { conditions } : {}) }
+        }
+      })
+      return next
     })
-
-    return key
   }, [])
 
-  const updateCount = useCallback((key: string, delta: number) => {
+  /**
+   * Move a pull's count up or down. Copies taken away come out of
+   * `condition` when given (as when undoing a copy logged with one), else
+   * from those with no condition recorded first.
+   */
+  const updateCount = useCallback((key: string, delta: number, condition?: CardCondition) => {
     setPulls((prev) => {
       const target = prev.find((p) => p.key === key)
       if (!target) return prev
       if (target.count + delta <= 0) {
         return prev.filter((p) => p.key !== key)
       }
-      return prev.map((p) =>
-        p.key === key ? { ...p, count: p.count + delta } : p,
-      )
+      const conditions =
+        delta < 0
+          ? removeConditionCopies(target.count, target.conditions, -delta, condition)
+          : condition
+            ? addConditionCopies(target.conditions, condition, delta)
+            : target.conditions
+      return prev.map((p) => {
+        if (p.key !== key) return p
+        const { conditions: _previous, ...rest } = p
+        return { ...rest, count: p.count + delta, ...(conditions ? { conditions } : {}) }
+      })
     })
   }, [])
 
+  /** Record the condition of one copy that has none yet. */
+  const setCopyCondition = useCallback((key: string, condition: CardCondition) => {
+    setPulls((prev) =>
+      prev.map((p) => {
+        if (p.key !== key) return p
+        const conditions = recordCondition(p.count, p.conditions, condition)
+        return conditions === p.conditions ? p : { ...p, conditions }
+      }),
+    )
+  }, [])
+
+  /** Forget the recorded conditions of every copy of a pull. */
+  const clearConditions = useCallback((key: string) => {
+    setPulls((prev) =>
+      prev.map((p) => {
+        if (p.key !== key || !p.conditions) return p
+        const { conditions: _previous, ...rest } = p
+        return rest
+      }),
+    )
+  }, [])
+
   const removePull = useCallback((key: string) => {
     setPulls((prev) => prev.filter((p) => p.key !== key))
   }, [])
@@ -71,7 +178,7 @@ export function usePulls() {
   )
 
   const totalFoils = useMemo(
-    () => pulls.filter((p) => p.variant === 'foil').reduce((s, p) => s + p.count, 0),
+    () => pulls.filter((p) => isFoilVariant(p.variant)).reduce((s, p) => s + p.count, 0),
     [pulls],
   )
 
@@ -117,7 +224,10 @@ export function usePulls() {
     setPulls,
     savedIndicator,
     addPull,
+    mergePulls,
     updateCount,
+    setCopyCondition,
+    clearConditions,
     removePull,
     clearPulls,
     totalCards,
@@ -1,11 +1,66 @@
 import { useState, useRef, useCallback, useEffect } from 'react'
-import type { Card, ScannerState } from '../types'
-import { recognizeCollectorNumber, terminateWorker } from '../utils/ocr-worker'
-import { parseCollectorNumber } from '../utils/collector-number-parser'
-import { matchCardByCollectorNumber } from '../utils/card-cn-matcher'
-import { detectInkColor } from '../utils/ink-detector'
-import { recordFrame, resetTelemetry, getState as getTelemetryState } from '../utils/telemetry'
-import { preprocessForOcr } from '../utils/preprocess-ocr'
+import type { Card, CardCondition, CardLanguage, CardVariant, ScannerState, VariantDetails } from '../types'
+import { recognizeCollectorNumber, recognizeFromCanvas, terminateWorker } from '../utils/ocr-worker'
+import type { OcrImage } from '../utils/ocr-worker'
+import { parseCollectorNumber, parseFooterLanguage } from '../utils/collector-number-parser'
+import { matchCardByCollectorNumber, matchInLanguage } from '../utils/card-cn-matcher'
+import { matchCardByName, pickCandidateByName } from '../utils/card-name-matcher'
+import { recordFrame, recordFoilDecision, resetTelemetry, getState as getTelemetryState } from '../utils/telemetry'
+import { addVote, tallyVotes, MIN_AGREEING } from '../utils/scan-voting'
+import { CARD_CN_TOP, CARD_CN_HEIGHT } from '../utils/card-detector'
+import type { Quad } from '../utils/card-detector'
+import {
+  getCoverTransform,
+  cropRegions,
+  locateCard,
+  canvasPool,
+  GUIDE_X,
+  GUIDE_Y,
+  GUIDE_W,
+  GUIDE_H,
+  CN_REGION_LEFT,
+  CN_REGION_TOP,
+  CN_REGION_WIDTH,
+  CN_REGION_HEIGHT,
+  INK_REGION_LEFT,
+  INK_REGION_TOP,
+  INK_REGION_WIDTH,
+  INK_REGION_HEIGHT,
+  NAME_REGION_LEFT,
+  NAME_REGION_TOP,
+  NAME_REGION_WIDTH,
+  NAME_REGION_HEIGHT,
+  OCR_UPSCALE,
+} from '../utils/frame-pipeline'
+import type { CoverTransform, FramePipeline, Rect } from '../utils/frame-pipeline'
+import {
+  readCardFrame,
+  readPageFrame,
+  releaseCardFrame,
+  ocrImageDataUrl,
+  isFrameWorkerSupported,
+  terminateFrameWorker,
+} from '../utils/frame-worker'
+import type { CardFrame } from '../utils/frame-worker'
+import type { CardImageDB } from '../utils/card-image-db'
+import { perceptualHashOfCanvas } from '../utils/image-hash'
+import { pickByHash } from '../utils/hash-index'
+import type { ScanVote, VoteTally } from '../utils/scan-voting'
+import {
+  emptyBinderPage,
+  needsReading,
+  readBinderCell,
+  changeBinderCell,
+  isPageSettled,
+  binderPageEntries,
+} from '../utils/binder-page'
+import type { BinderCell, BinderCellChange } from '../utils/binder-page'
+import { addFoilSample, estimateFoil, isConfidentlyNormal, shimmerScore, FOIL_THRESHOLD } from '../utils/foil-detector'
+import type { FoilEstimate, FoilSample } from '../utils/foil-detector'
+import { isFoilVariant } from '../utils/variants'
+import { holdCard, trackHeldCard } from '../utils/card-presence'
+import { emptyStrategyStats, pickStrategy, recordStrategyRead } from '../utils/ocr-strategy'
+import type { HeldCard } from '../utils/card-presence'
 
 /** How often to capture a frame and run the matching pipeline (ms).
  * OCR takes ~340ms per frame, so 500ms gives a ~2 fps effective scan rate
@@ -13,9 +68,14 @@ import { preprocessForOcr } from '../utils/preprocess-ocr'
 const FRAME_INTERVAL = 500
 
 /** How long to prevent re-scanning the same card (ms).
- * Set high enough so the user has time to move the card away. */
+ * Set high enough so the user has time to move the card away.
+ * Rapid mode waits for the card to leave the frame instead. */
 const COOLDOWN_MS = 8000
 
+/** Rapid mode: how long a confident match is shown before it is logged as
+ * normal (ms) — time enough to tap Foil or ✕ instead. */
+const AUTO_CONFIRM_MS = 1500
+
 /** How long to show the confirmed state before resuming scanning (ms).
  * Kept short since the user already tapped a button to confirm. */
 const MATCH_DISPLAY_MS = 800
@@ -29,90 +89,23 @@ const MIN_CONFIDENCE = 0
 /** Minimum ink detection confidence (0-1) to use ink for disambiguation. */
 const MIN_INK_CONFIDENCE = 0.3
 
-// ── Guide frame percentages (relative to CSS container / screen) ────────
-// These match the ScannerOverlay's guide frame (left:18%, right:18%, top:21%, height:58%).
-// The algorithm must convert these CSS percentages to video-pixel coordinates
-// because `object-fit: cover` crops the video — CSS % ≠ video %.
-const GUIDE_X = 0.18
-const GUIDE_Y = 0.21
-const GUIDE_W = 0.64
-const GUIDE_H = 0.58
-
-// Collector number region — bottom portion of the guide frame containing the
-// "102/204 · EN · 7" line at the very bottom of each card.
-// Full width (0-100%) so horizontal card position doesn't matter.
-// Bottom 20% (80-100%) is generous enough to capture the CN text regardless of
-// whether the card is top-aligned, centered, or bottom-aligned in the guide.
-const CN_REGION_LEFT = 0.0
-const CN_REGION_TOP = 0.80
-const CN_REGION_HEIGHT = 0.20
-const CN_REGION_WIDTH = 1.0
-
-/** Upscale factor for the CN crop before OCR.
- * With the wider crop (full width × bottom 20%), raw size is ~691×213 px.
- * 2x upscale → ~1382×426 px — text is ~30px tall, readable by Tesseract. */
-const OCR_UPSCALE = 2
-
-// Ink colour region — moderate strip covering the name banner area.
-// Character cards have the ink name banner at ~52%, non-character cards
-// (Action, Song, Item) have it at ~42-48%.  A 14%-tall strip from 44–58%
-// catches both without dipping into card art (above ~42%) or text area
-// (below ~60%) which previously caused false Steel detection from art colours.
-const INK_REGION_LEFT = 0.01
-const INK_REGION_TOP = 0.44
-const INK_REGION_WIDTH = 0.10
-const INK_REGION_HEIGHT = 0.14
-
-// ── object-fit: cover transform ─────────────────────────────────────────
-// The video element uses `object-fit: cover`, which scales the video to fill
-// the container and crops the overflow.  This means CSS percentages on the
-// overlay do NOT map 1:1 to video pixel percentages.  A landscape 1920×1080
-// video displayed in a portrait 375×812 container will have ~74% of its width
-// cropped.  Without this transform, the algorithm crops from the wrong region
-// and the scanner can never match a card (0% success rate).
-
-interface CoverTransform {
-  /** Horizontal offset from video origin to start of visible area (px). */
-  offsetX: number
-  /** Vertical offset from video origin to start of visible area (px). */
-  offsetY: number
-  /** Width of the visible portion of the video (in video pixels). */
-  visibleW: number
-  /** Height of the visible portion of the video (in video pixels). */
-  visibleH: number
-}
-
-/**
- * Compute the object-fit: cover mapping from CSS container space to video space.
- *
- * CSS % position P maps to video pixel: offset + P × visible
- */
-function getCoverTransform(video: HTMLVideoElement): CoverTransform | null {
-  const cw = video.clientWidth
-  const ch = video.clientHeight
-  const vw = video.videoWidth
-  const vh = video.videoHeight
-  if (cw === 0 || ch === 0 || vw === 0 || vh === 0) return null
-
-  // cover picks the larger scale factor so the video fills both axes
-  const scale = Math.max(cw / vw, ch / vh)
-  const visibleW = cw / scale
-  const visibleH = ch / scale
-  return {
-    offsetX: (vw - visibleW) / 2,
-    offsetY: (vh - visibleH) / 2,
-    visibleW,
-    visibleH,
-  }
-}
-
 interface UseScannerOptions {
   cards: Card[]
   setFilter: string
-  onCardMatched: (card: Card, variant: 'normal' | 'foil') => void
+  /** Image-assist index, when enabled — ranks candidates the CN and ink leave tied */
+  imageDB?: CardImageDB | null
+  /** Offline card-art hashes by "setCode-cn", when image assist is enabled */
+  hashIndex?: Map<string, string> | null
+  onCardMatched: (card: Card, variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => void
+  /** A confirmed binder page — every card on it, in pocket order */
+  onPageMatched: (entries: { card: Card; variant: CardVariant }[]) => void
 }
 
-export type MatchMethod = 'cn' | 'cn+ink' | null
+/** One card at a time, or a whole 3x3 binder page per frame. */
+export type ScanMode = 'card' | 'binder'
+
+/** How the card was identified: collector number (+ ink), card name, or CN narrowed by name or card art. */
+export type MatchMethod = 'cn' | 'cn+ink' | 'name' | 'cn+name' | 'cn+image' | null
 
 export interface ScannerDebugInfo {
   videoRes: string
@@ -121,6 +114,10 @@ export interface ScannerDebugInfo {
   detectedInk: string
   inkConfidence: number
   parsedCn: string
+  /** Text from the name-banner fallback pass, or '' when it didn't run */
+  nameOcrText: string
+  /** Foil shimmer over recent frames, or null until the card has been seen a few times */
+  foilScore: number | null
   matchResult: string
 }
 
@@ -134,8 +131,12 @@ export interface DebugCaptures {
   cnRegion: string
   /** Card name banner area — where the ink colour is sampled. */
   inkDotRegion: string
+  /** Card name text — read when the collector number fails. */
+  nameRegion: string
   /** Dimensions of the raw video feed. */
   videoRes: string
+  /** Whether the crops came from a detected, upright-warped card (else the guide frame). */
+  cardDetected: boolean
 }
 
 /** Snapshot of the cover transform + crop pixel coordinates for diagnostics. */
@@ -151,6 +152,9 @@ export interface CropSnapshot {
     visibleH: number
   }
   guideFramePx: { x: number; y: number; w: number; h: number }
+  /** Detected card corners in video pixels, or null when the guide frame was used. */
+  cardQuadPx: Quad | null
+  /** CN / ink regions — on the upright card image when a card was detected, else in video pixels. */
   cnRegionPx: { x: number; y: number; w: number; h: number }
   inkRegionPx: { x: number; y: number; w: number; h: number }
 }
@@ -160,6 +164,14 @@ export interface UseScannerReturn {
   scannerState: ScannerState
   lastMatch: Card | null
   matchMethod: MatchMethod
+  /** Normal-or-foil guess for lastMatch, from how the card shimmered */
+  foilEstimate: FoilEstimate | null
+  /** Rapid mode — confident matches are logged without a tap */
+  rapidMode: boolean
+  /** Where frames are processed — the worker, or the main thread */
+  framePipeline: FramePipeline
+  /** When the shown match will be logged by itself (epoch ms), or null */
+  autoConfirmAt: number | null
   candidates: Card[]
   error: string | null
   videoRef: React.RefObject<HTMLVideoElement | null>
@@ -168,21 +180,51 @@ export interface UseScannerReturn {
   debugCaptures: DebugCaptures | null
   lastOcrText: string
   lastDetectedInk: string | null
+  /** Votes in the consensus window, for the debug overlay */
+  voteTally: VoteTally | null
+  /** Detected card corners as fractions of the camera view, or null */
+  cardOutline: Quad | null
+  scanMode: ScanMode
+  /** Pockets of the binder page being read, row by row (binder mode) */
+  binderPage: BinderCell[]
   openScanner: () => void
   closeScanner: () => void
   selectCandidate: (card: Card) => void
-  confirmMatch: (variant: 'normal' | 'foil') => void
+  confirmMatch: (variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => void
+  /** Stop rapid mode's countdown so the match waits for confirmMatch */
+  holdMatch: () => void
   skipMatch: () => void
   dismissDisambiguation: () => void
   captureDebugFrame: () => void
   dismissDebugCaptures: () => void
   exportDiagnostics: () => void
+  toggleScanMode: () => void
+  toggleRapidMode: () => void
+  /** Switch frames between the worker and the main thread, to compare their cost */
+  toggleFramePipeline: () => void
+  /** Stop reading and review the page as it stands */
+  reviewPage: () => void
+  updateBinderCell: (index: number, change: BinderCellChange) => void
+  /** Add the reviewed page's cards and start on the next page */
+  confirmPage: () => void
+  /** Throw away the page's reads and read it again */
+  rescanPage: () => void
 }
 
-export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOptions): UseScannerReturn {
+export function useScanner({
+  cards,
+  setFilter,
+  imageDB = null,
+  hashIndex = null,
+  onCardMatched,
+  onPageMatched,
+}: UseScannerOptions): UseScannerReturn {
   const [scannerState, setScannerState] = useState<ScannerState>('idle')
   const [lastMatch, setLastMatch] = useState<Card | null>(null)
   const [matchMethod, setMatchMethod] = useState<MatchMethod>(null)
+  const [foilEstimate, setFoilEstimate] = useState<FoilEstimate | null>(null)
+  const [rapidMode, setRapidMode] = useState(false)
+  const [autoConfirmAt, setAutoConfirmAt] = useState<number | null>(null)
   const [candidates, setCandidates] = useState<Card[]>([])
   const [error, setError] = useState<string | null>(null)
   const [scanCount, setScanCount] = useState(0)
@@ -190,6 +232,11 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
   const [debugCaptures, setDebugCaptures] = useState<DebugCaptures | null>(null)
   const [lastOcrText, setLastOcrText] = useState('')
   const [lastDetectedInk, setLastDetectedInk] = useState<string | null>(null)
+  const [voteTally, setVoteTally] = useState<VoteTally | null>(null)
+  const [cardOutline, setCardOutline] = useState<Quad | null>(null)
+  const [scanMode, setScanMode] = useState<ScanMode>('card')
+  const [binderPage, setBinderPage] = useState<BinderCell[]>(emptyBinderPage)
+  const [framePipeline, setFramePipeline] = useState<FramePipeline>(() => (isFrameWorkerSupported() ? 'worker' : 'main'))
 
   // Mirror scanner state in a ref so processFrame can check it synchronously
   const stateRef = useRef(scannerState)
@@ -200,24 +247,58 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
   const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null)
   const cooldownRef = useRef<Map<string, number>>(new Map())
   const matchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const autoConfirmTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  // Set once the shown match is logged, so a late tap can't log it twice
+  const confirmedRef = useRef(false)
+  // Rapid mode — the last logged card, held until it leaves the frame
+  const rapidModeRef = useRef(rapidMode)
+  rapidModeRef.current = rapidMode
+  const heldCardRef = useRef<HeldCard | null>(null)
+  // Whether the latest frame found the card outline — a card matched on such
+  // a frame can be released by losing its outline
+  const outlineInViewRef = useRef(false)
   const processingRef = useRef(false)
-
-  // Off-screen canvases for cropping regions
-  const cnCanvasRef = useRef<HTMLCanvasElement | null>(null)
-  const inkCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  // Sliding window of recent readings; a match is only accepted on consensus
+  const votesRef = useRef<(ScanVote | null)[]>([])
+  // Name-fallback reads vote in their own window so they never count towards a CN read
+  const nameVotesRef = useRef<(ScanVote | null)[]>([])
+  // Recent frames of the upright card, for the foil guess
+  const foilSamplesRef = useRef<FoilSample[]>([])
+  // Binder mode — mirrored for synchronous reads between OCR passes
+  const scanModeRef = useRef(scanMode)
+  scanModeRef.current = scanMode
+  const binderPageRef = useRef<BinderCell[]>(binderPage)
+  // Where frames are processed — the worker unless the browser can't, or
+  // the debug overlay switched back to the main thread to compare
+  const framePipelineRef = useRef(framePipeline)
+  framePipelineRef.current = framePipeline
+  // Read rate of each CN preprocessing strategy — kept while the hook lives
+  // so the scanner opens with what it learned last time
+  const strategyStatsRef = useRef(emptyStrategyStats())
+  const strategyFrameRef = useRef(0)
+
+  // Off-screen canvas the upright card (or guide frame) is drawn on for the image assist
+  const imageCanvasRef = useRef<HTMLCanvasElement | null>(null)
 
   // Latest crop snapshot for diagnostics export
   const cropSnapshotRef = useRef<CropSnapshot | null>(null)
-  // Latest preprocessed CN image (data URL) for visual debugging in diagnostics
-  const preprocessedImageRef = useRef<string | null>(null)
+  // Latest preprocessed CN image for visual debugging in diagnostics — only
+  // turned into a data URL when diagnostics are exported
+  const preprocessedImageRef = useRef<OcrImage | null>(null)
 
   // Keep callbacks in refs so the interval captures the latest values
   const cardsRef = useRef(cards)
   cardsRef.current = cards
   const setFilterRef = useRef(setFilter)
   setFilterRef.current = setFilter
+  const imageDBRef = useRef(imageDB)
+  imageDBRef.current = imageDB
+  const hashIndexRef = useRef(hashIndex)
+  hashIndexRef.current = hashIndex
   const onCardMatchedRef = useRef(onCardMatched)
   onCardMatchedRef.current = onCardMatched
+  const onPageMatchedRef = useRef(onPageMatched)
+  onPageMatchedRef.current = onPageMatched
 
   const stopStream = useCallback(() => {
     if (intervalRef.current) {
@@ -228,6 +309,10 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
       clearTimeout(matchTimeoutRef.current)
       matchTimeoutRef.current = null
     }
+    if (autoConfirmTimeoutRef.current) {
+      clearTimeout(autoConfirmTimeoutRef.current)
+      autoConfirmTimeoutRef.current = null
+    }
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((t) => t.stop())
       streamRef.current = null
@@ -238,32 +323,173 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     processingRef.current = false
   }, [])
 
-  /** Show a matched card for user confirmation (does NOT add to pulls). */
-  const acceptMatch = useCallback((card: Card, method: MatchMethod = 'cn') => {
+  /** Second OCR pass over the card name banner, for when the CN can't settle the card. */
+  const readCardName = useCallback(async (frame: CardFrame) => {
+    return frame.name ? recognizeFromCanvas(frame.name) : null
+  }, [])
+
+  /**
+   * The frame's art as a canvas for the image assist: the upright card, or
+   * the guide frame straight from the video when no card was found.
+   */
+  const drawArt = useCallback((frame: CardFrame, video: HTMLVideoElement) => {
+    if (frame.card instanceof HTMLCanvasElement) return frame.card
+    if (!imageCanvasRef.current) imageCanvasRef.current = document.createElement('canvas')
+    const canvas = imageCanvasRef.current
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return null
+    if (frame.card) {
+      canvas.width = frame.card.width
+      canvas.height = frame.card.height
+      ctx.drawImage(frame.card, 0, 0)
+    } else {
+      const { x, y, w, h } = frame.regions.frame
+      canvas.width = w
+      canvas.height = h
+      ctx.drawImage(video, x, y, w, h, 0, 0, w, h)
+    }
+    return canvas
+  }, [])
+
+  /**
+   * Identify the card from its name alone (CN unreadable). Name reads vote
+   * in their own window, so a single misread name can't log the wrong card.
+   */
+  const matchByName = useCallback((text: string, confidence: number, language: CardLanguage | null) => {
+    const byName = matchCardByName(text, cardsRef.current, setFilterRef.current)
+    const read = byName.card
+    nameVotesRef.current = addVote(
+      nameVotesRef.current,
+      read ? { cn: read.cn, total: null, setNumber: read.setCode, ink: null, language, confidence } : null,
+    )
+    const agreed = tallyVotes(nameVotesRef.current).accepted
+    const english = agreed
+      ? cardsRef.current.find((c) => c.cn === agreed.cn && c.setCode === agreed.setNumber) ?? null
+      : null
+    // As on the collector-number path, the card is the printing the footer says
+    const card = agreed && english
+      ? matchInLanguage({ card: english, candidates: [], similarity: 1 }, agreed.language).card
+      : null
+
+    let matchResult: string
+    if (card) {
+      matchResult = `${card.display} (name)`
+    } else if (read) {
+      const votes = nameVotesRef.current.filter((v) => v?.cn === read.cn && v.setNumber === read.setCode).length
+      matchResult = `voting name ${read.display} ${votes}/${MIN_AGREEING}`
+    } else {
+      matchResult = byName.candidates.length > 0 ? `name: ${byName.candidates.length} candidates` : 'no name match'
+    }
+    return { card, matchResult }
+  }, [])
+
+  /** Add this frame's reading (null if it didn't parse) and re-count. */
+  const castVote = useCallback((vote: ScanVote | null) => {
+    votesRef.current = addVote(votesRef.current, vote)
+    const tally = tallyVotes(votesRef.current)
+    setVoteTally(tally)
+    return tally
+  }, [])
+
+  const resetVotes = useCallback(() => {
+    votesRef.current = []
+    nameVotesRef.current = []
+    foilSamplesRef.current = []
+    setVoteTally(null)
+  }, [])
+
+  /** Whether a card was just logged and shouldn't be matched again yet. */
+  const isHeld = useCallback((card: Card) => {
     const key = `${card.setCode}-${card.cn}`
-    cooldownRef.current.set(key, Date.now())
+    return rapidModeRef.current ? heldCardRef.current?.key === key : cooldownRef.current.has(key)
+  }, [])
+
+  const cancelAutoConfirm = useCallback(() => {
+    if (autoConfirmTimeoutRef.current) {
+      clearTimeout(autoConfirmTimeoutRef.current)
+      autoConfirmTimeoutRef.current = null
+    }
+    setAutoConfirmAt(null)
+  }, [])
+
+  /** Log the shown match, then resume scanning after a brief flash. */
+  const commitMatch = useCallback(
+    (
+      card: Card,
+      variant: CardVariant,
+      copy: { details?: VariantDetails; condition?: CardCondition },
+      estimate: FoilEstimate | null,
+      auto: boolean,
+    ) => {
+      if (confirmedRef.current) return
+      confirmedRef.current = true
+      onCardMatchedRef.current(card, variant, copy.details, copy.condition)
+      setScanCount((c) => c + 1)
+      recordFoilDecision({
+        card: card.display,
+        predicted: estimate?.variant ?? null,
+        confidence: estimate?.confidence ?? 0,
+        score: estimate?.score ?? null,
+        frames: estimate?.frames ?? 0,
+        // The classifier only tells finishes apart
+        chosen: isFoilVariant(variant) ? 'foil' : 'normal',
+        auto,
+      })
+      matchTimeoutRef.current = setTimeout(() => {
+        setScannerState('streaming')
+        setLastMatch(null)
+        setMatchMethod(null)
+        setFoilEstimate(null)
+      }, MATCH_DISPLAY_MS)
+    },
+    [],
+  )
+
+  /**
+   * Show a matched card for user confirmation (does NOT add to pulls).
+   * In rapid mode a confident (`auto`) match is logged as normal after a
+   * short countdown — but only when the foil guess is confidently normal;
+   * a possible foil, or a card whose shimmer couldn't be measured, waits
+   * for the user.
+   */
+  const acceptMatch = useCallback((card: Card, method: MatchMethod = 'cn', auto = false) => {
+    if (rapidModeRef.current) {
+      heldCardRef.current = holdCard(card.setCode, card.cn, outlineInViewRef.current)
+    } else {
+      cooldownRef.current.set(`${card.setCode}-${card.cn}`, Date.now())
+    }
+    // Guess the variant from this card's frames before they are cleared
+    const estimate = estimateFoil(foilSamplesRef.current)
+    setFoilEstimate(estimate)
+    // The next card starts a fresh vote
+    resetVotes()
+    confirmedRef.current = false
     setLastMatch(card)
     setMatchMethod(method)
     setCandidates([])
     setScannerState('matched')
-    // Card is NOT added yet — user must confirm via confirmMatch()
-  }, [])
+
+    if (rapidModeRef.current && auto && isConfidentlyNormal(estimate)) {
+      setAutoConfirmAt(Date.now() + AUTO_CONFIRM_MS)
+      autoConfirmTimeoutRef.current = setTimeout(() => {
+        autoConfirmTimeoutRef.current = null
+        setAutoConfirmAt(null)
+        commitMatch(card, 'normal', {}, estimate, true)
+      }, AUTO_CONFIRM_MS)
+    }
+    // Otherwise the card is NOT added yet — user must confirm via confirmMatch()
+  }, [resetVotes, commitMatch])
 
   /** User confirms the matched card — add to pulls and resume scanning. */
-  const confirmMatch = useCallback((variant: 'normal' | 'foil') => {
+  const confirmMatch = useCallback((variant: CardVariant, details?: VariantDetails, condition?: CardCondition) => {
+    cancelAutoConfirm()
     if (!lastMatch) return
-    onCardMatchedRef.current(lastMatch, variant)
-    setScanCount((c) => c + 1)
-    // Brief flash then resume scanning
-    matchTimeoutRef.current = setTimeout(() => {
-      setScannerState('streaming')
-      setLastMatch(null)
-      setMatchMethod(null)
-    }, MATCH_DISPLAY_MS)
-  }, [lastMatch])
+    commitMatch(lastMatch, variant, { details, condition }, foilEstimate, false)
+  }, [lastMatch, foilEstimate, cancelAutoConfirm, commitMatch])
 
   /** User skips/dismisses the matched card — resume scanning without adding. */
   const skipMatch = useCallback(() => {
+    cancelAutoConfirm()
     if (matchTimeoutRef.current) {
       clearTimeout(matchTimeoutRef.current)
       matchTimeoutRef.current = null
@@ -271,7 +497,8 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     setScannerState('streaming')
     setLastMatch(null)
     setMatchMethod(null)
-  }, [])
+    setFoilEstimate(null)
+  }, [cancelAutoConfirm])
 
   /** User taps a candidate during disambiguation. */
   const selectCandidate = useCallback((card: Card) => {
@@ -284,6 +511,148 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     setScannerState('streaming')
   }, [])
 
+  const setPage = useCallback((cells: BinderCell[]) => {
+    binderPageRef.current = cells
+    setBinderPage(cells)
+  }, [])
+
+  const toggleScanMode = useCallback(() => {
+    setScanMode((prev) => (prev === 'card' ? 'binder' : 'card'))
+    cancelAutoConfirm()
+    resetVotes()
+    setPage(emptyBinderPage())
+    setCardOutline(null)
+    setCandidates([])
+    setLastMatch(null)
+    setMatchMethod(null)
+    setFoilEstimate(null)
+    setDebugInfo(null)
+    if (stateRef.current !== 'idle' && stateRef.current !== 'requesting' && stateRef.current !== 'error') {
+      setScannerState('streaming')
+    }
+  }, [resetVotes, setPage, cancelAutoConfirm])
+
+  /** Rapid mode swaps the per-card cooldown for waiting until the card leaves the frame. */
+  const toggleRapidMode = useCallback(() => {
+    setRapidMode((prev) => !prev)
+    heldCardRef.current = null
+    cooldownRef.current.clear()
+  }, [])
+
+  /** Only switches to the worker where the browser can run it. */
+  const toggleFramePipeline = useCallback(() => {
+    setFramePipeline((prev) => (prev === 'main' && isFrameWorkerSupported() ? 'worker' : 'main'))
+  }, [])
+
+  const reviewPage = useCallback(() => {
+    setScannerState('reviewing-page')
+  }, [])
+
+  const updateBinderCell = useCallback((index: number, change: BinderCellChange) => {
+    setPage(binderPageRef.current.map((cell, i) => (i === index ? changeBinderCell(cell, change) : cell)))
+  }, [setPage])
+
+  const confirmPage = useCallback(() => {
+    const entries = binderPageEntries(binderPageRef.current)
+    if (entries.length > 0) {
+      onPageMatchedRef.current(entries)
+      setScanCount((c) => c + entries.length)
+    }
+    setPage(emptyBinderPage())
+    setScannerState('streaming')
+  }, [setPage])
+
+  const rescanPage = useCallback(() => {
+    setPage(emptyBinderPage())
+    setScannerState('streaming')
+  }, [setPage])
+
+  /**
+   * Binder-page pass — read every pocket that hasn't settled yet. Pockets
+   * share the one OCR worker, so a full pass takes a few seconds; a pocket
+   * is matched once its own frames agree, as in single-card mode.
+   */
+  const processBinderPage = useCallback(async (video: HTMLVideoElement, cover: CoverTransform) => {
+    const unread = binderPageRef.current.flatMap((cell, i) => (needsReading(cell) ? [i] : []))
+    const strategy = pickStrategy(strategyStatsRef.current, strategyFrameRef.current++)
+
+    // One frame for the whole pass — every pocket is cropped from it up front
+    const page = unread.length > 0
+      ? await readPageFrame(
+          video,
+          { cover, videoWidth: video.videoWidth, videoHeight: video.videoHeight },
+          unread,
+          strategy,
+          framePipelineRef.current,
+        )
+      : { pockets: [], pipeline: framePipelineRef.current, mainThreadMs: 0 }
+
+    for (const pocket of page.pockets) {
+      const i = pocket.index
+      // The user may review, rescan or switch modes while a pass is running
+      if (scanModeRef.current !== 'binder' || stateRef.current !== 'streaming') return
+      if (!needsReading(binderPageRef.current[i]!)) continue
+
+      const ocrStart = performance.now()
+      const ocrResult = await recognizeCollectorNumber(pocket.cn)
+      const ocrLatency = performance.now() - ocrStart
+      const parsed = ocrResult.text ? parseCollectorNumber(ocrResult.text) : null
+      // An empty pocket reads as nothing — that says nothing about the strategy
+      if (ocrResult.text && ocrResult.confidence >= MIN_CONFIDENCE) {
+        strategyStatsRef.current = recordStrategyRead(strategyStatsRef.current, strategy, parsed !== null)
+      }
+
+      let frameInk: string | null = null
+      if (parsed && pocket.ink.confidence >= MIN_INK_CONFIDENCE) {
+        frameInk = pocket.ink.detectedInks.length > 0 ? pocket.ink.detectedInks.join('/') : pocket.ink.ink
+      }
+
+      const vote: ScanVote | null = parsed
+        ? {
+            cn: parsed.cn,
+            total: parsed.total,
+            setNumber: parsed.setNumber,
+            ink: frameInk,
+            language: parsed.language,
+            confidence: ocrResult.confidence,
+          }
+        : null
+      const cell = readBinderCell(binderPageRef.current[i]!, vote, (agreed) => {
+        const inks = agreed.ink ? agreed.ink.split('/') : []
+        const match = matchCardByCollectorNumber(
+          agreed.cn,
+          cardsRef.current,
+          setFilterRef.current,
+          agreed.total,
+          inks[0] ?? null,
+          inks,
+          agreed.setNumber,
+        )
+        return matchInLanguage(match, agreed.language)
+      })
+      setPage(binderPageRef.current.map((c, j) => (j === i ? cell : c)))
+
+      const matchResult = `pocket ${i + 1}: ` + (cell.card ? `${cell.card.display} (${cell.status})` : cell.status)
+      recordFrame({
+        ocrConfidence: ocrResult.confidence,
+        ocrText: ocrResult.text || '',
+        workerLatencyMs: Math.round(ocrLatency),
+        mutexContended: ocrLatency > FRAME_INTERVAL,
+        parsedCn: parsed ? `${parsed.cn}/${parsed.total || '?'}${parsed.setNumber ? ' set:' + parsed.setNumber : ''}` : null,
+        detectedInk: frameInk,
+        matchResult,
+        // The pass's main-thread time, shared between the pockets read from it
+        mainThreadMs: +(page.mainThreadMs / page.pockets.length).toFixed(1),
+        pipeline: page.pipeline,
+        ocrStrategy: strategy,
+      })
+    }
+
+    if (stateRef.current === 'streaming' && isPageSettled(binderPageRef.current)) {
+      setScannerState('reviewing-page')
+    }
+  }, [setPage])
+
   /**
    * Capture the current camera frame and extract labelled regions as data URLs.
    * This is the "see what the algorithm sees" debug tool.
@@ -300,26 +669,22 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     const cover = getCoverTransform(video)
     if (!cover) return
 
-    const gx = cover.offsetX + GUIDE_X * cover.visibleW
-    const gy = cover.offsetY + GUIDE_Y * cover.visibleH
-    const gw = GUIDE_W * cover.visibleW
-    const gh = GUIDE_H * cover.visibleH
+    // A one-off on the main thread, with its own canvases
+    const located = locateCard(video, { cover, videoWidth: vw, videoHeight: vh }, canvasPool(() => document.createElement('canvas')))
+    const regions = cropRegions(cover, located !== null)
+    const source: CanvasImageSource = located ? located.card : video
 
     const snap = document.createElement('canvas')
     const sCtx = snap.getContext('2d')
     if (!sCtx) return
 
-    // Helper: crop a region from the video (in video-pixel coords) and return a data URL
-    const cropToDataUrl = (
-      sx: number, sy: number, sw: number, sh: number,
-    ): string => {
-      const ix = Math.floor(sx)
-      const iy = Math.floor(sy)
-      const iw = Math.max(1, Math.floor(sw))
-      const ih = Math.max(1, Math.floor(sh))
+    // Helper: crop a region from the crop source (upright card or video) and return a data URL
+    const cropToDataUrl = ({ x, y, w, h }: Rect): string => {
+      const iw = Math.max(1, w)
+      const ih = Math.max(1, h)
       snap.width = iw
       snap.height = ih
-      sCtx.drawImage(video, ix, iy, iw, ih, 0, 0, iw, ih)
+      sCtx.drawImage(source, x, y, iw, ih, 0, 0, iw, ih)
       return snap.toDataURL('image/jpeg', 0.85)
     }
 
@@ -329,31 +694,26 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     sCtx.drawImage(video, 0, 0)
     const fullFrame = snap.toDataURL('image/jpeg', 0.7)
 
-    // 2. Guide frame crop — exactly what processFrame uses (cover-aware)
-    const algoCrop = cropToDataUrl(gx, gy, gw, gh)
+    // 2. Upright card (or guide frame crop) — exactly what processFrame uses
+    const algoCrop = cropToDataUrl(regions.frame)
 
     // 3. Collector number region
-    const cnRegion = cropToDataUrl(
-      gx + CN_REGION_LEFT * gw,
-      gy + CN_REGION_TOP * gh,
-      CN_REGION_WIDTH * gw,
-      CN_REGION_HEIGHT * gh,
-    )
+    const cnRegion = cropToDataUrl(regions.cn)
 
     // 4. Ink colour region
-    const inkDotRegion = cropToDataUrl(
-      gx + INK_REGION_LEFT * gw,
-      gy + INK_REGION_TOP * gh,
-      INK_REGION_WIDTH * gw,
-      INK_REGION_HEIGHT * gh,
-    )
+    const inkDotRegion = cropToDataUrl(regions.ink)
+
+    // 5. Card name region (fallback OCR)
+    const nameRegion = cropToDataUrl(regions.name)
 
     setDebugCaptures({
       fullFrame,
       algoCrop,
       cnRegion,
       inkDotRegion,
+      nameRegion,
       videoRes: `${vw}\u00d7${vh}`,
+      cardDetected: located !== null,
     })
   }, [])
 
@@ -364,20 +724,28 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
   /**
    * processFrame — CN + set number + ink dot matching pipeline.
    *
-   * 1. Crop the collector number region from the camera feed
+   * 0-1. Capture the frame and hand it to the frame pipeline worker, which
+   *    finds and straightens the card and returns the binarized CN and name
+   *    crops, the ink colour and a foil sample (see frame-pipeline.ts)
    * 2. Run OCR (Tesseract SINGLE_BLOCK mode)
    * 3. Parse the "130/204 EN 7" pattern (CN + total + set number)
-   * 4. Crop the ink dot region and detect the colour
-   * 5. Look up the card by CN + set number + ink + set filter
+   *    — if that fails, read the name banner and match by name instead
+   * 4. Use the ink colour the pipeline detected
+   * 5. Vote: wait until enough recent frames agree on the reading
+   * 6. Look up the card by the agreed CN + set number + ink + set filter
+   *    — if several cards share the CN, let the name banner pick one
+   *
+   * In binder mode the frame goes to processBinderPage instead.
    */
   const processFrame = useCallback(async () => {
     if (!videoRef.current || videoRef.current.readyState < 2) return
     if (processingRef.current) return
-    // Don't process while viewing a match toast
-    if (stateRef.current === 'matched') return
+    // Don't process while viewing a match toast or reviewing a binder page
+    if (stateRef.current === 'matched' || stateRef.current === 'reviewing-page') return
     // During disambiguation, KEEP scanning — a later frame may read the set
     // number and auto-resolve to a single card without user interaction.
     processingRef.current = true
+    let frame: CardFrame | null = null
 
     try {
       const video = videoRef.current
@@ -389,22 +757,28 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
       const cover = getCoverTransform(video)
       if (!cover) return
 
+      if (scanModeRef.current === 'binder') {
+        await processBinderPage(video, cover)
+        return
+      }
+
       const guideX = cover.offsetX + GUIDE_X * cover.visibleW
       const guideY = cover.offsetY + GUIDE_Y * cover.visibleH
       const guideW = GUIDE_W * cover.visibleW
       const guideH = GUIDE_H * cover.visibleH
 
-      // ── 1. Crop the collector number region ──────────────────────
-      if (!cnCanvasRef.current) cnCanvasRef.current = document.createElement('canvas')
-      const cnCanvas = cnCanvasRef.current
-      const cnCtx = cnCanvas.getContext('2d')
-      if (!cnCtx) return
-
-      const cnSx = Math.floor(guideX + CN_REGION_LEFT * guideW)
-      const cnSy = Math.floor(guideY + CN_REGION_TOP * guideH)
-      const cnSw = Math.floor(CN_REGION_WIDTH * guideW)
-      const cnSh = Math.floor(CN_REGION_HEIGHT * guideH)
-
+      // ── 0. Capture the frame and run the image pipeline ─────────
+      const strategy = pickStrategy(strategyStatsRef.current, strategyFrameRef.current++)
+      frame = await readCardFrame(video, { cover, videoWidth: vw, videoHeight: vh }, strategy, framePipelineRef.current)
+      if (!frame) return
+      const { located, regions } = frame
+      setCardOutline(located ? located.outline : null)
+      outlineInViewRef.current = located !== null
+      // Foil shimmer is measured on the upright card, where frames line up
+      if (frame.foilSample) foilSamplesRef.current = addFoilSample(foilSamplesRef.current, frame.foilSample)
+      const foilScore = located ? shimmerScore(foilSamplesRef.current) : null
+
+      // ── 1. The collector number crop ─────────────────────────────
       // Store crop snapshot for diagnostics (lightweight — just numbers)
       cropSnapshotRef.current = {
         coverTransform: {
@@ -418,45 +792,62 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
           visibleH: Math.round(cover.visibleH),
         },
         guideFramePx: { x: Math.round(guideX), y: Math.round(guideY), w: Math.round(guideW), h: Math.round(guideH) },
-        cnRegionPx: { x: cnSx, y: cnSy, w: cnSw, h: cnSh },
-        inkRegionPx: {
-          x: Math.floor(guideX + INK_REGION_LEFT * guideW),
-          y: Math.floor(guideY + INK_REGION_TOP * guideH),
-          w: Math.floor(INK_REGION_WIDTH * guideW),
-          h: Math.floor(INK_REGION_HEIGHT * guideH),
-        },
+        cardQuadPx: located
+          ? (located.quadPx.map((p) => ({ x: Math.round(p.x), y: Math.round(p.y) })) as Quad)
+          : null,
+        cnRegionPx: regions.cn,
+        inkRegionPx: regions.ink,
       }
 
-      // Draw CN crop at 3x scale — text goes from ~15px to ~45px tall
-      cnCanvas.width = cnSw * OCR_UPSCALE
-      cnCanvas.height = cnSh * OCR_UPSCALE
-      cnCtx.imageSmoothingEnabled = true
-      cnCtx.imageSmoothingQuality = 'high'
-      cnCtx.drawImage(video, cnSx, cnSy, cnSw, cnSh, 0, 0, cnCanvas.width, cnCanvas.height)
-
-      // Preprocess: grayscale → auto-invert → Otsu binarization
-      // Produces clean black text on white background for Tesseract
-      preprocessForOcr(cnCanvas)
-
-      // Save preprocessed image for diagnostics (JPEG, low quality to save memory)
-      try { preprocessedImageRef.current = cnCanvas.toDataURL('image/jpeg', 0.5) } catch { /* ignore */ }
+      // Keep the preprocessed crop for diagnostics — encoded only on export
+      preprocessedImageRef.current = frame.cn
 
       // ── 2. Run OCR ──────────────────────────────────────────────
       const ocrStart = performance.now()
-      const ocrResult = await recognizeCollectorNumber(cnCanvas)
+      const ocrResult = await recognizeCollectorNumber(frame.cn)
       const ocrLatency = performance.now() - ocrStart
       setLastOcrText(ocrResult.text || '')
 
       // ── 3. Parse collector number ───────────────────────────────
-      if (ocrResult.confidence < MIN_CONFIDENCE || !ocrResult.text) {
-        const matchResult = ocrResult.confidence < MIN_CONFIDENCE ? 'low confidence' : 'no text'
+      const readable = ocrResult.confidence >= MIN_CONFIDENCE && !!ocrResult.text
+      const parsed = readable ? parseCollectorNumber(ocrResult.text) : null
+      // Frames with no card in view don't count against the strategy
+      if (located || readable) {
+        strategyStatsRef.current = recordStrategyRead(strategyStatsRef.current, strategy, parsed !== null)
+      }
+
+      // Cooldown — forget cards matched long enough ago
+      const now = Date.now()
+      for (const [key, ts] of cooldownRef.current) {
+        if (now - ts > COOLDOWN_MS) cooldownRef.current.delete(key)
+      }
+
+      // Rapid mode — release the last logged card once a different card is
+      // read or its outline has left the frame, so a second copy still counts
+      heldCardRef.current = trackHeldCard(heldCardRef.current, { cardInView: located !== null, cn: parsed?.cn ?? null })
+
+      if (!parsed) {
+        castVote(null)
+
+        // ── 3b. Fall back to the card name ────────────────────────
+        const nameRead = await readCardName(frame)
+        // The number didn't parse, but the footer's language code may have
+        const footerLanguage = readable ? parseFooterLanguage(ocrResult.text) : null
+        const byName = nameRead?.text ? matchByName(nameRead.text, nameRead.confidence, footerLanguage) : null
+        const failure = !readable
+          ? (ocrResult.confidence < MIN_CONFIDENCE ? 'low confidence' : 'no text')
+          : 'parse failed'
+        const matchResult = byName ? byName.matchResult : failure
+
         setDebugInfo({
           videoRes: `${vw}x${vh}`,
           lastOcrText: ocrResult.text || '',
           lastOcrConfidence: ocrResult.confidence,
           detectedInk: '-',
           inkConfidence: 0,
-          parsedCn: '-',
+          parsedCn: readable ? 'no match' : '-',
+          nameOcrText: nameRead?.text ?? '',
+          foilScore,
           matchResult,
         })
         recordFrame({
@@ -467,78 +858,106 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
           parsedCn: null,
           detectedInk: null,
           matchResult,
+          foilScore,
+          mainThreadMs: +frame.mainThreadMs.toFixed(1),
+          pipeline: frame.pipeline,
+          ocrStrategy: strategy,
         })
-        return
-      }
 
-      const parsed = parseCollectorNumber(ocrResult.text)
-      if (!parsed) {
-        setDebugInfo({
-          videoRes: `${vw}x${vh}`,
-          lastOcrText: ocrResult.text,
-          lastOcrConfidence: ocrResult.confidence,
-          detectedInk: '-',
-          inkConfidence: 0,
-          parsedCn: 'no match',
-          matchResult: 'parse failed',
-        })
-        recordFrame({
-          ocrConfidence: ocrResult.confidence,
-          ocrText: ocrResult.text,
-          workerLatencyMs: Math.round(ocrLatency),
-          mutexContended: ocrLatency > FRAME_INTERVAL,
-          parsedCn: null,
-          detectedInk: null,
-          matchResult: 'parse failed',
-        })
+        if (byName?.card && !isHeld(byName.card)) {
+          acceptMatch(byName.card, 'name')
+        }
         return
       }
 
-      // ── 4. Detect ink colour ────────────────────────────────────
-      if (!inkCanvasRef.current) inkCanvasRef.current = document.createElement('canvas')
-      const inkCanvas = inkCanvasRef.current
-      const inkCtx = inkCanvas.getContext('2d')
-      if (!inkCtx) return
-
-      const inkSx = Math.floor(guideX + INK_REGION_LEFT * guideW)
-      const inkSy = Math.floor(guideY + INK_REGION_TOP * guideH)
-      const inkSw = Math.floor(INK_REGION_WIDTH * guideW)
-      const inkSh = Math.floor(INK_REGION_HEIGHT * guideH)
-
-      inkCanvas.width = inkSw
-      inkCanvas.height = inkSh
-      // No filter — we need true colours for ink detection
-      inkCtx.drawImage(video, inkSx, inkSy, inkSw, inkSh, 0, 0, inkSw, inkSh)
-
-      const inkResult = detectInkColor(inkCanvas)
+      // ── 4. Ink colour ───────────────────────────────────────────
+      const inkResult = frame.ink
       const useInk = inkResult.confidence >= MIN_INK_CONFIDENCE ? inkResult.ink : null
       const useInks = inkResult.confidence >= MIN_INK_CONFIDENCE ? inkResult.detectedInks : []
       setLastDetectedInk(useInks.length > 0 ? useInks.join('/') : useInk)
 
-      // ── 5. Match card ───────────────────────────────────────────
-      // Check cooldown — skip if we recently matched this cn
-      const now = Date.now()
-      for (const [key, ts] of cooldownRef.current) {
-        if (now - ts > COOLDOWN_MS) cooldownRef.current.delete(key)
+      // ── 5. Vote ─────────────────────────────────────────────────
+      const frameInk = useInks.length > 0 ? useInks.join('/') : useInk
+      const tally = castVote({
+        cn: parsed.cn,
+        total: parsed.total,
+        setNumber: parsed.setNumber,
+        ink: frameInk,
+        language: parsed.language,
+        confidence: ocrResult.confidence,
+      })
+      const agreed = tally.accepted
+
+      // ── 6. Match card ───────────────────────────────────────────
+      // Until the window agrees, nothing is matched — not even candidates
+      const agreedInks = agreed?.ink ? agreed.ink.split('/') : []
+      let result = agreed
+        ? matchCardByCollectorNumber(
+            agreed.cn,
+            cardsRef.current,
+            setFilterRef.current,
+            agreed.total,
+            agreedInks[0] ?? null,
+            agreedInks,
+            agreed.setNumber,
+          )
+        : null
+
+      let method: MatchMethod = agreedInks.length > 0 ? 'cn+ink' : 'cn'
+
+      // Several cards share this CN — the card art may say which. The
+      // offline hash index needs the upright card; histograms make do with
+      // the guide frame.
+      const hashIndex = hashIndexRef.current
+      if (result && !result.card && result.candidates.length > 1 && hashIndex && frame.card) {
+        const art = drawArt(frame, video)
+        const hash = art ? perceptualHashOfCanvas(art) : null
+        const picked = hash ? pickByHash(hash, hashIndex, result.candidates) : null
+        if (picked) {
+          result = { card: picked.card, candidates: [], similarity: result.similarity }
+          method = 'cn+image'
+        }
+      }
+      const imageDB = imageDBRef.current
+      if (result && !result.card && result.candidates.length > 1 && imageDB) {
+        const art = drawArt(frame, video)
+        const byImage = art ? imageDB.findMatch(art, result.candidates) : { card: null, candidates: [] }
+        if (byImage.card) {
+          result = { card: byImage.card, candidates: [], similarity: result.similarity }
+          method = 'cn+image'
+        } else if (byImage.candidates.length > 0) {
+          // Closest art first in the disambiguation list
+          const close = new Set(byImage.candidates.map((c) => `${c.setCode}-${c.cn}`))
+          result = {
+            ...result,
+            candidates: [...byImage.candidates, ...result.candidates.filter((c) => !close.has(`${c.setCode}-${c.cn}`))],
+          }
+        }
       }
 
-      const result = matchCardByCollectorNumber(
-        parsed.cn,
-        cardsRef.current,
-        setFilterRef.current,
-        parsed.total,
-        useInk,
-        useInks,
-        parsed.setNumber,
-      )
+      // ...or the name banner
+      let nameOcrText = ''
+      if (result && !result.card && result.candidates.length > 1) {
+        const nameRead = await readCardName(frame)
+        nameOcrText = nameRead?.text ?? ''
+        const picked = nameOcrText ? pickCandidateByName(nameOcrText, result.candidates) : null
+        if (picked) {
+          result = { card: picked, candidates: [], similarity: result.similarity }
+          method = 'cn+name'
+        }
+      }
 
-      const method: MatchMethod = useInks.length > 0 ? 'cn+ink' : 'cn'
+      // Non-English printings share the English entry's set and number
+      if (result && agreed) result = matchInLanguage(result, agreed.language)
 
-      const matchResultStr = result.card
-        ? `${result.card.display} (${method})`
-        : result.candidates.length > 0
-          ? `${result.candidates.length} candidates`
-          : 'no match'
+      const leader = tally.candidates[0]
+      const matchResultStr = !result
+        ? `voting ${leader?.key ?? '-'} ${leader?.count ?? 0}/${MIN_AGREEING}`
+        : result.card
+          ? `${result.card.display} (${method})`
+          : result.candidates.length > 0
+            ? `${result.candidates.length} candidates`
+            : 'no match'
 
       setDebugInfo({
         videoRes: `${vw}x${vh}`,
@@ -547,6 +966,8 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
         detectedInk: inkResult.detectedInks.length > 0 ? inkResult.detectedInks.join('/') : (inkResult.ink || '-'),
         inkConfidence: inkResult.confidence,
         parsedCn: `${parsed.cn}/${parsed.total || '?'}${parsed.setNumber ? ' set:' + parsed.setNumber : ''}`,
+        nameOcrText,
+        foilScore,
         matchResult: matchResultStr,
       })
 
@@ -556,23 +977,27 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
         workerLatencyMs: Math.round(ocrLatency),
         mutexContended: ocrLatency > FRAME_INTERVAL,
         parsedCn: `${parsed.cn}/${parsed.total || '?'}${parsed.setNumber ? ' set:' + parsed.setNumber : ''}`,
-        detectedInk: useInks.length > 0 ? useInks.join('/') : useInk,
+        detectedInk: frameInk,
         matchResult: matchResultStr,
+        foilScore,
+        mainThreadMs: +frame.mainThreadMs.toFixed(1),
+        pipeline: frame.pipeline,
+        ocrStrategy: strategy,
       })
 
+      if (!result) return
+
       if (result.card) {
-        // Single match found — auto-accept (also dismisses disambiguation if open)
-        const key = `${result.card.setCode}-${result.card.cn}`
-        if (!cooldownRef.current.has(key)) {
-          acceptMatch(result.card, method)
+        // Single match found — auto-accept (also dismisses disambiguation if open).
+        // A name-picked card is a weaker read, so rapid mode still asks for it.
+        if (!isHeld(result.card)) {
+          acceptMatch(result.card, method, method !== 'cn+name')
         }
       } else if (result.candidates.length > 0) {
         // Multiple candidates — only show disambiguation if not already showing.
         // Keep scanning in the background to try to auto-resolve with set number.
         if (stateRef.current !== 'disambiguating') {
-          const allOnCooldown = result.candidates.every(
-            (c) => cooldownRef.current.has(`${c.setCode}-${c.cn}`),
-          )
+          const allOnCooldown = result.candidates.every(isHeld)
           if (!allOnCooldown) {
             setCandidates(result.candidates)
             setScannerState('disambiguating')
@@ -580,20 +1005,26 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
         }
       }
     } finally {
+      if (frame) releaseCardFrame(frame)
       processingRef.current = false
     }
-  }, [acceptMatch])
+  }, [acceptMatch, isHeld, castVote, readCardName, drawArt, matchByName, processBinderPage])
 
   const openScanner = useCallback(async () => {
     setError(null)
     setLastMatch(null)
     setMatchMethod(null)
+    setFoilEstimate(null)
     setCandidates([])
     setScanCount(0)
     setDebugInfo(null)
     setLastOcrText('')
     setLastDetectedInk(null)
+    setCardOutline(null)
+    resetVotes()
+    setPage(emptyBinderPage())
     cooldownRef.current.clear()
+    heldCardRef.current = null
     setScannerState('requesting')
 
     try {
@@ -637,15 +1068,16 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
       setError(message)
       setScannerState('error')
     }
-  }, [processFrame])
+  }, [processFrame, resetVotes, setPage])
 
   /**
    * Export a compact JSON diagnostics file and trigger a browser download.
    * Contains everything needed to debug scanner failures remotely:
    * cover transform, crop coordinates, telemetry frames, and app metadata.
    */
-  const exportDiagnostics = useCallback(() => {
+  const exportDiagnostics = useCallback(async () => {
     const telemetry = getTelemetryState()
+    const preprocessedCnImage = preprocessedImageRef.current ? await ocrImageDataUrl(preprocessedImageRef.current) : null
     const diag = {
       exportedAt: new Date().toISOString(),
       appVersion: typeof __APP_VERSION__ !== 'undefined' ? __APP_VERSION__ : 'unknown',
@@ -658,10 +1090,13 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
       },
       setFilter: setFilterRef.current,
       cardPoolSize: cardsRef.current.length,
+      framePipeline: framePipelineRef.current,
+      ocrStrategies: strategyStatsRef.current,
       coverTransform: cropSnapshotRef.current?.coverTransform || null,
       cropCoordinates: cropSnapshotRef.current
         ? {
             guideFrame: cropSnapshotRef.current.guideFramePx,
+            cardQuad: cropSnapshotRef.current.cardQuadPx,
             cnRegion: cropSnapshotRef.current.cnRegionPx,
             inkRegion: cropSnapshotRef.current.inkRegionPx,
           }
@@ -670,20 +1105,27 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
         GUIDE: { x: GUIDE_X, y: GUIDE_Y, w: GUIDE_W, h: GUIDE_H },
         CN_REGION: { left: CN_REGION_LEFT, top: CN_REGION_TOP, w: CN_REGION_WIDTH, h: CN_REGION_HEIGHT },
         INK_REGION: { left: INK_REGION_LEFT, top: INK_REGION_TOP, w: INK_REGION_WIDTH, h: INK_REGION_HEIGHT },
+        NAME_REGION: { left: NAME_REGION_LEFT, top: NAME_REGION_TOP, w: NAME_REGION_WIDTH, h: NAME_REGION_HEIGHT },
+        CARD_CN_REGION: { top: CARD_CN_TOP, h: CARD_CN_HEIGHT },
         OCR_UPSCALE,
         MIN_CONFIDENCE,
         MIN_INK_CONFIDENCE,
+        MIN_AGREEING,
+        FOIL_THRESHOLD,
       },
       telemetry: {
         totalFrames: telemetry.totalFrames,
         avgLatencyMs: telemetry.avgLatencyMs,
         peakLatencyMs: telemetry.peakLatencyMs,
         currentMemoryMB: +(telemetry.currentMemoryBytes / (1024 * 1024)).toFixed(1),
+        mainThreadMs: telemetry.mainThreadMs,
       },
-      // Base64 JPEG of the latest preprocessed CN crop — open in browser to see
+      // Data URL of the latest preprocessed CN crop — open in browser to see
       // exactly what Tesseract received (black/white binarized image)
-      preprocessedCnImage: preprocessedImageRef.current,
+      preprocessedCnImage,
       recentFrames: telemetry.frames,
+      // Foil guesses next to the variant the user confirmed — for tuning FOIL_THRESHOLD
+      foilDecisions: telemetry.foilDecisions,
     }
 
     const json = JSON.stringify(diag, null, 2)
@@ -703,26 +1145,34 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     setScannerState('idle')
     setLastMatch(null)
     setMatchMethod(null)
+    setFoilEstimate(null)
     setCandidates([])
     setError(null)
     setDebugInfo(null)
     setDebugCaptures(null)
     setLastOcrText('')
     setLastDetectedInk(null)
+    setCardOutline(null)
+    setAutoConfirmAt(null)
+    heldCardRef.current = null
+    resetVotes()
+    setPage(emptyBinderPage())
     processingRef.current = false
-    // Release off-screen canvases
-    cnCanvasRef.current = null
-    inkCanvasRef.current = null
+    // Release off-screen canvases and the frame pipeline worker
+    imageCanvasRef.current = null
+    preprocessedImageRef.current = null
+    terminateFrameWorker()
     // Terminate OCR worker to reclaim ~4 MB (re-created lazily on next open)
     terminateWorker().catch(() => {})
     // Clear the telemetry ring buffer for the next session
     resetTelemetry()
-  }, [stopStream])
+  }, [stopStream, resetVotes, setPage])
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopStream()
+      terminateFrameWorker()
       terminateWorker().catch(() => {})
     }
   }, [stopStream])
@@ -732,6 +1182,10 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     scannerState,
     lastMatch,
     matchMethod,
+    foilEstimate,
+    rapidMode,
+    framePipeline,
+    autoConfirmAt,
     candidates,
     error,
     videoRef,
@@ -740,14 +1194,26 @@ export function useScanner({ cards, setFilter, onCardMatched }: UseScannerOption
     debugCaptures,
     lastOcrText,
     lastDetectedInk,
+    voteTally,
+    cardOutline,
+    scanMode,
+    binderPage,
     openScanner,
     closeScanner,
     selectCandidate,
     confirmMatch,
+    holdMatch: cancelAutoConfirm,
     skipMatch,
     dismissDisambiguation,
     captureDebugFrame,
     dismissDebugCaptures,
     exportDiagnostics,
+    toggleScanMode,
+    toggleRapidMode,
+    toggleFramePipeline,
+    reviewPage,
+    updateBinderCell,
+    confirmPage,
+    rescanPage,
   }
 }
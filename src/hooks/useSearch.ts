@@ -1,6 +1,8 @@
 import { useState, useCallback, useEffect, useRef, useMemo } from 'react'
-import type { Card } from '../types'
-import { searchCards } from '../utils/search'
+import type { Card, CardLanguage } from '../types'
+import { findCards } from '../utils/search'
+import { parseSearchQuery } from '../utils/search-query'
+import { withLanguage } from '../utils/card-language'
 import { debounce } from '../utils/debounce'
 
 const SEARCH_DEBOUNCE_MS = 150
@@ -8,8 +10,14 @@ const SEARCH_DEBOUNCE_MS = 150
 export function useSearch(cards: Card[]) {
   const [search, setSearch] = useState('')
   const [results, setResults] = useState<Card[]>([])
+  // Matches past the results shown
+  const [moreResults, setMoreResults] = useState(0)
+  // Why the query doesn't parse, shown in place of "No cards found"
+  const [queryError, setQueryError] = useState<string | null>(null)
   const [selectedIdx, setSelectedIdx] = useState(0)
   const [setFilter, setSetFilter] = useState('all')
+  // Printing that results are shown (and added) in
+  const [language, setLanguage] = useState<CardLanguage>('en')
 
   const inputRef = useRef<HTMLInputElement>(null)
   const resultsRef = useRef<HTMLDivElement>(null)
@@ -19,18 +27,25 @@ export function useSearch(cards: Card[]) {
   cardsRef.current = cards
   const filterRef = useRef(setFilter)
   filterRef.current = setFilter
+  const languageRef = useRef(language)
+  languageRef.current = language
 
   // Create a stable debounced search function
   const debouncedSearch = useMemo(
     () =>
       debounce((query: string) => {
-        if (!query.trim() || cardsRef.current.length === 0) {
+        const { query: parsed, error } = parseSearchQuery(query)
+        setQueryError(error)
+        if (!parsed || cardsRef.current.length === 0) {
           setResults([])
+          setMoreResults(0)
           setSelectedIdx(0)
           return
         }
-        const found = searchCards(query, cardsRef.current, filterRef.current)
-        setResults(found)
+        const found = findCards(parsed, cardsRef.current, filterRef.current)
+        const lang = languageRef.current
+        setResults(lang === 'en' ? found.cards : found.cards.map((c) => withLanguage(c, lang)))
+        setMoreResults(found.more)
         setSelectedIdx(0)
       }, SEARCH_DEBOUNCE_MS),
     [],
@@ -41,11 +56,13 @@ export function useSearch(cards: Card[]) {
     if (!search.trim()) {
       debouncedSearch.cancel()
       setResults([])
+      setMoreResults(0)
+      setQueryError(null)
       setSelectedIdx(0)
       return
     }
     debouncedSearch.call(search)
-  }, [search, cards, setFilter, debouncedSearch])
+  }, [search, cards, setFilter, language, debouncedSearch])
 
   // Cleanup on unmount
   useEffect(() => {
@@ -65,6 +82,8 @@ export function useSearch(cards: Card[]) {
     debouncedSearch.cancel()
     setSearch('')
     setResults([])
+    setMoreResults(0)
+    setQueryError(null)
     setSelectedIdx(0)
   }, [debouncedSearch])
 
@@ -86,10 +105,14 @@ export function useSearch(cards: Card[]) {
     search,
     setSearch,
     results,
+    moreResults,
+    queryError,
     selectedIdx,
     setSelectedIdx,
     setFilter,
     setSetFilter,
+    language,
+    setLanguage,
     inputRef,
     resultsRef,
     clearSearch,
@@ -1,5 +1,6 @@
-import { useState, useCallback, useRef } from 'react'
-import { SafeStorage } from '../utils/safe-storage'
+import { useState, useCallback, useRef, useEffect } from 'react'
+import type { Session } from '../types'
+import { loadActiveSession, loadSessions, saveActiveSession, saveSession, deleteSession as deleteStoredSession } from '../db'
 
 /**
  * Generate a default session name from the current date and time.
@@ -11,65 +12,195 @@ function defaultSessionName(): string {
   return `${d.getDate()} ${months[d.getMonth()]} ${d.getFullYear()}, ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`
 }
 
+/** New session with an id that doesn't collide with any existing one. */
+function newSession(existing: Session[], name?: string): Session {
+  const lastId = existing.reduce((max, s) => Math.max(max, s.id), 0)
+  return { id: Math.max(Date.now(), lastId + 1), name: name || defaultSessionName(), startedAt: null, archivedAt: null }
+}
+
+/** Only the current fields — older records also carry a pack-numbering add count. */
+function normalise(stored: Session): Session {
+  return {
+    id: stored.id,
+    name: stored.name || defaultSessionName(),
+    startedAt: stored.startedAt,
+    archivedAt: stored.archivedAt ?? null,
+  }
+}
+
+/**
+ * The list of sessions and the active one that pulls are logged into. Each
+ * session keeps its own pulls and packs (keyed by id), so switching sessions
+ * just changes `sessionId`; nothing is cleared.
+ */
 export function useSession() {
-  const [sessionName, setSessionNameRaw] = useState<string>(
-    () => SafeStorage.getItem('lorcana_session_name') || defaultSessionName(),
+  // Full records mirrored in refs so synchronous callers always see the
+  // latest values. Persisted to IndexedDB on every change.
+  const [initial] = useState(() => newSession([]))
+  const sessionsRef = useRef<Session[]>([initial])
+  const activeIdRef = useRef<number>(initial.id)
+  const hydratedRef = useRef(false)
+
+  const [sessions, setSessions] = useState<Session[]>([initial])
+  const [sessionId, setSessionId] = useState<number | null>(null)
+
+  const update = useCallback((list: Session[], activeId: number) => {
+    sessionsRef.current = list
+    activeIdRef.current = activeId
+    setSessions(list)
+    if (hydratedRef.current) setSessionId(activeId)
+  }, [])
+
+  // Load the stored sessions from IndexedDB, creating one on first run
+  useEffect(() => {
+    let cancelled = false
+
+    Promise.all([loadSessions(), loadActiveSession()]).then(([stored, active]) => {
+      if (cancelled) return
+      let list = stored.map(normalise)
+      let activeId = active?.id ?? [...list].reverse().find((s) => !s.archivedAt)?.id
+      if (activeId === undefined) {
+        // First run: keep anything named or started before the load finished
+        const created = sessionsRef.current.find((s) => s.id === activeIdRef.current)!
+        list = [...list, created]
+        activeId = created.id
+        saveActiveSession(created)
+      }
+      hydratedRef.current = true
+      update(list, activeId)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [update])
+
+  const patchSession = useCallback(
+    (id: number, patch: Partial<Session>) => {
+      const list = sessionsRef.current.map((s) => (s.id === id ? { ...s, ...patch } : s))
+      update(list, activeIdRef.current)
+      const session = list.find((s) => s.id === id)
+      // Before hydration the record is written once loading decides it is new
+      if (session && hydratedRef.current) saveSession(session)
+    },
+    [update],
   )
 
-  const [sessionStartedAt, setSessionStartedAtRaw] = useState<number | null>(() => {
-    const t = SafeStorage.getItem('lorcana_session_started')
-    return t ? parseInt(t, 10) : null
-  })
+  /** Make `id` the session new pulls go into (restoring it if archived). */
+  const switchSession = useCallback(
+    (id: number) => {
+      const target = sessionsRef.current.find((s) => s.id === id)
+      if (!target) return
+      const session = { ...target, archivedAt: null }
+      update(
+        sessionsRef.current.map((s) => (s.id === id ? session : s)),
+        id,
+      )
+      if (hydratedRef.current) saveActiveSession(session)
+    },
+    [update],
+  )
 
-  const addCountRef = useRef<number>(
-    (() => {
-      const c = SafeStorage.getItem('lorcana_session_add_count')
-      return c ? parseInt(c, 10) : 0
-    })(),
+  /** Start a new empty session and switch to it. */
+  const createSession = useCallback(
+    (name?: string) => {
+      const session = newSession(sessionsRef.current, name)
+      update([...sessionsRef.current, session], session.id)
+      if (hydratedRef.current) saveActiveSession(session)
+      return session.id
+    },
+    [update],
   )
 
-  const setSessionName = useCallback((name: string) => {
-    setSessionNameRaw(name)
-    SafeStorage.setItem('lorcana_session_name', name)
-  }, [])
+  /**
+   * Called when the active session goes away: switch to the newest session
+   * still in the list, or start a fresh one if none is left.
+   */
+  const replaceActive = useCallback(
+    (list: Session[]) => {
+      const next = [...list].reverse().find((s) => !s.archivedAt)
+      if (next) {
+        update(list, next.id)
+        saveActiveSession(next)
+      } else {
+        const session = newSession(sessionsRef.current)
+        update([...list, session], session.id)
+        saveActiveSession(session)
+      }
+    },
+    [update],
+  )
 
-  const ensureSessionStarted = useCallback(() => {
-    setSessionStartedAtRaw((prev) => {
-      if (prev) return prev
-      const now = Date.now()
-      SafeStorage.setItem('lorcana_session_started', String(now))
-      return now
-    })
-  }, [])
+  const renameSession = useCallback(
+    (id: number, name: string) => {
+      patchSession(id, { name })
+    },
+    [patchSession],
+  )
 
-  const incrementAddCount = useCallback(() => {
-    addCountRef.current = addCountRef.current + 1
-    SafeStorage.setItem('lorcana_session_add_count', String(addCountRef.current))
-    return addCountRef.current
-  }, [])
+  const archiveSession = useCallback(
+    (id: number) => {
+      if (id !== activeIdRef.current) {
+        patchSession(id, { archivedAt: Date.now() })
+        return
+      }
+      const archived = { ...sessionsRef.current.find((s) => s.id === id)!, archivedAt: Date.now() }
+      saveSession(archived)
+      replaceActive(sessionsRef.current.map((s) => (s.id === id ? archived : s)))
+    },
+    [patchSession, replaceActive],
+  )
 
-  const currentPack = useCallback(() => {
-    return Math.ceil(addCountRef.current / 12)
-  }, [])
+  const restoreSession = useCallback(
+    (id: number) => {
+      patchSession(id, { archivedAt: null })
+    },
+    [patchSession],
+  )
+
+  /** Permanently remove a session along with its pulls and packs. */
+  const deleteSession = useCallback(
+    (id: number) => {
+      deleteStoredSession(id)
+      const list = sessionsRef.current.filter((s) => s.id !== id)
+      if (id === activeIdRef.current) replaceActive(list)
+      else update(list, activeIdRef.current)
+    },
+    [update, replaceActive],
+  )
+
+  const setSessionName = useCallback(
+    (name: string) => {
+      patchSession(activeIdRef.current, { name })
+    },
+    [patchSession],
+  )
+
+  const ensureSessionStarted = useCallback(() => {
+    const active = sessionsRef.current.find((s) => s.id === activeIdRef.current)
+    if (!active || active.startedAt) return
+    patchSession(active.id, { startedAt: Date.now() })
+  }, [patchSession])
 
   const clearSession = useCallback(() => {
-    setSessionNameRaw(defaultSessionName())
-    setSessionStartedAtRaw(null)
-    addCountRef.current = 0
-    SafeStorage.removeItem('lorcana_session_name')
-    SafeStorage.removeItem('lorcana_session_started')
-    SafeStorage.removeItem('lorcana_session_add_count')
-    SafeStorage.removeItem('lorcana_session_pulls')
-  }, [])
+    patchSession(activeIdRef.current, { name: defaultSessionName(), startedAt: null })
+  }, [patchSession])
+
+  const active = sessions.find((s) => s.id === (sessionId ?? initial.id))
 
   return {
-    sessionName,
-    sessionStartedAt,
-    addCountRef,
+    sessions,
+    sessionId,
+    sessionName: active?.name ?? '',
+    sessionStartedAt: active?.startedAt ?? null,
     setSessionName,
     ensureSessionStarted,
-    incrementAddCount,
-    currentPack,
     clearSession,
+    createSession,
+    switchSession,
+    renameSession,
+    archiveSession,
+    restoreSession,
+    deleteSession,
   }
 }
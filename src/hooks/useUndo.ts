@@ -1,10 +1,27 @@
 import { useState, useCallback, useRef, useEffect } from 'react'
-import type { Card } from '../types'
+import type { Card, CardCondition, CardVariant, VariantDetails } from '../types'
+import { pullKey } from '../utils/card-language'
 
-export interface UndoAction {
+/** One logged copy, and where it went. */
+export interface UndoCopy {
   key: string
   card: Card
-  variant: 'normal' | 'foil'
+  variant: CardVariant
+  details?: VariantDetails
+  /** Condition the copy was logged with */
+  condition?: CardCondition
+  /** Pack the copy was logged into */
+  packNumber: number
+  /** True when this add filled and closed the pack */
+  closedPack: boolean
+}
+
+/** What Undo takes back: one card, or every card of a binder page. */
+export interface UndoAction {
+  /** In the order they were logged */
+  copies: UndoCopy[]
+  /** What the toast says was added: the card's name, or "9 cards" */
+  label: string
   timestamp: number
 }
 
@@ -24,9 +41,8 @@ export function useUndo() {
     }
   }, [])
 
-  const recordAction = useCallback((card: Card, variant: 'normal' | 'foil') => {
-    const key = card.setCode + '-' + card.cn + '-' + variant
-    lastActionRef.current = { key, card, variant, timestamp: Date.now() }
+  const remember = useCallback((action: UndoAction) => {
+    lastActionRef.current = action
 
     // Clear any existing timers
     if (undoTimerRef.current) clearTimeout(undoTimerRef.current)
@@ -47,6 +63,38 @@ export function useUndo() {
     }, 3000)
   }, [])
 
+  const recordAction = useCallback(
+    (
+      card: Card,
+      variant: CardVariant,
+      packNumber: number,
+      closedPack: boolean,
+      details?: VariantDetails,
+      condition?: CardCondition,
+    ) => {
+      const key = pullKey(card, variant, details)
+      remember({
+        copies: [{ key, card, variant, details, condition, packNumber, closedPack }],
+        label: card.display,
+        timestamp: Date.now(),
+      })
+    },
+    [remember],
+  )
+
+  /** Record a binder page added in one step, so one Undo takes all of it back. */
+  const recordPage = useCallback(
+    (copies: Omit<UndoCopy, 'key'>[]) => {
+      if (copies.length === 0) return
+      remember({
+        copies: copies.map((c) => ({ ...c, key: pullKey(c.card, c.variant, c.details) })),
+        label: copies.length === 1 ? copies[0]!.card.display : copies.length + ' cards',
+        timestamp: Date.now(),
+      })
+    },
+    [remember],
+  )
+
   const clearUndo = useCallback(() => {
     if (undoTimerRef.current) clearTimeout(undoTimerRef.current)
     if (undoFadeTimerRef.current) clearTimeout(undoFadeTimerRef.current)
@@ -60,6 +108,7 @@ export function useUndo() {
     undoFading,
     lastActionRef,
     recordAction,
+    recordPage,
     clearUndo,
   }
 }
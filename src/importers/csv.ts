@@ -0,0 +1,99 @@
+import type { ImportRow, ParsedImport } from './types'
+import { parseCSV } from '../utils/csv'
+
+type Column =
+  | 'setCode'
+  | 'cn'
+  | 'variant'
+  | 'count'
+  | 'foilCount'
+  | 'packNumber'
+  | 'language'
+  | 'condition'
+  | 'grade'
+  | 'signed'
+
+// Header spellings we recognise, compared lowercase with spaces/underscores removed.
+// Covers our own Dreamborn and Lorcana HQ exports plus common spreadsheet names.
+const HEADER_ALIASES: Record<string, Column> = {
+  setnumber: 'setCode',
+  set: 'setCode',
+  setcode: 'setCode',
+  cardnumber: 'cn',
+  number: 'cn',
+  cn: 'cn',
+  collectornumber: 'cn',
+  variant: 'variant',
+  count: 'count',
+  quantity: 'count',
+  qty: 'count',
+  foilquantity: 'foilCount',
+  foilcount: 'foilCount',
+  pack: 'packNumber',
+  packnumber: 'packNumber',
+  language: 'language',
+  lang: 'language',
+  condition: 'condition',
+  grade: 'grade',
+  grading: 'grade',
+  signed: 'signed',
+}
+
+function normaliseHeader(h: string): string {
+  return h.toLowerCase().replace(/[\s_-]/g, '')
+}
+
+/**
+ * Read a CSV with a header row. Files with separate normal and foil quantity
+ * columns produce one row per non-zero quantity.
+ */
+export function parseImportCsv(text: string): ParsedImport {
+  const [header, ...body] = parseCSV(text)
+  if (!header) return { rows: [], error: 'The file is empty' }
+
+  const columns: Partial<Record<Column, number>> = {}
+  header.forEach((h, i) => {
+    const col = HEADER_ALIASES[normaliseHeader(h)]
+    if (col && columns[col] === undefined) columns[col] = i
+  })
+
+  if (columns.setCode === undefined || columns.cn === undefined) {
+    return { rows: [], error: 'Could not find set and card number columns in the header row' }
+  }
+
+  const rows: ImportRow[] = []
+  body.forEach((fields, i) => {
+    const line = i + 2
+    const get = (col: Column) => {
+      const idx = columns[col]
+      return idx === undefined ? '' : (fields[idx] ?? '').trim()
+    }
+    const base = {
+      line,
+      setCode: get('setCode'),
+      cn: get('cn'),
+      packNumber: get('packNumber') ? Number(get('packNumber')) : undefined,
+      language: get('language') || undefined,
+      condition: get('condition') || undefined,
+      grade: get('grade') || undefined,
+      signed: get('signed') || undefined,
+    }
+
+    if (columns.foilCount !== undefined) {
+      const normal = get('count') === '' ? 0 : Number(get('count'))
+      const foil = get('foilCount') === '' ? 0 : Number(get('foilCount'))
+      // A Variant column names promo finishes; the quantity column still says which one holds them
+      if (normal !== 0) rows.push({ ...base, variant: get('variant') || 'normal', count: normal })
+      if (foil !== 0) rows.push({ ...base, variant: get('variant') || 'foil', count: foil })
+      return
+    }
+
+    rows.push({
+      ...base,
+      variant: get('variant') || 'normal',
+      count: get('count') === '' ? 1 : Number(get('count')),
+    })
+  })
+
+  return { rows, error: null }
+}
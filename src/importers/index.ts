@@ -0,0 +1,16 @@
+import type { ParsedImport } from './types'
+import { parseImportCsv } from './csv'
+import { parseImportJson } from './json'
+
+/** Pick a parser from the filename, falling back to sniffing the content. */
+export function parseImportFile(filename: string, text: string): ParsedImport {
+  if (/\.json$/i.test(filename)) return parseImportJson(text)
+  if (/\.csv$/i.test(filename)) return parseImportCsv(text)
+  const first = text.trimStart()[0]
+  return first === '[' || first === '{' ? parseImportJson(text) : parseImportCsv(text)
+}
+
+export { parseImportCsv } from './csv'
+export { parseImportJson } from './json'
+export { resolveImport } from './resolve'
+export type { ImportRow, ParsedImport, ImportedPull, ImportIssue, ImportReport } from './types'
@@ -0,0 +1,80 @@
+import type { ImportRow, ParsedImport } from './types'
+
+type JsonItem = Record<string, unknown>
+
+function str(v: unknown): string {
+  return v === undefined || v === null ? '' : String(v).trim()
+}
+
+/** A grade as our JSON export writes it ("PSA 10") or as stored on history pulls. */
+function gradeText(v: unknown): string {
+  if (v && typeof v === 'object') {
+    const grade = v as JsonItem
+    return (str(grade.company) + ' ' + str(grade.grade)).trim()
+  }
+  return str(v)
+}
+
+/**
+ * Pull the rows out of a JSON item. Accepts our full JSON export rows
+ * (`setCode`, `cn`, `condition`, ...) and stored history pulls
+ * (`card.setCode`, ...), which give one row per recorded condition.
+ */
+function toRows(item: JsonItem, line: number): ImportRow[] {
+  const card = (item.card && typeof item.card === 'object' ? item.card : item) as JsonItem
+  const details = (item.details && typeof item.details === 'object' ? item.details : item) as JsonItem
+  const row: ImportRow = {
+    line,
+    setCode: str(card.setCode),
+    cn: str(card.cn),
+    variant: str(item.variant) || 'normal',
+    count: item.count === undefined ? 1 : Number(item.count),
+    packNumber: typeof item.packNumber === 'number' ? item.packNumber : undefined,
+    language: str(item.language ?? card.language) || undefined,
+    condition: str(item.condition) || undefined,
+    grade: gradeText(details.grade) || undefined,
+    // Our JSON export writes false for unsigned copies
+    signed: details.signed === false ? undefined : str(details.signed) || undefined,
+  }
+
+  const conditions = item.conditions && typeof item.conditions === 'object' ? (item.conditions as JsonItem) : null
+  if (!conditions || !Number.isInteger(row.count)) return [row]
+  // Copies left over after the recorded conditions keep no condition
+  const recorded = Object.entries(conditions).map(([condition, n]) => ({ ...row, condition, count: Number(n) }))
+  const rest = row.count - recorded.reduce((s, r) => s + r.count, 0)
+  return rest > 0 ? [...recorded, { ...row, count: rest }] : recorded
+}
+
+/**
+ * Read a JSON export. Accepts a bare array of pulls, an object with a
+ * `pulls` array (our JSON export or a history entry), or an array of
+ * history entries.
+ */
+export function parseImportJson(text: string): ParsedImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { rows: [], error: 'The file is not valid JSON' }
+  }
+
+  let items: unknown[] | null = null
+  if (Array.isArray(data)) {
+    // An array of history entries contributes each entry's pulls
+    items = data.flatMap((d) => {
+      const pulls = d && typeof d === 'object' ? (d as JsonItem).pulls : undefined
+      return Array.isArray(pulls) ? pulls : [d]
+    })
+  } else if (data && typeof data === 'object' && Array.isArray((data as JsonItem).pulls)) {
+    items = (data as JsonItem).pulls as unknown[]
+  }
+
+  if (!items) return { rows: [], error: 'Could not find a list of pulls in the file' }
+
+  const rows = items.flatMap((item, i) =>
+    item && typeof item === 'object'
+      ? toRows(item as JsonItem, i + 1)
+      : [{ line: i + 1, setCode: '', cn: '', variant: 'normal', count: NaN }],
+  )
+  return { rows, error: null }
+}
@@ -0,0 +1,79 @@
+import type { Card } from '../types'
+import type { ImportedPull, ImportIssue, ImportReport, ImportRow } from './types'
+import { validateCardRef } from '../utils/validation'
+import { parseLanguageCode, withLanguage } from '../utils/card-language'
+import { cleanDetails, parseCondition, parseGrade, parseSigned, parseVariant } from '../utils/variants'
+
+/**
+ * Match parsed rows to cards by set code and collector number, in the row's
+ * language. Rows with a bad count, variant, language or detail, or no
+ * matching card, are skipped; the usual set/number sanity warnings are
+ * reported either way.
+ */
+export function resolveImport(rows: ImportRow[], cards: Card[]): ImportReport {
+  const byRef = new Map<string, Card>()
+  cards.forEach((c) => byRef.set(c.setCode + '-' + c.cn, c))
+
+  const pulls: ImportedPull[] = []
+  const issues: ImportIssue[] = []
+
+  rows.forEach((row) => {
+    const label = 'line ' + row.line
+    const rowIssues: ImportIssue[] = validateCardRef(row.setCode, row.cn, label).map((message) => ({
+      line: row.line,
+      message,
+      skipped: false,
+    }))
+
+    const variant = parseVariant(row.variant)
+    const condition = row.condition ? parseCondition(row.condition) : undefined
+    const grade = row.grade ? parseGrade(row.grade) : undefined
+    const signed = row.signed ? parseSigned(row.signed) : false
+    const card = byRef.get(row.setCode + '-' + row.cn)
+    const language = row.language ? parseLanguageCode(row.language) : 'en'
+    let skipReason: string | null = null
+
+    if (!Number.isInteger(row.count) || row.count < 1) {
+      skipReason = Number.isNaN(row.count)
+        ? 'Missing or non-numeric count for ' + label
+        : 'Bad count "' + row.count + '" for ' + label
+    } else if (!variant) {
+      skipReason = 'Unknown variant "' + row.variant + '" for ' + label
+    } else if (condition === null) {
+      skipReason = 'Unknown condition "' + row.condition + '" for ' + label
+    } else if (grade === null) {
+      skipReason = 'Unreadable grade "' + row.grade + '" for ' + label
+    } else if (signed === null) {
+      skipReason = 'Unreadable signed value "' + row.signed + '" for ' + label
+    } else if (!language) {
+      skipReason = 'Unknown language "' + row.language + '" for ' + label
+    } else if (!card) {
+      skipReason = 'No card #' + row.cn + ' in set "' + row.setCode + '" for ' + label
+    }
+
+    if (skipReason) {
+      issues.push(...rowIssues.map((i) => ({ ...i, skipped: true })), {
+        line: row.line,
+        message: skipReason,
+        skipped: true,
+      })
+      return
+    }
+
+    issues.push(...rowIssues)
+    const details = cleanDetails({ grade: grade ?? undefined, signed: signed! })
+    pulls.push({
+      card: language === 'en' ? card! : withLanguage(card!, language!),
+      variant: variant!,
+      ...(details ? { details } : {}),
+      count: row.count,
+      ...(condition ? { conditions: { [condition]: row.count } } : {}),
+      packNumber:
+        row.packNumber !== undefined && Number.isInteger(row.packNumber) && row.packNumber > 0
+          ? row.packNumber
+          : undefined,
+    })
+  })
+
+  return { pulls, issues, totalRows: rows.length }
+}
@@ -0,0 +1,48 @@
+import type { Card, CardVariant, ConditionCounts, VariantDetails } from '../types'
+
+/** One row read from an import file, before it is matched to a card. */
+export interface ImportRow {
+  /** Line number (CSV) or item number (JSON), 1-based, for the report */
+  line: number
+  setCode: string
+  cn: string
+  variant: string
+  count: number
+  packNumber?: number
+  /** Language code as written in the file; English when absent */
+  language?: string
+  /** Condition code, grade ("PSA 10") and signed flag as written, when given */
+  condition?: string
+  grade?: string
+  signed?: string
+}
+
+export interface ParsedImport {
+  rows: ImportRow[]
+  /** Set when the file as a whole could not be read */
+  error: string | null
+}
+
+/** A row that resolved to a card and can be merged. */
+export interface ImportedPull {
+  card: Card
+  variant: CardVariant
+  details?: VariantDetails
+  count: number
+  /** Every copy of the row, when the row gives a condition */
+  conditions?: ConditionCounts
+  packNumber?: number
+}
+
+export interface ImportIssue {
+  line: number
+  message: string
+  /** True when the row is left out of the merge */
+  skipped: boolean
+}
+
+export interface ImportReport {
+  pulls: ImportedPull[]
+  issues: ImportIssue[]
+  totalRows: number
+}
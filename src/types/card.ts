@@ -1,5 +1,55 @@
-/** Raw card entry from embedded database or API: [name, version, setCode, setName, cn, cost, ink, rarity, type, imageUrl] */
-export type RawCard = [string, string, string, string, string, number, string, string, string, string]
+/** Language a card is printed in, as in the footer's "EN" / "FR" / ... code. */
+export type CardLanguage = 'en' | 'fr' | 'de' | 'it' | 'ja'
+
+/**
+ * Printing or finish of a copy. Booster packs give normal and foil; the
+ * rest are promos and special printings.
+ */
+export type CardVariant = 'normal' | 'foil' | 'cold-foil' | 'enchanted' | 'stamped' | 'oversized'
+
+/** Card condition on the usual grading-free scale, Near Mint to Damaged. */
+export type CardCondition = 'NM' | 'LP' | 'MP' | 'HP' | 'DMG'
+
+/**
+ * Copies of a pull per recorded condition. Copies not counted here have no
+ * condition recorded, so the counts add up to at most the pull's count.
+ */
+export type ConditionCounts = Partial<Record<CardCondition, number>>
+
+export type GradingCompany = 'PSA' | 'BGS' | 'CGC' | 'SGC'
+
+/** A slabbed copy's grade, e.g. PSA 10 or BGS 9.5. */
+export interface CardGrade {
+  company: GradingCompany
+  /** As printed on the label: "10", "9.5", ... */
+  grade: string
+}
+
+/**
+ * What sets a copy apart beyond its variant. Every field is optional.
+ * Condition is kept per copy instead (see ConditionCounts).
+ */
+export interface VariantDetails {
+  grade?: CardGrade
+  signed?: boolean
+}
+
+/**
+ * Raw card entry from embedded database or API:
+ * [name, version, setCode, setName, cn, cost, ink, rarity, type, imageUrl]
+ */
+export type RawCard = [
+  string,
+  string,
+  string,
+  string,
+  string,
+  number,
+  string,
+  string,
+  string,
+  string,
+]
 
 export interface Card {
   name: string
@@ -16,14 +66,35 @@ export interface Card {
   type: string[]
   /** Small card image URL from Lorcast API */
   imageUrl: string
+  /** Printed language; absent for English. `display` is in this language when the database has the name */
+  language?: CardLanguage
+  /** Display names of the non-English printings loaded so far (see useLocalisedNames) */
+  names?: Partial<Record<CardLanguage, string>>
 }
 
 export interface Pull {
-  /** Unique key: "setCode-cn-variant" */
+  /**
+   * Unique key: "setCode-cn-variant", with the language before the variant
+   * for non-English copies and any details after it
+   */
   key: string
   card: Card
-  variant: 'normal' | 'foil'
+  variant: CardVariant
+  /** Grade and signature, when recorded */
+  details?: VariantDetails
   count: number
+  /** Condition of each copy, where recorded */
+  conditions?: ConditionCounts
   /** Pack number assigned at add time (immutable once set) */
   packNumber: number
 }
+
+/** Perceptual hash of a card's art, from the offline card-art index. */
+export interface CardHash {
+  /** "setCode-cn" */
+  key: string
+  setCode: string
+  cn: string
+  /** 64-bit DCT hash as 16 hex characters */
+  hash: string
+}
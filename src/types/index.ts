@@ -1,7 +1,23 @@
-export type { RawCard, Card, Pull } from './card'
 export type {
+  RawCard,
+  Card,
+  CardLanguage,
+  CardVariant,
+  CardCondition,
+  ConditionCounts,
+  GradingCompany,
+  CardGrade,
+  VariantDetails,
+  Pull,
+  CardHash,
+} from './card'
+export type {
+  Session,
+  Pack,
   ExportHistoryEntry,
+  CardSnapshot,
   HistoryPull,
+  CollectionEntry,
   ViewType,
   ViewDirection,
   CardSource,
@@ -1,4 +1,25 @@
-import type { Card } from './card'
+import type { Card, CardLanguage, CardVariant, ConditionCounts, VariantDetails } from './card'
+
+export interface Session {
+  id: number
+  name: string
+  /** Timestamp of the first add, or null until a card is logged */
+  startedAt: number | null
+  /** When the session was archived; archived sessions are hidden from the switcher */
+  archivedAt?: number | null
+}
+
+/** A booster pack opened during a session and the cards logged from it. */
+export interface Pack {
+  sessionId: number
+  /** 1-based position within the session */
+  number: number
+  openedAt: number
+  /** Null while the pack is still being logged into */
+  closedAt: number | null
+  /** Pull keys, one entry per copy, in the order they were logged */
+  cards: string[]
+}
 
 export interface ExportHistoryEntry {
   id: number
@@ -9,24 +30,53 @@ export interface ExportHistoryEntry {
   totalFoils: number
   pulls: HistoryPull[]
   csv?: string
+  /** Exporter id used for the original export (Dreamborn CSV when absent) */
+  format?: string
+  /** Packs opened per set code (absent on exports made before packs were stored) */
+  packsBySet?: Record<string, number>
+  /** Session the export was taken from (absent on exports made before sessions were kept) */
+  sessionId?: number
+}
+
+/** Lightweight copy of the card fields needed to display a stored pull. */
+export interface CardSnapshot {
+  display: string
+  setCode: string
+  setName: string
+  cn: string
+  ink: string
+  rarity: string
+  /** Absent for English */
+  language?: CardLanguage
 }
 
 export interface HistoryPull {
   key: string
-  variant: 'normal' | 'foil'
+  variant: CardVariant
+  details?: VariantDetails
+  count: number
+  conditions?: ConditionCounts
+  card: CardSnapshot
+}
+
+/** One row of the persistent collection inventory, keyed like a Pull. */
+export interface CollectionEntry {
+  /** Unique key, as for a Pull */
+  key: string
+  variant: CardVariant
+  details?: VariantDetails
+  /** Copies owned */
   count: number
-  card: {
-    display: string
-    setCode: string
-    setName: string
-    cn: string
-    ink: string
-    rarity: string
-  }
+  card: CardSnapshot
+  /** When the first copy was logged */
+  firstPulledAt: number
+  /** Session the first copy was logged in (null if unknown) */
+  firstSessionId: number | null
+  firstSessionName: string
 }
 
-export type ViewType = 'search' | 'export' | 'history'
+export type ViewType = 'search' | 'export' | 'history' | 'collection' | 'completion' | 'import' | 'backup' | 'packs' | 'stats'
 export type ViewDirection = 'left' | 'right'
 export type CardSource = '' | 'cached' | 'updated' | 'offline' | 'error'
 export type RarityFlashType = 'enchanted' | 'legendary' | 'superrare' | null
-export type ScannerState = 'idle' | 'requesting' | 'streaming' | 'processing' | 'matched' | 'disambiguating' | 'error'
+export type ScannerState = 'idle' | 'requesting' | 'streaming' | 'processing' | 'matched' | 'disambiguating' | 'reviewing-page' | 'error'
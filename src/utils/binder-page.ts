@@ -0,0 +1,130 @@
+/**
+ * Binder-page scanning — one frame holds a 3x3 grid of cards, each read on
+ * its own through the usual CN crop → parse → vote → match steps.
+ *
+ * Every cell keeps its own vote window, so one misread pocket doesn't hold
+ * back the rest; the page is ready for review once every cell has settled
+ * on a card, a shortlist, or nothing (an empty pocket).
+ */
+
+import type { Card, CardVariant } from '../types'
+import type { CnMatchResult } from './card-cn-matcher'
+import { addVote, tallyVotes } from './scan-voting'
+import type { ScanVote, VoteCandidate } from './scan-voting'
+
+export const BINDER_ROWS = 3
+export const BINDER_COLS = 3
+
+/**
+ * Frames in a row a cell may read nothing before it counts as an empty
+ * pocket. It keeps being read, so a card that was only badly lit still
+ * turns up.
+ */
+export const EMPTY_AFTER_MISSES = 4
+
+export type BinderCellStatus = 'reading' | 'matched' | 'ambiguous' | 'empty'
+
+export interface BinderCell {
+  status: BinderCellStatus
+  votes: (ScanVote | null)[]
+  /** Frames in a row that read nothing */
+  misses: number
+  /** The card to add — for an ambiguous cell, the shortlisted one on show */
+  card: Card | null
+  /** Every card an ambiguous cell could be */
+  candidates: Card[]
+  foil: boolean
+  /** Left out when the page is added */
+  skipped: boolean
+}
+
+/** An edit made to a cell while reviewing the page. */
+export type BinderCellChange = 'foil' | 'skip' | 'next-candidate'
+
+interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+const emptyCell = (): BinderCell => ({
+  status: 'reading',
+  votes: [],
+  misses: 0,
+  card: null,
+  candidates: [],
+  foil: false,
+  skipped: false,
+})
+
+export function emptyBinderPage(): BinderCell[] {
+  return Array.from({ length: BINDER_ROWS * BINDER_COLS }, emptyCell)
+}
+
+/** Split the page area into its pockets, row by row from the top left. */
+export function binderCellRects(page: Rect): Rect[] {
+  const w = page.w / BINDER_COLS
+  const h = page.h / BINDER_ROWS
+  const rects: Rect[] = []
+  for (let row = 0; row < BINDER_ROWS; row++) {
+    for (let col = 0; col < BINDER_COLS; col++) {
+      rects.push({ x: page.x + col * w, y: page.y + row * h, w, h })
+    }
+  }
+  return rects
+}
+
+/** Settled cells (a card or a shortlist) aren't read again. */
+export const needsReading = (cell: BinderCell) => cell.status === 'reading' || cell.status === 'empty'
+
+/**
+ * Fold one frame's read of a cell into it. `resolve` looks up the card for
+ * a reading the cell's frames agree on.
+ */
+export function readBinderCell(
+  cell: BinderCell,
+  vote: ScanVote | null,
+  resolve: (agreed: VoteCandidate) => CnMatchResult,
+): BinderCell {
+  if (!needsReading(cell)) return cell
+
+  const votes = addVote(cell.votes, vote)
+  const misses = vote ? 0 : cell.misses + 1
+  const agreed = tallyVotes(votes).accepted
+  const result = agreed ? resolve(agreed) : null
+
+  if (result?.card) {
+    return { ...cell, status: 'matched', votes, misses, card: result.card, candidates: [] }
+  }
+  if (result && result.candidates.length > 0) {
+    return { ...cell, status: 'ambiguous', votes, misses, card: result.candidates[0]!, candidates: result.candidates }
+  }
+  const empty = misses >= EMPTY_AFTER_MISSES && votes.every((v) => v === null)
+  return { ...cell, status: empty ? 'empty' : 'reading', votes, misses }
+}
+
+export function changeBinderCell(cell: BinderCell, change: BinderCellChange): BinderCell {
+  if (!cell.card) return cell
+  switch (change) {
+    case 'foil':
+      return { ...cell, foil: !cell.foil }
+    case 'skip':
+      return { ...cell, skipped: !cell.skipped }
+    case 'next-candidate': {
+      if (cell.candidates.length < 2) return cell
+      const at = cell.candidates.indexOf(cell.card)
+      return { ...cell, card: cell.candidates[(at + 1) % cell.candidates.length]! }
+    }
+  }
+}
+
+/** Every cell has a card, a shortlist, or is an empty pocket. */
+export const isPageSettled = (cells: BinderCell[]) => cells.every((c) => c.status !== 'reading')
+
+/** The cards to add for the page, in pocket order. */
+export function binderPageEntries(cells: BinderCell[]): { card: Card; variant: CardVariant }[] {
+  return cells
+    .filter((c) => c.card && !c.skipped)
+    .map((c) => ({ card: c.card!, variant: c.foil ? 'foil' : 'normal' }))
+}
@@ -1,4 +1,5 @@
-import type { Card } from '../types'
+import type { Card, CardLanguage } from '../types'
+import { withLanguage } from './card-language'
 
 export interface CnMatchResult {
   /** The best-matching card, or null if no match found. */
@@ -32,6 +33,20 @@ function inkOverlaps(cardInk: string, detectedInks: string[]): boolean {
   return cardInks.some((ci) => detectedInks.includes(ci))
 }
 
+/**
+ * The match as printed in `language` — the footer's code, when it was read.
+ * The database holds one entry per printing, so the language is applied after
+ * matching rather than narrowed on.
+ */
+export function matchInLanguage(result: CnMatchResult, language: CardLanguage | null): CnMatchResult {
+  if (!language) return result
+  return {
+    ...result,
+    card: result.card && withLanguage(result.card, language),
+    candidates: result.candidates.map((c) => withLanguage(c, language)),
+  }
+}
+
 export function matchCardByCollectorNumber(
   cn: string,
   cards: Card[],
@@ -0,0 +1,348 @@
+/**
+ * Card outline detection and perspective correction.
+ *
+ * The scanner used to assume the card filled the fixed guide frame, so a card
+ * held at an angle or off-centre put the collector number outside the crop.
+ * Here we find the card's four corners in the frame (edge detection → largest
+ * edge contour → convex hull → corners) and warp the card to an upright
+ * rectangle, so the CN and ink crops land on the same part of the card
+ * wherever it sits in the frame.
+ *
+ * Everything works on plain RGBA buffers (ImageData-compatible) so it can be
+ * unit-tested without a canvas.
+ */
+
+/** RGBA pixel buffer — `ImageData` satisfies this. */
+export interface PixelBuffer {
+  data: Uint8ClampedArray
+  width: number
+  height: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** Card corners in order: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point]
+
+export interface CardDetection {
+  quad: Quad
+  /** Fraction of the image area the card covers (0-1) */
+  areaFraction: number
+  /** Width / height of the detected card (a flat Lorcana card is ~0.716) */
+  aspect: number
+}
+
+/** Lorcana cards are 63 × 88 mm. */
+export const CARD_ASPECT = 63 / 88
+
+/** Size of the upright card image the scanner warps to (63:88, like a real card). */
+export const CARD_WIDTH = 600
+export const CARD_HEIGHT = Math.round(CARD_WIDTH / CARD_ASPECT)
+
+// CN line on the upright card — the card edge is known, so this can be much
+// tighter than the guide-frame region.
+export const CARD_CN_TOP = 0.88
+export const CARD_CN_HEIGHT = 0.12
+
+/** Smallest card worth reading, as a fraction of the searched image. */
+const MIN_AREA_FRACTION = 0.12
+
+/** Accepted width/height range — wide enough for cards tilted away from the camera. */
+const MIN_ASPECT = 0.5
+const MAX_ASPECT = 0.95
+
+/**
+ * How much of the edge contour's hull the four corners must cover. A real
+ * card is a quadrilateral, so its hull and corner quad nearly coincide;
+ * blobs of background clutter don't.
+ */
+const MIN_QUAD_FILL = 0.85
+
+/** Share of pixels treated as edges — the strongest gradients in the image. */
+const EDGE_PERCENTILE = 0.88
+
+/** Gradient floor so a blank, flat frame doesn't produce edges from noise. */
+const MIN_EDGE_STRENGTH = 32
+
+function toGray(img: PixelBuffer): Float32Array {
+  const { data, width, height } = img
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < gray.length; i++) {
+    const off = i * 4
+    gray[i] = 0.299 * data[off]! + 0.587 * data[off + 1]! + 0.114 * data[off + 2]!
+  }
+  return gray
+}
+
+/** 3×3 box blur — knocks down sensor noise and fine card texture. */
+function blur(src: Float32Array, width: number, height: number): Float32Array {
+  const out = new Float32Array(src.length)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0
+      let n = 0
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy
+        if (yy < 0 || yy >= height) continue
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx
+          if (xx < 0 || xx >= width) continue
+          sum += src[yy * width + xx]!
+          n++
+        }
+      }
+      out[y * width + x] = sum / n
+    }
+  }
+  return out
+}
+
+/** Sobel gradient magnitude, thresholded to a binary edge map. */
+function edgeMap(gray: Float32Array, width: number, height: number): Uint8Array {
+  const mag = new Float32Array(width * height)
+  const hist = new Uint32Array(256)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const tl = gray[i - width - 1]!
+      const t = gray[i - width]!
+      const tr = gray[i - width + 1]!
+      const l = gray[i - 1]!
+      const r = gray[i + 1]!
+      const bl = gray[i + width - 1]!
+      const b = gray[i + width]!
+      const br = gray[i + width + 1]!
+      const gx = tr + 2 * r + br - tl - 2 * l - bl
+      const gy = bl + 2 * b + br - tl - 2 * t - tr
+      const m = Math.sqrt(gx * gx + gy * gy)
+      mag[i] = m
+      hist[Math.min(255, m | 0)]!++
+    }
+  }
+
+  let threshold = 255
+  let seen = 0
+  const target = EDGE_PERCENTILE * width * height
+  for (let v = 0; v < 256; v++) {
+    seen += hist[v]!
+    if (seen >= target) {
+      threshold = v
+      break
+    }
+  }
+  threshold = Math.max(threshold, MIN_EDGE_STRENGTH)
+
+  const edges = new Uint8Array(width * height)
+  for (let i = 0; i < mag.length; i++) edges[i] = mag[i]! > threshold ? 1 : 0
+  return edges
+}
+
+/** 8-connected components of the edge map, as lists of pixel indices. */
+function edgeComponents(edges: Uint8Array, width: number, height: number, minSize: number): number[][] {
+  const seen = new Uint8Array(edges.length)
+  const components: number[][] = []
+  const stack: number[] = []
+  for (let start = 0; start < edges.length; start++) {
+    if (!edges[start] || seen[start]) continue
+    const pixels: number[] = []
+    seen[start] = 1
+    stack.push(start)
+    while (stack.length > 0) {
+      const i = stack.pop()!
+      pixels.push(i)
+      const x = i % width
+      const y = (i - x) / width
+      for (let dy = -1; dy <= 1; dy++) {
+        const yy = y + dy
+        if (yy < 0 || yy >= height) continue
+        for (let dx = -1; dx <= 1; dx++) {
+          const xx = x + dx
+          if (xx < 0 || xx >= width) continue
+          const j = yy * width + xx
+          if (edges[j] && !seen[j]) {
+            seen[j] = 1
+            stack.push(j)
+          }
+        }
+      }
+    }
+    if (pixels.length >= minSize) components.push(pixels)
+  }
+  return components
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x)
+}
+
+/** Convex hull (Andrew's monotone chain), counter-clockwise. */
+export function convexHull(points: Point[]): Point[] {
+  const pts = [...points].sort((a, b) => a.x - b.x || a.y - b.y)
+  if (pts.length < 3) return pts
+  const lower: Point[] = []
+  for (const p of pts) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2]!, lower[lower.length - 1]!, p) <= 0) lower.pop()
+    lower.push(p)
+  }
+  const upper: Point[] = []
+  for (let i = pts.length - 1; i >= 0; i--) {
+    const p = pts[i]!
+    while (upper.length >= 2 && cross(upper[upper.length - 2]!, upper[upper.length - 1]!, p) <= 0) upper.pop()
+    upper.push(p)
+  }
+  return [...lower.slice(0, -1), ...upper.slice(0, -1)]
+}
+
+/** Shoelace area of a polygon. */
+export function polygonArea(points: Point[]): number {
+  let sum = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]!
+    const b = points[(i + 1) % points.length]!
+    sum += a.x * b.y - b.x * a.y
+  }
+  return Math.abs(sum) / 2
+}
+
+/**
+ * Pick the four corners of a roughly upright quadrilateral: the extreme
+ * points along the two diagonals. Holds for cards rotated up to ~40°.
+ */
+export function quadCorners(points: Point[]): Quad {
+  let tl = points[0]!
+  let tr = points[0]!
+  let br = points[0]!
+  let bl = points[0]!
+  for (const p of points) {
+    if (p.x + p.y < tl.x + tl.y) tl = p
+    if (p.x + p.y > br.x + br.y) br = p
+    if (p.x - p.y > tr.x - tr.y) tr = p
+    if (p.x - p.y < bl.x - bl.y) bl = p
+  }
+  return [tl, tr, br, bl]
+}
+
+const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+/** Width / height of a quad, averaging opposite sides. */
+export function quadAspect([tl, tr, br, bl]: Quad): number {
+  const w = (dist(tl, tr) + dist(bl, br)) / 2
+  const h = (dist(tl, bl) + dist(tr, br)) / 2
+  return h === 0 ? 0 : w / h
+}
+
+/**
+ * Find the card in an image. Returns its corners, or null when nothing
+ * card-shaped and large enough is in view.
+ */
+export function detectCardQuad(img: PixelBuffer): CardDetection | null {
+  const { width, height } = img
+  if (width < 8 || height < 8) return null
+
+  const edges = edgeMap(blur(toGray(img), width, height), width, height)
+  // A card outline is at least a few hundred edge pixels at detection size
+  const minSize = Math.round((width + height) * 0.5)
+  const imageArea = width * height
+
+  let best: CardDetection | null = null
+  for (const pixels of edgeComponents(edges, width, height, minSize)) {
+    const hull = convexHull(pixels.map((i) => ({ x: i % width, y: Math.floor(i / width) })))
+    if (hull.length < 4) continue
+    const hullArea = polygonArea(hull)
+    const quad = quadCorners(hull)
+    const area = polygonArea(quad)
+    const aspect = quadAspect(quad)
+    if (area / imageArea < MIN_AREA_FRACTION) continue
+    if (area / hullArea < MIN_QUAD_FILL) continue
+    if (aspect < MIN_ASPECT || aspect > MAX_ASPECT) continue
+    if (!best || area / imageArea > best.areaFraction) {
+      best = { quad, areaFraction: area / imageArea, aspect }
+    }
+  }
+  return best
+}
+
+/**
+ * Homography mapping each `from` point onto the matching `to` point, as a
+ * row-major 3×3 matrix with the last entry fixed at 1.
+ */
+export function computeHomography(from: Quad, to: Quad): number[] {
+  // Eight equations in eight unknowns, solved by Gaussian elimination
+  const a: number[][] = []
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i]!
+    const { x: u, y: v } = to[i]!
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u])
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v])
+  }
+  for (let col = 0; col < 8; col++) {
+    let pivot = col
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) pivot = row
+    }
+    ;[a[col], a[pivot]] = [a[pivot]!, a[col]!]
+    const p = a[col]![col]!
+    if (Math.abs(p) < 1e-12) return [1, 0, 0, 0, 1, 0, 0, 0, 1]
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue
+      const f = a[row]![col]! / p
+      for (let k = col; k < 9; k++) a[row]![k]! -= f * a[col]![k]!
+    }
+  }
+  const h = a.map((row, i) => row[8]! / row[i]!)
+  return [...h, 1]
+}
+
+/** Apply a homography to a point. */
+export function applyHomography(h: number[], { x, y }: Point): Point {
+  const w = h[6]! * x + h[7]! * y + h[8]!
+  return { x: (h[0]! * x + h[1]! * y + h[2]!) / w, y: (h[3]! * x + h[4]! * y + h[5]!) / w }
+}
+
+/**
+ * Warp the quad in `src` to an upright `outWidth × outHeight` image, using
+ * bilinear sampling. Pixels that map outside the source are left black.
+ */
+export function warpPerspective(src: PixelBuffer, quad: Quad, outWidth: number, outHeight: number): PixelBuffer {
+  const rect: Quad = [
+    { x: 0, y: 0 },
+    { x: outWidth - 1, y: 0 },
+    { x: outWidth - 1, y: outHeight - 1 },
+    { x: 0, y: outHeight - 1 },
+  ]
+  // Map each output pixel back into the source
+  const h = computeHomography(rect, quad)
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4)
+  const { data, width, height } = src
+
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const w = h[6]! * x + h[7]! * y + h[8]!
+      const sx = (h[0]! * x + h[1]! * y + h[2]!) / w
+      const sy = (h[3]! * x + h[4]! * y + h[5]!) / w
+      const o = (y * outWidth + x) * 4
+      out[o + 3] = 255
+      if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) continue
+
+      const x0 = Math.floor(sx)
+      const y0 = Math.floor(sy)
+      const x1 = Math.min(x0 + 1, width - 1)
+      const y1 = Math.min(y0 + 1, height - 1)
+      const fx = sx - x0
+      const fy = sy - y0
+      const i00 = (y0 * width + x0) * 4
+      const i10 = (y0 * width + x1) * 4
+      const i01 = (y1 * width + x0) * 4
+      const i11 = (y1 * width + x1) * 4
+      for (let c = 0; c < 3; c++) {
+        const top = data[i00 + c]! * (1 - fx) + data[i10 + c]! * fx
+        const bottom = data[i01 + c]! * (1 - fx) + data[i11 + c]! * fx
+        out[o + c] = top * (1 - fy) + bottom * fy
+      }
+    }
+  }
+  return { data: out, width: outWidth, height: outHeight }
+}
@@ -8,8 +8,8 @@
  *
  * Usage:
  *   const db = new CardImageDB()
- *   await db.build(cards, onProgress)
- *   const result = db.findMatch(cameraFrameCanvas)
+ *   await db.build(cards, onProgress, store)
+ *   const result = db.findMatch(cameraFrameCanvas, candidates)
  */
 
 import { computeColorHistogram, histogramDistance } from './image-hash'
@@ -20,6 +20,15 @@ interface CardHistEntry {
   hist: number[]
 }
 
+/**
+ * Persistent cache of computed histograms, keyed by image URL, so the
+ * images only have to be downloaded and measured once.
+ */
+export interface HistogramStore {
+  load(imageUrls: string[]): Promise<Record<string, number[]>>
+  save(histograms: Record<string, number[]>): Promise<unknown>
+}
+
 export interface ImageMatchResult {
   card: Card | null
   candidates: Card[]
@@ -72,10 +81,14 @@ export class CardImageDB {
    * Load card images and compute colour histograms.
    * Loads in batches to avoid saturating the network.
    * Calls `onProgress` after each batch completes.
+   *
+   * With a `store`, histograms computed on an earlier launch are reused and
+   * only the missing images are fetched; new ones are saved as they arrive.
    */
   async build(
     cards: Card[],
     onProgress?: (loaded: number, total: number) => void,
+    store?: HistogramStore,
   ): Promise<void> {
     this.abort()
     this.entries = []
@@ -88,13 +101,35 @@ export class CardImageDB {
 
     if (withImages.length === 0) return
 
+    // ── Reuse stored histograms ──────────────────────────────────────
+    const stored = store ? await store.load(withImages.map(c => c.imageUrl)) : {}
+    if (this.aborted) return
+    const missing: Card[] = []
+    for (const card of withImages) {
+      const hist = stored[card.imageUrl]
+      if (hist) {
+        this.entries.push({ card, hist })
+        this._loadedCount++
+      } else {
+        missing.push(card)
+      }
+    }
+    onProgress?.(this._loadedCount, this._totalCount)
+    if (missing.length === 0) return
+
+    const persist = (entries: CardHistEntry[]) => {
+      if (!store || entries.length === 0) return
+      store.save(Object.fromEntries(entries.map(e => [e.card.imageUrl, e.hist])))
+    }
+
     // ── Detect CORS support on the first image ──────────────────────
-    const firstCard = withImages[0]!
+    const firstCard = missing[0]!
     try {
       const entry = await this.loadAndCompute(firstCard, false)
       if (entry) {
         this.entries.push(entry)
         this._loadedCount++
+        persist([entry])
       }
     } catch {
       // Direct CORS blocked — switch to proxy for all images
@@ -104,6 +139,7 @@ export class CardImageDB {
         if (entry) {
           this.entries.push(entry)
           this._loadedCount++
+          persist([entry])
         }
       } catch {
         // Even proxy failed — continue anyway
@@ -113,7 +149,7 @@ export class CardImageDB {
     onProgress?.(this._loadedCount, this._totalCount)
 
     // ── Load remaining images in batches ─────────────────────────────
-    const remaining = withImages.slice(1)
+    const remaining = missing.slice(1)
 
     for (let i = 0; i < remaining.length; i += BATCH_SIZE) {
       if (this.aborted) break
@@ -123,12 +159,15 @@ export class CardImageDB {
         batch.map(card => this.loadAndCompute(card, this.useProxy)),
       )
 
+      const computed: CardHistEntry[] = []
       for (const r of results) {
         if (r.status === 'fulfilled' && r.value) {
           this.entries.push(r.value)
           this._loadedCount++
+          computed.push(r.value)
         }
       }
+      persist(computed)
 
       onProgress?.(this._loadedCount, this._totalCount)
     }
@@ -136,16 +175,24 @@ export class CardImageDB {
 
   /**
    * Find the best matching card for a camera frame canvas.
+   *
+   * Pass `among` to only choose between those cards — e.g. the candidates
+   * left after collector number and ink narrowing.
    */
-  findMatch(frameCanvas: HTMLCanvasElement): ImageMatchResult {
-    if (this.entries.length === 0) {
-      return { card: null, candidates: [], bestDistance: Infinity, dbSize: 0 }
+  findMatch(frameCanvas: HTMLCanvasElement, among?: Card[]): ImageMatchResult {
+    const keys = among && new Set(among.map(c => `${c.setCode}-${c.cn}`))
+    const entries = keys
+      ? this.entries.filter(e => keys.has(`${e.card.setCode}-${e.card.cn}`))
+      : this.entries
+
+    if (entries.length === 0) {
+      return { card: null, candidates: [], bestDistance: Infinity, dbSize: this.entries.length }
     }
 
     const frameHist = computeColorHistogram(frameCanvas)
 
     // Score all entries by chi-squared distance
-    const scored = this.entries
+    const scored = entries
       .map(e => ({ card: e.card, dist: histogramDistance(frameHist, e.hist) }))
       .sort((a, b) => a.dist - b.dist)
 
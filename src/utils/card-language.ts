@@ -0,0 +1,49 @@
+import type { Card, CardLanguage, CardVariant, VariantDetails } from '../types'
+import { CARD_LANGUAGES } from '../constants'
+import { variantKey } from './variants'
+
+type CardRef = Pick<Card, 'setCode' | 'cn' | 'language'>
+
+/** Printed language of a card — English unless it says otherwise. */
+export function cardLanguage(card: Pick<Card, 'language'>): CardLanguage {
+  return card.language ?? 'en'
+}
+
+/**
+ * One printing: "setCode-cn", with "-lang" added for non-English copies so
+ * keys stored before languages were tracked still mean English.
+ */
+export function cardRef(card: CardRef): string {
+  const lang = cardLanguage(card)
+  return card.setCode + '-' + card.cn + (lang === 'en' ? '' : '-' + lang)
+}
+
+/**
+ * Pull and collection key: "setCode-cn-variant", or "setCode-cn-lang-variant",
+ * with any details after the variant (see variantKey).
+ */
+export function pullKey(card: CardRef, variant: CardVariant, details?: VariantDetails): string {
+  return cardRef(card) + '-' + variantKey(variant, details)
+}
+
+/**
+ * The card as printed in `language`. The display name is the localised one
+ * when the database has it, otherwise the English name.
+ */
+export function withLanguage(card: Card, language: CardLanguage): Card {
+  const english = card.name + (card.version ? ' – ' + card.version : '')
+  const { language: _previous, ...rest } = card
+  if (language === 'en') return { ...rest, display: english }
+  return { ...rest, language, display: card.names?.[language] ?? english }
+}
+
+/**
+ * A language from a footer, file or API code ("FR", "fr", "JP"), or null
+ * when it isn't one Lorcana is printed in.
+ */
+export function parseLanguageCode(code: string): CardLanguage | null {
+  const lower = code.trim().toLowerCase()
+  // The footer and some shops use JP for Japanese
+  const lang = lower === 'jp' ? 'ja' : lower
+  return CARD_LANGUAGES.find((l) => l === lang) ?? null
+}
@@ -18,6 +18,11 @@ const AUTO_MATCH_THRESHOLD = 0.75
 /** If the gap between #1 and #2 is smaller than this, treat as ambiguous. */
 const AMBIGUITY_GAP = 0.1
 
+/** Lower bar when choosing between a few collector-number candidates — the
+ *  CN has already ruled out every other card, so the name only has to say
+ *  which of these it is. */
+const CANDIDATE_THRESHOLD = 0.5
+
 /**
  * Match OCR text against card names using Levenshtein distance.
  *
@@ -77,6 +82,30 @@ export function matchCardByName(
   return { card: best.card, candidates: [], similarity: best.sim }
 }
 
+/**
+ * Pick one of a handful of candidates (e.g. the cards sharing a collector
+ * number) by the name read from the card's name banner.
+ *
+ * Returns null unless one candidate clearly reads best.
+ */
+export function pickCandidateByName(ocrText: string, candidates: Card[]): Card | null {
+  const cleaned = cleanOcrText(ocrText)
+  if (cleaned.length < 3 || candidates.length === 0) return null
+
+  const scored = candidates
+    .map((card) => ({
+      card,
+      sim: Math.max(similarity(cleaned, card.name.toLowerCase()), similarity(cleaned, card.display.toLowerCase())),
+    }))
+    .sort((a, b) => b.sim - a.sim)
+
+  const best = scored[0]!
+  const second = scored[1]
+  if (best.sim < CANDIDATE_THRESHOLD) return null
+  if (second && best.sim - second.sim < AMBIGUITY_GAP) return null
+  return best.card
+}
+
 /**
  * Compute normalised similarity between two strings (0-1).
  * 1 means identical, 0 means completely different.
@@ -0,0 +1,50 @@
+/**
+ * "Card left the frame" detection for rapid scanning.
+ *
+ * After a card is logged it is held — matching it again is blocked — until
+ * a different collector number is read, or the card outline that was seen
+ * while holding it has been gone for a few frames. Unlike a fixed cooldown,
+ * this lets two copies of the same card in a row both count: the first has
+ * to leave before the second is read.
+ *
+ * A missing outline on its own isn't taken as the card leaving: the outline
+ * detector often fails against ordinary backgrounds, and a card whose number
+ * also misses OCR for a frame or two would be released and logged twice.
+ * Until the outline has been seen, only a different number releases the hold.
+ */
+
+/** Frames in a row with no card outline and no readable CN, after the outline was seen, before the held card counts as gone. */
+export const CARD_GONE_FRAMES = 3
+
+export interface HeldCard {
+  /** "setCode-cn" of the logged card */
+  key: string
+  cn: string
+  /** Whether the card outline has been found while holding — only then can losing it release the card */
+  outlineSeen: boolean
+  /** Frames in a row without the card since the outline was seen */
+  goneFrames: number
+}
+
+/** Hold a logged card; `outlineSeen` when its outline was found in the frame it was matched on. */
+export const holdCard = (setCode: string, cn: string, outlineSeen = false): HeldCard => ({
+  key: `${setCode}-${cn}`,
+  cn,
+  outlineSeen,
+  goneFrames: 0,
+})
+
+/**
+ * Update the hold with one frame: whether a card outline was found and the
+ * collector number read (null if none). Returns null once the card is gone.
+ */
+export function trackHeldCard(held: HeldCard | null, frame: { cardInView: boolean; cn: string | null }): HeldCard | null {
+  if (!held) return null
+  if (frame.cn !== null && frame.cn !== held.cn) return null
+  if (frame.cardInView) {
+    return held.outlineSeen && held.goneFrames === 0 ? held : { ...held, outlineSeen: true, goneFrames: 0 }
+  }
+  if (frame.cn !== null || !held.outlineSeen) return held.goneFrames === 0 ? held : { ...held, goneFrames: 0 }
+  const goneFrames = held.goneFrames + 1
+  return goneFrames >= CARD_GONE_FRAMES ? null : { ...held, goneFrames }
+}
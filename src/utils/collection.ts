@@ -0,0 +1,73 @@
+import type { Card, CardSnapshot, CardVariant, CollectionEntry, HistoryPull, VariantDetails } from '../types'
+import { pullKey } from './card-language'
+import { cleanDetails } from './variants'
+
+/** Where (and when) a pull that feeds the collection came from. */
+export interface CollectionSource {
+  sessionId: number | null
+  sessionName: string
+  at: number
+}
+
+/** A batch of past pulls and the session they were logged in. */
+export interface CollectionSeed {
+  pulls: HistoryPull[]
+  source: CollectionSource
+}
+
+export function toCardSnapshot(card: Card | CardSnapshot): CardSnapshot {
+  return {
+    display: card.display,
+    setCode: card.setCode,
+    setName: card.setName,
+    cn: card.cn,
+    ink: card.ink,
+    rarity: card.rarity,
+    ...(card.language ? { language: card.language } : {}),
+  }
+}
+
+/**
+ * Apply a count change for one card/variant (and its details) to its collection entry.
+ * Returns the updated entry, or null once no copies remain.
+ * The first-pulled fields are set when the entry is created and never move.
+ */
+export function applyCollectionDelta(
+  existing: CollectionEntry | undefined,
+  card: Card | CardSnapshot,
+  variant: CardVariant,
+  delta: number,
+  source: CollectionSource,
+  details?: VariantDetails,
+): CollectionEntry | null {
+  const count = (existing?.count ?? 0) + delta
+  if (count <= 0) return null
+  if (existing) return { ...existing, count }
+  const clean = cleanDetails(details)
+  return {
+    key: pullKey(card, variant, clean),
+    variant,
+    ...(clean ? { details: clean } : {}),
+    count,
+    card: toCardSnapshot(card),
+    firstPulledAt: source.at,
+    firstSessionId: source.sessionId,
+    firstSessionName: source.sessionName,
+  }
+}
+
+/**
+ * Build a collection from past pull lists. Sources are applied oldest first
+ * so every entry credits the session its first copy came from.
+ */
+export function buildCollection(sources: CollectionSeed[]): Record<string, CollectionEntry> {
+  const entries: Record<string, CollectionEntry> = {}
+  const ordered = [...sources].sort((a, b) => a.source.at - b.source.at)
+  ordered.forEach(({ pulls, source }) => {
+    pulls.forEach((p) => {
+      const next = applyCollectionDelta(entries[p.key], p.card, p.variant, p.count, source, p.details)
+      if (next) entries[next.key] = next
+    })
+  })
+  return entries
+}
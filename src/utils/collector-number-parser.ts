@@ -1,3 +1,6 @@
+import type { CardLanguage } from '../types'
+import { parseLanguageCode } from './card-language'
+
 export interface ParsedCollectorNumber {
   /** The collector number as a string, e.g. "123" */
   cn: string
@@ -5,6 +8,8 @@ export interface ParsedCollectorNumber {
   total: string | null
   /** Set number parsed from the footer (e.g. "7" from "130/204 · EN · 7"), or null. */
   setNumber: string | null
+  /** Printed language from the footer (e.g. "fr" from "130/204 · FR · 7"), or null. */
+  language: CardLanguage | null
   /** The raw matched text from the OCR output */
   raw: string
 }
@@ -26,7 +31,8 @@ const MIN_TOTAL = 100
  * and 7 is the set number.
  *
  * The set number is critical for disambiguation — CN 130 may exist in every
- * set, but CN 130 + set 7 uniquely identifies one card.
+ * set, but CN 130 + set 7 uniquely identifies one card.  The language code
+ * (EN, FR, DE, IT or JA) says which printing it is.
  *
  * Returns the first valid collector number found, or null if none detected.
  */
@@ -70,13 +76,29 @@ export function parseCollectorNumber(ocrText: string): ParsedCollectorNumber | n
         }
       }
 
-      return { cn, total: slashMatch[2], setNumber, raw: slashMatch[0] }
+      // ── Language code from the ORIGINAL text ───────────────────────────
+      // The cleaning above maps one character to one, so offsets line up,
+      // but it would turn "IT" into "1T" — read the letters before that.
+      const language = parseFooterLanguage(ocrText.substring(matchEnd, matchEnd + 30))
+
+      return { cn, total: slashMatch[2], setNumber, language, raw: slashMatch[0] }
     }
   }
 
   return null
 }
 
+/**
+ * The first two-letter language code standing on its own after the CN — or
+ * anywhere in footer text whose number didn't parse.
+ * "1T" / "lT" are OCR's usual takes on the Italian "IT".
+ */
+export function parseFooterLanguage(text: string): CardLanguage | null {
+  const letters = text.replace(/[1l|](?=[tT])/g, 'I').toUpperCase()
+  const match = letters.match(/(?:^|[^A-Z])(EN|FR|DE|IT|JA|JP)(?:[^A-Z]|$)/)
+  return match?.[1] ? parseLanguageCode(match[1]) : null
+}
+
 /** Strip leading zeros and reject "0" */
 function normalise(raw: string): string | null {
   const n = parseInt(raw, 10)
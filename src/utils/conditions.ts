@@ -0,0 +1,114 @@
+import type { CardCondition, ConditionCounts } from '../types'
+import { CARD_CONDITIONS } from '../constants'
+
+/** One condition's share of a pull; `condition` is null for copies with none recorded. */
+export interface ConditionShare {
+  condition: CardCondition | null
+  count: number
+}
+
+/** Drop zero counts, or return undefined when nothing is recorded. */
+function clean(conditions: ConditionCounts): ConditionCounts | undefined {
+  const entries = CARD_CONDITIONS.filter((c) => (conditions[c] ?? 0) > 0).map((c) => [c, conditions[c]!])
+  return entries.length > 0 ? (Object.fromEntries(entries) as ConditionCounts) : undefined
+}
+
+/** Copies with a condition recorded. */
+export function recordedCopies(conditions: ConditionCounts | undefined): number {
+  return CARD_CONDITIONS.reduce((s, c) => s + (conditions?.[c] ?? 0), 0)
+}
+
+/**
+ * The pull's copies by condition, best first, then the copies with no
+ * condition recorded. Shares with no copies are left out.
+ */
+export function conditionShares(count: number, conditions: ConditionCounts | undefined): ConditionShare[] {
+  const shares: ConditionShare[] = CARD_CONDITIONS.filter((c) => (conditions?.[c] ?? 0) > 0).map((c) => ({
+    condition: c,
+    count: conditions![c]!,
+  }))
+  const unrecorded = count - recordedCopies(conditions)
+  if (unrecorded > 0) shares.push({ condition: null, count: unrecorded })
+  return shares
+}
+
+/** Add `n` copies in `condition`. */
+export function addConditionCopies(
+  conditions: ConditionCounts | undefined,
+  condition: CardCondition,
+  n: number,
+): ConditionCounts | undefined {
+  return clean({ ...conditions, [condition]: (conditions?.[condition] ?? 0) + n })
+}
+
+/**
+ * Record `condition` for one copy of a `count`-copy pull that has none yet.
+ * Unchanged when every copy already has one.
+ */
+export function recordCondition(
+  count: number,
+  conditions: ConditionCounts | undefined,
+  condition: CardCondition,
+): ConditionCounts | undefined {
+  if (recordedCopies(conditions) >= count) return conditions
+  return addConditionCopies(conditions, condition, 1)
+}
+
+/**
+ * Take `removed` copies out of a `count`-copy pull. With a `condition` they
+ * come from that condition; otherwise (or once it runs out) from the copies
+ * with none recorded, then from the worst condition up.
+ */
+export function removeConditionCopies(
+  count: number,
+  conditions: ConditionCounts | undefined,
+  removed: number,
+  condition?: CardCondition | null,
+): ConditionCounts | undefined {
+  if (!conditions) return undefined
+  const next = { ...conditions }
+  let left = removed
+  if (condition && next[condition]) {
+    const n = Math.min(left, next[condition]!)
+    next[condition] = next[condition]! - n
+    left -= n
+  }
+  // Copies without a condition are taken before any recorded one
+  const unrecorded = count - (removed - left) - recordedCopies(next)
+  left -= Math.min(left, Math.max(0, unrecorded))
+  for (let i = CARD_CONDITIONS.length - 1; i >= 0 && left > 0; i--) {
+    const c = CARD_CONDITIONS[i]!
+    const n = Math.min(left, next[c] ?? 0)
+    next[c] = (next[c] ?? 0) - n
+    left -= n
+  }
+  return clean(next)
+}
+
+/** Sum two pulls' condition counts, as when an import merges into a pull. */
+export function mergeConditions(
+  a: ConditionCounts | undefined,
+  b: ConditionCounts | undefined,
+): ConditionCounts | undefined {
+  if (!b) return a
+  return CARD_CONDITIONS.reduce((acc, c) => (b[c] ? addConditionCopies(acc, c, b[c]!) : acc), a)
+}
+
+/** "NM ×2 · LP" — recorded conditions only, '' when none are. */
+export function conditionsLabel(conditions: ConditionCounts | undefined): string {
+  return CARD_CONDITIONS.filter((c) => (conditions?.[c] ?? 0) > 0)
+    .map((c) => (conditions![c]! > 1 ? c + ' ×' + conditions![c] : c))
+    .join(' · ')
+}
+
+/**
+ * One row per condition share of each pull, for formats that list a
+ * condition per row. Pulls with no conditions recorded stay one row.
+ */
+export function splitByCondition<T extends { count: number; conditions?: ConditionCounts }>(
+  pulls: T[],
+): (T & { condition: CardCondition | null })[] {
+  return pulls.flatMap((p) =>
+    conditionShares(p.count, p.conditions).map((share) => ({ ...p, count: share.count, condition: share.condition })),
+  )
+}
@@ -1,9 +1,74 @@
-import type { Pull } from '../types'
+import type { HistoryPull } from '../types'
+import { isFoilVariant } from './variants'
 
-export function generateCSV(pulls: Pull[]): string {
+/** Quote a CSV field when it contains a comma, quote or newline. */
+export function csvField(value: string): string {
+  return /[",\n]/.test(value) ? '"' + value.replace(/"/g, '""') + '"' : value
+}
+
+/**
+ * Dreamborn-style CSV. Dreamborn only knows normal and foil, so foil finishes
+ * count as foil, and copies it can't tell apart (by language, details or
+ * condition) share a row.
+ */
+export function generateCSV(pulls: Pick<HistoryPull, 'card' | 'variant' | 'count'>[]): string {
   const header = 'Set Number,Card Number,Variant,Count'
-  const rows = pulls.map(
-    (p) => p.card.setCode + ',' + p.card.cn + ',' + p.variant + ',' + p.count,
-  )
-  return header + '\n' + rows.join('\n')
+  const rows: { setCode: string; cn: string; variant: 'normal' | 'foil'; count: number }[] = []
+  const byId: Record<string, (typeof rows)[number]> = {}
+  pulls.forEach((p) => {
+    const variant = isFoilVariant(p.variant) ? 'foil' : 'normal'
+    const id = p.card.setCode + '-' + p.card.cn + '-' + variant
+    let row = byId[id]
+    if (!row) {
+      row = { setCode: p.card.setCode, cn: p.card.cn, variant, count: 0 }
+      byId[id] = row
+      rows.push(row)
+    }
+    row.count += p.count
+  })
+  return header + '\n' + rows.map((r) => r.setCode + ',' + r.cn + ',' + r.variant + ',' + r.count).join('\n')
+}
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with embedded
+ * commas, doubled quotes and newlines; blank lines are dropped.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  const endRow = () => {
+    row.push(field)
+    if (row.some((f) => f.trim() !== '')) rows.push(row)
+    row = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field)
+      field = ''
+    } else if (ch === '\n') {
+      endRow()
+    } else if (ch !== '\r') {
+      field += ch
+    }
+  }
+  endRow()
+
+  return rows
 }
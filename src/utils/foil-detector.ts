@@ -0,0 +1,148 @@
+/**
+ * Foil detection from the camera stream.
+ *
+ * A foil card shimmers as it tilts: highlights and rainbow tints move across
+ * the card from one frame to the next, while a normal card only gets
+ * uniformly brighter or darker. Each upright card image is reduced to a
+ * coarse grid of brightness and saturation; what changes between frames
+ * after the overall exposure shift is taken out is the shimmer.
+ */
+
+/** Grid the upright card is reduced to — close to the card's 63:88 shape. */
+export const FOIL_GRID_COLS = 8
+export const FOIL_GRID_ROWS = 11
+
+/** Frames of the card the estimate looks back over. */
+export const FOIL_WINDOW = 6
+
+/** Frame-to-frame changes needed before there is an estimate at all. */
+export const MIN_FOIL_PAIRS = 2
+
+/**
+ * Shimmer score (0-1) at which a card counts as foil. A first guess from
+ * a handful of cards under desk lighting — the confirm step records the
+ * score next to what the user picked, so this can be tuned from telemetry.
+ */
+export const FOIL_THRESHOLD = 0.04
+
+/** Below this the scanner shows its guess but doesn't preselect it. */
+export const PRESELECT_CONFIDENCE = 0.5
+
+/** Inset from each edge, so background slipping in at the border doesn't count. */
+const MARGIN = 0.06
+
+/** One frame of the card: mean brightness and saturation per grid cell (0-255). */
+export interface FoilSample {
+  luma: number[]
+  sat: number[]
+}
+
+export interface FoilEstimate {
+  variant: 'normal' | 'foil'
+  /** 0-1: how far the score is from the threshold, scaled down for few frames */
+  confidence: number
+  /** Mean shimmer score over the window */
+  score: number
+  /** Frames the estimate is based on */
+  frames: number
+}
+
+/** Reduce raw RGBA pixels of the upright card to a foil sample. */
+export function foilSample(data: Uint8ClampedArray | Uint8Array, width: number, height: number): FoilSample {
+  const x0 = Math.floor(width * MARGIN)
+  const y0 = Math.floor(height * MARGIN)
+  const cw = (width - 2 * x0) / FOIL_GRID_COLS
+  const ch = (height - 2 * y0) / FOIL_GRID_ROWS
+  const luma: number[] = []
+  const sat: number[] = []
+
+  for (let gy = 0; gy < FOIL_GRID_ROWS; gy++) {
+    for (let gx = 0; gx < FOIL_GRID_COLS; gx++) {
+      const xs = x0 + Math.floor(gx * cw)
+      const xe = Math.max(xs + 1, x0 + Math.floor((gx + 1) * cw))
+      const ys = y0 + Math.floor(gy * ch)
+      const ye = Math.max(ys + 1, y0 + Math.floor((gy + 1) * ch))
+      let l = 0
+      let s = 0
+      let n = 0
+      // Every other pixel is plenty for a cell average
+      for (let y = ys; y < ye; y += 2) {
+        for (let x = xs; x < xe; x += 2) {
+          const off = (y * width + x) * 4
+          const r = data[off]!
+          const g = data[off + 1]!
+          const b = data[off + 2]!
+          l += 0.299 * r + 0.587 * g + 0.114 * b
+          s += Math.max(r, g, b) - Math.min(r, g, b)
+          n++
+        }
+      }
+      luma.push(n > 0 ? l / n : 0)
+      sat.push(n > 0 ? s / n : 0)
+    }
+  }
+  return { luma, sat }
+}
+
+/** Foil sample of the upright card drawn on a canvas. */
+export function foilSampleOfCanvas(canvas: HTMLCanvasElement): FoilSample | null {
+  const ctx = canvas.getContext('2d')
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  return foilSample(data, canvas.width, canvas.height)
+}
+
+/** Push a sample, keeping the most recent FOIL_WINDOW. */
+export function addFoilSample(samples: FoilSample[], sample: FoilSample): FoilSample[] {
+  const next = [...samples, sample]
+  return next.length > FOIL_WINDOW ? next.slice(next.length - FOIL_WINDOW) : next
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)] ?? 0
+}
+
+/** RMS of the per-cell change once the overall (exposure) shift is removed, 0-1. */
+function localChange(a: number[], b: number[]): number {
+  const diffs = a.map((v, i) => b[i]! - v)
+  const shift = median(diffs)
+  const meanSquare = diffs.reduce((sum, d) => sum + (d - shift) ** 2, 0) / Math.max(1, diffs.length)
+  return Math.sqrt(meanSquare) / 255
+}
+
+/** Shimmer between two frames of the same card, 0-1. */
+export function shimmerBetween(a: FoilSample, b: FoilSample): number {
+  return localChange(a.luma, b.luma) + localChange(a.sat, b.sat)
+}
+
+/** Mean shimmer across the window, or null with too few frames. */
+export function shimmerScore(samples: FoilSample[]): number | null {
+  if (samples.length < MIN_FOIL_PAIRS + 1) return null
+  let sum = 0
+  for (let i = 1; i < samples.length; i++) sum += shimmerBetween(samples[i - 1]!, samples[i]!)
+  return sum / (samples.length - 1)
+}
+
+/** Guess normal or foil from the recent frames, or null with too few. */
+export function estimateFoil(samples: FoilSample[]): FoilEstimate | null {
+  const score = shimmerScore(samples)
+  if (score === null) return null
+  const pairs = samples.length - 1
+  const distance = Math.min(1, Math.abs(score - FOIL_THRESHOLD) / FOIL_THRESHOLD)
+  return {
+    variant: score >= FOIL_THRESHOLD ? 'foil' : 'normal',
+    confidence: +(distance * Math.min(1, pairs / (FOIL_WINDOW - 1))).toFixed(2),
+    score: +score.toFixed(4),
+    frames: samples.length,
+  }
+}
+
+/**
+ * Whether the estimate is sure enough the card isn't foil to log it as
+ * normal without asking. No estimate (the card outline was never found, so
+ * no shimmer was measured) is not sure.
+ */
+export function isConfidentlyNormal(estimate: FoilEstimate | null): boolean {
+  return estimate?.variant === 'normal' && estimate.confidence >= PRESELECT_CONFIDENCE
+}
@@ -0,0 +1,469 @@
+/**
+ * The scanner's per-frame image work: find and straighten the card, crop
+ * the collector number / ink / name regions, upscale and binarize the text
+ * crops, classify the ink and sample the foil shimmer.
+ *
+ * It runs in the frame pipeline worker on OffscreenCanvas, so the main
+ * thread only captures the frame (createImageBitmap) and hands it over.
+ * Browsers without a 2D OffscreenCanvas run the same code on <canvas>
+ * elements instead — see frame-worker.ts.
+ */
+
+import { detectCardQuad, warpPerspective, CARD_WIDTH, CARD_HEIGHT, CARD_CN_TOP, CARD_CN_HEIGHT } from './card-detector'
+import type { Quad } from './card-detector'
+import { preprocessPixels } from './preprocess-ocr'
+import type { OcrStrategy, PreprocessInfo } from './preprocess-ocr'
+import { detectInkColorOfPixels, inkSampleRegion } from './ink-detector'
+import type { InkDetectionResult } from './ink-detector'
+import { foilSample } from './foil-detector'
+import type { FoilSample } from './foil-detector'
+import { binderCellRects } from './binder-page'
+
+// ── Guide frame percentages (relative to CSS container / screen) ────────
+// These match the ScannerOverlay's guide frame (left:18%, right:18%, top:21%, height:58%).
+// The algorithm must convert these CSS percentages to video-pixel coordinates
+// because `object-fit: cover` crops the video — CSS % ≠ video %.
+export const GUIDE_X = 0.18
+export const GUIDE_Y = 0.21
+export const GUIDE_W = 0.64
+export const GUIDE_H = 0.58
+
+// Binder-page guide — a 3x3 grid of pockets over most of the screen, matching
+// the ScannerOverlay's page guide (left:4%, right:4%, top:16%, height:62%).
+// Each pocket is cropped like the single-card guide frame.
+export const BINDER_GUIDE_X = 0.04
+export const BINDER_GUIDE_Y = 0.16
+export const BINDER_GUIDE_W = 0.92
+export const BINDER_GUIDE_H = 0.62
+
+// Collector number region — bottom portion of the guide frame containing the
+// "102/204 · EN · 7" line at the very bottom of each card.
+// Full width (0-100%) so horizontal card position doesn't matter.
+// Bottom 20% (80-100%) is generous enough to capture the CN text regardless of
+// whether the card is top-aligned, centered, or bottom-aligned in the guide.
+export const CN_REGION_LEFT = 0.0
+export const CN_REGION_TOP = 0.80
+export const CN_REGION_HEIGHT = 0.20
+export const CN_REGION_WIDTH = 1.0
+
+/** Upscale factor for the CN crop before OCR.
+ * With the wider crop (full width × bottom 20%), raw size is ~691×213 px.
+ * 2x upscale → ~1382×426 px — text is ~30px tall, readable by Tesseract. */
+export const OCR_UPSCALE = 2
+
+/** Upscale factor for a binder pocket's CN crop — pockets are about a third
+ * the size of the single-card guide, so the text needs more help. */
+export const BINDER_OCR_UPSCALE = 3
+
+// Ink colour region — moderate strip covering the name banner area.
+// Character cards have the ink name banner at ~52%, non-character cards
+// (Action, Song, Item) have it at ~42-48%.  A 14%-tall strip from 44–58%
+// catches both without dipping into card art (above ~42%) or text area
+// (below ~60%) which previously caused false Steel detection from art colours.
+export const INK_REGION_LEFT = 0.01
+export const INK_REGION_TOP = 0.44
+export const INK_REGION_WIDTH = 0.10
+export const INK_REGION_HEIGHT = 0.14
+
+// Card name region — the same banner band, to the right of the ink strip.
+// Read by a second OCR pass only when the collector number can't be read or
+// leaves several candidates.  Covers the name and the version line below it.
+export const NAME_REGION_LEFT = 0.10
+export const NAME_REGION_TOP = 0.44
+export const NAME_REGION_WIDTH = 0.86
+export const NAME_REGION_HEIGHT = 0.14
+
+// ── Card detection ──────────────────────────────────────────────────────
+// When the card's outline is found, it is warped upright and the crops are
+// taken from the card itself, so angle and position in the frame no longer
+// matter.  The fixed guide-frame crops above are the fallback.
+
+/** Longest side of the downscaled frame searched for the card (px).
+ * Edge detection + contour walking is per-pixel JS, so keep this small. */
+const DETECT_MAX_SIDE = 360
+
+/** Longest side of the card region copied at full resolution for the warp. */
+const WARP_SOURCE_MAX_SIDE = 1200
+
+// ── object-fit: cover transform ─────────────────────────────────────────
+// The video element uses `object-fit: cover`, which scales the video to fill
+// the container and crops the overflow.  This means CSS percentages on the
+// overlay do NOT map 1:1 to video pixel percentages.  A landscape 1920×1080
+// video displayed in a portrait 375×812 container will have ~74% of its width
+// cropped.  Without this transform, the algorithm crops from the wrong region
+// and the scanner can never match a card (0% success rate).
+
+export interface CoverTransform {
+  /** Horizontal offset from video origin to start of visible area (px). */
+  offsetX: number
+  /** Vertical offset from video origin to start of visible area (px). */
+  offsetY: number
+  /** Width of the visible portion of the video (in video pixels). */
+  visibleW: number
+  /** Height of the visible portion of the video (in video pixels). */
+  visibleH: number
+}
+
+/**
+ * Compute the object-fit: cover mapping from CSS container space to video space.
+ *
+ * CSS % position P maps to video pixel: offset + P × visible
+ */
+export function getCoverTransform(video: HTMLVideoElement): CoverTransform | null {
+  const cw = video.clientWidth
+  const ch = video.clientHeight
+  const vw = video.videoWidth
+  const vh = video.videoHeight
+  if (cw === 0 || ch === 0 || vw === 0 || vh === 0) return null
+
+  // cover picks the larger scale factor so the video fills both axes
+  const scale = Math.max(cw / vw, ch / vh)
+  const visibleW = cw / scale
+  const visibleH = ch / scale
+  return {
+    offsetX: (vw - visibleW) / 2,
+    offsetY: (vh - visibleH) / 2,
+    visibleW,
+    visibleH,
+  }
+}
+
+/** Where the camera frame sits on screen — all the pipeline needs besides its pixels. */
+export interface FrameGeometry {
+  cover: CoverTransform
+  videoWidth: number
+  videoHeight: number
+}
+
+export interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface FrameRegions {
+  frame: Rect
+  cn: Rect
+  ink: Rect
+  name: Rect
+}
+
+/**
+ * CN and ink crop rectangles: on the upright card when one was found,
+ * otherwise within the guide frame of the video (in video pixels).
+ */
+export function cropRegions(cover: CoverTransform, cardFound: boolean): FrameRegions {
+  const frame = cardFound
+    ? { x: 0, y: 0, w: CARD_WIDTH, h: CARD_HEIGHT }
+    : {
+        x: cover.offsetX + GUIDE_X * cover.visibleW,
+        y: cover.offsetY + GUIDE_Y * cover.visibleH,
+        w: GUIDE_W * cover.visibleW,
+        h: GUIDE_H * cover.visibleH,
+      }
+  const cn = cardFound
+    ? { x: 0, y: CARD_CN_TOP * CARD_HEIGHT, w: CARD_WIDTH, h: CARD_CN_HEIGHT * CARD_HEIGHT }
+    : {
+        x: frame.x + CN_REGION_LEFT * frame.w,
+        y: frame.y + CN_REGION_TOP * frame.h,
+        w: CN_REGION_WIDTH * frame.w,
+        h: CN_REGION_HEIGHT * frame.h,
+      }
+  const ink = {
+    x: frame.x + INK_REGION_LEFT * frame.w,
+    y: frame.y + INK_REGION_TOP * frame.h,
+    w: INK_REGION_WIDTH * frame.w,
+    h: INK_REGION_HEIGHT * frame.h,
+  }
+  const name = {
+    x: frame.x + NAME_REGION_LEFT * frame.w,
+    y: frame.y + NAME_REGION_TOP * frame.h,
+    w: NAME_REGION_WIDTH * frame.w,
+    h: NAME_REGION_HEIGHT * frame.h,
+  }
+  const floor = (r: Rect): Rect => ({ x: Math.floor(r.x), y: Math.floor(r.y), w: Math.floor(r.w), h: Math.floor(r.h) })
+  return { frame: floor(frame), cn: floor(cn), ink: floor(ink), name: floor(name) }
+}
+
+/** The binder page's pockets in video pixels, row by row. */
+export function binderPocketRects(cover: CoverTransform): Rect[] {
+  return binderCellRects({
+    x: cover.offsetX + BINDER_GUIDE_X * cover.visibleW,
+    y: cover.offsetY + BINDER_GUIDE_Y * cover.visibleH,
+    w: BINDER_GUIDE_W * cover.visibleW,
+    h: BINDER_GUIDE_H * cover.visibleH,
+  })
+}
+
+// ── Canvases ────────────────────────────────────────────────────────────
+
+/** A 2D canvas — OffscreenCanvas in the worker, <canvas> on the main thread. */
+export type PipelineCanvas = HTMLCanvasElement | OffscreenCanvas
+
+/** The drawing calls both kinds of 2D context share. */
+type Context2D = CanvasDrawImage & CanvasImageData & CanvasImageSmoothing
+
+function context2d(canvas: PipelineCanvas): Context2D | null {
+  // Both canvases take the same arguments; TS can't resolve the overloads on the union
+  return (canvas as OffscreenCanvas).getContext('2d', { willReadFrequently: true })
+}
+
+/** Named canvases, created on first use and reused on every frame. */
+export type CanvasPool = (name: string) => PipelineCanvas
+
+export function canvasPool(create: () => PipelineCanvas): CanvasPool {
+  const canvases = new Map<string, PipelineCanvas>()
+  return (name) => {
+    let canvas = canvases.get(name)
+    if (!canvas) {
+      canvas = create()
+      canvases.set(name, canvas)
+    }
+    return canvas
+  }
+}
+
+/** Draw a crop of the source onto the canvas, scaled by `scale`. */
+function drawCrop(source: CanvasImageSource, { x, y, w, h }: Rect, canvas: PipelineCanvas, scale = 1): Context2D | null {
+  const ctx = context2d(canvas)
+  if (!ctx) return null
+  canvas.width = Math.max(1, w * scale)
+  canvas.height = Math.max(1, h * scale)
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, x, y, Math.max(1, w), Math.max(1, h), 0, 0, canvas.width, canvas.height)
+  return ctx
+}
+
+/** Grayscale → auto-invert → binarization, in place. */
+function binarize(canvas: PipelineCanvas, ctx: Context2D, strategy: OcrStrategy = 'otsu'): PreprocessInfo {
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const info = preprocessPixels(imageData.data, canvas.width, canvas.height, strategy)
+  ctx.putImageData(imageData, 0, 0)
+  return info
+}
+
+function detectInk(canvas: PipelineCanvas, ctx: Context2D): InkDetectionResult {
+  const region = inkSampleRegion(canvas.width, canvas.height)
+  return detectInkColorOfPixels(region ? ctx.getImageData(region.x, region.y, region.w, region.h).data : new Uint8ClampedArray(0))
+}
+
+// ── Card frames ─────────────────────────────────────────────────────────
+
+export interface CardOutline {
+  /** Corners in video pixels. */
+  quadPx: Quad
+  /** Corners as fractions (0-1) of the visible camera area, for the overlay. */
+  outline: Quad
+}
+
+export interface LocatedCard extends CardOutline {
+  /** The card warped to an upright CARD_WIDTH × CARD_HEIGHT image. */
+  card: PipelineCanvas
+}
+
+/**
+ * Find the card in the visible part of the frame and warp it upright.
+ * Returns null when no card-shaped outline is in view.
+ */
+export function locateCard(source: CanvasImageSource, geometry: FrameGeometry, pool: CanvasPool): LocatedCard | null {
+  const { cover } = geometry
+
+  // ── Find the outline on a downscaled copy of the visible frame ─────
+  const scale = Math.min(1, DETECT_MAX_SIDE / Math.max(cover.visibleW, cover.visibleH))
+  const dw = Math.max(1, Math.round(cover.visibleW * scale))
+  const dh = Math.max(1, Math.round(cover.visibleH * scale))
+  const detectCanvas = pool('detect')
+  const detectCtx = context2d(detectCanvas)
+  if (!detectCtx) return null
+  detectCanvas.width = dw
+  detectCanvas.height = dh
+  detectCtx.drawImage(source, cover.offsetX, cover.offsetY, cover.visibleW, cover.visibleH, 0, 0, dw, dh)
+  const detection = detectCardQuad(detectCtx.getImageData(0, 0, dw, dh))
+  if (!detection) return null
+
+  const { quad } = detection
+  const quadPx = quad.map((p) => ({
+    x: cover.offsetX + (p.x / dw) * cover.visibleW,
+    y: cover.offsetY + (p.y / dh) * cover.visibleH,
+  })) as Quad
+  const outline = quad.map((p) => ({ x: p.x / dw, y: p.y / dh })) as Quad
+
+  // ── Copy just the card's bounding box at (near) full resolution ────
+  const xs = quadPx.map((p) => p.x)
+  const ys = quadPx.map((p) => p.y)
+  const bx = Math.max(0, Math.floor(Math.min(...xs)))
+  const by = Math.max(0, Math.floor(Math.min(...ys)))
+  const bw = Math.min(geometry.videoWidth, Math.ceil(Math.max(...xs))) - bx
+  const bh = Math.min(geometry.videoHeight, Math.ceil(Math.max(...ys))) - by
+  if (bw <= 0 || bh <= 0) return null
+  const sourceScale = Math.min(1, WARP_SOURCE_MAX_SIDE / Math.max(bw, bh))
+  const sw = Math.max(1, Math.round(bw * sourceScale))
+  const sh = Math.max(1, Math.round(bh * sourceScale))
+  const sourceCanvas = pool('source')
+  const cardCanvas = pool('card')
+  const sourceCtx = context2d(sourceCanvas)
+  const cardCtx = context2d(cardCanvas)
+  if (!sourceCtx || !cardCtx) return null
+  sourceCanvas.width = sw
+  sourceCanvas.height = sh
+  sourceCtx.drawImage(source, bx, by, bw, bh, 0, 0, sw, sh)
+
+  // ── Warp upright ───────────────────────────────────────────────────
+  const local = quadPx.map((p) => ({ x: (p.x - bx) * sourceScale, y: (p.y - by) * sourceScale })) as Quad
+  const warped = warpPerspective(sourceCtx.getImageData(0, 0, sw, sh), local, CARD_WIDTH, CARD_HEIGHT)
+  cardCanvas.width = CARD_WIDTH
+  cardCanvas.height = CARD_HEIGHT
+  const out = cardCtx.createImageData(CARD_WIDTH, CARD_HEIGHT)
+  out.data.set(warped.data)
+  cardCtx.putImageData(out, 0, 0)
+
+  return { quadPx, outline, card: cardCanvas }
+}
+
+/**
+ * One frame read for a single card. `Image` is what the OCR crops are handed
+ * over as and `Art` the upright card — canvases inside the pipeline, encoded
+ * blobs and a bitmap once they leave the worker.
+ */
+export interface CardFrameOf<Image, Art> {
+  located: CardOutline | null
+  regions: FrameRegions
+  /** Foil shimmer sample of the upright card, when one was found */
+  foilSample: FoilSample | null
+  /** Collector number crop, upscaled and binarized for OCR */
+  cn: Image
+  preprocess: PreprocessInfo
+  ink: InkDetectionResult
+  /** Name banner crop, binarized — read when the CN can't settle the card */
+  name: Image | null
+  /** The upright card, for the image assist */
+  card: Art | null
+}
+
+/**
+ * Everything the scanner needs from one camera frame in single-card mode.
+ *
+ * 0. Find the card's outline and warp it upright (guide frame if not found)
+ * 1. Sample the foil shimmer on the upright card, where frames line up
+ * 2. Crop the collector number, upscale and binarize it with `strategy`
+ * 3. Crop the ink strip and classify its pixels
+ * 4. Crop and binarize the name banner for the fallback OCR pass
+ */
+export function analyseCardFrame(
+  source: CanvasImageSource,
+  geometry: FrameGeometry,
+  strategy: OcrStrategy,
+  pool: CanvasPool,
+): CardFrameOf<PipelineCanvas, PipelineCanvas> | null {
+  const located = locateCard(source, geometry, pool)
+  const regions = cropRegions(geometry.cover, located !== null)
+  const cropSource: CanvasImageSource = located ? located.card : source
+
+  let sample: FoilSample | null = null
+  if (located) {
+    const cardCtx = context2d(located.card)
+    if (cardCtx) sample = foilSample(cardCtx.getImageData(0, 0, CARD_WIDTH, CARD_HEIGHT).data, CARD_WIDTH, CARD_HEIGHT)
+  }
+
+  // Text goes from ~15px to ~30px tall
+  const cn = pool('cn')
+  const cnCtx = drawCrop(cropSource, regions.cn, cn, OCR_UPSCALE)
+  if (!cnCtx) return null
+  const preprocess = binarize(cn, cnCtx, strategy)
+
+  // No smoothing tricks needed — true colours for the ink
+  const inkCanvas = pool('ink')
+  const inkCtx = drawCrop(cropSource, regions.ink, inkCanvas)
+  if (!inkCtx) return null
+  const ink = detectInk(inkCanvas, inkCtx)
+
+  // Name text is several times taller than the CN — no upscale, and plain Otsu is enough
+  let name: PipelineCanvas | null = null
+  if (regions.name.w > 0 && regions.name.h > 0) {
+    name = pool('name')
+    const nameCtx = drawCrop(cropSource, regions.name, name)
+    if (nameCtx) binarize(name, nameCtx)
+    else name = null
+  }
+
+  return {
+    located: located ? { quadPx: located.quadPx, outline: located.outline } : null,
+    regions,
+    foilSample: sample,
+    cn,
+    preprocess,
+    ink,
+    name,
+    card: located ? located.card : null,
+  }
+}
+
+// ── Binder pages ────────────────────────────────────────────────────────
+
+/** One pocket of a binder page read from a frame. */
+export interface PocketFrameOf<Image> {
+  /** Pocket index, row by row from the top left */
+  index: number
+  /** Collector number crop, upscaled and binarized for OCR */
+  cn: Image
+  ink: InkDetectionResult
+}
+
+/**
+ * Crop the CN and ink strip of each listed pocket. Each pocket gets its own
+ * canvas, since the crops are all read after the frame is done.
+ */
+export function analysePageFrame(
+  source: CanvasImageSource,
+  geometry: FrameGeometry,
+  pockets: number[],
+  strategy: OcrStrategy,
+  pool: CanvasPool,
+): PocketFrameOf<PipelineCanvas>[] {
+  const rects = binderPocketRects(geometry.cover)
+  const read: PocketFrameOf<PipelineCanvas>[] = []
+
+  for (const index of pockets) {
+    const pocket = rects[index]
+    if (!pocket) continue
+    const cnRect = {
+      x: Math.floor(pocket.x + CN_REGION_LEFT * pocket.w),
+      y: Math.floor(pocket.y + CN_REGION_TOP * pocket.h),
+      w: Math.floor(CN_REGION_WIDTH * pocket.w),
+      h: Math.floor(CN_REGION_HEIGHT * pocket.h),
+    }
+    if (cnRect.w <= 0 || cnRect.h <= 0) continue
+    const cn = pool(`pocket-${index}`)
+    const cnCtx = drawCrop(source, cnRect, cn, BINDER_OCR_UPSCALE)
+    if (!cnCtx) continue
+    binarize(cn, cnCtx, strategy)
+
+    const inkRect = {
+      x: Math.floor(pocket.x + INK_REGION_LEFT * pocket.w),
+      y: Math.floor(pocket.y + INK_REGION_TOP * pocket.h),
+      w: Math.max(1, Math.floor(INK_REGION_WIDTH * pocket.w)),
+      h: Math.max(1, Math.floor(INK_REGION_HEIGHT * pocket.h)),
+    }
+    const inkCanvas = pool('ink')
+    const inkCtx = drawCrop(source, inkRect, inkCanvas)
+    if (!inkCtx) continue
+    read.push({ index, cn, ink: detectInk(inkCanvas, inkCtx) })
+  }
+  return read
+}
+
+// ── Worker messages ─────────────────────────────────────────────────────
+
+/** Where a frame's image work ran. */
+export type FramePipeline = 'worker' | 'main'
+
+export type FrameRequest =
+  | { id: number; kind: 'card'; frame: ImageBitmap; geometry: FrameGeometry; strategy: OcrStrategy }
+  | { id: number; kind: 'page'; frame: ImageBitmap; geometry: FrameGeometry; pockets: number[]; strategy: OcrStrategy }
+
+export type FrameResponse =
+  | { id: number; kind: 'card'; result: CardFrameOf<Blob, ImageBitmap> | null }
+  | { id: number; kind: 'page'; pockets: PocketFrameOf<Blob>[] }
+  | { id: number; kind: 'error'; message: string }
@@ -0,0 +1,47 @@
+/**
+ * Frame pipeline worker — runs frame-pipeline.ts on OffscreenCanvas.
+ *
+ * Takes the captured frame as an ImageBitmap and answers with the OCR crops
+ * already encoded as PNG blobs (Tesseract reads those without drawing them
+ * again) and the upright card as a bitmap. Everything is transferred, not
+ * copied. Started and spoken to by frame-worker.ts.
+ */
+
+import { analyseCardFrame, analysePageFrame, canvasPool } from './frame-pipeline'
+import type { FrameRequest, FrameResponse, PipelineCanvas } from './frame-pipeline'
+
+const pool = canvasPool(() => new OffscreenCanvas(1, 1))
+
+// Binarized crops are two-tone, so lossless PNG stays small
+const encode = (canvas: PipelineCanvas) => (canvas as OffscreenCanvas).convertToBlob({ type: 'image/png' })
+
+async function handle(request: FrameRequest): Promise<{ response: FrameResponse; transfer: Transferable[] }> {
+  if (request.kind === 'page') {
+    const pockets = analysePageFrame(request.frame, request.geometry, request.pockets, request.strategy, pool)
+    const encoded = await Promise.all(pockets.map(async (p) => ({ ...p, cn: await encode(p.cn) })))
+    return { response: { id: request.id, kind: 'page', pockets: encoded }, transfer: [] }
+  }
+
+  const frame = analyseCardFrame(request.frame, request.geometry, request.strategy, pool)
+  if (!frame) return { response: { id: request.id, kind: 'card', result: null }, transfer: [] }
+  const [cn, name] = await Promise.all([encode(frame.cn), frame.name ? encode(frame.name) : null])
+  // The card canvas is drawn afresh every frame, so its bitmap can be handed over
+  const card = frame.card ? (frame.card as OffscreenCanvas).transferToImageBitmap() : null
+  return {
+    response: { id: request.id, kind: 'card', result: { ...frame, cn, name, card } },
+    transfer: card ? [card] : [],
+  }
+}
+
+self.onmessage = async (event: MessageEvent<FrameRequest>) => {
+  const request = event.data
+  try {
+    const { response, transfer } = await handle(request)
+    self.postMessage(response, { transfer })
+  } catch (err) {
+    const response: FrameResponse = { id: request.id, kind: 'error', message: err instanceof Error ? err.message : String(err) }
+    self.postMessage(response)
+  } finally {
+    request.frame.close()
+  }
+}
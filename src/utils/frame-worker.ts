@@ -0,0 +1,199 @@
+import { analyseCardFrame, analysePageFrame, canvasPool } from './frame-pipeline'
+import type {
+  CanvasPool,
+  CardFrameOf,
+  FrameGeometry,
+  FramePipeline,
+  FrameRequest,
+  FrameResponse,
+  PocketFrameOf,
+} from './frame-pipeline'
+import type { OcrImage } from './ocr-worker'
+import type { OcrStrategy } from './preprocess-ocr'
+
+/**
+ * A card frame as the scanner sees it, with how much main-thread time it
+ * took to get there — capture and hand-over in the worker, the whole
+ * pipeline on the fallback.
+ */
+export interface CardFrame extends CardFrameOf<OcrImage, HTMLCanvasElement | ImageBitmap> {
+  pipeline: FramePipeline
+  mainThreadMs: number
+}
+
+export interface PageFrame {
+  pockets: PocketFrameOf<OcrImage>[]
+  pipeline: FramePipeline
+  mainThreadMs: number
+}
+
+let workerInstance: Worker | null = null
+/** Set when the worker fails to start or crashes — later frames stay on the main thread. */
+let workerFailed = false
+let supported: boolean | null = null
+let nextId = 0
+/** Waiting frames by request id — settled with null when the worker is stopped. */
+const pending = new Map<number, (response: FrameResponse | null) => void>()
+let mainPool: CanvasPool | null = null
+
+/**
+ * Whether frames can go to the worker: it needs createImageBitmap and an
+ * OffscreenCanvas with a 2D context (Safari before 16.4 has neither).
+ */
+export function isFrameWorkerSupported(): boolean {
+  if (supported === null) {
+    try {
+      supported =
+        typeof Worker !== 'undefined' &&
+        typeof createImageBitmap !== 'undefined' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        new OffscreenCanvas(1, 1).getContext('2d') !== null
+    } catch {
+      supported = false
+    }
+  }
+  return supported && !workerFailed
+}
+
+function failWorker(message: string) {
+  console.error('[frame-worker] Falling back to the main thread:', message)
+  workerFailed = true
+  for (const [id, settle] of pending) settle({ id, kind: 'error', message })
+  terminateFrameWorker()
+}
+
+/** Get the frame pipeline worker, starting it on first use. */
+function getWorker(): Worker {
+  if (workerInstance) return workerInstance
+  const worker = new Worker(new URL('./frame-pipeline.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<FrameResponse>) => {
+    const settle = pending.get(event.data.id)
+    pending.delete(event.data.id)
+    settle?.(event.data)
+  }
+  worker.onerror = (event) => failWorker(event.message || 'worker error')
+  workerInstance = worker
+  return worker
+}
+
+/** Capture the frame and post it to the worker, timing the main-thread part. */
+async function postFrame(
+  video: HTMLVideoElement,
+  message: (frame: ImageBitmap, id: number) => FrameRequest,
+): Promise<{ response: FrameResponse | null; mainThreadMs: number }> {
+  let start = performance.now()
+  const capture = createImageBitmap(video)
+  let mainThreadMs = performance.now() - start
+  const frame = await capture.catch(() => null)
+  if (!frame) return { response: null, mainThreadMs }
+
+  start = performance.now()
+  const id = ++nextId
+  const response = new Promise<FrameResponse | null>((resolve) => pending.set(id, resolve))
+  getWorker().postMessage(message(frame, id), [frame])
+  mainThreadMs += performance.now() - start
+
+  return { response: await response, mainThreadMs }
+}
+
+function getMainPool(): CanvasPool {
+  if (!mainPool) mainPool = canvasPool(() => document.createElement('canvas'))
+  return mainPool
+}
+
+function readCardOnMainThread(video: HTMLVideoElement, geometry: FrameGeometry, strategy: OcrStrategy): CardFrame | null {
+  const start = performance.now()
+  // Canvases from the main pool are all <canvas> elements
+  const frame = analyseCardFrame(video, geometry, strategy, getMainPool()) as CardFrameOf<HTMLCanvasElement, HTMLCanvasElement> | null
+  const mainThreadMs = performance.now() - start
+  return frame ? { ...frame, pipeline: 'main', mainThreadMs } : null
+}
+
+function readPageOnMainThread(
+  video: HTMLVideoElement,
+  geometry: FrameGeometry,
+  pockets: number[],
+  strategy: OcrStrategy,
+): PageFrame {
+  const start = performance.now()
+  const read = analysePageFrame(video, geometry, pockets, strategy, getMainPool()) as PocketFrameOf<HTMLCanvasElement>[]
+  return { pockets: read, pipeline: 'main', mainThreadMs: performance.now() - start }
+}
+
+/**
+ * Read the current video frame for a single card, binarizing the collector
+ * number with `strategy`. Runs in the worker when `pipeline` is 'worker' and
+ * the browser supports it, otherwise (or if the worker fails) on the main
+ * thread. Null when the frame couldn't be read.
+ */
+export async function readCardFrame(
+  video: HTMLVideoElement,
+  geometry: FrameGeometry,
+  strategy: OcrStrategy,
+  pipeline: FramePipeline,
+): Promise<CardFrame | null> {
+  if (pipeline === 'main' || !isFrameWorkerSupported()) return readCardOnMainThread(video, geometry, strategy)
+
+  const { response, mainThreadMs } = await postFrame(video, (frame, id) => ({ id, kind: 'card', frame, geometry, strategy }))
+  if (response?.kind === 'error') {
+    console.error('[frame-worker] Card frame failed:', response.message)
+    return readCardOnMainThread(video, geometry, strategy)
+  }
+  if (response?.kind !== 'card' || !response.result) return null
+  return { ...response.result, pipeline: 'worker', mainThreadMs }
+}
+
+/** Read the listed pockets of a binder page from the current video frame. */
+export async function readPageFrame(
+  video: HTMLVideoElement,
+  geometry: FrameGeometry,
+  pockets: number[],
+  strategy: OcrStrategy,
+  pipeline: FramePipeline,
+): Promise<PageFrame> {
+  if (pipeline === 'main' || !isFrameWorkerSupported()) return readPageOnMainThread(video, geometry, pockets, strategy)
+
+  const { response, mainThreadMs } = await postFrame(video, (frame, id) => ({ id, kind: 'page', frame, geometry, pockets, strategy }))
+  if (response?.kind === 'error') {
+    console.error('[frame-worker] Page frame failed:', response.message)
+    return readPageOnMainThread(video, geometry, pockets, strategy)
+  }
+  return { pockets: response?.kind === 'page' ? response.pockets : [], pipeline: 'worker', mainThreadMs }
+}
+
+/** Let go of a frame's upright-card bitmap once the scanner is done with it. */
+export function releaseCardFrame(frame: CardFrame): void {
+  if (frame.card && 'close' in frame.card) frame.card.close()
+}
+
+/**
+ * A data URL of an OCR image for the diagnostics export. Blobs are only
+ * read here, so the export pays for it rather than every frame.
+ */
+export function ocrImageDataUrl(image: OcrImage): Promise<string | null> {
+  if (!(image instanceof Blob)) {
+    try {
+      return Promise.resolve(image.toDataURL('image/jpeg', 0.5))
+    } catch {
+      return Promise.resolve(null)
+    }
+  }
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null)
+    reader.onerror = () => resolve(null)
+    reader.readAsDataURL(image)
+  })
+}
+
+/**
+ * Stop the worker and drop the main-thread canvases. Both are re-created
+ * on the next frame.
+ */
+export function terminateFrameWorker(): void {
+  workerInstance?.terminate()
+  workerInstance = null
+  mainPool = null
+  for (const settle of pending.values()) settle(null)
+  pending.clear()
+}
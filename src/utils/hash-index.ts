@@ -0,0 +1,101 @@
+/**
+ * Offline card-art index — perceptual hashes of every card's art, built
+ * ahead of time (scripts/build-hash-index.ts) and imported as one file, so
+ * the scanner can compare card art without downloading any images.
+ */
+
+import type { Card, CardHash } from '../types'
+import { hammingDistance } from './image-hash'
+
+export const HASH_INDEX_FORMAT = 'lorcana-pack-logger-hash-index'
+export const HASH_INDEX_VERSION = 1
+
+export interface HashIndexFile {
+  format: typeof HASH_INDEX_FORMAT
+  version: number
+  createdAt: number
+  entries: CardHash[]
+}
+
+/**
+ * Bits (of 64) two hashes of the same art may differ by. Phone photos of a
+ * card typically land within 6–10 of the digital image; unrelated art
+ * averages around 32.
+ */
+export const MAX_HASH_DISTANCE = 14
+
+/** How much closer the best card must be than the runner-up, in bits. */
+export const MIN_HASH_MARGIN = 4
+
+const MAX_ERRORS = 10
+
+export const cardHashKey = (card: Pick<Card, 'setCode' | 'cn'>) => `${card.setCode}-${card.cn}`
+
+export function createHashIndexFile(entries: CardHash[], createdAt = Date.now()): HashIndexFile {
+  return { format: HASH_INDEX_FORMAT, version: HASH_INDEX_VERSION, createdAt, entries }
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v)
+const isString = (v: unknown): v is string => typeof v === 'string'
+
+/**
+ * Check that parsed JSON is an index file this version can read. Returns the
+ * entries when valid, otherwise a list of readable problems (capped).
+ */
+export function validateHashIndex(value: unknown): { entries: CardHash[] | null; errors: string[] } {
+  if (!isObject(value) || value.format !== HASH_INDEX_FORMAT) {
+    return { entries: null, errors: ['This is not a card-art index file'] }
+  }
+  if (typeof value.version !== 'number' || value.version > HASH_INDEX_VERSION) {
+    return { entries: null, errors: ['This index was made by a newer version of the app — update before importing'] }
+  }
+  if (!Array.isArray(value.entries)) {
+    return { entries: null, errors: ['entries must be a list'] }
+  }
+
+  const errors: string[] = []
+  value.entries.forEach((entry, i) => {
+    if (!isObject(entry) || !isString(entry.setCode) || !isString(entry.cn)) {
+      errors.push('entries[' + i + '] must have a setCode and cn')
+    } else if (!isString(entry.hash) || !/^[0-9a-f]{16}$/.test(entry.hash)) {
+      errors.push('entries[' + i + '].hash must be 16 hex characters')
+    }
+  })
+  if (errors.length > MAX_ERRORS) {
+    const extra = errors.length - MAX_ERRORS
+    errors.splice(MAX_ERRORS, extra, '…and ' + extra + ' more')
+  }
+  if (errors.length > 0) return { entries: null, errors }
+
+  const entries = (value.entries as CardHash[]).map(({ setCode, cn, hash }) => ({
+    key: cardHashKey({ setCode, cn }),
+    setCode,
+    cn,
+    hash,
+  }))
+  return { entries, errors }
+}
+
+/**
+ * Pick one of `candidates` by how close its indexed art hash is to `hash`.
+ * Returns null when the art isn't indexed, nothing is close enough, or the
+ * best two are too close to call.
+ */
+export function pickByHash(
+  hash: string,
+  index: Map<string, string>,
+  candidates: Card[],
+): { card: Card; distance: number } | null {
+  const scored = candidates
+    .map((card) => {
+      const known = index.get(cardHashKey(card))
+      return { card, distance: known ? hammingDistance(hash, known) : Infinity }
+    })
+    .sort((a, b) => a.distance - b.distance)
+
+  const best = scored[0]
+  const second = scored[1]
+  if (!best || best.distance > MAX_HASH_DISTANCE) return null
+  if (second && second.distance - best.distance < MIN_HASH_MARGIN) return null
+  return best
+}
@@ -1,9 +1,13 @@
 /**
  * Image descriptor utilities for card matching.
  *
- * Uses a 3D RGB color histogram — robust to position/angle changes and
- * much more effective than spatial hashing (dHash) for matching phone
- * photos of physical cards against clean digital reference images.
+ * Two descriptors:
+ *  - A 3D RGB color histogram — robust to position/angle changes, so it
+ *    works on a rough guide-frame crop.  But it only sees the palette, so
+ *    same-ink cards from one set look alike (see scripts/histogram-experiment.ts).
+ *  - A 64-bit perceptual (DCT) hash of the card art — sees the picture's
+ *    structure and tells those cards apart, but needs the card warped
+ *    upright first (card-detector.ts).  Compared by Hamming distance.
  */
 
 /** Number of bins per RGB channel.  4³ = 64 total bins. */
@@ -72,3 +76,123 @@ export function histogramDistance(a: number[], b: number[]): number {
   }
   return dist
 }
+
+// ── Perceptual hash ─────────────────────────────────────────────────────
+
+/** Side of the grayscale thumbnail the DCT runs on. */
+const PHASH_SAMPLE = 32
+
+/** Side of the low-frequency block kept from the DCT — 8×8 = 64 bits. */
+const PHASH_LOW = 8
+
+/**
+ * The art window of an upright card, as fractions of its width/height.
+ * Hashing only the art skips the frame, name banner and rules box, which
+ * look much the same on every card.
+ */
+export const ART_REGION = { left: 0.08, top: 0.06, width: 0.84, height: 0.42 }
+
+/** Area-average an RGBA region down to a size×size grayscale grid. */
+function downsampleGray(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  rx: number, ry: number, rw: number, rh: number,
+  size: number,
+): Float64Array {
+  const out = new Float64Array(size * size)
+  for (let gy = 0; gy < size; gy++) {
+    const y0 = ry + Math.floor((gy * rh) / size)
+    const y1 = Math.max(y0 + 1, ry + Math.floor(((gy + 1) * rh) / size))
+    for (let gx = 0; gx < size; gx++) {
+      const x0 = rx + Math.floor((gx * rw) / size)
+      const x1 = Math.max(x0 + 1, rx + Math.floor(((gx + 1) * rw) / size))
+      let sum = 0
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const off = (y * width + x) * 4
+          sum += 0.299 * data[off]! + 0.587 * data[off + 1]! + 0.114 * data[off + 2]!
+        }
+      }
+      out[gy * size + gx] = sum / ((y1 - y0) * (x1 - x0))
+    }
+  }
+  return out
+}
+
+/** Separable 2D DCT-II, keeping only the top-left keep×keep coefficients. */
+function lowFrequencyDct(input: Float64Array, size: number, keep: number): number[] {
+  const cos = new Float64Array(keep * size)
+  for (let u = 0; u < keep; u++) {
+    for (let x = 0; x < size; x++) cos[u * size + x] = Math.cos(((2 * x + 1) * u * Math.PI) / (2 * size))
+  }
+  // Rows first, then columns
+  const rows = new Float64Array(size * keep)
+  for (let y = 0; y < size; y++) {
+    for (let u = 0; u < keep; u++) {
+      let sum = 0
+      for (let x = 0; x < size; x++) sum += input[y * size + x]! * cos[u * size + x]!
+      rows[y * keep + u] = sum
+    }
+  }
+  const out: number[] = []
+  for (let v = 0; v < keep; v++) {
+    for (let u = 0; u < keep; u++) {
+      let sum = 0
+      for (let y = 0; y < size; y++) sum += rows[y * keep + u]! * cos[v * size + y]!
+      out.push(sum)
+    }
+  }
+  return out
+}
+
+/**
+ * 64-bit perceptual hash of the card art, as 16 hex characters.
+ *
+ * Takes raw RGBA pixels of an upright card (any resolution) so the same
+ * code runs in the browser and in the Node index builder.  Each bit says
+ * whether a low-frequency DCT coefficient is above the median, which
+ * survives blur, JPEG artefacts and exposure changes.
+ */
+export function perceptualHash(data: Uint8ClampedArray | Uint8Array, width: number, height: number): string {
+  const rx = Math.floor(ART_REGION.left * width)
+  const ry = Math.floor(ART_REGION.top * height)
+  const rw = Math.max(1, Math.floor(ART_REGION.width * width))
+  const rh = Math.max(1, Math.floor(ART_REGION.height * height))
+  const gray = downsampleGray(data, width, rx, ry, rw, rh, PHASH_SAMPLE)
+  const coeffs = lowFrequencyDct(gray, PHASH_SAMPLE, PHASH_LOW)
+
+  // The DC term is just overall brightness — leave it out of the median
+  const sorted = coeffs.slice(1).sort((a, b) => a - b)
+  const median = sorted[Math.floor(sorted.length / 2)]!
+
+  let hex = ''
+  for (let i = 0; i < coeffs.length; i += 4) {
+    let nibble = 0
+    for (let b = 0; b < 4; b++) nibble = (nibble << 1) | (coeffs[i + b]! > median ? 1 : 0)
+    hex += nibble.toString(16)
+  }
+  return hex
+}
+
+/** Perceptual hash of an upright card drawn on a canvas. */
+export function perceptualHashOfCanvas(canvas: HTMLCanvasElement): string | null {
+  const ctx = canvas.getContext('2d')
+  if (!ctx || canvas.width === 0 || canvas.height === 0) return null
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  return perceptualHash(data, canvas.width, canvas.height)
+}
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4]
+
+/** Number of differing bits between two hex hashes (Infinity if not comparable). */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity
+  let dist = 0
+  for (let i = 0; i < a.length; i++) {
+    const x = parseInt(a[i]!, 16)
+    const y = parseInt(b[i]!, 16)
+    if (Number.isNaN(x) || Number.isNaN(y)) return Infinity
+    dist += NIBBLE_BITS[x ^ y]!
+  }
+  return dist
+}
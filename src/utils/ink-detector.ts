@@ -48,19 +48,27 @@ export function detectInkColor(canvas: HTMLCanvasElement): InkDetectionResult {
   const ctx = canvas.getContext('2d')
   if (!ctx) return empty()
 
-  const w = canvas.width
-  const h = canvas.height
-
-  // Sample the centre 50% to avoid edge noise
-  const sx = Math.floor(w * 0.25)
-  const sy = Math.floor(h * 0.25)
-  const sw = Math.floor(w * 0.5)
-  const sh = Math.floor(h * 0.5)
-  if (sw <= 0 || sh <= 0) return empty()
+  const region = inkSampleRegion(canvas.width, canvas.height)
+  if (!region) return empty()
+  return detectInkColorOfPixels(ctx.getImageData(region.x, region.y, region.w, region.h).data)
+}
 
-  const imageData = ctx.getImageData(sx, sy, sw, sh)
-  const pixels = imageData.data
+/**
+ * The part of an ink crop that is sampled — the centre 50%, to avoid edge
+ * noise. Null when the crop is too small to have one.
+ */
+export function inkSampleRegion(width: number, height: number): { x: number; y: number; w: number; h: number } | null {
+  const w = Math.floor(width * 0.5)
+  const h = Math.floor(height * 0.5)
+  if (w <= 0 || h <= 0) return null
+  return { x: Math.floor(width * 0.25), y: Math.floor(height * 0.25), w, h }
+}
 
+/**
+ * The same classification on raw RGBA pixels of the sampled region.
+ * Canvas-free so the frame pipeline worker can run it on OffscreenCanvas pixels.
+ */
+export function detectInkColorOfPixels(pixels: Uint8ClampedArray | Uint8Array): InkDetectionResult {
   // ── Per-pixel classification ─────────────────────────────────────────
   // For each valid pixel, find the closest known ink and tally votes.
   const votes: Record<string, number> = {}
@@ -0,0 +1,45 @@
+/**
+ * Picking a preprocessing strategy for each frame's collector number crop.
+ *
+ * OCR takes ~340ms, so there's no time to try every strategy on one frame.
+ * Instead frames rotate through them: each strategy is tried once, then the
+ * one with the best rate of parseable reads is used, with every
+ * EXPLORE_EVERY-th frame going to the least-tried one so a strategy that
+ * started badly (or suits the lighting that just changed) gets another go.
+ */
+
+import type { OcrStrategy } from './preprocess-ocr'
+
+export const OCR_STRATEGIES: OcrStrategy[] = ['otsu', 'sauvola', 'stretch', 'sharpen', 'deskew']
+
+/** One frame in this many explores instead of using the current best. */
+export const EXPLORE_EVERY = 4
+
+export interface StrategyRecord {
+  /** Frames read with the strategy */
+  tries: number
+  /** Of those, frames whose text parsed as a collector number */
+  reads: number
+}
+
+export type StrategyStats = Record<OcrStrategy, StrategyRecord>
+
+export function emptyStrategyStats(): StrategyStats {
+  return Object.fromEntries(OCR_STRATEGIES.map((s) => [s, { tries: 0, reads: 0 }])) as StrategyStats
+}
+
+/** Count one frame read with `strategy`, and whether it parsed. */
+export function recordStrategyRead(stats: StrategyStats, strategy: OcrStrategy, parsed: boolean): StrategyStats {
+  const record = stats[strategy]
+  return { ...stats, [strategy]: { tries: record.tries + 1, reads: record.reads + (parsed ? 1 : 0) } }
+}
+
+/** Read rate with one success and one failure assumed, so one lucky frame doesn't win outright. */
+const readRate = ({ tries, reads }: StrategyRecord) => (reads + 1) / (tries + 2)
+
+/** The strategy for frame number `frame` (counting from 0). */
+export function pickStrategy(stats: StrategyStats, frame: number): OcrStrategy {
+  const leastTried = OCR_STRATEGIES.reduce((a, b) => (stats[b].tries < stats[a].tries ? b : a))
+  if (stats[leastTried].tries === 0 || frame % EXPLORE_EVERY === EXPLORE_EVERY - 1) return leastTried
+  return OCR_STRATEGIES.reduce((a, b) => (readRate(stats[b]) > readRate(stats[a]) ? b : a))
+}
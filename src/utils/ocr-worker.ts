@@ -62,13 +62,20 @@ export interface OcrResult {
 }
 
 /**
- * Run OCR on a canvas element and return the recognised text with confidence.
- * The canvas should contain a cropped, preprocessed image of the card name area.
+ * What OCR runs on: a canvas, or an image the frame pipeline worker has
+ * already encoded — Tesseract reads a Blob without another encode on the
+ * main thread.
  */
-export function recognizeFromCanvas(canvas: HTMLCanvasElement): Promise<OcrResult> {
+export type OcrImage = HTMLCanvasElement | Blob
+
+/**
+ * Run OCR on an image and return the recognised text with confidence.
+ * The image should be a cropped, preprocessed image of the card name area.
+ */
+export function recognizeFromCanvas(image: OcrImage): Promise<OcrResult> {
   return withLock(async () => {
     const worker = await getWorker()
-    const { data } = await worker.recognize(canvas)
+    const { data } = await worker.recognize(image)
     return { text: data.text.trim(), confidence: data.confidence }
   })
 }
@@ -81,16 +88,16 @@ export function recognizeFromCanvas(canvas: HTMLCanvasElement): Promise<OcrResul
  * The collector number parser then extracts the "130/204" pattern from
  * the full OCR output using a strict regex + MIN_TOTAL validation.
  *
- * The caller is expected to preprocess the canvas (upscale + binarize)
- * before calling this — see preprocess-ocr.ts.
+ * The caller is expected to preprocess the image (upscale + binarize)
+ * before calling this — see preprocess-ocr.ts and frame-pipeline.ts.
  */
-export function recognizeCollectorNumber(canvas: HTMLCanvasElement): Promise<OcrResult> {
+export function recognizeCollectorNumber(image: OcrImage): Promise<OcrResult> {
   return withLock(async () => {
     const worker = await getWorker()
     // SINGLE_BLOCK is already the default mode — no mode switching needed.
     // No character whitelist — let Tesseract read all characters naturally.
     // The parser handles OCR substitutions (O→0, l→1, etc).
-    const { data } = await worker.recognize(canvas)
+    const { data } = await worker.recognize(image)
     return { text: data.text.trim(), confidence: data.confidence }
   })
 }
@@ -0,0 +1,189 @@
+import type { Pack } from '../types'
+import { PACK_SIZE } from '../constants'
+
+/** The pack new cards go into, if one is open. */
+export function openPack(packs: Pack[]): Pack | null {
+  const last = packs[packs.length - 1]
+  return last && last.closedAt === null ? last : null
+}
+
+function newPack(packs: Pack[], sessionId: number, now: number): Pack {
+  const last = packs[packs.length - 1]
+  return { sessionId, number: (last?.number ?? 0) + 1, openedAt: now, closedAt: null, cards: [] }
+}
+
+function replacePack(packs: Pack[], pack: Pack): Pack[] {
+  return packs.map((p) => (p.number === pack.number ? pack : p))
+}
+
+export interface AddResult {
+  packs: Pack[]
+  packNumber: number
+  /** True when this card filled the pack and closed it */
+  closed: boolean
+}
+
+/**
+ * Log one copy into the open pack, opening a new pack first if needed.
+ * A pack closes itself once it holds PACK_SIZE cards.
+ */
+export function addToPack(packs: Pack[], sessionId: number, key: string, now: number): AddResult {
+  let list = packs
+  let pack = openPack(packs)
+  if (!pack) {
+    pack = newPack(packs, sessionId, now)
+    list = [...packs, pack]
+  }
+  const cards = [...pack.cards, key]
+  const closed = cards.length >= PACK_SIZE
+  const updated = { ...pack, cards, closedAt: closed ? now : null }
+  return { packs: replacePack(list, updated), packNumber: updated.number, closed }
+}
+
+/**
+ * Remove one copy of `key` — from the given pack if it holds one, otherwise
+ * from the latest pack that does. Packs are kept even when emptied.
+ */
+export function removeFromPack(packs: Pack[], key: string, packNumber?: number): Pack[] {
+  const holding = packs.filter((p) => p.cards.includes(key))
+  const target = holding.find((p) => p.number === packNumber) ?? holding[holding.length - 1]
+  if (!target) return packs
+  const idx = target.cards.lastIndexOf(key)
+  return replacePack(packs, { ...target, cards: target.cards.filter((_, i) => i !== idx) })
+}
+
+/** Remove every copy of `key` from every pack. */
+export function removeAllFromPacks(packs: Pack[], key: string): Pack[] {
+  return packs.map((p) => (p.cards.includes(key) ? { ...p, cards: p.cards.filter((k) => k !== key) } : p))
+}
+
+/** Mark a pack open again (used when undoing the add that closed it). */
+export function reopenPack(packs: Pack[], packNumber: number): Pack[] {
+  const pack = packs.find((p) => p.number === packNumber)
+  if (!pack || pack !== packs[packs.length - 1]) return packs
+  return replacePack(packs, { ...pack, closedAt: null })
+}
+
+/**
+ * Close the open pack. An empty open pack is dropped instead, so closing
+ * twice doesn't leave blank packs behind.
+ */
+export function closePack(packs: Pack[], now: number): Pack[] {
+  const pack = openPack(packs)
+  if (!pack) return packs
+  if (pack.cards.length === 0) return packs.slice(0, -1)
+  return replacePack(packs, { ...pack, closedAt: now })
+}
+
+/** Close the open pack (if it has cards) and open a fresh one. */
+export function startNewPack(packs: Pack[], sessionId: number, now: number): Pack[] {
+  const current = openPack(packs)
+  if (current && current.cards.length === 0) return packs
+  const closed = closePack(packs, now)
+  return [...closed, newPack(closed, sessionId, now)]
+}
+
+/** Move one copy of `key` from one pack to another. */
+export function moveBetweenPacks(packs: Pack[], key: string, from: number, to: number): Pack[] {
+  const source = packs.find((p) => p.number === from)
+  const dest = packs.find((p) => p.number === to)
+  if (!source || !dest || from === to || !source.cards.includes(key)) return packs
+  const idx = source.cards.lastIndexOf(key)
+  return packs.map((p) => {
+    if (p.number === from) return { ...p, cards: p.cards.filter((_, i) => i !== idx) }
+    if (p.number === to) return { ...p, cards: [...p.cards, key] }
+    return p
+  })
+}
+
+/**
+ * Append imported copies. Copies tagged with a pack number from the file
+ * are grouped into new closed packs after the existing ones (keeping the
+ * file's pack grouping); untagged copies go through the normal add flow.
+ */
+export function importIntoPacks(
+  packs: Pack[],
+  sessionId: number,
+  items: { key: string; count: number; packNumber?: number }[],
+  now: number,
+): Pack[] {
+  const tagged: Record<number, string[]> = {}
+  const untagged: string[] = []
+  items.forEach((item) => {
+    const keys = Array<string>(item.count).fill(item.key)
+    if (item.packNumber === undefined) {
+      untagged.push(...keys)
+    } else {
+      if (!tagged[item.packNumber]) tagged[item.packNumber] = []
+      tagged[item.packNumber]!.push(...keys)
+    }
+  })
+
+  const numbers = Object.keys(tagged).map(Number).sort((a, b) => a - b)
+  let list = numbers.length > 0 ? closePack(packs, now) : packs
+  numbers.forEach((n) => {
+    list = [...list, { ...newPack(list, sessionId, now), closedAt: now, cards: tagged[n]! }]
+  })
+  untagged.forEach((key) => {
+    list = addToPack(list, sessionId, key, now).packs
+  })
+  return list
+}
+
+/** The first pack each pull key appears in. */
+export function firstPackByKey(packs: Pack[]): Record<string, number> {
+  const result: Record<string, number> = {}
+  packs.forEach((p) => {
+    p.cards.forEach((key) => {
+      if (result[key] === undefined) result[key] = p.number
+    })
+  })
+  return result
+}
+
+/**
+ * Rebuild packs for a session logged before packs were stored, from each
+ * pull's pack number. Every copy of a pull is placed in its pack; the last
+ * pack stays open if it isn't full.
+ */
+export function buildPacksFromPulls(
+  sessionId: number,
+  pulls: { key: string; count: number; packNumber: number }[],
+  openedAt: number,
+): Pack[] {
+  const byNumber: Record<number, string[]> = {}
+  pulls.forEach((p) => {
+    const n = Math.max(p.packNumber || 1, 1)
+    if (!byNumber[n]) byNumber[n] = []
+    byNumber[n]!.push(...Array<string>(p.count).fill(p.key))
+  })
+
+  const numbers = Object.keys(byNumber).map(Number).sort((a, b) => a - b)
+  const last = numbers[numbers.length - 1]
+  return numbers.map((n) => {
+    const cards = byNumber[n]!
+    const open = n === last && cards.length < PACK_SIZE
+    return { sessionId, number: n, openedAt, closedAt: open ? null : openedAt, cards }
+  })
+}
+
+/**
+ * Number of packs per set, counting each non-empty pack once under the set
+ * most of its cards belong to.
+ */
+export function countPacksBySet(
+  packs: Pack[],
+  setCodeOf: (key: string) => string | undefined,
+): Record<string, number> {
+  const result: Record<string, number> = {}
+  packs.forEach((p) => {
+    const counts: Record<string, number> = {}
+    p.cards.forEach((key) => {
+      const set = setCodeOf(key)
+      if (set !== undefined) counts[set] = (counts[set] ?? 0) + 1
+    })
+    const top = Object.keys(counts).sort((a, b) => counts[b]! - counts[a]!)[0]
+    if (top !== undefined) result[top] = (result[top] ?? 0) + 1
+  })
+  return result
+}
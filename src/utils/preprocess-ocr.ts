@@ -7,11 +7,39 @@
  * texture patterns.
  *
  * This module converts to grayscale, auto-inverts if the background is dark
- * (light text on dark card border), and binarizes using Otsu's method.
- * The caller handles upscaling via drawImage before calling this function.
- * The result is clean black text on white background — well within Tesseract's
- * comfort zone.
+ * (light text on dark card border), and binarizes.  The caller handles
+ * upscaling via drawImage before calling this function.  The result is clean
+ * black text on white background — well within Tesseract's comfort zone.
+ *
+ * A single global Otsu threshold turns glossy footers under uneven light
+ * half black, so there are several strategies (see OcrStrategy); the scanner
+ * picks one per frame and learns which ones give parseable reads
+ * (ocr-strategy.ts).
+ */
+
+/**
+ * How the crop is binarized:
+ * - `otsu` — one global Otsu threshold
+ * - `sauvola` — a local threshold from each pixel's neighbourhood mean and
+ *   spread, for uneven lighting and glare
+ * - `stretch` — stretch the contrast to the full range first, then Otsu
+ * - `sharpen` — sharpen the text edges first, then Otsu
+ * - `deskew` — Otsu, then shear the text line level
  */
+export type OcrStrategy = 'otsu' | 'sauvola' | 'stretch' | 'sharpen' | 'deskew'
+
+/** Sauvola sensitivity — how far below the local mean text has to be. */
+const SAUVOLA_K = 0.2
+
+/** Sauvola's dynamic range of the standard deviation (for 8-bit grey). */
+const SAUVOLA_R = 128
+
+/** Share of pixels clipped at each end when stretching the contrast. */
+const STRETCH_CLIP = 0.02
+
+/** Largest skew the deskew pass looks for (degrees), and its step. */
+const MAX_SKEW_DEG = 6
+const SKEW_STEP_DEG = 0.5
 
 /** Metadata returned from preprocessing for diagnostics. */
 export interface PreprocessInfo {
@@ -21,25 +49,42 @@ export interface PreprocessInfo {
   threshold: number
   /** Average brightness before inversion (0-255). */
   avgBrightness: number
+  /** Which binarization ran. */
+  strategy: OcrStrategy
+  /** Deskew only: how far the text line was turned (degrees). */
+  skewDeg?: number
 }
 
 /**
- * Preprocess a canvas in-place for OCR: grayscale → auto-invert → Otsu binarize.
+ * Preprocess a canvas in-place for OCR: grayscale → auto-invert → binarize.
  *
  * The canvas should already be drawn at the desired scale (caller handles
  * upscaling via drawImage).  This function modifies pixels in-place.
  */
-export function preprocessForOcr(canvas: HTMLCanvasElement): PreprocessInfo {
+export function preprocessForOcr(canvas: HTMLCanvasElement, strategy: OcrStrategy = 'otsu'): PreprocessInfo {
   const ctx = canvas.getContext('2d')
-  if (!ctx) return { inverted: false, threshold: 128, avgBrightness: 128 }
+  if (!ctx) return { inverted: false, threshold: 128, avgBrightness: 128, strategy }
+
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
+  const info = preprocessPixels(imageData.data, canvas.width, canvas.height, strategy)
+  ctx.putImageData(imageData, 0, 0)
+  return info
+}
 
-  const { width, height } = canvas
-  const imageData = ctx.getImageData(0, 0, width, height)
-  const data = imageData.data
+/**
+ * The same pipeline on raw RGBA pixels, modified in-place. Canvas-free so the
+ * offline replay harness (scripts/scanner-replay.ts) can run it under Node.
+ */
+export function preprocessPixels(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  strategy: OcrStrategy = 'otsu',
+): PreprocessInfo {
   const pixelCount = width * height
 
   // ── 1. Convert to grayscale ──────────────────────────────────────────
-  const gray = new Uint8Array(pixelCount)
+  let gray = new Uint8Array(pixelCount)
   let totalBrightness = 0
   for (let i = 0; i < pixelCount; i++) {
     const off = i * 4
@@ -63,12 +108,30 @@ export function preprocessForOcr(canvas: HTMLCanvasElement): PreprocessInfo {
     }
   }
 
-  // ── 3. Otsu's binarization threshold ─────────────────────────────────
-  const threshold = otsuThreshold(gray)
+  // ── 3. Enhance, if the strategy calls for it ─────────────────────────
+  if (strategy === 'stretch') stretchContrast(gray)
+  if (strategy === 'sharpen') gray = sharpen(gray, width, height)
+
+  // ── 4. Binarize ──────────────────────────────────────────────────────
+  let binary: Uint8Array
+  let threshold: number
+  if (strategy === 'sauvola') {
+    ;({ binary, threshold } = sauvola(gray, width, height))
+  } else {
+    threshold = otsuThreshold(gray)
+    binary = new Uint8Array(pixelCount)
+    for (let i = 0; i < pixelCount; i++) binary[i] = (gray[i] ?? 0) > threshold ? 255 : 0
+  }
+
+  // ── 5. Level the text line ───────────────────────────────────────────
+  let skewDeg: number | undefined
+  if (strategy === 'deskew') {
+    skewDeg = estimateSkew(binary, width, height)
+    if (skewDeg !== 0) binary = shear(binary, width, height, skewDeg)
+  }
 
-  // ── 4. Apply binary threshold ────────────────────────────────────────
   for (let i = 0; i < pixelCount; i++) {
-    const bw = (gray[i] ?? 0) > threshold ? 255 : 0
+    const bw = binary[i] ?? 255
     const off = i * 4
     data[off] = bw
     data[off + 1] = bw
@@ -76,9 +139,134 @@ export function preprocessForOcr(canvas: HTMLCanvasElement): PreprocessInfo {
     data[off + 3] = 255
   }
 
-  ctx.putImageData(imageData, 0, 0)
+  return {
+    inverted,
+    threshold,
+    avgBrightness: Math.round(avgBrightness),
+    strategy,
+    ...(skewDeg !== undefined ? { skewDeg } : {}),
+  }
+}
 
-  return { inverted, threshold, avgBrightness: Math.round(avgBrightness) }
+/** Map the 2nd-98th percentile grey range onto 0-255, in place. */
+function stretchContrast(gray: Uint8Array): void {
+  const hist = new Uint32Array(256)
+  for (const val of gray) hist[val] = (hist[val] ?? 0) + 1
+  const clip = Math.floor(gray.length * STRETCH_CLIP)
+  let lo = 0
+  for (let seen = 0; lo < 255 && seen + (hist[lo] ?? 0) <= clip; lo++) seen += hist[lo] ?? 0
+  let hi = 255
+  for (let seen = 0; hi > 0 && seen + (hist[hi] ?? 0) <= clip; hi--) seen += hist[hi] ?? 0
+  if (hi <= lo) return
+  const scale = 255 / (hi - lo)
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.max(0, Math.min(255, Math.round(((gray[i] ?? 0) - lo) * scale)))
+  }
+}
+
+/** 3×3 sharpen (centre ×5 minus the four neighbours) — crisper stroke edges. */
+function sharpen(gray: Uint8Array, width: number, height: number): Uint8Array {
+  const out = new Uint8Array(gray)
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const v = 5 * gray[i]! - gray[i - 1]! - gray[i + 1]! - gray[i - width]! - gray[i + width]!
+      out[i] = v < 0 ? 0 : v > 255 ? 255 : v
+    }
+  }
+  return out
+}
+
+/**
+ * Sauvola's local threshold: T = mean × (1 + k × (std / R − 1)) over a
+ * window around each pixel. Flat background sits above its own threshold;
+ * text is darker than its surroundings wherever the light falls. Window sums
+ * come from integral images, so the cost doesn't grow with the window.
+ */
+function sauvola(gray: Uint8Array, width: number, height: number): { binary: Uint8Array; threshold: number } {
+  // About twice the text height on the upscaled crop
+  const half = Math.max(7, Math.round(height / 8))
+  const stride = width + 1
+  const sum = new Float64Array(stride * (height + 1))
+  const sumSq = new Float64Array(stride * (height + 1))
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0
+    let rowSq = 0
+    for (let x = 0; x < width; x++) {
+      const v = gray[y * width + x]!
+      rowSum += v
+      rowSq += v * v
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1]! + rowSum
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1]! + rowSq
+    }
+  }
+
+  const binary = new Uint8Array(width * height)
+  let thresholdSum = 0
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half)
+    const y1 = Math.min(height, y + half + 1)
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half)
+      const x1 = Math.min(width, x + half + 1)
+      const n = (x1 - x0) * (y1 - y0)
+      const a = y0 * stride + x0
+      const b = y0 * stride + x1
+      const c = y1 * stride + x0
+      const d = y1 * stride + x1
+      const mean = (sum[d]! - sum[b]! - sum[c]! + sum[a]!) / n
+      const variance = (sumSq[d]! - sumSq[b]! - sumSq[c]! + sumSq[a]!) / n - mean * mean
+      const t = mean * (1 + SAUVOLA_K * (Math.sqrt(Math.max(0, variance)) / SAUVOLA_R - 1))
+      thresholdSum += t
+      binary[y * width + x] = gray[y * width + x]! > t ? 255 : 0
+    }
+  }
+  return { binary, threshold: Math.round(thresholdSum / Math.max(1, width * height)) }
+}
+
+/**
+ * Skew of the text line (degrees, positive when it runs downhill to the
+ * right): the angle whose row projection of the black pixels is sharpest.
+ */
+function estimateSkew(binary: Uint8Array, width: number, height: number): number {
+  const cx = width / 2
+  let bestAngle = 0
+  let bestScore = -1
+  for (let deg = -MAX_SKEW_DEG; deg <= MAX_SKEW_DEG; deg += SKEW_STEP_DEG) {
+    const slope = Math.tan((deg * Math.PI) / 180)
+    const rows = new Float64Array(height)
+    // Every other pixel is plenty for a projection
+    for (let y = 0; y < height; y += 2) {
+      for (let x = 0; x < width; x += 2) {
+        if (binary[y * width + x] !== 0) continue
+        const row = Math.round(y - (x - cx) * slope)
+        if (row >= 0 && row < height) rows[row]!++
+      }
+    }
+    let score = 0
+    for (const count of rows) score += count * count
+    // Ties go to the smaller correction
+    if (score > bestScore || (score === bestScore && Math.abs(deg) < Math.abs(bestAngle))) {
+      bestScore = score
+      bestAngle = deg
+    }
+  }
+  return bestAngle
+}
+
+/** Shear each column up or down so a line at `deg` becomes level. */
+function shear(binary: Uint8Array, width: number, height: number, deg: number): Uint8Array {
+  const slope = Math.tan((deg * Math.PI) / 180)
+  const cx = width / 2
+  const out = new Uint8Array(width * height).fill(255)
+  for (let x = 0; x < width; x++) {
+    const shift = Math.round((x - cx) * slope)
+    for (let y = 0; y < height; y++) {
+      const from = y + shift
+      if (from >= 0 && from < height) out[y * width + x] = binary[from * width + x]!
+    }
+  }
+  return out
 }
 
 /**
@@ -0,0 +1,228 @@
+import type { ExportHistoryEntry, HistoryPull, Pack, Pull, Session } from '../types'
+import { PACK_SIZE, RARITY_ORDER } from '../constants'
+import { toCardSnapshot } from './collection'
+import { isFoilVariant } from './variants'
+import { countPacksBySet } from './packs'
+
+/** One batch of recorded packs — an export, or a stored session. */
+export interface StatsSample {
+  timestamp: number
+  packsBySet: Record<string, number>
+  pulls: HistoryPull[]
+}
+
+export interface StatsFilter {
+  /** Set code, or 'all' */
+  setCode: string
+  /** Inclusive epoch-ms bounds; null leaves that side open */
+  from: number | null
+  to: number | null
+}
+
+/** A rate or share with its 95% confidence interval. */
+export interface Estimate {
+  count: number
+  /** Packs for per-pack rates, cards for shares */
+  total: number
+  value: number
+  low: number
+  high: number
+}
+
+export interface SetLegendaryRate {
+  setCode: string
+  setName: string
+  estimate: Estimate
+}
+
+export interface ShareRow {
+  label: string
+  estimate: Estimate
+}
+
+export interface PullStats {
+  packs: number
+  cards: number
+  samples: number
+  enchantedPerPack: Estimate
+  legendaryBySet: SetLegendaryRate[]
+  foilRarity: ShareRow[]
+  ink: ShareRow[]
+}
+
+const Z_95 = 1.96
+
+/** Wilson score interval for a proportion of k successes out of n. */
+export function wilsonInterval(k: number, n: number, z = Z_95): Estimate {
+  if (n === 0) return { count: k, total: n, value: 0, low: 0, high: 0 }
+  const p = k / n
+  const denom = 1 + (z * z) / n
+  const centre = (p + (z * z) / (2 * n)) / denom
+  const margin = (z * Math.sqrt((p * (1 - p)) / n + (z * z) / (4 * n * n))) / denom
+  return {
+    count: k,
+    total: n,
+    value: p,
+    low: Math.max(0, centre - margin),
+    high: Math.min(1, centre + margin),
+  }
+}
+
+/**
+ * Interval for a Poisson rate of k events over n packs, using Byar's
+ * approximation (close to exact even for small counts).
+ */
+export function poissonRateInterval(k: number, n: number, z = Z_95): Estimate {
+  if (n === 0) return { count: k, total: n, value: 0, low: 0, high: 0 }
+  const low = k === 0 ? 0 : k * Math.pow(1 - 1 / (9 * k) - z / (3 * Math.sqrt(k)), 3)
+  const k1 = k + 1
+  const high = k1 * Math.pow(1 - 1 / (9 * k1) + z / (3 * Math.sqrt(k1)), 3)
+  return { count: k, total: n, value: k / n, low: Math.max(0, low) / n, high: high / n }
+}
+
+/**
+ * Stats sample for a past export. Exports from before packs were stored
+ * estimate their pack count from the number of cards per set.
+ */
+export function sampleFromHistory(entry: ExportHistoryEntry): StatsSample {
+  let packsBySet = entry.packsBySet
+  if (!packsBySet) {
+    const cards: Record<string, number> = {}
+    entry.pulls.forEach((p) => {
+      cards[p.card.setCode] = (cards[p.card.setCode] ?? 0) + p.count
+    })
+    packsBySet = {}
+    Object.entries(cards).forEach(([set, n]) => {
+      packsBySet![set] = Math.ceil(n / PACK_SIZE)
+    })
+  }
+  return { timestamp: entry.timestamp, packsBySet, pulls: entry.pulls }
+}
+
+/** Stats sample for a session's logged pulls and packs. */
+export function sampleFromSession(pulls: Pull[], packs: Pack[], timestamp: number): StatsSample {
+  const setOf: Record<string, string> = {}
+  pulls.forEach((p) => {
+    setOf[p.key] = p.card.setCode
+  })
+  return {
+    timestamp,
+    packsBySet: countPacksBySet(packs, (key) => setOf[key]),
+    pulls: pulls.map((p) => ({
+      key: p.key,
+      variant: p.variant,
+      ...(p.details ? { details: p.details } : {}),
+      ...(p.conditions ? { conditions: p.conditions } : {}),
+      count: p.count,
+      card: toCardSnapshot(p.card),
+    })),
+  }
+}
+
+/**
+ * One sample per stored session that still has pulls, plus the exports of
+ * everything else. Sessions are no longer cleared on export, so an export
+ * of a session that still holds its pulls would count them twice; for a
+ * session that has since been cleared or deleted only its latest export
+ * counts, since each export covers everything logged before it.
+ */
+export function samplesFromData(data: {
+  sessions: Session[]
+  pulls: (Pull & { sessionId: number })[]
+  packs: Pack[]
+  exports: ExportHistoryEntry[]
+}): StatsSample[] {
+  const samples: StatsSample[] = []
+  const live = new Set<number>()
+  data.sessions.forEach((session) => {
+    const pulls = data.pulls.filter((p) => p.sessionId === session.id)
+    if (pulls.length === 0) return
+    live.add(session.id)
+    const packs = data.packs.filter((p) => p.sessionId === session.id)
+    samples.push(sampleFromSession(pulls, packs, session.startedAt ?? session.id))
+  })
+
+  const latestBySession: Record<number, ExportHistoryEntry> = {}
+  data.exports.forEach((entry) => {
+    if (entry.sessionId === undefined) {
+      samples.push(sampleFromHistory(entry))
+    } else if (!live.has(entry.sessionId)) {
+      const latest = latestBySession[entry.sessionId]
+      if (!latest || entry.timestamp > latest.timestamp) latestBySession[entry.sessionId] = entry
+    }
+  })
+  Object.values(latestBySession).forEach((entry) => samples.push(sampleFromHistory(entry)))
+  return samples.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+function shares(
+  counts: Record<string, number>,
+  total: number,
+  order: (a: string, b: string) => number,
+): ShareRow[] {
+  return Object.keys(counts)
+    .sort(order)
+    .map((label) => ({ label, estimate: wilsonInterval(counts[label]!, total) }))
+}
+
+/** Aggregate pull rates across samples that pass the filter. */
+export function computePullStats(samples: StatsSample[], filter: StatsFilter): PullStats {
+  const included = samples.filter(
+    (s) =>
+      (filter.from === null || s.timestamp >= filter.from) &&
+      (filter.to === null || s.timestamp <= filter.to),
+  )
+  const inSet = (setCode: string) => filter.setCode === 'all' || setCode === filter.setCode
+
+  const packsBySet: Record<string, number> = {}
+  const setNames: Record<string, string> = {}
+  const legendaries: Record<string, number> = {}
+  const foilRarity: Record<string, number> = {}
+  const inks: Record<string, number> = {}
+  let cards = 0
+  let foils = 0
+  let enchanted = 0
+
+  included.forEach((s) => {
+    Object.entries(s.packsBySet).forEach(([set, n]) => {
+      if (inSet(set)) packsBySet[set] = (packsBySet[set] ?? 0) + n
+    })
+    s.pulls.forEach((p) => {
+      const { setCode, rarity, ink } = p.card
+      if (!inSet(setCode)) return
+      setNames[setCode] = p.card.setName
+      cards += p.count
+      if (rarity === 'Enchanted') enchanted += p.count
+      if (rarity === 'Legendary') legendaries[setCode] = (legendaries[setCode] ?? 0) + p.count
+      if (isFoilVariant(p.variant)) {
+        foils += p.count
+        const r = rarity === 'Super_rare' ? 'Super Rare' : rarity
+        foilRarity[r] = (foilRarity[r] ?? 0) + p.count
+      }
+      if (ink) inks[ink] = (inks[ink] ?? 0) + p.count
+    })
+  })
+
+  const packs = Object.values(packsBySet).reduce((s, n) => s + n, 0)
+  const rarityRank = (r: string) => {
+    const i = RARITY_ORDER.indexOf(r)
+    return i === -1 ? RARITY_ORDER.length : i
+  }
+
+  return {
+    packs,
+    cards,
+    samples: included.length,
+    enchantedPerPack: poissonRateInterval(enchanted, packs),
+    legendaryBySet: Object.keys(packsBySet)
+      .filter((set) => packsBySet[set]! > 0)
+      .sort((a, b) => (parseInt(a) || 999) - (parseInt(b) || 999) || a.localeCompare(b))
+      .map((set) => ({
+        setCode: set,
+        setName: setNames[set] ?? set,
+        estimate: poissonRateInterval(legendaries[set] ?? 0, packsBySet[set]!),
+      })),
+    foilRarity: shares(foilRarity, foils, (a, b) => rarityRank(a) - rarityRank(b)),
+    ink: shares(inks, cards, (a, b) => inks[b]! - inks[a]! || a.localeCompare(b)),
+  }
+}
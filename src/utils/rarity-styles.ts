@@ -1,13 +1,15 @@
 import type { CSSProperties } from 'react'
 import { INK_COLOURS } from '../constants'
+import type { CardVariant } from '../types'
 import { hexToRgba, inkGradientStyle } from './colour'
+import { isFoilVariant } from './variants'
 
 export function rarityRowStyle(
   card: { ink: string; rarity: string },
-  variant: string,
+  variant: CardVariant,
 ): CSSProperties {
   const rarity = card.rarity
-  const isFoil = variant === 'foil'
+  const isFoil = isFoilVariant(variant)
   const inkCol = INK_COLOURS[card.ink] || '#666'
   const base: CSSProperties = {}
 
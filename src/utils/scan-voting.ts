@@ -0,0 +1,121 @@
+/**
+ * Temporal consensus for the scanner.
+ *
+ * A single OCR read is easy to get wrong — "130/204" vs "180/204" differ by
+ * one glyph — so instead of accepting the first frame that parses, every
+ * frame casts a vote into a sliding window and a reading is only accepted
+ * once enough recent frames agree on it.
+ */
+
+import type { CardLanguage } from '../types'
+
+/** One frame's parsed reading. */
+export interface ScanVote {
+  cn: string
+  total: string | null
+  setNumber: string | null
+  /** Detected ink(s) joined with "/", or null when below confidence */
+  ink: string | null
+  /** Language code read from the footer, or null */
+  language: CardLanguage | null
+  /** OCR confidence (0-100) */
+  confidence: number
+}
+
+/** Votes for one collector number within the window. */
+export interface VoteCandidate {
+  /** "cn/total" — the identity frames vote on */
+  key: string
+  cn: string
+  total: string | null
+  /** Most common set number among the votes that read one */
+  setNumber: string | null
+  /** Most common ink among the votes that detected one */
+  ink: string | null
+  /** Most common language among the votes that read one */
+  language: CardLanguage | null
+  count: number
+  confidenceSum: number
+}
+
+export interface VoteTally {
+  /** Frames in the window, including ones that didn't parse */
+  frames: number
+  /** Candidates, most votes first */
+  candidates: VoteCandidate[]
+  /** The candidate that reached consensus, if any */
+  accepted: VoteCandidate | null
+}
+
+/** Frames the window remembers. At 500ms per frame this is the last 3s. */
+export const VOTE_WINDOW = 6
+
+/** Agreeing frames needed to accept a reading. */
+export const MIN_AGREEING = 3
+
+/**
+ * Two frames are enough when both are read with high confidence — the sum
+ * of their OCR confidences must reach this.
+ */
+export const STRONG_CONFIDENCE_SUM = 180
+
+/** How far the leader must be ahead of the runner-up, in votes. */
+export const MIN_MARGIN = 2
+
+/**
+ * Push a frame into the window, dropping the oldest once it is full.
+ * Frames that didn't parse go in as null so stale reads still age out.
+ */
+export function addVote(window: (ScanVote | null)[], vote: ScanVote | null, size = VOTE_WINDOW): (ScanVote | null)[] {
+  const next = [...window, vote]
+  return next.length > size ? next.slice(next.length - size) : next
+}
+
+function majority<T extends string>(values: (T | null)[]): T | null {
+  const counts: Record<string, number> = {}
+  let best: T | null = null
+  values.forEach((v) => {
+    if (v === null) return
+    counts[v] = (counts[v] ?? 0) + 1
+    // Ties go to the most recent read
+    if (best === null || counts[v]! >= counts[best]!) best = v
+  })
+  return best
+}
+
+/** Count the votes in the window and decide whether one reading has won. */
+export function tallyVotes(window: (ScanVote | null)[]): VoteTally {
+  const groups: Record<string, ScanVote[]> = {}
+  window.forEach((vote) => {
+    if (!vote) return
+    const key = vote.cn + '/' + (vote.total ?? '?')
+    if (!groups[key]) groups[key] = []
+    groups[key]!.push(vote)
+  })
+
+  const candidates: VoteCandidate[] = Object.entries(groups)
+    .map(([key, votes]) => ({
+      key,
+      cn: votes[0]!.cn,
+      total: votes[0]!.total,
+      setNumber: majority(votes.map((v) => v.setNumber)),
+      ink: majority(votes.map((v) => v.ink)),
+      language: majority(votes.map((v) => v.language)),
+      count: votes.length,
+      confidenceSum: votes.reduce((s, v) => s + v.confidence, 0),
+    }))
+    .sort((a, b) => b.count - a.count || b.confidenceSum - a.confidenceSum)
+
+  const leader = candidates[0]
+  const runnerUp = candidates[1]
+  const enoughVotes =
+    !!leader &&
+    (leader.count >= MIN_AGREEING || (leader.count >= 2 && leader.confidenceSum >= STRONG_CONFIDENCE_SUM))
+  const clearLead = !!leader && leader.count - (runnerUp?.count ?? 0) >= MIN_MARGIN
+
+  return {
+    frames: window.length,
+    candidates,
+    accepted: enoughVotes && clearLead ? leader! : null,
+  }
+}
@@ -0,0 +1,261 @@
+import type { Card } from '../types'
+import { INK_COLOURS, RARITY_ORDER } from '../constants'
+
+/** Fields matched against a card's text, e.g. `ink:amethyst`. */
+export type TextField = 'name' | 'ink' | 'rarity' | 'type' | 'set'
+
+/** Fields compared as numbers, e.g. `cost>=5` or `cn:100-120`. */
+export type NumberField = 'cost' | 'cn'
+
+/**
+ * A parsed search query. Terms side by side must all match (`and`); `OR`
+ * between them needs either. Values are lower case.
+ */
+export type QueryNode =
+  | { kind: 'and'; nodes: QueryNode[] }
+  | { kind: 'or'; nodes: QueryNode[] }
+  | { kind: 'not'; node: QueryNode }
+  /** Plain search text: a word, "#12", or a quoted phrase */
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; field: TextField; value: string }
+  /** Inclusive range; an open end is ±Infinity */
+  | { kind: 'range'; field: NumberField; min: number; max: number }
+
+export type FilterNode = Extract<QueryNode, { kind: 'field' | 'range' }>
+
+export interface QueryParseResult {
+  /** Null for an empty query or when it doesn't parse */
+  query: QueryNode | null
+  /** What's wrong with the query, worded for the search box */
+  error: string | null
+}
+
+const FIELDS: Record<string, TextField | NumberField> = {
+  name: 'name',
+  ink: 'ink',
+  colour: 'ink',
+  color: 'ink',
+  rarity: 'rarity',
+  type: 'type',
+  set: 'set',
+  cost: 'cost',
+  cn: 'cn',
+  number: 'cn',
+}
+
+const EXAMPLES: Record<TextField | NumberField, string> = {
+  name: 'name:ariel',
+  ink: 'ink:amethyst',
+  rarity: 'rarity:legendary',
+  type: 'type:song',
+  set: 'set:7',
+  cost: 'cost>=5',
+  cn: 'cn:100-120',
+}
+
+const INKS = Object.keys(INK_COLOURS).map((ink) => ink.toLowerCase())
+
+/** "super_rare", "Super Rare" and "superrare" all read as "superrare". */
+function rarityId(rarity: string): string {
+  return rarity.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+const RARITIES = RARITY_ORDER.map(rarityId)
+
+/** "a, b or c" */
+function orList(items: string[]): string {
+  return items.length > 1 ? items.slice(0, -1).join(', ') + ' or ' + items[items.length - 1] : (items[0] ?? '')
+}
+
+/** Thrown inside the parser and turned into `QueryParseResult.error`. */
+class QueryError extends Error {}
+
+type Token =
+  | { kind: 'open' | 'close' | 'not' | 'or' }
+  /** `quoted` when the word starts with a quote, so "OR" or "ink:x" in quotes stay text */
+  | { kind: 'word'; text: string; quoted: boolean }
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < input.length) {
+    const ch = input[i]!
+    if (/\s/.test(ch)) {
+      i++
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ kind: ch === '(' ? 'open' : 'close' })
+      i++
+    } else if (ch === '-' && !/\s/.test(input[i + 1] ?? '')) {
+      // A leading "-" negates whatever follows: -ariel, -ink:amber, -(...)
+      tokens.push({ kind: 'not' })
+      i++
+    } else {
+      let text = ''
+      const quoted = ch === '"'
+      while (i < input.length && !/[\s()]/.test(input[i]!)) {
+        if (input[i] === '"') {
+          const end = input.indexOf('"', i + 1)
+          if (end === -1) throw new QueryError('Missing closing quote')
+          text += input.slice(i + 1, end)
+          i = end + 1
+        } else {
+          text += input[i]
+          i++
+        }
+      }
+      if (!quoted && text === 'OR') tokens.push({ kind: 'or' })
+      else if (!quoted && text === 'NOT') tokens.push({ kind: 'not' })
+      else tokens.push({ kind: 'word', text, quoted })
+    }
+  }
+  return tokens
+}
+
+function parseNumber(text: string, label: string, field: NumberField): number {
+  if (!/^\d+$/.test(text)) throw new QueryError(`"${label}" needs a number, e.g. ${EXAMPLES[field]}`)
+  return Number(text)
+}
+
+function parseRange(field: NumberField, op: string, value: string, label: string): QueryNode {
+  if (op === ':' || op === '=') {
+    const range = value.match(/^(\d+)-(\d+)$/)
+    if (range) {
+      const min = Number(range[1])
+      const max = Number(range[2])
+      if (min > max) throw new QueryError(`${field}:${value} goes backwards — try ${field}:${max}-${min}`)
+      return { kind: 'range', field, min, max }
+    }
+    const n = parseNumber(value, label, field)
+    return { kind: 'range', field, min: n, max: n }
+  }
+  const n = parseNumber(value, label, field)
+  if (op === '>') return { kind: 'range', field, min: n + 1, max: Infinity }
+  if (op === '>=') return { kind: 'range', field, min: n, max: Infinity }
+  if (op === '<') return { kind: 'range', field, min: -Infinity, max: n - 1 }
+  return { kind: 'range', field, min: -Infinity, max: n }
+}
+
+function parseFilter(field: TextField | NumberField, op: string, value: string, label: string): QueryNode {
+  if (!value) throw new QueryError(`"${label}" needs a value, e.g. ${EXAMPLES[field]}`)
+  if (field === 'cost' || field === 'cn') return parseRange(field, op, value, label)
+
+  if (op !== ':' && op !== '=') {
+    throw new QueryError(`"${field}" can't be compared with "${op}" — use ${EXAMPLES[field]}`)
+  }
+  const v = value.toLowerCase()
+  if (field === 'ink' && !INKS.includes(v)) {
+    throw new QueryError(`Unknown ink "${value}" — try ${orList(INKS)}`)
+  }
+  if (field === 'rarity') {
+    if (!RARITIES.includes(rarityId(v))) {
+      throw new QueryError(`Unknown rarity "${value}" — try ${orList(RARITY_ORDER.map((r) => r.toLowerCase()))}`)
+    }
+    return { kind: 'field', field, value: rarityId(v) }
+  }
+  return { kind: 'field', field, value: v }
+}
+
+function parseWord(text: string, quoted: boolean): QueryNode {
+  const m = quoted ? null : text.match(/^([a-z]+)(>=|<=|:|=|>|<)(.*)$/i)
+  if (!m) return { kind: 'text', text: text.toLowerCase() }
+
+  const [, name, op, value] = m as unknown as [string, string, string, string]
+  const field = FIELDS[name.toLowerCase()]
+  if (!field) {
+    throw new QueryError(`Unknown filter "${name}${op}" — try ${orList(Object.values(EXAMPLES))}`)
+  }
+  return parseFilter(field, op, value, name + op)
+}
+
+/** Recursive descent over the tokens: OR binds loosest, then and, then - / NOT. */
+function parseTokens(tokens: Token[]): QueryNode {
+  let pos = 0
+  let depth = 0
+
+  const parseOr = (): QueryNode => {
+    const nodes = [parseAnd()]
+    while (tokens[pos]?.kind === 'or') {
+      pos++
+      nodes.push(parseAnd())
+    }
+    return nodes.length === 1 ? nodes[0]! : { kind: 'or', nodes }
+  }
+
+  const parseAnd = (): QueryNode => {
+    const nodes: QueryNode[] = []
+    while (pos < tokens.length && tokens[pos]!.kind !== 'or' && tokens[pos]!.kind !== 'close') {
+      nodes.push(parseUnary())
+    }
+    if (nodes.length === 0) {
+      const next = tokens[pos]
+      if (next?.kind === 'close') throw new QueryError(depth > 0 ? 'Nothing between "(" and ")"' : 'Unexpected ")"')
+      throw new QueryError('"OR" needs something on both sides')
+    }
+    return nodes.length === 1 ? nodes[0]! : { kind: 'and', nodes }
+  }
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[pos++]!
+    if (token.kind === 'not') {
+      const next = tokens[pos]
+      if (!next || next.kind === 'or' || next.kind === 'close') throw new QueryError('"-" needs something to leave out')
+      return { kind: 'not', node: parseUnary() }
+    }
+    if (token.kind === 'open') {
+      depth++
+      const node = parseOr()
+      if (tokens[pos]?.kind !== 'close') throw new QueryError('Missing ")"')
+      pos++
+      depth--
+      return node
+    }
+    if (token.kind === 'word') return parseWord(token.text, token.quoted)
+    // parseAnd stops at "OR" and ")", so neither gets here
+    throw new QueryError('Unexpected "' + token.kind + '"')
+  }
+
+  const node = parseOr()
+  if (pos < tokens.length) throw new QueryError('Unexpected ")"')
+  return node
+}
+
+/**
+ * Parse a search box query. Plain words search names as before; on top of
+ * that there are filters (`ink:amethyst`, `rarity:legendary`, `type:song`,
+ * `set:7`, `cost>=5`, `cn:100-120`), quoted phrases, `-` or `NOT` to leave
+ * matches out, `OR`, and brackets.
+ */
+export function parseSearchQuery(input: string): QueryParseResult {
+  if (!input.trim()) return { query: null, error: null }
+  try {
+    return { query: parseTokens(tokenize(input)), error: null }
+  } catch (err) {
+    if (err instanceof QueryError) return { query: null, error: err.message }
+    throw err
+  }
+}
+
+/** Whether a card passes a filter. Dual-ink cards ("Sapphire/Steel") pass for either ink. */
+export function matchesFilter(card: Card, filter: FilterNode): boolean {
+  if (filter.kind === 'range') {
+    const n = filter.field === 'cost' ? card.cost : parseInt(card.cn, 10)
+    return !isNaN(n) && n >= filter.min && n <= filter.max
+  }
+  const v = filter.value
+  switch (filter.field) {
+    case 'name':
+      return (
+        card.display.toLowerCase().includes(v) ||
+        Object.values(card.names ?? {}).some((n) => n.toLowerCase().includes(v))
+      )
+    case 'ink':
+      return card.ink.toLowerCase().split('/').includes(v)
+    case 'rarity':
+      return rarityId(card.rarity) === v
+    case 'type':
+      // Types are stored with classifications, e.g. "Action Song"
+      return card.type.some((t) => t.toLowerCase().split(/\s+/).includes(v))
+    case 'set':
+      return card.setCode.toLowerCase() === v || (!/^\d+$/.test(v) && card.setName.toLowerCase().includes(v))
+  }
+}
@@ -1,10 +1,22 @@
 import type { Card } from '../types'
+import { matchesFilter, parseSearchQuery } from './search-query'
+import type { QueryNode } from './search-query'
 
 export interface ScoredCard {
   card: Card
   score: number
 }
 
+/** Results shown for one search; the rest are counted in `more`. */
+export const MAX_RESULTS = 20
+
+export interface SearchResults {
+  /** Best first, at most MAX_RESULTS */
+  cards: Card[]
+  /** Matches left out past MAX_RESULTS */
+  more: number
+}
+
 /**
  * Compute the Levenshtein (edit) distance between two strings.
  * Returns the minimum number of single-character edits (insert, delete,
@@ -38,62 +50,123 @@ export function levenshtein(a: string, b: string): number {
   return prev[n]!
 }
 
+/** A card's searchable text, lower-cased once per search. */
+interface CardText {
+  cn: string
+  displays: string[]
+  combined: string
+}
+
+/**
+ * Score of one plain search term: #number, a bare collector number (when
+ * `bareNumber`), then substring matches, best when a name starts with it.
+ * Null when it doesn't match.
+ */
+function textScore(t: string, text: CardText, bareNumber: boolean): number | null {
+  // Support #number search
+  if (t.charAt(0) === '#' && t.length > 1 && text.cn === t.substring(1)) return 50
+  // v1.1.0: Bare number matches collector number exactly when set filter is active
+  if (bareNumber && text.cn === t) return 100
+  if (text.combined.indexOf(t) >= 0) {
+    if (text.displays.some((n) => n.indexOf(t) === 0)) return 10
+    if (text.displays.some((n) => n.indexOf(t) >= 0)) return 5
+    return 1
+  }
+  return null
+}
+
 /**
- * Multi-token fuzzy search with scoring.
- * Matches against card display name, set name, and collector number.
+ * Score of a card against a query, or null when it doesn't match. Terms
+ * that must all match add up; of an OR, the best matching side counts;
+ * filters and left-out terms only decide whether the card matches.
+ */
+function scoreNode(node: QueryNode, card: Card, text: CardText, bareNumber: boolean): number | null {
+  switch (node.kind) {
+    case 'and': {
+      let score = 0
+      for (const n of node.nodes) {
+        const s = scoreNode(n, card, text, bareNumber)
+        if (s === null) return null
+        score += s
+      }
+      return score
+    }
+    case 'or': {
+      let best: number | null = null
+      for (const n of node.nodes) {
+        const s = scoreNode(n, card, text, bareNumber)
+        if (s !== null && (best === null || s > best)) best = s
+      }
+      return best
+    }
+    case 'not':
+      return scoreNode(node.node, card, text, bareNumber) === null ? 0 : null
+    case 'text':
+      return textScore(node.text, text, bareNumber)
+    default:
+      return matchesFilter(card, node) ? 0 : null
+  }
+}
+
+/** The plain words of a query, as typed, for the name-prefix bonus. */
+function plainText(node: QueryNode): string {
+  if (node.kind === 'text') return node.text
+  if (node.kind !== 'and') return ''
+  return node.nodes.flatMap((n) => (n.kind === 'text' ? [n.text] : [])).join(' ')
+}
+
+/**
+ * Cards matching a parsed query, best first, at most MAX_RESULTS.
+ * Matches plain terms against card display name (English or any localised
+ * printing), set name, and collector number.
  * Supports #number search and bare number collector number matching.
  */
-export function searchCards(
-  query: string,
-  cards: Card[],
-  setFilter: string,
-): Card[] {
-  const q = query.toLowerCase().trim()
-  if (!q || cards.length === 0) return []
+export function findCards(query: QueryNode, cards: Card[], setFilter: string): SearchResults {
+  if (cards.length === 0) return { cards: [], more: 0 }
 
-  const tokens = q.split(/\s+/)
   const filtered =
     setFilter !== 'all'
       ? cards.filter((c) => c.setCode === setFilter)
       : cards
 
+  const q = plainText(query)
+  // v1.1.0: Check if query is a bare number with set filter active
+  const isBareNumber = setFilter !== 'all' && query.kind === 'text' && /^\d+$/.test(q)
+
   const scored: ScoredCard[] = []
 
   for (let i = 0; i < filtered.length; i++) {
     const card = filtered[i]!
     const d = card.display.toLowerCase()
+    const displays = card.names ? [d, ...Object.values(card.names).map((n) => n.toLowerCase())] : [d]
     const cn = card.cn.toLowerCase()
-    const combined = d + ' ' + card.setName.toLowerCase() + ' ' + cn
-    let allMatch = true
-    let score = 0
-
-    // v1.1.0: Check if query is a bare number with set filter active
-    const isBareNumber = setFilter !== 'all' && /^\d+$/.test(q)
-
-    for (let j = 0; j < tokens.length; j++) {
-      const t = tokens[j]!
-      // Support #number search
-      if (t.charAt(0) === '#' && t.length > 1 && cn === t.substring(1)) {
-        score += 50
-      } else if (isBareNumber && cn === q) {
-        // v1.1.0: Bare number matches collector number exactly when set filter is active
-        score += 100
-      } else if (combined.indexOf(t) >= 0) {
-        if (d.indexOf(t) === 0) score += 10
-        else if (d.indexOf(t) >= 0) score += 5
-        else score += 1
-      } else {
-        allMatch = false
-        break
-      }
-    }
+    const combined = displays.join(' ') + ' ' + card.setName.toLowerCase() + ' ' + cn
 
-    if (allMatch) {
-      if (d.indexOf(q) === 0) score += 20
+    let score = scoreNode(query, card, { cn, displays, combined }, isBareNumber)
+    if (score !== null) {
+      if (q && displays.some((n) => n.indexOf(q) === 0)) score += 20
       scored.push({ card, score })
     }
   }
 
+  // The card list is in set and number order and the sort is stable, so
+  // equal scores (every match of a filter-only query) stay in that order
   scored.sort((a, b) => b.score - a.score)
-  return scored.slice(0, 20).map((s) => s.card)
+  return {
+    cards: scored.slice(0, MAX_RESULTS).map((s) => s.card),
+    more: Math.max(0, scored.length - MAX_RESULTS),
+  }
+}
+
+/**
+ * Search cards with a query typed in the search box (see parseSearchQuery).
+ * A query that doesn't parse finds nothing.
+ */
+export function searchCards(
+  query: string,
+  cards: Card[],
+  setFilter: string,
+): Card[] {
+  const { query: parsed } = parseSearchQuery(query)
+  return parsed ? findCards(parsed, cards, setFilter).cards : []
 }
@@ -0,0 +1,144 @@
+import type { Card, CollectionEntry } from '../types'
+import { RARITY_ORDER } from '../constants'
+import { isFoilVariant } from './variants'
+
+/** Which copies count towards completion. */
+export type CompletionVariant = 'any' | 'normal' | 'foil'
+
+export interface SetCompletion {
+  setCode: string
+  setName: string
+  /** Every card in the set, in collector number order */
+  cards: Card[]
+  total: number
+  ownedNormal: number
+  ownedFoil: number
+  /** Cards owned in at least one variant */
+  ownedAny: number
+}
+
+export interface MissingGroup {
+  rarity: string
+  inks: { ink: string; cards: Card[] }[]
+}
+
+type Finishes = { normal: boolean; foil: boolean }
+
+/**
+ * Which finishes each card ("setCode-cn") is owned in. A copy in any
+ * language, variant or condition counts: foil-finish variants as foil, the
+ * rest as normal.
+ */
+function ownedFinishes(owned: Record<string, CollectionEntry>): Map<string, Finishes> {
+  const byCard = new Map<string, Finishes>()
+  Object.values(owned).forEach((e) => {
+    if (e.count <= 0) return
+    const ref = e.card.setCode + '-' + e.card.cn
+    const finishes = byCard.get(ref) ?? { normal: false, foil: false }
+    finishes[isFoilVariant(e.variant) ? 'foil' : 'normal'] = true
+    byCard.set(ref, finishes)
+  })
+  return byCard
+}
+
+function ownsFor(finishes: Map<string, Finishes>, card: Card, variant: CompletionVariant): boolean {
+  const f = finishes.get(card.setCode + '-' + card.cn)
+  if (!f) return false
+  return variant === 'any' ? f.normal || f.foil : f[variant]
+}
+
+/** Normalise the API's "Super_rare" spelling for grouping. */
+function normaliseRarity(rarity: string): string {
+  return rarity === 'Super_rare' ? 'Super Rare' : rarity
+}
+
+/**
+ * Per-set owned/total counts. Sets follow `setMap` order; sets present in
+ * the card database but missing from the map are appended.
+ */
+export function computeSetCompletion(
+  cards: Card[],
+  owned: Record<string, CollectionEntry>,
+  setMap: Record<string, string>,
+): SetCompletion[] {
+  const bySet: Record<string, Card[]> = {}
+  cards.forEach((c) => {
+    if (!bySet[c.setCode]) bySet[c.setCode] = []
+    bySet[c.setCode]!.push(c)
+  })
+
+  const codes = [
+    ...Object.keys(setMap).filter((code) => bySet[code]),
+    ...Object.keys(bySet).filter((code) => !(code in setMap)),
+  ]
+
+  const finishes = ownedFinishes(owned)
+  return codes.map((setCode) => {
+    const setCards = [...bySet[setCode]!].sort((a, b) => parseInt(a.cn) - parseInt(b.cn))
+    let ownedNormal = 0
+    let ownedFoil = 0
+    let ownedAny = 0
+    setCards.forEach((c) => {
+      const n = ownsFor(finishes, c, 'normal')
+      const f = ownsFor(finishes, c, 'foil')
+      if (n) ownedNormal++
+      if (f) ownedFoil++
+      if (n || f) ownedAny++
+    })
+    return {
+      setCode,
+      setName: setMap[setCode] || setCards[0]!.setName,
+      cards: setCards,
+      total: setCards.length,
+      ownedNormal,
+      ownedFoil,
+      ownedAny,
+    }
+  })
+}
+
+/** Fraction (0-1) of the set owned in the given variant. */
+export function completionRatio(set: SetCompletion, variant: CompletionVariant): number {
+  if (set.total === 0) return 0
+  const owned = variant === 'normal' ? set.ownedNormal : variant === 'foil' ? set.ownedFoil : set.ownedAny
+  return owned / set.total
+}
+
+/** Cards in the set not yet owned in the given variant. */
+export function missingCards(
+  set: SetCompletion,
+  owned: Record<string, CollectionEntry>,
+  variant: CompletionVariant,
+): Card[] {
+  const finishes = ownedFinishes(owned)
+  return set.cards.filter((c) => !ownsFor(finishes, c, variant))
+}
+
+/**
+ * Group cards by rarity (lowest first), then by ink (alphabetical).
+ * Cards keep their incoming order within each group.
+ */
+export function groupMissing(cards: Card[]): MissingGroup[] {
+  const groups: Record<string, Record<string, Card[]>> = {}
+  cards.forEach((c) => {
+    const rarity = normaliseRarity(c.rarity)
+    const ink = c.ink || 'Inkless'
+    if (!groups[rarity]) groups[rarity] = {}
+    if (!groups[rarity]![ink]) groups[rarity]![ink] = []
+    groups[rarity]![ink]!.push(c)
+  })
+
+  const rank = (r: string) => {
+    const i = RARITY_ORDER.indexOf(r)
+    return i === -1 ? RARITY_ORDER.length : i
+  }
+
+  return Object.keys(groups)
+    .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    .map((rarity) => ({
+      rarity,
+      inks: Object.keys(groups[rarity]!)
+        .sort()
+        .map((ink) => ({ ink, cards: groups[rarity]![ink]! })),
+    }))
+}
@@ -8,6 +8,11 @@
  * Also tracks mutex state and queue depth for the debug overlay.
  */
 
+import type { FramePipeline } from './frame-pipeline'
+import type { OcrStrategy } from './preprocess-ocr'
+import { emptyStrategyStats, recordStrategyRead } from './ocr-strategy'
+import type { StrategyStats } from './ocr-strategy'
+
 // ── Types ──────────────────────────────────────────────────────────────
 
 export interface FrameSnapshot {
@@ -31,11 +36,38 @@ export interface FrameSnapshot {
   detectedInk: string | null
   /** Final match result: card display name, 'disambiguating', or 'no match'. */
   matchResult: string
+  /** Foil shimmer score over recent frames (0-1), or null when it couldn't be measured. */
+  foilScore?: number | null
+  /** Main-thread time spent capturing and preparing the frame for OCR (ms). */
+  mainThreadMs?: number
+  /** Where the frame's image work ran — the worker, or the main-thread fallback. */
+  pipeline?: FramePipeline
+  /** How the collector number crop was preprocessed before OCR. */
+  ocrStrategy?: OcrStrategy
+}
+
+/** What the foil classifier guessed for a confirmed card, next to what the user chose. */
+export interface FoilDecision {
+  /** ISO timestamp of the confirmation. */
+  timestamp: string
+  /** Card display name. */
+  card: string
+  /** The classifier's guess, or null when it had too few frames. */
+  predicted: 'normal' | 'foil' | null
+  confidence: number
+  score: number | null
+  /** Frames the guess was based on. */
+  frames: number
+  chosen: 'normal' | 'foil'
+  /** Logged by rapid mode's countdown rather than picked by the user. */
+  auto: boolean
 }
 
 export interface TelemetryState {
   /** Ring buffer of recent frame snapshots (oldest first). */
   frames: FrameSnapshot[]
+  /** Recent foil guesses with the user's choice (oldest first). */
+  foilDecisions: FoilDecision[]
   /** Whether the OCR mutex is currently held. */
   mutexLocked: boolean
   /** Number of frames waiting for the mutex. */
@@ -48,18 +80,27 @@ export interface TelemetryState {
   peakLatencyMs: number
   /** Current memory usage estimate (bytes). */
   currentMemoryBytes: number
+  /** Average main-thread time per frame over the buffer window, by pipeline (ms). */
+  mainThreadMs: Partial<Record<FramePipeline, number>>
+  /** Frames read and parseable collector numbers per preprocessing strategy, since the last reset. */
+  ocrStrategies: StrategyStats
 }
 
 // ── Configuration ──────────────────────────────────────────────────────
 
 const BUFFER_SIZE = 20
 
+/** Foil decisions kept — one per confirmed card, so a longer history fits. */
+const FOIL_BUFFER_SIZE = 100
+
 // ── Singleton state ────────────────────────────────────────────────────
 
 let buffer: FrameSnapshot[] = []
+let foilBuffer: FoilDecision[] = []
 let frameCounter = 0
 let mutexLocked = false
 let queueDepth = 0
+let strategyStats = emptyStrategyStats()
 
 // ── Listeners (for React subscriptions) ────────────────────────────────
 
@@ -87,7 +128,19 @@ export function recordFrame(snapshot: Omit<FrameSnapshot, 'timestamp' | 'frameId
   if (buffer.length > BUFFER_SIZE) {
     buffer = buffer.slice(-BUFFER_SIZE)
   }
+  if (snapshot.ocrStrategy) {
+    strategyStats = recordStrategyRead(strategyStats, snapshot.ocrStrategy, snapshot.parsedCn !== null)
+  }
+
+  notify()
+}
 
+/** Record the foil guess for a confirmed card alongside the variant the user picked. */
+export function recordFoilDecision(decision: Omit<FoilDecision, 'timestamp'>): void {
+  foilBuffer.push({ ...decision, timestamp: new Date().toISOString() })
+  if (foilBuffer.length > FOIL_BUFFER_SIZE) {
+    foilBuffer = foilBuffer.slice(-FOIL_BUFFER_SIZE)
+  }
   notify()
 }
 
@@ -124,21 +177,26 @@ export function getState(): TelemetryState {
 
   return {
     frames,
+    foilDecisions: [...foilBuffer],
     mutexLocked,
     queueDepth,
     totalFrames: frameCounter,
     avgLatencyMs: Math.round(avg),
     peakLatencyMs: Math.round(peak),
     currentMemoryBytes: getMemoryUsage(),
+    mainThreadMs: averageMainThreadMs(frames),
+    ocrStrategies: strategyStats,
   }
 }
 
 /** Reset all telemetry state (call when scanner closes). */
 export function resetTelemetry(): void {
   buffer = []
+  foilBuffer = []
   frameCounter = 0
   mutexLocked = false
   queueDepth = 0
+  strategyStats = emptyStrategyStats()
   notify()
 }
 
@@ -152,13 +210,32 @@ export function exportDiagnostics(): string {
       avgLatencyMs: state.avgLatencyMs,
       peakLatencyMs: state.peakLatencyMs,
       currentMemoryMB: (state.currentMemoryBytes / (1024 * 1024)).toFixed(1),
+      mainThreadMs: state.mainThreadMs,
+      ocrStrategies: state.ocrStrategies,
     },
     recentFrames: state.frames,
+    foilDecisions: state.foilDecisions,
   }, null, 2)
 }
 
 // ── Internals ──────────────────────────────────────────────────────────
 
+/** Mean main-thread time of the frames each pipeline handled, so the two can be compared. */
+function averageMainThreadMs(frames: FrameSnapshot[]): Partial<Record<FramePipeline, number>> {
+  const totals: Partial<Record<FramePipeline, { sum: number; count: number }>> = {}
+  for (const frame of frames) {
+    if (frame.pipeline === undefined || frame.mainThreadMs === undefined) continue
+    const total = (totals[frame.pipeline] ??= { sum: 0, count: 0 })
+    total.sum += frame.mainThreadMs
+    total.count++
+  }
+  const averages: Partial<Record<FramePipeline, number>> = {}
+  for (const [pipeline, total] of Object.entries(totals) as [FramePipeline, { sum: number; count: number }][]) {
+    averages[pipeline] = +(total.sum / total.count).toFixed(1)
+  }
+  return averages
+}
+
 function getMemoryUsage(): number {
   // performance.memory is Chrome-only (non-standard)
   const perf = performance as Performance & {
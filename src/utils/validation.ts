@@ -1,4 +1,6 @@
-import type { Pull } from '../types'
+import type { Pack, Pull } from '../types'
+import { packTemplateFor } from '../constants'
+import { isFoilVariant } from './variants'
 
 const VALID_SETS: Record<string, 1> = {
   '1': 1, '2': 1, '3': 1, '4': 1, '5': 1,
@@ -6,20 +8,99 @@ const VALID_SETS: Record<string, 1> = {
   P1: 1, P2: 1, cp: 1, D23: 1,
 }
 
-export function validatePulls(pullsList: Pull[]): string[] {
+/** Sanity-check one set code / collector number pair. */
+export function validateCardRef(setCode: string, cn: string, label: string): string[] {
   const warnings: string[] = []
-  pullsList.forEach((p) => {
-    if (!VALID_SETS[p.card.setCode]) {
-      warnings.push(
-        'Unknown set code "' + p.card.setCode + '" for ' + p.card.display,
-      )
-    }
-    const cn = parseInt(p.card.cn)
-    if (isNaN(cn) || cn < 1 || cn > 300) {
+  if (!VALID_SETS[setCode]) {
+    warnings.push('Unknown set code "' + setCode + '" for ' + label)
+  }
+  const n = parseInt(cn)
+  if (isNaN(n) || n < 1 || n > 300) {
+    warnings.push('Unusual collector number "' + cn + '" for ' + label)
+  }
+  return warnings
+}
+
+const plural = (n: number, label: string) => n + ' ' + label + (n === 1 ? '' : 's')
+
+/**
+ * Check one pack against its set's slot template. Overfull slots are flagged
+ * straight away; missing cards only once the pack is closed.
+ */
+export function validatePack(pack: Pack, pullsByKey: Record<string, Pull>): string[] {
+  const copies = pack.cards.map((key) => pullsByKey[key]).filter((p): p is Pull => !!p)
+  if (copies.length === 0) return []
+  const warnings: string[] = []
+
+  const setCounts: Record<string, number> = {}
+  copies.forEach((p) => {
+    setCounts[p.card.setCode] = (setCounts[p.card.setCode] ?? 0) + 1
+  })
+  const sets = Object.keys(setCounts).sort((a, b) => setCounts[b]! - setCounts[a]!)
+  if (sets.length > 1) warnings.push('Mixes cards from sets ' + sets.join(', '))
+
+  const template = packTemplateFor(sets[0]!)
+  if (!template) return warnings
+
+  const complete = pack.closedAt !== null
+  if (copies.length > template.size) {
+    warnings.push('Has ' + copies.length + ' cards (a pack holds ' + template.size + ')')
+  } else if (complete && copies.length < template.size) {
+    warnings.push('Closed with ' + copies.length + ' of ' + template.size + ' cards')
+  }
+
+  // Enchanted cards only come as foils, so they count towards the foil slot
+  const isFoil = (p: Pull) => isFoilVariant(p.variant) || p.card.rarity === 'Enchanted'
+  const regular = copies.filter((p) => !isFoil(p))
+  const foils = copies.length - regular.length
+
+  template.slots.forEach((slot) => {
+    const found = slot.foil ? foils : regular.filter((p) => slot.rarities.includes(p.card.rarity)).length
+    if (found > slot.count) {
+      warnings.push('Has ' + plural(found, slot.label) + ' (a pack has ' + slot.count + ')')
+    } else if (complete && copies.length === template.size && found < slot.count) {
       warnings.push(
-        'Unusual collector number "' + p.card.cn + '" for ' + p.card.display,
+        found === 0
+          ? 'Has no ' + slot.label
+          : 'Has only ' + plural(found, slot.label) + ' (expected ' + slot.count + ')',
       )
     }
   })
+
+  const slotted = new Set(template.slots.flatMap((s) => s.rarities))
+  regular
+    .filter((p) => !slotted.has(p.card.rarity))
+    .forEach((p) => warnings.push(p.card.display + ' (' + p.card.rarity + ') logged as non-foil'))
+
+  Object.entries(template.maxPerRarity).forEach(([rarity, max]) => {
+    const found = copies.filter((p) => p.card.rarity === rarity).length
+    if (found > max) warnings.push('Has ' + found + ' ' + rarity + ' cards (at most ' + max + ')')
+  })
+
+  return warnings
+}
+
+/** Composition warnings for every pack that has any, keyed by pack number. */
+export function validatePacks(packs: Pack[], pullsList: Pull[]): Record<number, string[]> {
+  const byKey: Record<string, Pull> = {}
+  pullsList.forEach((p) => {
+    byKey[p.key] = p
+  })
+  const result: Record<number, string[]> = {}
+  packs.forEach((pack) => {
+    const warnings = validatePack(pack, byKey)
+    if (warnings.length > 0) result[pack.number] = warnings
+  })
+  return result
+}
+
+export function validatePulls(pullsList: Pull[], packs: Pack[] = []): string[] {
+  const warnings: string[] = []
+  pullsList.forEach((p) => {
+    warnings.push(...validateCardRef(p.card.setCode, p.card.cn, p.card.display))
+  })
+  Object.entries(validatePacks(packs, pullsList)).forEach(([n, packWarnings]) => {
+    packWarnings.forEach((w) => warnings.push('Pack ' + n + ': ' + w))
+  })
   return warnings
 }
@@ -0,0 +1,85 @@
+import type { CardCondition, CardGrade, CardVariant, VariantDetails } from '../types'
+import { CARD_CONDITIONS, CARD_VARIANTS, FOIL_VARIANTS, GRADING_COMPANIES, VARIANT_LABELS } from '../constants'
+
+/** Whether the variant has a foil finish. */
+export function isFoilVariant(variant: CardVariant): boolean {
+  return FOIL_VARIANTS.includes(variant)
+}
+
+/** Details with the empty fields dropped, or undefined when nothing is left. */
+export function cleanDetails(details: VariantDetails | undefined): VariantDetails | undefined {
+  if (!details) return undefined
+  const clean: VariantDetails = {
+    ...(details.grade ? { grade: details.grade } : {}),
+    ...(details.signed ? { signed: true } : {}),
+  }
+  return Object.keys(clean).length > 0 ? clean : undefined
+}
+
+/**
+ * The variant part of a pull key: the variant alone, so plain normal and foil
+ * keys are the ones stored before details existed, then "-psa10" and
+ * "-signed" for whichever details are set.
+ */
+export function variantKey(variant: CardVariant, details?: VariantDetails): string {
+  const parts: string[] = [variant]
+  if (details?.grade) parts.push((details.grade.company + details.grade.grade).toLowerCase())
+  if (details?.signed) parts.push('signed')
+  return parts.join('-')
+}
+
+/** "PSA 10" */
+export function gradeLabel(grade: CardGrade): string {
+  return grade.company + ' ' + grade.grade
+}
+
+/** The details on their own, e.g. "PSA 10 · Signed", or '' when there are none. */
+export function detailsLabel(details: VariantDetails | undefined): string {
+  const parts: string[] = []
+  if (details?.grade) parts.push(gradeLabel(details.grade))
+  if (details?.signed) parts.push('Signed')
+  return parts.join(' · ')
+}
+
+/** "Cold Foil · PSA 10 · Signed" — the variant name, then any details. */
+export function variantLabel(variant: CardVariant, details?: VariantDetails): string {
+  return [VARIANT_LABELS[variant], detailsLabel(details)].filter(Boolean).join(' · ')
+}
+
+/**
+ * What to show next to a copy's name: the variant label, without "Normal" —
+ * '' for a plain normal copy.
+ */
+export function copyLabel(variant: CardVariant, details?: VariantDetails): string {
+  return variant === 'normal' ? detailsLabel(details) : variantLabel(variant, details)
+}
+
+/** A variant as written in a file ("Foil", "cold foil", "cold_foil"), or null. */
+export function parseVariant(text: string): CardVariant | null {
+  const id = text.trim().toLowerCase().replace(/[\s_]+/g, '-')
+  return CARD_VARIANTS.find((v) => v === id || v.replace('-', '') === id) ?? null
+}
+
+/** A condition code ("NM", "lp"), or null. */
+export function parseCondition(text: string): CardCondition | null {
+  const code = text.trim().toUpperCase()
+  return CARD_CONDITIONS.find((c) => c === code) ?? null
+}
+
+/** A grade like "PSA 10" or "bgs9.5" — whole or half grades from 1 to 10 — or null. */
+export function parseGrade(text: string): CardGrade | null {
+  const m = text.trim().toUpperCase().match(/^([A-Z]+)\s*(\d{1,2}(?:\.5)?)$/)
+  if (!m) return null
+  const company = GRADING_COMPANIES.find((c) => c === m[1])
+  const value = Number(m[2])
+  if (!company || value < 1 || value > 10) return null
+  return { company, grade: m[2]! }
+}
+
+/** A yes/no cell: true, false, or null when it is neither. Blank is no. */
+export function parseSigned(text: string): boolean | null {
+  const value = text.trim().toLowerCase()
+  if (['', 'no', 'n', 'false', '0'].includes(value)) return false
+  if (['yes', 'y', 'true', '1', 'signed'].includes(value)) return true
+  return null
+}